@@ -4,6 +4,15 @@ import { SensorSphere } from './src/sensors/SensorSphere';
 import { Sensor } from './src/sensors/Sensor';
 import { Vector3 } from './src/core/Vector3';
 import { Logger } from './src/core/Logger';
+import { IntegratorType, createIntegrator } from './src/core/Integrator';
+import { Random } from './src/core/Random';
+import {
+  GravityForceProvider,
+  CoulombForceProvider,
+  LorentzForceProvider,
+  DampingForceProvider,
+} from './src/forces/ForceProviders';
+import { BroadphaseType } from './src/utils/broadphase';
 
 // Import Three.js and OrbitControls from three-stdlib.
 import * as THREE from 'three';
@@ -70,13 +79,19 @@ overlay?.appendChild(networkDebugOverlay);
 // Simulation Engine Setup
 // =====================
 
+// Seed each page load differently; the seed is shown in the GUI and recorded in the
+// run log, so any run can be replayed with new Random(seed).
+const random = new Random(Date.now() >>> 0);
+
 // For this demo, we are using a single sensor sphere (the container).
 const sensorSpheres: SensorSphere[] = [];
 const containerSphere = new SensorSphere(
   'Container',
   new Vector3(0, 0, 0),
   7,
-  50
+  50,
+  undefined,
+  random.split('Container')
 );
 sensorSpheres.push(containerSphere);
 
@@ -94,17 +109,28 @@ if (containerSphere.sensors.length >= 2) {
 const allSensors: Sensor[] = containerSphere.sensors.slice();
 
 // Initialize the SimulationEngine with the aggregated sensors and sensor spheres.
-const engine = new SimulationEngine(allSensors, sensorSpheres, 0.05);
-
-// Update the engine's update loop to re-aggregate sensors after each update.
-const originalUpdate = engine.update.bind(engine);
-engine.update = function () {
-  originalUpdate();
-  this['sensors'] = this.sensorSpheres.reduce(
-    (acc: Sensor[], sphere: SensorSphere) => acc.concat(sphere.sensors),
-    []
-  );
-  // Update the charge overlay with the container's average charge and color.
+const engine = new SimulationEngine(
+  allSensors,
+  sensorSpheres,
+  0.05,
+  undefined,
+  random
+);
+
+// Use the spatial-hash broadphase so sensor collisions scale to large sensor counts.
+engine.broadphase = BroadphaseType.UNIFORM_GRID;
+
+// Register the physics force providers. Coulomb forces between the demo's ±5 C
+// sensors are very strong, so that provider starts disabled.
+engine.addForceProvider(new GravityForceProvider());
+const coulombProvider = new CoulombForceProvider();
+coulombProvider.enabled = false;
+engine.addForceProvider(coulombProvider);
+engine.addForceProvider(new LorentzForceProvider());
+engine.addForceProvider(new DampingForceProvider(0.05));
+
+// Update the charge overlay with the container's average charge and color.
+function updateChargeDisplay(): void {
   const avgCharge = (containerSphere as any)['computeAverageCharge']();
   (
     document.getElementById('chargeDisplay') as HTMLElement
@@ -114,7 +140,7 @@ engine.update = function () {
   const debugSummary = Logger.getRunLogSummary();
   // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
   document.getElementById('chargeDisplay')!.innerText += ` | ${debugSummary}`;
-};
+}
 
 // Expose key objects for integration/testing.
 (window as any).engine = engine;
@@ -132,7 +158,20 @@ simFolder
   .onChange((value: number) => {
     engine.deltaTime = value;
   });
+simFolder.add(engine, 'timeScale', 0, 4).name('Time Scale');
+simFolder.add(engine, 'maxSubsteps', 1, 32, 1).name('Max Substeps');
 simFolder.add(engine, 'globalTime').name('Global Time').listen();
+simFolder.add(engine.random, 'seed').name('Random Seed').disable();
+const integratorControls = { integrator: engine.integrator.type };
+simFolder
+  .add(integratorControls, 'integrator', Object.values(IntegratorType))
+  .name('Integrator')
+  .onChange((type: IntegratorType) => {
+    engine.integrator = createIntegrator(type);
+  });
+simFolder
+  .add(engine, 'broadphase', Object.values(BroadphaseType))
+  .name('Broadphase');
 simFolder.open();
 
 const engineControls = {
@@ -165,6 +204,24 @@ controlFolder
 controlFolder.add(engine, 'resetAndRestart').name('Reset & Restart'); // Toggle for reset behavior.
 controlFolder.open();
 
+// List the registered force providers with runtime enable/weight controls.
+const forceFolder = gui.addFolder('Force Providers');
+engine.getForceProviders().forEach(provider => {
+  forceFolder
+    .add(provider, 'enabled')
+    .name(provider.name)
+    .onChange((enabled: boolean) => {
+      engine.setForceProviderEnabled(provider.name, enabled);
+    });
+  forceFolder
+    .add(provider, 'weight', 0, 10)
+    .name(`${provider.name} weight`)
+    .onChange((weight: number) => {
+      engine.setForceProviderWeight(provider.name, weight);
+    });
+});
+forceFolder.open();
+
 // =====================
 // Visual Representation: Sensor Meshes
 // =====================
@@ -227,20 +284,23 @@ const sphereNetwork = {
   getSpheres: () => sensorSpheres,
 };
 
-// In the animation loop, update the debug overlay.
-function animate(): void {
+// In the animation loop, advance the engine by the real time since the previous frame,
+// then render every body between its last two states.
+let lastFrameTime: number | null = null;
+function animate(frameTime: number = performance.now()): void {
   requestAnimationFrame(animate);
-  engine.update();
-
-  // Update sensor mesh positions.
-  allSensors.forEach(sensor => {
+  const elapsed =
+    lastFrameTime === null ? 0 : (frameTime - lastFrameTime) / 1000;
+  lastFrameTime = frameTime;
+  if (engine.advance(elapsed) > 0) updateChargeDisplay();
+
+  // Update sensor mesh positions. Reset and time reversal can replace the engine's
+  // sensors, so look them up by id every frame.
+  engine.getSensors().forEach(sensor => {
     const meshEntry = sensorMeshes.find(s => s.id === sensor.id);
     if (meshEntry) {
-      meshEntry.mesh.position.set(
-        sensor.position.x,
-        sensor.position.y,
-        sensor.position.z
-      );
+      const position = engine.getInterpolatedPosition(sensor);
+      meshEntry.mesh.position.set(position.x, position.y, position.z);
     }
   });
 
@@ -248,11 +308,8 @@ function animate(): void {
   sensorSphereMeshes.forEach(entry => {
     const sphereSim = sensorSpheres.find(s => s.id === entry.id);
     if (sphereSim) {
-      entry.mesh.position.set(
-        sphereSim.center.x,
-        sphereSim.center.y,
-        sphereSim.center.z
-      );
+      const center = engine.getInterpolatedPosition(sphereSim);
+      entry.mesh.position.set(center.x, center.y, center.z);
       (entry.mesh.material as THREE.MeshBasicMaterial).color.set(
         sphereSim.color
       );
@@ -282,7 +339,8 @@ animate();
 // =====================
 const startButton = document.getElementById('start');
 if (startButton) {
-  startButton.addEventListener('click', () => engine.start());
+  // The animation loop drives the engine, so it does not schedule its own ticks.
+  startButton.addEventListener('click', () => engine.start(false));
 }
 
 const pauseButton = document.getElementById('pause');
@@ -4,6 +4,74 @@ import { Logger } from './core/Logger';
 import { SensorSphereNetwork } from './sensors/SensorSphereNetwork';
 import { Constants } from './core/Constants';
 import { Vector3 } from './core/Vector3';
+import {
+  BodyState,
+  Integrator,
+  DEFAULT_INTEGRATOR,
+  createIntegrator,
+} from './core/Integrator';
+import { Random } from './core/Random';
+import { AdaptiveStepper, StepControl } from './core/AdaptiveStepper';
+import { ForceProvider } from './forces/ForceProvider';
+import {
+  BroadphaseType,
+  collisionRadius,
+  findCandidatePairs,
+  forEachCandidatePair,
+} from './utils/broadphase';
+import {
+  SNAPSHOT_VERSION,
+  adaptiveStepperFromSnapshot,
+  adaptiveStepperToSnapshot,
+  boundaryFromSnapshot,
+  boundaryToSnapshot,
+  captureWorld,
+  restoreWorld,
+  communicationToSnapshot,
+  restoreCommunication,
+  serializeRandom,
+  deserializeRandom,
+  validateSnapshot,
+} from './utils/snapshot';
+import { SimulationSnapshot } from './utils/snapshotTypes';
+import { RingBuffer } from './utils/ringBuffer';
+import { resolveCollision } from './utils/collisionResponse';
+import {
+  confineSensor,
+  confineSphere,
+  reflectOffWall,
+} from './utils/containment';
+import { Boundary } from './utils/boundaries';
+import { SensorState } from './sensors/SensorState';
+import { FaultInjector } from './sensors/FaultInjector';
+import { SensorNetworkLattice } from './sensors/SensorNetworkLattice';
+import { NeighborGraph } from './sensors/NeighborGraph';
+import { CommunicationNetwork } from './sensors/CommunicationNetwork';
+import {
+  CollisionStrategy,
+  penaltyContactForce,
+} from './utils/collisionAlternatives';
+import {
+  boundaryTimeOfImpact,
+  sweptSphereTimeOfImpact,
+} from './utils/continuousCollision';
+
+/**
+ * A snapshot in the time-reversal history, tagged with the step count it was taken at.
+ */
+interface Checkpoint {
+  step: number;
+  snapshot: SimulationSnapshot;
+}
+
+/**
+ * How an adaptive step was chosen, as recorded in its 'timeStep' run-log event.
+ */
+interface AdaptiveStepReport {
+  timeStep: number;
+  errorEstimate?: number;
+  rejectedSteps?: number;
+}
 
 /**
  * SimulationEngine orchestrates the simulation by updating sensors and sensor spheres,
@@ -14,17 +82,55 @@ export class SimulationEngine {
   private sensors: Sensor[];
   private sensorSpheres: SensorSphere[];
   private sphereNetwork = new SensorSphereNetwork();
+  private lattices: SensorNetworkLattice[] = [];
+  private forceProviders: ForceProvider[] = [];
   public deltaTime: number; // Time step in seconds.
+  public integrator: Integrator; // Numerical scheme used to advance sensors and spheres.
+  public broadphase: BroadphaseType = BroadphaseType.BRUTE_FORCE; // Candidate-pair search for sensor collisions.
+  public collisionStrategy: CollisionStrategy = CollisionStrategy.IMPULSE; // Response to overlapping sensors.
+  public contactStiffness: number = Constants.DEFAULT_CONTACT_STIFFNESS; // Penalty-contact spring constant (N/m).
+  public contactDamping: number = Constants.DEFAULT_CONTACT_DAMPING; // Penalty-contact damping (N·s/m).
+  public continuousCollisionDetection: boolean = true; // Sweep impulse contacts between steps to stop tunnelling.
+  public positionCorrection: number = Constants.DEFAULT_POSITION_CORRECTION; // Fraction of sensor overlap removed per step.
+  public readonly random: Random; // Root random stream; its seed is recorded in the run log.
+  public adaptiveStepper: AdaptiveStepper | null = null; // When set, chooses deltaTime for every forward step.
+  public boundary: Boundary | null = null; // Domain boundary for loose sensors; replaces the root container when set.
+  public faultInjector: FaultInjector | null = null; // When set, breaks sensors and spheres on its schedule.
+  public neighborGraph: NeighborGraph | null = null; // When set, rewires Sensor.neighbors as sensors move.
+  public communication: CommunicationNetwork | null = null; // When set, carries messages between sensors.
+  private randomizeStream: Random;
   public globalTime: number;
   private running: boolean;
   private timeReversed: boolean;
   public resetAndRestart: boolean = true;
 
-  private initialSensorsState: Sensor[];
-  private initialSensorSpheresState: SensorSphere[];
+  private initialSnapshot: SimulationSnapshot;
+
+  // Time-reversal history. Steps are numbered from the start of the run; a step is
+  // "irreversible" if it cannot be undone exactly by the reversible integrator and must
+  // instead be recovered from a checkpoint.
+  public checkpointInterval: number = Constants.DEFAULT_CHECKPOINT_INTERVAL; // Steps between checkpoints.
+  private history = new RingBuffer<Checkpoint>(
+    Constants.DEFAULT_HISTORY_CAPACITY
+  );
+  private stepCount = 0;
+  private irreversibleSteps = new Set<number>();
+  private exactHistoryStart = 0; // Earliest step that can still be rewound exactly.
   private loopTimeoutId: ReturnType<typeof setTimeout> | null = null;
 
-  // Designated container: we'll use the first sensor sphere if available.
+  // Real-time driving. Wall-clock time, scaled by timeScale, accumulates until it covers
+  // whole steps of deltaTime; the leftover fraction is the interpolation alpha.
+  public timeScale: number = 1; // Simulated seconds per real second.
+  public maxSubsteps: number = Constants.DEFAULT_MAX_SUBSTEPS; // Cap on steps per advance().
+  private accumulator = 0;
+  private interpolationAlpha = 0;
+  private previousPositions = new Map<Sensor | SensorSphere, Vector3>();
+  private penaltyContacts = new Set<string>(); // Sensor pairs in soft contact, by id.
+  private selfDriven = true;
+  private lastTickTime: number | null = null;
+
+  // Root container: bounds the sensors that no sphere holds. Defaults to the first sensor
+  // sphere; spheres are bounded by their own parents (see SensorSphere.setParent).
   public container: SensorSphere | null;
 
   /**
@@ -32,12 +138,16 @@ export class SimulationEngine {
    * @param sensors - Array of sensors in the simulation.
    * @param sensorSpheres - Array of sensor spheres.
    * @param deltaTime - Time step for updates in seconds (must be > 0).
+   * @param integrator - Numerical integrator for sensors and spheres (default: semi-implicit Euler).
+   * @param random - Root random stream for the engine's stochastic operations (default seed: Constants.DEFAULT_RANDOM_SEED).
    * @throws Error if deltaTime is not greater than zero.
    */
   constructor(
     sensors: Sensor[] = [],
     sensorSpheres: SensorSphere[] = [],
-    deltaTime: number = Constants.DEFAULT_TIME_STEP
+    deltaTime: number = Constants.DEFAULT_TIME_STEP,
+    integrator: Integrator = DEFAULT_INTEGRATOR,
+    random: Random = new Random()
   ) {
     if (deltaTime <= 0) {
       throw new Error('Delta time must be greater than zero.');
@@ -45,27 +155,148 @@ export class SimulationEngine {
     this.sensors = sensors;
     this.sensorSpheres = sensorSpheres;
     this.deltaTime = deltaTime;
+    this.integrator = integrator;
+    this.random = random;
+    this.randomizeStream = random.split('randomize');
     this.globalTime = 0;
     this.running = false;
     this.timeReversed = false;
     this.container = sensorSpheres.length > 0 ? sensorSpheres[0] : null;
 
-    // Save initial state snapshots for reset functionality.
-    this.initialSensorsState = sensors.map(s => this.cloneSensor(s));
-    this.initialSensorSpheresState = sensorSpheres.map(ss =>
-      this.cloneSensorSphere(ss)
+    sensorSpheres.forEach(s => this.sphereNetwork.addSphere(s));
+
+    // Save the initial state for reset functionality.
+    this.initialSnapshot = this.saveSnapshot();
+  }
+
+  /**
+   * Creates an engine from a snapshot produced by saveSnapshot(). The engine starts paused,
+   * and reset() returns it to the snapshot's state. Force providers are not part of a
+   * snapshot and must be registered again.
+   * @param snapshot - The snapshot, either as an object or as a JSON string.
+   * @returns A new engine in exactly the saved state.
+   * @throws Error if the snapshot does not match the schema.
+   */
+  public static fromSnapshot(
+    snapshot: SimulationSnapshot | string
+  ): SimulationEngine {
+    const data = validateSnapshot(
+      typeof snapshot === 'string' ? JSON.parse(snapshot) : snapshot
+    );
+    const engine = new SimulationEngine(
+      [],
+      [],
+      data.time.deltaTime,
+      createIntegrator(data.engine.integrator),
+      deserializeRandom(data.engine.random)
     );
+    engine.broadphase = data.engine.broadphase;
+    engine.collisionStrategy = data.engine.collisionStrategy;
+    engine.contactStiffness = data.engine.contactStiffness;
+    engine.contactDamping = data.engine.contactDamping;
+    engine.positionCorrection = data.engine.positionCorrection;
+    engine.continuousCollisionDetection =
+      data.engine.continuousCollisionDetection;
+    engine.sphereNetwork.restitution = data.engine.sphereRestitution;
+    engine.sphereNetwork.accretion = data.engine.accretion;
+    engine.boundary = data.engine.boundary
+      ? boundaryFromSnapshot(data.engine.boundary)
+      : null;
+    engine.resetAndRestart = data.engine.resetAndRestart;
+    engine.adaptiveStepper = data.engine.adaptiveStepper
+      ? adaptiveStepperFromSnapshot(data.engine.adaptiveStepper)
+      : null;
+    engine.faultInjector = data.engine.faultInjector
+      ? FaultInjector.fromSchedule(data.engine.faultInjector)
+      : null;
+    engine.neighborGraph = data.engine.neighborGraph
+      ? new NeighborGraph(data.engine.neighborGraph)
+      : null;
+    // The loss stream is restored with the traffic.
+    engine.communication = data.engine.communication
+      ? new CommunicationNetwork(data.engine.communication, new Random())
+      : null;
+    engine.restoreSnapshot(data);
+    engine.initialSnapshot = data;
+    return engine;
+  }
 
-    sensorSpheres.forEach(s => this.sphereNetwork.addSphere(s));
+  /**
+   * Captures the complete simulation state: engine settings, time, spheres, sensors, the
+   * sphere network, lattices, the traffic of the communication network and the random
+   * streams. The result is plain JSON-serializable data.
+   * @returns The snapshot.
+   */
+  public saveSnapshot(): SimulationSnapshot {
+    const world = captureWorld({
+      sensors: this.sensors,
+      sensorSpheres: this.sensorSpheres,
+      network: this.sphereNetwork.getSpheres(),
+      container: this.container,
+      lattices: this.lattices,
+    });
+    return {
+      version: SNAPSHOT_VERSION,
+      time: {
+        globalTime: this.globalTime,
+        deltaTime: this.deltaTime,
+        timeReversed: this.timeReversed,
+      },
+      engine: {
+        integrator: this.integrator.type,
+        broadphase: this.broadphase,
+        collisionStrategy: this.collisionStrategy,
+        contactStiffness: this.contactStiffness,
+        contactDamping: this.contactDamping,
+        positionCorrection: this.positionCorrection,
+        continuousCollisionDetection: this.continuousCollisionDetection,
+        sphereRestitution: this.sphereNetwork.restitution,
+        accretion: this.sphereNetwork.accretion,
+        boundary: this.boundary ? boundaryToSnapshot(this.boundary) : null,
+        resetAndRestart: this.resetAndRestart,
+        adaptiveStepper: this.adaptiveStepper
+          ? adaptiveStepperToSnapshot(this.adaptiveStepper)
+          : null,
+        faultInjector: this.faultInjector
+          ? this.faultInjector.faults.map(({ spec, time }) => ({
+              spec: { ...spec },
+              time,
+            }))
+          : null,
+        neighborGraph: this.neighborGraph
+          ? { ...this.neighborGraph.options }
+          : null,
+        communication: this.communication
+          ? {
+              ...this.communication.options,
+              sinks: [...(this.communication.options.sinks ?? [])],
+            }
+          : null,
+        random: serializeRandom(this.random),
+        randomizeStream: serializeRandom(this.randomizeStream),
+        ...world.engine,
+      },
+      network: world.network,
+      spheres: world.spheres,
+      sensors: world.sensors,
+      lattices: world.lattices,
+      communication: this.communication
+        ? communicationToSnapshot(this.communication)
+        : null,
+    };
   }
 
   /**
    * Starts the simulation engine.
+   * @param selfDriven - Whether the engine schedules its own ticks with setTimeout (default
+   * true). Pass false when a render loop calls advance() every frame instead.
    */
-  public start(): void {
+  public start(selfDriven: boolean = true): void {
     this.running = true;
+    this.selfDriven = selfDriven;
     Logger.info('Starting simulation engine.', 'SimulationEngine.start');
-    this.loop();
+    this.recordSeed();
+    if (selfDriven) this.loop();
   }
 
   /**
@@ -73,6 +304,7 @@ export class SimulationEngine {
    */
   public pause(): void {
     this.running = false;
+    this.lastTickTime = null;
     if (this.loopTimeoutId) {
       clearTimeout(this.loopTimeoutId);
       this.loopTimeoutId = null;
@@ -81,16 +313,21 @@ export class SimulationEngine {
   }
 
   /**
-   * Toggles time reversal. Inverts velocities of sensors and sensor spheres so that the simulation visually rewinds.
+   * Toggles time reversal. Inverts velocities of sensors and sensor spheres; while reversed,
+   * each update() undoes one step exactly (see stepBackward). Switching back to forward
+   * discards history newer than the current step, since the run will be recomputed.
    */
   public toggleTimeReversal(): void {
     this.timeReversed = !this.timeReversed;
-    this.sensors.forEach(sensor => {
-      sensor.velocity = sensor.velocity.multiplyScalar(-1);
-    });
-    this.sensorSpheres.forEach(sphere => {
-      sphere.velocity = sphere.velocity.multiplyScalar(-1);
-    });
+    this.negateVelocities();
+    if (!this.timeReversed) {
+      while ((this.history.peek()?.step ?? -Infinity) > this.stepCount) {
+        this.history.pop();
+      }
+      this.irreversibleSteps.forEach(step => {
+        if (step >= this.stepCount) this.irreversibleSteps.delete(step);
+      });
+    }
     Logger.info(
       `Time reversal toggled. Now ${
         this.timeReversed ? 'reversed' : 'forward'
@@ -108,23 +345,24 @@ export class SimulationEngine {
     // Stop the simulation loop first.
     this.pause();
 
-    // Re-clone sensors and sensor spheres from their initial snapshots.
-    this.sensors = this.initialSensorsState.map(s => this.cloneSensor(s));
-    this.sensorSpheres = this.initialSensorSpheresState.map(ss =>
-      this.cloneSensorSphere(ss)
-    );
-
-    // Re-establish the container.
-    this.container =
-      this.sensorSpheres.length > 0 ? this.sensorSpheres[0] : null;
+    // Rebuild sensors, spheres, time and random streams from the initial snapshot.
+    this.restoreSnapshot(this.initialSnapshot);
+    this.restoreAdaptiveStep(this.initialSnapshot);
+    this.clearHistory();
+    this.accumulator = 0;
+    this.interpolationAlpha = 0;
+    this.previousPositions.clear();
 
     if (this.resetAndRestart) {
       // Immediately mark the simulation as running.
       this.running = true;
+      this.recordSeed();
       // Schedule the simulation loop to resume on the next tick.
-      setTimeout(() => {
-        this.loop();
-      }, 0);
+      if (this.selfDriven) {
+        setTimeout(() => {
+          this.loop();
+        }, 0);
+      }
       Logger.info(
         'Simulation has been reset and restarted.',
         'SimulationEngine.reset'
@@ -136,56 +374,259 @@ export class SimulationEngine {
         'SimulationEngine.reset'
       );
     }
-
-    // Reset global time.
-    this.globalTime = 0;
   }
 
   /**
-   * Randomizes sensor positions and velocities.
+   * Randomizes sensor positions and velocities using the engine's 'randomize' stream.
    */
   public randomize(): void {
+    const random = this.randomizeStream;
     this.sensors.forEach(sensor => {
       sensor.position = new Vector3(
-        Math.random() * 10 - 5,
-        Math.random() * 10 - 5,
-        Math.random() * 10 - 5
+        random.nextRange(-5, 5),
+        random.nextRange(-5, 5),
+        random.nextRange(-5, 5)
       );
       sensor.velocity = new Vector3(
-        Math.random() * 2 - 1,
-        Math.random() * 2 - 1,
-        Math.random() * 2 - 1
+        random.nextRange(-1, 1),
+        random.nextRange(-1, 1),
+        random.nextRange(-1, 1)
       );
     });
     Logger.info('Sensors have been randomized.', 'SimulationEngine.randomize');
   }
 
   /**
-   * Updates the simulation by one time step.
-   * Global time is updated based on time reversal mode.
-   * Sensors and sensor spheres are updated, collision handling is processed, and container boundaries enforced.
+   * Updates the simulation by one time step if the engine is running.
    * @throws Error if deltaTime <= 0.
    */
   public update(): void {
     if (!this.running) return;
+    this.step();
+  }
+
+  /**
+   * Advances the simulation by a number of time steps whether or not the engine is
+   * running: forward normally, or undoing previous steps while time is reversed. Use this
+   * to drive the engine without the real-time loop (e.g. from a headless batch run).
+   * @param count - The number of steps (default 1).
+   * @throws Error if count is not a non-negative integer or deltaTime <= 0.
+   */
+  public step(count: number = 1): void {
+    if (!Number.isInteger(count) || count < 0) {
+      throw new Error('Step count must be a non-negative integer.');
+    }
     if (this.deltaTime <= 0) {
       throw new Error('Delta time must be greater than zero.');
     }
+    for (let i = 0; i < count; i++) {
+      if (this.timeReversed) {
+        this.stepBackward();
+      } else {
+        this.stepForward(true);
+      }
+    }
+    Logger.debug(
+      `Simulation time: ${this.globalTime.toFixed(3)} s`,
+      'SimulationEngine.step'
+    );
+  }
+
+  /**
+   * Advances a running engine by an interval of real time using a fixed-timestep
+   * accumulator. The interval is scaled by timeScale and added to the accumulator, and
+   * as many whole steps of deltaTime as it covers are taken, up to maxSubsteps. Time
+   * beyond the cap is dropped. The leftover fraction of a step is available as
+   * getInterpolationAlpha() for rendering between the last two states. With an adaptive
+   * stepper, steps are taken while the accumulator covers the next proposed step.
+   * @param realSeconds - Real time elapsed since the previous call, in seconds.
+   * @returns The number of steps taken.
+   * @throws Error if realSeconds or timeScale is negative or not finite, or maxSubsteps
+   * is not a positive integer.
+   */
+  public advance(realSeconds: number): number {
+    if (!Number.isFinite(realSeconds) || realSeconds < 0) {
+      throw new Error('Elapsed time must be a non-negative finite number.');
+    }
+    if (!Number.isFinite(this.timeScale) || this.timeScale < 0) {
+      throw new Error('Time scale must be a non-negative finite number.');
+    }
+    if (!Number.isInteger(this.maxSubsteps) || this.maxSubsteps <= 0) {
+      throw new Error('Maximum substeps must be a positive integer.');
+    }
+    if (!this.running) return 0;
+    if (this.adaptiveStepper) return this.advanceAdaptively(realSeconds);
+
+    const dt = this.deltaTime;
+    this.accumulator += realSeconds * this.timeScale;
+    // The tolerance keeps rounding (e.g. 0.6 / 0.1 = 5.999…) from losing a step.
+    let steps = Math.floor(this.accumulator / dt + 1e-9);
+    if (steps > this.maxSubsteps) {
+      Logger.debug(
+        `Dropping ${((steps - this.maxSubsteps) * dt).toFixed(
+          3
+        )} s of simulated time to stay within ${this.maxSubsteps} substeps.`,
+        'SimulationEngine.advance'
+      );
+      steps = this.maxSubsteps;
+      this.accumulator = (this.accumulator % dt) + steps * dt;
+    }
+    for (let i = 0; i < steps; i++) {
+      if (i === steps - 1) this.capturePreviousPositions();
+      this.step();
+    }
+    this.accumulator -= steps * dt;
+    this.interpolationAlpha = Math.min(Math.max(this.accumulator / dt, 0), 1);
+    return steps;
+  }
+
+  /**
+   * advance() for an adaptive stepper, whose step size changes from step to step. The
+   * accumulator pays for each step actually taken.
+   */
+  private advanceAdaptively(realSeconds: number): number {
+    this.accumulator += realSeconds * this.timeScale;
+    let steps = 0;
+    // The tolerance keeps rounding from losing a step, as in advance().
+    while (
+      steps < this.maxSubsteps &&
+      this.accumulator >= this.deltaTime * (1 - 1e-9)
+    ) {
+      this.capturePreviousPositions();
+      const before = this.globalTime;
+      this.step();
+      this.accumulator -= Math.abs(this.globalTime - before);
+      steps++;
+    }
+    if (steps === this.maxSubsteps && this.accumulator > this.deltaTime) {
+      Logger.debug(
+        `Dropping ${(this.accumulator - this.deltaTime).toFixed(
+          3
+        )} s of simulated time to stay within ${this.maxSubsteps} substeps.`,
+        'SimulationEngine.advance'
+      );
+      this.accumulator = this.deltaTime;
+    }
+    this.interpolationAlpha = Math.min(
+      Math.max(this.accumulator / this.deltaTime, 0),
+      1
+    );
+    return steps;
+  }
+
+  /**
+   * Returns the fraction of a step, in [0, 1], that real time has run past the latest
+   * state. Renderers blend the previous and latest states by this amount.
+   */
+  public getInterpolationAlpha(): number {
+    return this.interpolationAlpha;
+  }
+
+  /**
+   * Returns a sensor's or sphere's position blended between the state before the latest
+   * step and the latest state by the interpolation alpha. Objects that did not exist
+   * before the latest step are returned at their latest position.
+   * @param body - A sensor or sensor sphere of this engine.
+   * @returns The interpolated position (a sphere's center).
+   */
+  public getInterpolatedPosition(body: Sensor | SensorSphere): Vector3 {
+    const current = body instanceof Sensor ? body.position : body.center;
+    const previous = this.previousPositions.get(body);
+    if (!previous) return current;
+    return previous.add(
+      current.subtract(previous).multiplyScalar(this.interpolationAlpha)
+    );
+  }
+
+  /**
+   * Sets how many checkpoints the time-reversal history keeps. Existing history is discarded.
+   * @param capacity - The maximum number of checkpoints (must be a positive integer).
+   * @throws Error if capacity is not a positive integer.
+   */
+  public setHistoryCapacity(capacity: number): void {
+    this.history = new RingBuffer<Checkpoint>(capacity);
+    this.clearHistory();
+  }
+
+  /**
+   * Advances the simulation by one step.
+   *
+   * When the integrator is reversible and the world holds only free sensors without
+   * vibration, rotation or radiation, sensors are advanced together with force providers
+   * evaluated at the integrator's trial positions, so the step can later be undone
+   * exactly. Otherwise the regular pipeline runs and the step is marked irreversible.
+   * Collision responses and container clamping also mark the step irreversible.
+   * Collisions and mergers between spheres are resolved as soon as the spheres have moved.
+   *
+   * Under the impulse collision strategy, contacts made during the step are found by
+   * continuous collision detection (see resolveContinuousCollisions), then remaining
+   * overlaps get the discrete collision response and positional correction.
+   *
+   * With an adaptive stepper, the step size is chosen first: from the CFL criteria, or by
+   * integrating the sensors with error control, retrying rejected attempts with smaller
+   * steps. The size taken is recorded as a 'timeStep' run-log event, and adaptive steps
+   * are always irreversible.
+   *
+   * @param recordHistory - Whether to save checkpoints and record irreversible steps
+   * (false while replaying from a checkpoint).
+   */
+  private stepForward(recordHistory: boolean): void {
+    const step = this.stepCount;
+    if (
+      recordHistory &&
+      (step % this.checkpointInterval === 0 || this.history.size === 0)
+    ) {
+      this.pushCheckpoint(step);
+    }
+
+    const start = this.sensors.map(sensor => sensor.position);
+    const sphereStart = new Map(
+      this.sensorSpheres.map(sphere => [sphere, sphere.center])
+    );
+    const adaptive = this.adaptiveStepper;
+    let control: AdaptiveStepReport | null = null;
+    if (adaptive?.control === StepControl.CFL) {
+      this.deltaTime = adaptive.cflStep(this.sensors);
+      control = { timeStep: this.deltaTime };
+    } else if (adaptive?.control === StepControl.ERROR) {
+      control = this.integrateSensorsWithErrorControl(adaptive);
+    }
+    const dt = control?.timeStep ?? this.deltaTime;
+    const reversible = adaptive === null && this.canStepReversibly();
 
     // Update inter-sphere interactions.
-    this.sphereNetwork.updateInteractions(this.deltaTime);
+    this.sphereNetwork.updateInteractions(dt);
 
-    // Determine effective time step based on time reversal.
-    const step = this.timeReversed ? -this.deltaTime : this.deltaTime;
-    this.globalTime += step;
-    const dt = Math.abs(step);
+    if (reversible) {
+      this.integrateSensorsReversibly(dt);
+    } else if (adaptive?.control === StepControl.ERROR) {
+      // Sensors were integrated above; only the spheres remain.
+      this.sensorSpheres.forEach(sphere => sphere.update(dt, this.integrator));
+    } else {
+      // Accumulate forces from the registered providers.
+      this.applyForceProviders();
 
-    // Update sensor spheres and sensors.
-    this.sensorSpheres.forEach(sphere => sphere.update(dt));
-    this.sensors.forEach(sensor => sensor.update(dt));
+      // Update sensor spheres and sensors.
+      this.sensorSpheres.forEach(sphere => sphere.update(dt, this.integrator));
+      this.sensors.forEach(sensor => sensor.update(dt, this.integrator));
+    }
+    const stepStart = this.globalTime;
+    this.globalTime += dt;
+    // Sensor states are not retraced either; a step during a transition is kept exactly.
+    let responded = this.advanceSensorStates(dt);
+    this.resolveSphereCollisions();
 
     // Handle collisions and sensor-sphere interactions.
-    this.handleSensorCollisions();
+    const impulses = this.collisionStrategy === CollisionStrategy.IMPULSE;
+    if (
+      impulses &&
+      this.continuousCollisionDetection &&
+      this.resolveContinuousCollisions(start, sphereStart, dt)
+    ) {
+      responded = true;
+    }
+    if (this.handleSensorCollisions()) responded = true;
+    if (impulses && this.correctOverlaps()) responded = true;
 
     for (let i = 0; i < this.sensorSpheres.length; i++) {
       for (let j = i + 1; j < this.sensorSpheres.length; j++) {
@@ -194,25 +635,272 @@ export class SimulationEngine {
       }
     }
 
-    // Enforce container boundaries if a container is defined.
-    if (this.container !== null) {
-      const containerSphere: SensorSphere = this.container;
-      this.sensors.forEach(sensor => {
-        this.handleContainerCollision(sensor, containerSphere);
+    // Keep spheres inside their parents and sensors inside their containers.
+    if (this.enforceContainers()) responded = true;
+
+    // Faults change sensor state that retracing the step would not restore.
+    if (this.injectFaults(stepStart)) responded = true;
+
+    // Neither are the neighbour lists of a rebuilt graph.
+    if (this.updateNeighborGraph(step)) responded = true;
+
+    // Nor is the traffic of the communication network.
+    if (this.deliverMessages()) responded = true;
+
+    // Take the readings that are due. Noise draws cannot be undone by retracing the step.
+    if (this.sampleSensors()) responded = true;
+
+    if (recordHistory && (!reversible || responded)) {
+      this.irreversibleSteps.add(step);
+    }
+    if (recordHistory && control) {
+      Logger.recordEvent({
+        timestamp: Date.now(),
+        event: 'timeStep',
+        sensors: [],
+        ...control,
       });
     }
-    Logger.debug(
-      `Simulation time: ${this.globalTime.toFixed(3)} s`,
-      'SimulationEngine.update'
+    this.stepCount = step + 1;
+  }
+
+  /**
+   * Undoes the previous step. Steps taken by the reversible integrator are retraced by
+   * integrating with the (already negated) velocities; other steps are recovered by
+   * restoring the latest checkpoint at or before them and replaying forward, which is
+   * exact because every step is deterministic. Once the history is exhausted, the engine
+   * falls back to integrating forward with negated velocities, which only approximates
+   * the earlier trajectory.
+   */
+  private stepBackward(): void {
+    const target = this.stepCount - 1;
+    const dt = this.deltaTime;
+
+    if (
+      target >= this.exactHistoryStart &&
+      !this.irreversibleSteps.has(target)
+    ) {
+      // Forces are evaluated at the time the step started, as they were going forward.
+      this.globalTime -= dt;
+      this.integrateSensorsReversibly(dt);
+      this.rewindSamples();
+      this.stepCount = target;
+      return;
+    }
+
+    const checkpoint =
+      target >= this.exactHistoryStart
+        ? this.history
+            .toArray()
+            .reverse()
+            .find(c => c.step <= target)
+        : undefined;
+    if (!checkpoint) {
+      this.stepApproximatelyBackward();
+      return;
+    }
+
+    this.restoreSnapshot(checkpoint.snapshot);
+    this.restoreAdaptiveStep(checkpoint.snapshot);
+    this.stepCount = checkpoint.step;
+    while (this.stepCount < target) {
+      this.stepForward(false);
+    }
+    this.timeReversed = true;
+    this.negateVelocities();
+  }
+
+  /**
+   * Legacy reversal used when no exact history remains: runs the forward pipeline with
+   * negated velocities while counting time down. Collisions, clamping and the integrator
+   * make this inexact, so the remaining history is dropped.
+   */
+  private stepApproximatelyBackward(): void {
+    if (this.history.size > 0 || this.irreversibleSteps.size > 0) {
+      Logger.warn(
+        'Time-reversal history exhausted; continuing with approximate reversal.',
+        'SimulationEngine.stepBackward'
+      );
+    }
+    this.history.clear();
+    this.irreversibleSteps.clear();
+
+    const dt = this.deltaTime;
+    this.sphereNetwork.updateInteractions(dt);
+    this.applyForceProviders();
+    this.sensorSpheres.forEach(sphere => sphere.update(dt, this.integrator));
+    this.sensors.forEach(sensor => sensor.update(dt, this.integrator));
+    this.globalTime -= dt;
+    this.resolveSphereCollisions();
+    this.handleSensorCollisions();
+    this.enforceContainers();
+    this.rewindSamples();
+    this.stepCount--;
+    this.exactHistoryStart = this.stepCount;
+  }
+
+  /**
+   * Returns true if the next step can be taken by the reversible integrator and later
+   * undone exactly: no spheres, no damped penalty contacts, no enabled velocity-dependent
+   * force provider, and no sensor vibrates, rotates, wobbles or radiates.
+   */
+  private canStepReversibly(): boolean {
+    return (
+      this.integrator.reversible &&
+      this.sensorSpheres.length === 0 &&
+      !this.forceProviders.some(
+        provider =>
+          provider.enabled &&
+          provider.weight !== 0 &&
+          provider.velocityDependent
+      ) &&
+      !(
+        this.collisionStrategy === CollisionStrategy.PENALTY &&
+        this.contactDamping > 0
+      ) &&
+      this.sensors.every(
+        sensor =>
+          sensor.vibrationAmplitude.magnitude() === 0 &&
+          sensor.rotationSpeed === 0 &&
+          sensor.wobbleAmplitude === 0 &&
+          sensor.temperature <= 0
+      )
+    );
+  }
+
+  /**
+   * Advances all sensors together with the engine's integrator, evaluating the force
+   * providers at each trial state so the integrator sees position-dependent accelerations.
+   * Accelerations accumulated before the step are added as constants.
+   */
+  private integrateSensorsReversibly(dt: number): void {
+    this.applySensorStates(
+      this.integrator.step(this.sensorStates(), dt, this.sensorAccelerations())
     );
   }
 
   /**
-   * The main simulation loop. For smoother visuals, consider replacing setTimeout with requestAnimationFrame.
+   * Advances all sensors like integrateSensorsReversibly, but with the stepper's
+   * error-estimating integrator, starting from the proposed deltaTime. An attempt whose
+   * scaled error exceeds 1 is discarded and retried with a smaller step; at minStep the
+   * attempt is accepted regardless. deltaTime is set to the proposal for the next step.
+   * @returns The step taken, its error norm and the number of rejected attempts.
+   */
+  private integrateSensorsWithErrorControl(
+    stepper: AdaptiveStepper
+  ): AdaptiveStepReport {
+    const states = this.sensorStates();
+    const evaluate = this.sensorAccelerations();
+    let dt = stepper.clamp(this.deltaTime);
+    for (let rejected = 0; ; rejected++) {
+      const result = stepper.integrator.stepWithError(states, dt, evaluate);
+      const error = stepper.errorNorm(states, result.states, result.errors);
+      if (error <= 1 || dt <= stepper.minStep) {
+        this.applySensorStates(result.states);
+        this.sensors.forEach(sensor => sensor.updateBehaviors(dt));
+        this.deltaTime = stepper.nextStep(dt, error);
+        return { timeStep: dt, errorEstimate: error, rejectedSteps: rejected };
+      }
+      dt = stepper.nextStep(dt, error);
+    }
+  }
+
+  private sensorStates(): BodyState[] {
+    return this.sensors.map(sensor => ({
+      position: sensor.position,
+      velocity: sensor.velocity,
+    }));
+  }
+
+  /**
+   * Returns the derivative function for integrating all sensors together: it moves the
+   * sensors to each trial state and evaluates the force providers there. Accelerations
+   * accumulated before the step are added as constants.
+   */
+  private sensorAccelerations(): (trial: BodyState[]) => Vector3[] {
+    const base = this.sensors.map(sensor => sensor.acceleration);
+    return trial => {
+      trial.forEach((state, i) => {
+        this.sensors[i].position = state.position;
+        this.sensors[i].velocity = state.velocity;
+      });
+      const forces = this.computeSensorForces();
+      return this.sensors.map((sensor, i) =>
+        base[i].add(forces[i].divideScalar(sensor.mass))
+      );
+    };
+  }
+
+  private applySensorStates(states: BodyState[]): void {
+    states.forEach((state, i) => {
+      this.sensors[i].position = state.position;
+      this.sensors[i].velocity = state.velocity;
+      this.sensors[i].acceleration = Vector3.zero();
+    });
+  }
+
+  /**
+   * An adaptive stepper's step size is part of the state it evolves, so restoring a
+   * snapshot also restores the step it proposed at that point.
+   */
+  private restoreAdaptiveStep(snapshot: SimulationSnapshot): void {
+    if (this.adaptiveStepper) this.deltaTime = snapshot.time.deltaTime;
+  }
+
+  private pushCheckpoint(step: number): void {
+    const evicted = this.history.push({ step, snapshot: this.saveSnapshot() });
+    if (!evicted) return;
+    // Irreversible steps before the oldest checkpoint can no longer be rewound exactly.
+    const oldest = (this.history.oldest() as Checkpoint).step;
+    this.irreversibleSteps.forEach(irreversible => {
+      if (irreversible < oldest) {
+        this.irreversibleSteps.delete(irreversible);
+        this.exactHistoryStart = Math.max(
+          this.exactHistoryStart,
+          irreversible + 1
+        );
+      }
+    });
+  }
+
+  private clearHistory(): void {
+    this.history.clear();
+    this.irreversibleSteps.clear();
+    this.stepCount = 0;
+    this.exactHistoryStart = 0;
+  }
+
+  private negateVelocities(): void {
+    this.sensors.forEach(sensor => {
+      sensor.velocity = sensor.velocity.multiplyScalar(-1);
+    });
+    this.sensorSpheres.forEach(sphere => {
+      sphere.velocity = sphere.velocity.multiplyScalar(-1);
+    });
+  }
+
+  private capturePreviousPositions(): void {
+    this.previousPositions.clear();
+    this.sensors.forEach(sensor =>
+      this.previousPositions.set(sensor, sensor.position)
+    );
+    this.sensorSpheres.forEach(sphere =>
+      this.previousPositions.set(sphere, sphere.center)
+    );
+  }
+
+  /**
+   * The self-driven simulation loop. Each tick advances the engine by the wall-clock time
+   * since the previous tick, so simulated time tracks real time (times timeScale)
+   * regardless of how punctually the timer fires. The first tick only starts the clock.
    */
   private loop(): void {
     if (!this.running) return;
-    this.update();
+    const now = Date.now();
+    this.advance(
+      this.lastTickTime === null ? 0 : (now - this.lastTickTime) / 1000
+    );
+    this.lastTickTime = now;
     this.loopTimeoutId = setTimeout(() => this.loop(), this.deltaTime * 1000);
     // In Node, unref() prevents this timer from keeping the process alive.
     if (
@@ -247,66 +935,376 @@ export class SimulationEngine {
     this.sensorSpheres.push(sphere);
   }
 
+  /**
+   * Registers a sensor lattice and adds its sensors to the simulation. The lattice is
+   * saved in snapshots, so its sensors can still be addressed by site after a reset or
+   * rewind.
+   * @param lattice - The lattice to add.
+   * @throws Error if lattice is null or undefined, or a lattice with its id is already
+   * registered.
+   */
+  public addLattice(lattice: SensorNetworkLattice): void {
+    if (!lattice) {
+      throw new Error('SensorNetworkLattice cannot be null or undefined.');
+    }
+    if (this.lattices.some(other => other.id === lattice.id)) {
+      throw new Error(`Lattice ${lattice.id} is already registered.`);
+    }
+    this.lattices.push(lattice);
+    lattice.sensors
+      .filter(sensor => !this.sensors.includes(sensor))
+      .forEach(sensor => this.addSensor(sensor));
+  }
+
+  /**
+   * Returns the sensor lattices registered with the engine.
+   */
+  public getLattices(): SensorNetworkLattice[] {
+    return this.lattices;
+  }
+
+  /**
+   * Returns the network of interacting sensor spheres, whose restitution and accretion
+   * settings govern sphere–sphere collisions.
+   */
+  public getSphereNetwork(): SensorSphereNetwork {
+    return this.sphereNetwork;
+  }
+
+  /**
+   * Returns the sensors currently simulated by the engine.
+   */
+  public getSensors(): Sensor[] {
+    return this.sensors;
+  }
+
+  /**
+   * Registers a force provider to be evaluated every step.
+   * @param provider - The force provider to add.
+   * @throws Error if provider is null or undefined, or its name is already registered.
+   */
+  public addForceProvider(provider: ForceProvider): void {
+    if (!provider) {
+      throw new Error('ForceProvider cannot be null or undefined.');
+    }
+    if (this.forceProviders.some(p => p.name === provider.name)) {
+      throw new Error(
+        `A force provider named ${provider.name} is already registered.`
+      );
+    }
+    this.forceProviders.push(provider);
+    Logger.info(
+      `Registered force provider ${provider.name}.`,
+      'SimulationEngine.addForceProvider'
+    );
+  }
+
+  /**
+   * Removes a force provider by name.
+   * @param name - The name of the provider to remove.
+   */
+  public removeForceProvider(name: string): void {
+    this.forceProviders = this.forceProviders.filter(p => p.name !== name);
+  }
+
+  /**
+   * Returns the registered force providers in evaluation order.
+   */
+  public getForceProviders(): ForceProvider[] {
+    return this.forceProviders;
+  }
+
+  /**
+   * Enables or disables a registered force provider.
+   * @param name - The name of the provider.
+   * @param enabled - Whether the provider should be evaluated.
+   * @throws Error if no provider with that name is registered.
+   */
+  public setForceProviderEnabled(name: string, enabled: boolean): void {
+    this.getRegisteredForceProvider(name).enabled = enabled;
+  }
+
+  /**
+   * Sets the weight applied to a registered force provider's forces.
+   * @param name - The name of the provider.
+   * @param weight - The scale factor (must be finite).
+   * @throws Error if no provider with that name is registered or weight is not finite.
+   */
+  public setForceProviderWeight(name: string, weight: number): void {
+    if (!Number.isFinite(weight)) {
+      throw new Error('Force provider weight must be a finite number.');
+    }
+    this.getRegisteredForceProvider(name).weight = weight;
+  }
+
+  /**
+   * Looks up a registered force provider by name.
+   * @throws Error if no provider with that name is registered.
+   */
+  private getRegisteredForceProvider(name: string): ForceProvider {
+    const provider = this.forceProviders.find(p => p.name === name);
+    if (!provider) {
+      throw new Error(`Force provider ${name} is not registered.`);
+    }
+    return provider;
+  }
+
+  /**
+   * Evaluates every enabled force provider (and penalty contacts) and accumulates the
+   * forces on the sensors via Sensor.applyForce. Forces are evaluated at the start-of-step
+   * state.
+   */
+  private applyForceProviders(): void {
+    const forces = this.computeSensorForces();
+    this.sensors.forEach((sensor, i) => sensor.applyForce(forces[i]));
+  }
+
+  /**
+   * Sums the weighted forces of every enabled force provider for the current sensor
+   * states (pair offsets measured through the boundary, if one is selected), plus the
+   * spring–damper contact forces between overlapping sensors when the collision strategy
+   * is PENALTY.
+   * @returns The net force on each sensor, index-aligned with the sensors.
+   */
+  private computeSensorForces(): Vector3[] {
+    const boundary = this.boundary;
+    const separation = boundary
+      ? (from: Vector3, to: Vector3): Vector3 => boundary.separation(from, to)
+      : undefined;
+    let total = this.sensors.map(() => Vector3.zero());
+    for (const provider of this.forceProviders) {
+      if (!provider.enabled || provider.weight === 0) continue;
+      const forces = provider.computeForces(
+        this.sensors,
+        this.globalTime,
+        separation
+      );
+      total = total.map((sum, i) =>
+        sum.add(forces[i].multiplyScalar(provider.weight))
+      );
+    }
+    if (this.collisionStrategy === CollisionStrategy.PENALTY) {
+      this.forEachCollidingPair((i, j) => {
+        const force = penaltyContactForce(
+          this.sensors[i],
+          this.sensors[j],
+          this.contactStiffness,
+          this.contactDamping
+        );
+        total[i] = total[i].subtract(force);
+        total[j] = total[j].add(force);
+      });
+    }
+    return total;
+  }
+
+  /**
+   * Records a 'collision' event for every sensor pair that came into soft contact since
+   * the previous step. Penalty contacts act through forces, so nothing is changed here.
+   */
+  private recordPenaltyContacts(): void {
+    const contacts = new Set<string>();
+    this.forEachCollidingPair((i, j) => {
+      const sensor1 = this.sensors[i];
+      const sensor2 = this.sensors[j];
+      const distance = sensor1.position.distanceTo(sensor2.position);
+      if (distance >= collisionRadius(sensor1) + collisionRadius(sensor2)) {
+        return;
+      }
+      const key = `${sensor1.id}|${sensor2.id}`;
+      contacts.add(key);
+      if (this.penaltyContacts.has(key)) return;
+      Logger.recordEvent({
+        timestamp: Date.now(),
+        event: 'collision',
+        sensors: [sensor1, sensor2],
+        preMomentum: sensor1.velocity
+          .multiplyScalar(sensor1.mass)
+          .add(sensor2.velocity.multiplyScalar(sensor2.mass))
+          .magnitude(),
+        preEnergy:
+          0.5 * sensor1.mass * sensor1.velocity.magnitude() ** 2 +
+          0.5 * sensor2.mass * sensor2.velocity.magnitude() ** 2,
+      });
+    });
+    this.penaltyContacts = contacts;
+  }
+
+  /**
+   * Visits the candidate pairs of the configured broadphase in which both sensors take
+   * part in collisions (inactive sensors do not).
+   * @param visit - Called with the indices of each pair.
+   */
+  private forEachCollidingPair(visit: (i: number, j: number) => void): void {
+    forEachCandidatePair(this.sensors, this.broadphase, (i, j) => {
+      if (this.sensors[i].isCollidable && this.sensors[j].isCollidable) {
+        visit(i, j);
+      }
+    });
+  }
+
   /**
    * Handles collisions among individual sensors using a simple elastic collision model.
+   * Candidate pairs come from the configured broadphase; each is then checked for overlap.
+   * Under CollisionStrategy.PENALTY, contacts are resolved by forces during integration
+   * instead, and only their onset is recorded.
+   * @returns True if any collision response was applied.
    */
-  private handleSensorCollisions(): void {
-    for (let i = 0; i < this.sensors.length; i++) {
-      for (let j = i + 1; j < this.sensors.length; j++) {
-        const sensor1 = this.sensors[i];
-        const sensor2 = this.sensors[j];
+  private handleSensorCollisions(): boolean {
+    if (this.collisionStrategy === CollisionStrategy.PENALTY) {
+      this.recordPenaltyContacts();
+      return false;
+    }
+    let responded = false;
+    this.forEachCollidingPair((i, j) => {
+      const sensor1 = this.sensors[i];
+      const sensor2 = this.sensors[j];
+
+      const sumRadii = collisionRadius(sensor1) + collisionRadius(sensor2);
+
+      const distanceVector = sensor2.position.subtract(sensor1.position);
+      const distance = distanceVector.magnitude();
 
-        const radius1 = (sensor1 as any).radius || 0.2;
-        const radius2 = (sensor2 as any).radius || 0.2;
-        const sumRadii = radius1 + radius2;
+      if (
+        distance > 0 &&
+        distance < sumRadii &&
+        this.handleCollision(sensor1, sensor2, distanceVector, distance)
+      ) {
+        responded = true;
+      }
+    });
+    return responded;
+  }
 
-        const distanceVector = sensor2.position.subtract(sensor1.position);
-        const distance = distanceVector.magnitude();
+  /**
+   * Returns the sphere that contains a sensor: the innermost simulated sphere holding it,
+   * or the root container for sensors that no sphere holds. When a boundary is selected
+   * it takes the root container's place, and loose sensors have no container.
+   * @param sensor - The sensor.
+   * @returns The containing sphere, or null if the sensor is not in a sphere.
+   */
+  public getContainer(sensor: Sensor): SensorSphere | null {
+    return this.sensorContainers().get(sensor) ?? this.rootContainer();
+  }
 
-        if (distance > 0 && distance < sumRadii) {
-          this.handleCollision(sensor1, sensor2, distanceVector, distance);
+  /**
+   * Returns the sphere bounding loose sensors: the container, unless a boundary is selected.
+   */
+  private rootContainer(): SensorSphere | null {
+    return this.boundary ? null : this.container;
+  }
+
+  /**
+   * Maps every sensor held by a simulated sphere to the innermost such sphere.
+   */
+  private sensorContainers(): Map<Sensor, SensorSphere> {
+    const containers = new Map<Sensor, SensorSphere>();
+    this.sensorSpheres
+      .slice()
+      .sort((a, b) => a.getDepth() - b.getDepth())
+      .forEach(sphere =>
+        sphere.sensors.forEach(sensor => containers.set(sensor, sphere))
+      );
+    return containers;
+  }
+
+  /**
+   * Enforces the container hierarchy: every sphere with a parent is kept inside it,
+   * outermost first so that children see their parents' final positions, then every
+   * sensor is kept inside its container (see getContainer). Reflections use the
+   * container's velocity, so moving walls push what they hit. Loose sensors are subject to
+   * the selected boundary instead, if any; sensors it absorbs are recorded as
+   * 'absorption' run-log events.
+   * @returns True if any sphere or sensor was moved back inside, wrapped or absorbed.
+   */
+  private enforceContainers(): boolean {
+    let confined = false;
+    this.sensorSpheres
+      .filter(sphere => sphere.parent !== null)
+      .sort((a, b) => a.getDepth() - b.getDepth())
+      .forEach(sphere => {
+        const parent = sphere.parent as SensorSphere;
+        if (confineSphere(sphere, parent)) {
+          Logger.debug(
+            `Sensor sphere ${sphere.id} collided with container boundary of sphere ${parent.id}.`,
+            'SimulationEngine.enforceContainers'
+          );
+          confined = true;
         }
+      });
+
+    const containers = this.sensorContainers();
+    this.sensors.forEach(sensor => {
+      const holder = containers.get(sensor);
+      if (!holder && this.boundary) {
+        if (this.applyBoundary(sensor, this.boundary)) confined = true;
+        return;
       }
+      const container = holder ?? this.container;
+      if (
+        container &&
+        this.handleContainerCollision(sensor, container, holder !== undefined)
+      ) {
+        confined = true;
+      }
+    });
+    return confined;
+  }
+
+  /**
+   * Applies the selected boundary to a loose sensor.
+   * @param sensor - The sensor.
+   * @param boundary - The boundary.
+   * @returns True if the boundary acted on the sensor.
+   */
+  private applyBoundary(sensor: Sensor, boundary: Boundary): boolean {
+    const wasInactive = sensor.state === SensorState.INACTIVE;
+    const action = boundary.apply(sensor);
+    if (action === null) return false;
+    Logger.debug(
+      `Sensor ${sensor.id} reached the ${boundary.type} boundary (${action}).`,
+      'SimulationEngine.applyBoundary'
+    );
+    if (action === 'absorb' && !wasInactive) {
+      Logger.recordEvent({
+        timestamp: Date.now(),
+        event: 'absorption',
+        sensors: [sensor],
+      });
     }
+    return true;
   }
 
   /**
    * Checks a sensor against the container boundary and applies a reflective collision response.
    * @param sensor - The sensor to check.
    * @param container - The sensor sphere acting as a container.
+   * @param carried - Whether the container holds the sensor and carries it along, so the
+   * wall is at rest in the sensor's frame.
+   * @returns True if the sensor was outside the container and was reflected.
    */
   private handleContainerCollision(
     sensor: Sensor,
-    container: SensorSphere
-  ): void {
-    const distanceFromCenter = sensor.position.distanceTo(container.center);
-    if (distanceFromCenter > container.radius) {
-      const normal = sensor.position.subtract(container.center).normalize();
-      const dotProd = sensor.velocity.dot(normal);
-      sensor.velocity = sensor.velocity.subtract(
-        normal.multiplyScalar(2 * dotProd)
-      );
-      sensor.position = container.center.add(
-        normal.multiplyScalar(container.radius)
-      );
+    container: SensorSphere,
+    carried: boolean
+  ): boolean {
+    const wallVelocity = carried ? Vector3.zero() : container.velocity;
+    if (confineSensor(sensor, container, wallVelocity)) {
       Logger.debug(
         `Sensor ${sensor.id} collided with container boundary of sphere ${container.id}.`,
         'SimulationEngine.handleContainerCollision'
       );
+      return true;
     }
+    return false;
   }
 
   /**
-   * Handles collision response between two sensors using an impulse-based elastic collision model.
-   *
-   * **Conservation Principles:**
-   * - **Momentum Conservation:**
-   *   The impulse is computed so that the total momentum is preserved:
-   *     m₁·v₁ + m₂·v₂ = m₁·v₁' + m₂·v₂'
-   *
-   * - **Kinetic Energy Conservation:**
-   *   For a perfectly elastic collision, kinetic energy is conserved:
-   *     ½·m₁·v₁² + ½·m₂·v₂² = ½·m₁·v₁'² + ½·m₂·v₂'²
+   * Handles collision response between two sensors with resolveCollision: normal and
+   * friction impulses from the sensors' restitution and friction coefficients, with spin
+   * transfer. Momentum is conserved; kinetic energy is conserved only for perfectly
+   * elastic, frictionless materials (the defaults), and any energy lost is converted
+   * into the sensors' temperature and recorded as an 'energyTransfer' event.
    *
    * **Performance Considerations:**
    * This impulse-based method calculates the post-collision velocities in one step using the impulse formula,
@@ -317,52 +1315,50 @@ export class SimulationEngine {
    * @param sensor2 - The second sensor involved in the collision.
    * @param distanceVector - The vector from sensor1 to sensor2.
    * @param _distance - The distance between the centers of the two sensors.
-   *
-   * @remarks
-   * This method assumes perfectly elastic collisions. Any introduction of inelastic factors (energy loss, damping, etc.)
-   * would require modifying the impulse calculation accordingly.
+   * @returns True if the sensors were approaching and an impulse was applied.
    */
   private handleCollision(
     sensor1: Sensor,
     sensor2: Sensor,
     distanceVector: Vector3,
     _distance: number
-  ): void {
+  ): boolean {
     const normal = distanceVector.normalize();
     const relativeVelocity = sensor1.velocity.subtract(sensor2.velocity);
     const speed = relativeVelocity.dot(normal);
 
-    // If the sensors are separating, no need to record an event.
-    if (speed >= 0) return;
+    // If the sensors are separating (or sliding past), no need to record an event.
+    if (speed <= 0) return false;
 
-    const totalMass = sensor1.mass + sensor2.mass;
-    const impulse = (2 * speed) / totalMass;
+    this.respondToCollision(sensor1, sensor2, normal);
+    return true;
+  }
 
+  /**
+   * Applies resolveCollision to two touching sensors and records the 'collision' event,
+   * plus an 'energyTransfer' event if kinetic energy was converted into heat.
+   * @param sensor1 - The first sensor.
+   * @param sensor2 - The second sensor.
+   * @param normal - Unit vector from sensor1 towards sensor2.
+   */
+  private respondToCollision(
+    sensor1: Sensor,
+    sensor2: Sensor,
+    normal: Vector3
+  ): void {
     // Calculate pre-collision metrics
     const preMomentum = sensor1.velocity
       .multiplyScalar(sensor1.mass)
       .add(sensor2.velocity.multiplyScalar(sensor2.mass))
       .magnitude();
-    const preEnergy =
-      0.5 * sensor1.mass * sensor1.velocity.magnitude() ** 2 +
-      0.5 * sensor2.mass * sensor2.velocity.magnitude() ** 2;
 
-    // Update sensor velocities (impulse-based calculation)
-    sensor1.velocity = sensor1.velocity.subtract(
-      normal.multiplyScalar(impulse * sensor2.mass)
-    );
-    sensor2.velocity = sensor2.velocity.add(
-      normal.multiplyScalar(impulse * sensor1.mass)
-    );
+    const response = resolveCollision(sensor1, sensor2, normal);
 
     // Calculate post-collision metrics
     const postMomentum = sensor1.velocity
       .multiplyScalar(sensor1.mass)
       .add(sensor2.velocity.multiplyScalar(sensor2.mass))
       .magnitude();
-    const postEnergy =
-      0.5 * sensor1.mass * sensor1.velocity.magnitude() ** 2 +
-      0.5 * sensor2.mass * sensor2.velocity.magnitude() ** 2;
 
     // Log debug info (existing functionality)
     Logger.debug(
@@ -371,42 +1367,323 @@ export class SimulationEngine {
     );
 
     // Record the collision event.
+    const timestamp = Date.now();
     Logger.recordEvent({
-      timestamp: Date.now(),
+      timestamp,
       event: 'collision',
       sensors: [sensor1, sensor2],
       preMomentum,
       postMomentum,
-      preEnergy,
-      postEnergy,
+      preEnergy: response.preEnergy,
+      postEnergy: response.postEnergy,
     });
+    if (response.dissipated > 0) {
+      Logger.recordEvent({
+        timestamp,
+        event: 'energyTransfer',
+        sensors: [sensor1, sensor2],
+        preEnergy: response.preEnergy,
+        postEnergy: response.postEnergy,
+      });
+    }
   }
 
   /**
-   * Clones a sensor object.
+   * Continuous collision detection. Treats each sensor's motion over the step as a
+   * straight line from its start position to its integrated position, and processes
+   * contacts in time order: the first time of impact between two sensors (swept spheres)
+   * or of a sensor with its container's boundary is found, the sensors involved are moved
+   * to where they were at that moment and given the collision response (or reflected off
+   * the boundary), and they travel the rest of the step in a straight line at their new
+   * velocity, still carried along by the sphere holding them. Containers also move in a
+   * straight line over the step, and walls reflect with their velocity. This repeats up
+   * to Constants.MAX_TOI_SUBSTEPS times, so fast sensors bounce instead of passing
+   * through each other or the container. Pairs that already overlap at the start of the
+   * step are left to the discrete handling.
+   * @param start - Sensor positions at the start of the step, index-aligned with the sensors.
+   * @param sphereStart - Sphere centers at the start of the step.
+   * @param dt - The step's duration in seconds.
+   * @returns True if any contact was resolved.
    */
-  private cloneSensor(sensor: Sensor): Sensor {
-    return new Sensor(
-      sensor.id,
-      sensor.position.clone(),
-      sensor.velocity.clone(),
-      sensor.mass,
-      sensor.charge,
-      sensor.state
+  private resolveContinuousCollisions(
+    start: Vector3[],
+    sphereStart: Map<SensorSphere, Vector3>,
+    dt: number
+  ): boolean {
+    // Spheres move along their start center + displacement·s.
+    const sphereDisplacement = (sphere: SensorSphere): Vector3 =>
+      sphere.center.subtract(sphereStart.get(sphere) ?? sphere.center);
+    const centerAt = (sphere: SensorSphere, s: number): Vector3 =>
+      sphere.center.subtract(sphereDisplacement(sphere).multiplyScalar(1 - s));
+    const holders = this.sensorContainers();
+    const carried = this.sensors.map(sensor => {
+      const holder = holders.get(sensor);
+      return holder ? sphereDisplacement(holder) : Vector3.zero();
+    });
+
+    // Each sensor moves along origin + displacement·s for step fractions s ∈ [now, 1].
+    const origins = start.slice();
+    const displacements = this.sensors.map((sensor, i) =>
+      sensor.position.subtract(start[i])
     );
+    const at = (i: number, s: number): Vector3 =>
+      origins[i].add(displacements[i].multiplyScalar(s));
+    const redirect = (i: number, s: number): void => {
+      const position = at(i, s);
+      displacements[i] = this.sensors[i].velocity
+        .multiplyScalar(dt)
+        .add(carried[i]);
+      origins[i] = position.subtract(displacements[i].multiplyScalar(s));
+    };
+
+    // Any pair that touches during the step ends within this distance of each other.
+    const reach =
+      2 *
+      this.sensors.reduce(
+        (largest, sensor, i) =>
+          Math.max(
+            largest,
+            collisionRadius(sensor) + displacements[i].magnitude()
+          ),
+        0
+      );
+    const pairs =
+      reach > 0
+        ? findCandidatePairs(this.sensors, this.broadphase, reach).filter(
+            ([i, j]) =>
+              this.sensors[i].isCollidable && this.sensors[j].isCollidable
+          )
+        : [];
+
+    let now = 0;
+    let responded = false;
+    for (let substep = 0; substep < Constants.MAX_TOI_SUBSTEPS; substep++) {
+      let earliest: { time: number; i: number; j: number | null } | null = null;
+      for (const [i, j] of pairs) {
+        const offset = at(j, now).subtract(at(i, now));
+        const time = sweptSphereTimeOfImpact(
+          offset,
+          displacements[j].subtract(displacements[i]).multiplyScalar(1 - now),
+          collisionRadius(this.sensors[i]) + collisionRadius(this.sensors[j])
+        );
+        if (time === null) continue;
+        const absolute = now + time * (1 - now);
+        if (!earliest || absolute < earliest.time) {
+          earliest = { time: absolute, i, j };
+        }
+      }
+      for (let i = 0; i < this.sensors.length; i++) {
+        const container = holders.get(this.sensors[i]) ?? this.rootContainer();
+        if (!container) continue;
+        // Track the sensor relative to its (moving) container.
+        const time = boundaryTimeOfImpact(
+          at(i, now).subtract(centerAt(container, now)),
+          displacements[i]
+            .subtract(sphereDisplacement(container))
+            .multiplyScalar(1 - now),
+          Vector3.zero(),
+          container.radius
+        );
+        if (time === null) continue;
+        const absolute = now + time * (1 - now);
+        if (!earliest || absolute < earliest.time) {
+          earliest = { time: absolute, i, j: null };
+        }
+      }
+      if (!earliest) break;
+
+      const { time, i, j } = earliest;
+      now = time;
+      const sensor = this.sensors[i];
+      sensor.position = at(i, now);
+      if (j === null) {
+        const holder = holders.get(sensor);
+        const container = (holder ?? this.rootContainer()) as SensorSphere;
+        const normal = sensor.position
+          .subtract(centerAt(container, now))
+          .normalize();
+        sensor.velocity = reflectOffWall(
+          sensor.velocity,
+          normal,
+          holder ? Vector3.zero() : container.velocity
+        );
+      } else {
+        const other = this.sensors[j];
+        other.position = at(j, now);
+        this.respondToCollision(
+          sensor,
+          other,
+          other.position.subtract(sensor.position).normalize()
+        );
+        redirect(j, now);
+      }
+      redirect(i, now);
+      responded = true;
+    }
+
+    if (responded) {
+      this.sensors.forEach((sensor, i) => (sensor.position = at(i, 1)));
+    }
+    return responded;
   }
 
   /**
-   * Clones a sensor sphere object.
+   * Positional correction: pushes every overlapping pair of sensors apart along the line
+   * between their centers by positionCorrection times the overlap. The correction is
+   * split by mass ratio, so the heavier sensor moves less. Velocities are unchanged.
+   * @returns True if any sensor was moved.
    */
-  private cloneSensorSphere(sphere: SensorSphere): SensorSphere {
-    return new SensorSphere(
-      sphere.id,
-      sphere.center.clone(),
-      sphere.radius,
-      sphere.sensors.length,
-      sphere.state
+  private correctOverlaps(): boolean {
+    if (!(this.positionCorrection > 0)) return false;
+    let corrected = false;
+    this.forEachCollidingPair((i, j) => {
+      const sensor1 = this.sensors[i];
+      const sensor2 = this.sensors[j];
+      const offset = sensor2.position.subtract(sensor1.position);
+      const distance = offset.magnitude();
+      const overlap =
+        collisionRadius(sensor1) + collisionRadius(sensor2) - distance;
+      if (overlap <= 0 || distance === 0) return;
+      const normal = offset.divideScalar(distance);
+      const totalMass = sensor1.mass + sensor2.mass;
+      const correction = overlap * this.positionCorrection;
+      sensor1.position = sensor1.position.subtract(
+        normal.multiplyScalar((correction * sensor2.mass) / totalMass)
+      );
+      sensor2.position = sensor2.position.add(
+        normal.multiplyScalar((correction * sensor1.mass) / totalMass)
+      );
+      corrected = true;
+    });
+    return corrected;
+  }
+
+  /**
+   * Resolves collisions and mergers between the spheres of the network, leaving out the
+   * container. Spheres absorbed by a merger stop being simulated; their sensors live on
+   * in the surviving sphere.
+   */
+  private resolveSphereCollisions(): void {
+    const mergers = this.sphereNetwork.resolveCollisions(
+      this.container ? [this.container] : []
+    );
+    mergers.forEach(({ absorbed }) => {
+      this.sensorSpheres = this.sensorSpheres.filter(
+        sphere => sphere !== absorbed
+      );
+    });
+  }
+
+  /**
+   * Injects the faults scheduled within the step that has just been taken.
+   * @param from - The simulation time at the start of the step.
+   * @returns True if any fault was injected.
+   */
+  private injectFaults(from: number): boolean {
+    const injector = this.faultInjector;
+    if (!injector) return false;
+    const due = injector.due(from, this.globalTime);
+    due.forEach(fault =>
+      injector.inject(fault, this.sensors, this.sensorSpheres, this.globalTime)
     );
+    return due.length > 0;
+  }
+
+  /**
+   * Rebuilds the neighbour graph of the engine's sensors if it is due on this step.
+   * @param step - The step being taken.
+   * @returns True if any link appeared or disappeared.
+   */
+  private updateNeighborGraph(step: number): boolean {
+    const graph = this.neighborGraph;
+    if (!graph?.isDue(step)) return false;
+    return graph.rebuild(this.sensors).length > 0;
+  }
+
+  /**
+   * Delivers or passes on the messages that have arrived by the end of the step.
+   * @returns True if any message arrived.
+   */
+  private deliverMessages(): boolean {
+    const network = this.communication;
+    if (!network) return false;
+    return network.deliver(this.sensors, this.globalTime) > 0;
+  }
+
+  /**
+   * Counts down the state transitions in progress.
+   * @param dt - The time step in seconds.
+   * @returns True if any sensor was in TRANSITION.
+   */
+  private advanceSensorStates(dt: number): boolean {
+    let changing = false;
+    this.sensors.forEach(sensor => {
+      if (sensor.advanceState(dt)) changing = true;
+    });
+    return changing;
+  }
+
+  /**
+   * Takes a reading on every measuring sensor's channels that are due at the current
+   * time. Fields are those of the engine's sensors.
+   * @returns True if a reading passed through noise stages.
+   */
+  private sampleSensors(): boolean {
+    let noisy = false;
+    this.sensors.forEach(sensor =>
+      sensor.channels.forEach(channel => {
+        if (!sensor.isMeasuring) return;
+        const sample = channel.sample(sensor, this.sensors, this.globalTime);
+        if (sample && channel.noise.length > 0) noisy = true;
+      })
+    );
+    return noisy;
+  }
+
+  /**
+   * Drops the readings taken after the current time once the engine has stepped back.
+   */
+  private rewindSamples(): void {
+    this.sensors.forEach(sensor =>
+      sensor.channels.forEach(channel => channel.rewind(this.globalTime))
+    );
+  }
+
+  /**
+   * Replaces the simulated world (sensors, spheres, network, container, time and the
+   * randomize stream) with fresh objects built from a snapshot. Engine settings such as
+   * the time step, integrator and broadphase are left unchanged.
+   * @param snapshot - A validated snapshot.
+   */
+  private restoreSnapshot(snapshot: SimulationSnapshot): void {
+    const world = restoreWorld(snapshot);
+    this.sensors = world.sensors;
+    this.sensorSpheres = world.sensorSpheres;
+    const network = new SensorSphereNetwork(world.network);
+    network.restitution = this.sphereNetwork.restitution;
+    network.accretion = this.sphereNetwork.accretion;
+    this.sphereNetwork = network;
+    this.container = world.container;
+    this.lattices = world.lattices;
+    if (this.communication) {
+      restoreCommunication(this.communication, snapshot.communication);
+    }
+    this.globalTime = snapshot.time.globalTime;
+    this.timeReversed = snapshot.time.timeReversed;
+    this.randomizeStream = deserializeRandom(snapshot.engine.randomizeStream);
+    this.penaltyContacts.clear();
+  }
+
+  /**
+   * Records the engine's random seed in the run log so the run can be replayed.
+   */
+  private recordSeed(): void {
+    Logger.recordEvent({
+      timestamp: Date.now(),
+      event: 'seed',
+      sensors: [],
+      seed: this.random.seed,
+    });
   }
 
   /**
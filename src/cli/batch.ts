@@ -0,0 +1,161 @@
+import { Logger } from '../core/Logger';
+import { vectorToSnapshot } from '../utils/snapshot';
+import { SimulationEngine } from '../SimulationEngine';
+import { buildEngine } from './scenario';
+import {
+  FrameRecord,
+  RunRecord,
+  Scenario,
+  SummaryRecord,
+  SweepPoint,
+} from './batchTypes';
+
+/**
+ * Number of steps run when neither the options nor the scenario give one.
+ */
+export const DEFAULT_RUN_STEPS = 1000;
+
+/**
+ * Options for a headless run.
+ */
+export interface RunOptions {
+  steps?: number; // Overrides the scenario's step count.
+  every?: number; // Write a frame every this many steps (default 1).
+  parameters?: SweepPoint; // Swept values, recorded in the header.
+}
+
+/**
+ * Builds an engine from a scenario and steps it as fast as possible, without the
+ * engine's setTimeout pacing. Writes a header, a frame after every `every` steps (and
+ * for the initial and final state), each run-log event as it is recorded, each sensor
+ * channel reading as it is taken, and a summary. The global run log is cleared first.
+ * @param scenario - A validated scenario.
+ * @param write - Receives each record.
+ * @param options - Step count, frame interval and sweep parameters.
+ * @returns The summary record.
+ * @throws Error if steps or every are not valid.
+ */
+export function runScenario(
+  scenario: Scenario,
+  write: (record: RunRecord) => void,
+  options: RunOptions = {}
+): SummaryRecord {
+  const steps = options.steps ?? scenario.steps ?? DEFAULT_RUN_STEPS;
+  const every = options.every ?? 1;
+  if (!Number.isInteger(steps) || steps < 0) {
+    throw new Error('Step count must be a non-negative integer.');
+  }
+  if (!Number.isInteger(every) || every <= 0) {
+    throw new Error('Frame interval must be a positive integer.');
+  }
+
+  const engine = buildEngine(scenario);
+  Logger.clearRunLog();
+  write({
+    type: 'header',
+    scenario: scenario.name ?? null,
+    parameters: options.parameters ?? {},
+    seed: engine.random.seed,
+    deltaTime: engine.deltaTime,
+    integrator: engine.integrator.type,
+    steps,
+    sensors: engine.getSensors().length,
+  });
+  write(captureFrame(engine, 0));
+
+  const events: SummaryRecord['events'] = {};
+  for (let step = 1; step <= steps; step++) {
+    const logged = Logger.runLog.length;
+    engine.step();
+    Logger.runLog.slice(logged).forEach(event => {
+      events[event.event] = (events[event.event] ?? 0) + 1;
+      write({
+        type: 'event',
+        step,
+        time: engine.globalTime,
+        event: event.event,
+        sensors: event.sensors.map(sensor => sensor.id),
+        spheres: event.spheres,
+        preMomentum: event.preMomentum,
+        postMomentum: event.postMomentum,
+        preEnergy: event.preEnergy,
+        postEnergy: event.postEnergy,
+        seed: event.seed,
+        timeStep: event.timeStep,
+        errorEstimate: event.errorEstimate,
+        rejectedSteps: event.rejectedSteps,
+        fromState: event.fromState,
+        toState: event.toState,
+        fault: event.fault,
+        channel: event.channel,
+      });
+    });
+    engine.getSensors().forEach(sensor =>
+      sensor.channels.forEach(channel => {
+        const sample = channel.latest();
+        if (sample?.time !== engine.globalTime) return;
+        write({
+          type: 'sample',
+          step,
+          time: sample.time,
+          sensor: sensor.id,
+          channel: channel.type,
+          value: sample.value,
+        });
+      })
+    );
+    if (step % every === 0 || step === steps) {
+      write(captureFrame(engine, step));
+    }
+  }
+
+  const summary: SummaryRecord = {
+    type: 'summary',
+    steps,
+    time: engine.globalTime,
+    kineticEnergy: engine
+      .getSensors()
+      .reduce(
+        (sum, sensor) =>
+          sum + 0.5 * sensor.mass * sensor.velocity.dot(sensor.velocity),
+        0
+      ),
+    events,
+  };
+  write(summary);
+  return summary;
+}
+
+function captureFrame(engine: SimulationEngine, step: number): FrameRecord {
+  return {
+    type: 'frame',
+    step,
+    time: engine.globalTime,
+    sensors: engine.getSensors().map(sensor => ({
+      id: sensor.id,
+      position: vectorToSnapshot(sensor.position),
+      velocity: vectorToSnapshot(sensor.velocity),
+    })),
+  };
+}
+
+/**
+ * Serializes a record as one line of a JSON Lines file. Undefined fields are omitted.
+ * @param record - The record.
+ * @returns The JSON text followed by a newline.
+ */
+export function formatRecord(record: RunRecord): string {
+  return `${JSON.stringify(record)}\n`;
+}
+
+/**
+ * Formats a sweep point for progress messages, e.g. "deltaTime=0.01 charge=2".
+ * @param point - The swept values.
+ * @returns The formatted values, or "(base scenario)" if nothing is swept.
+ */
+export function describeSweepPoint(point: SweepPoint): string {
+  const entries = Object.entries(point);
+  return entries.length === 0
+    ? '(base scenario)'
+    : entries.map(([name, value]) => `${name}=${value}`).join(' ');
+}
@@ -0,0 +1,206 @@
+import { IntegratorType } from '../core/Integrator';
+import { AdaptiveStepperOptions } from '../core/AdaptiveStepper';
+import { BroadphaseType } from '../utils/broadphase';
+import { CollisionStrategy } from '../utils/collisionAlternatives';
+import { BoundaryType, WallBehavior } from '../utils/boundaries';
+import { VectorSnapshot } from '../utils/snapshotTypes';
+import { RunEvent } from '../utils/runLogTypes';
+import { ChannelType } from '../sensors/SensorChannel';
+import { NoiseSpec } from '../sensors/SensorNoise';
+import { SensorState } from '../sensors/SensorState';
+import { FaultSpec, FaultType } from '../sensors/FaultInjector';
+
+/**
+ * A sensor placed explicitly by a scenario.
+ */
+export interface ScenarioSensor {
+  id: string;
+  position?: VectorSnapshot;
+  velocity?: VectorSnapshot;
+  mass?: number;
+  charge?: number;
+  radius?: number;
+  restitution?: number;
+  friction?: number;
+}
+
+/**
+ * A sensor sphere whose sensors are generated from the scenario's random stream.
+ * The first sphere of a scenario is the engine's container. A sphere with a parent
+ * (the id of an earlier sphere) is confined inside it.
+ */
+export interface ScenarioSphere {
+  id: string;
+  center?: VectorSnapshot;
+  velocity?: VectorSnapshot;
+  radius?: number;
+  sensorCount?: number;
+  parent?: string;
+}
+
+/**
+ * The force providers a scenario can register.
+ */
+export type ScenarioForceType = 'gravity' | 'coulomb' | 'lorentz' | 'damping';
+
+/**
+ * A force provider registration. theta applies to gravity and coulomb, field to
+ * lorentz and coefficient to damping.
+ */
+export interface ScenarioForce {
+  type: ScenarioForceType;
+  weight?: number;
+  theta?: number;
+  field?: VectorSnapshot;
+  coefficient?: number;
+}
+
+/**
+ * A measurement channel added to every sensor of a scenario, with the noise stages
+ * applied to its readings in order.
+ */
+export interface ScenarioChannel {
+  type: ChannelType;
+  sampleRate?: number;
+  noise?: NoiseSpec[];
+}
+
+/**
+ * The domain boundary for a scenario's loose sensors, replacing the container. box and
+ * periodic need min and max; cylinder needs radius and height and is centered on center
+ * (default the origin); walls applies to box and cylinder.
+ */
+export interface ScenarioBoundary {
+  type: BoundaryType;
+  min?: VectorSnapshot;
+  max?: VectorSnapshot;
+  center?: VectorSnapshot;
+  radius?: number;
+  height?: number;
+  walls?: WallBehavior;
+}
+
+/**
+ * Adaptive time stepping for a scenario. deltaTime, if given, is the first step tried.
+ */
+export type ScenarioAdaptive = Omit<AdaptiveStepperOptions, 'integrator'>;
+
+/**
+ * A headless simulation setup, usually loaded from a JSON file. Every field is optional;
+ * missing engine settings fall back to the engine's defaults. charge and radius, when
+ * given, override the charge and collision radius of every sensor.
+ */
+export interface Scenario {
+  name?: string;
+  seed?: number;
+  deltaTime?: number;
+  steps?: number;
+  integrator?: IntegratorType;
+  broadphase?: BroadphaseType;
+  collisionStrategy?: CollisionStrategy;
+  contactStiffness?: number;
+  contactDamping?: number;
+  accretion?: boolean;
+  randomize?: boolean;
+  charge?: number;
+  radius?: number;
+  spheres?: ScenarioSphere[];
+  sensors?: ScenarioSensor[];
+  forces?: ScenarioForce[];
+  channels?: ScenarioChannel[];
+  boundary?: ScenarioBoundary;
+  adaptive?: ScenarioAdaptive;
+  faults?: FaultSpec[];
+}
+
+/**
+ * Scenario fields that a parameter sweep can vary.
+ */
+export type SweepParameter = 'deltaTime' | 'charge' | 'radius' | 'seed';
+
+/**
+ * One point of a parameter sweep: a value for each swept parameter.
+ */
+export type SweepPoint = Partial<Record<SweepParameter, number>>;
+
+/**
+ * The first line of a run file: what was run and with which settings.
+ */
+export interface HeaderRecord {
+  type: 'header';
+  scenario: string | null;
+  parameters: SweepPoint;
+  seed: number;
+  deltaTime: number;
+  integrator: IntegratorType;
+  steps: number;
+  sensors: number;
+}
+
+/**
+ * The position and velocity of every sensor after a step.
+ */
+export interface FrameRecord {
+  type: 'frame';
+  step: number;
+  time: number;
+  sensors: { id: string; position: VectorSnapshot; velocity: VectorSnapshot }[];
+}
+
+/**
+ * A run-log event, tagged with the step that produced it. Sensors are referred to by id,
+ * and the wall-clock timestamp is dropped so that a run file depends only on its inputs.
+ */
+export interface EventRecord {
+  type: 'event';
+  step: number;
+  time: number;
+  event: RunEvent['event'];
+  sensors: string[];
+  spheres?: string[];
+  preMomentum?: number;
+  postMomentum?: number;
+  preEnergy?: number;
+  postEnergy?: number;
+  seed?: number;
+  timeStep?: number;
+  errorEstimate?: number;
+  rejectedSteps?: number;
+  fromState?: SensorState;
+  toState?: SensorState;
+  fault?: FaultType;
+  channel?: ChannelType;
+}
+
+/**
+ * A reading taken by a sensor channel during a step.
+ */
+export interface SampleRecord {
+  type: 'sample';
+  step: number;
+  time: number;
+  sensor: string;
+  channel: ChannelType;
+  value: number[];
+}
+
+/**
+ * The last line of a run file.
+ */
+export interface SummaryRecord {
+  type: 'summary';
+  steps: number;
+  time: number;
+  kineticEnergy: number;
+  events: Partial<Record<RunEvent['event'], number>>;
+}
+
+/**
+ * One line of a run file (JSON Lines).
+ */
+export type RunRecord =
+  | HeaderRecord
+  | FrameRecord
+  | EventRecord
+  | SampleRecord
+  | SummaryRecord;
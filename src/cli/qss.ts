@@ -0,0 +1,247 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Logger, LogLevel } from '../core/Logger';
+import { SweepParameter, SweepPoint, RunRecord } from './batchTypes';
+import {
+  SWEEP_PARAMETERS,
+  applySweepPoint,
+  expandSweep,
+  validateScenario,
+} from './scenario';
+import {
+  RunOptions,
+  describeSweepPoint,
+  formatRecord,
+  runScenario,
+} from './batch';
+
+const USAGE = `Usage:
+  qss run <scenario.json> [--steps N] [--every N] [--out run.jsonl] [--verbose]
+  qss sweep <scenario.json> --param NAME=V1,V2,... [--param ...] --out DIR
+            [--steps N] [--every N] [--verbose]
+
+Sweepable parameters: ${SWEEP_PARAMETERS.join(', ')}.
+A run writes JSON Lines: a header, trajectory frames, run-log events and a summary.
+A sweep writes one run file per grid point to DIR, plus DIR/sweep.jsonl with a
+summary line per point.
+`;
+
+/**
+ * Parsed command-line arguments.
+ */
+export interface CliArguments {
+  command: 'run' | 'sweep' | 'help';
+  scenarioPath: string;
+  steps?: number;
+  every?: number;
+  out?: string;
+  verbose: boolean;
+  grid: Partial<Record<SweepParameter, number[]>>;
+}
+
+function parseInteger(flag: string, value: string | undefined): number {
+  const number = Number(value);
+  if (value === undefined || value === '' || !Number.isInteger(number)) {
+    throw new Error(`${flag} expects an integer.`);
+  }
+  return number;
+}
+
+function parseSweepArgument(
+  value: string | undefined,
+  grid: Partial<Record<SweepParameter, number[]>>
+): void {
+  const match = /^(\w+)=(.+)$/.exec(value ?? '');
+  if (!match) {
+    throw new Error('--param expects NAME=V1,V2,...');
+  }
+  const [, name, list] = match;
+  if (!SWEEP_PARAMETERS.includes(name as SweepParameter)) {
+    throw new Error(
+      `Cannot sweep ${name}; expected one of ${SWEEP_PARAMETERS.join(', ')}.`
+    );
+  }
+  grid[name as SweepParameter] = list.split(',').map(item => {
+    const number = Number(item);
+    if (item.trim() === '' || !Number.isFinite(number)) {
+      throw new Error(`--param ${name} has a non-numeric value: ${item}.`);
+    }
+    return number;
+  });
+}
+
+/**
+ * Parses the arguments following the program name.
+ * @param argv - The arguments, e.g. process.argv.slice(2).
+ * @returns The parsed arguments.
+ * @throws Error if the command, a flag or a flag value is not recognized.
+ */
+export function parseArguments(argv: string[]): CliArguments {
+  const [command, ...rest] = argv;
+  if (
+    command === undefined ||
+    command === 'help' ||
+    command === '--help' ||
+    command === '-h'
+  ) {
+    return { command: 'help', scenarioPath: '', verbose: false, grid: {} };
+  }
+  if (command !== 'run' && command !== 'sweep') {
+    throw new Error(`Unknown command: ${command}.`);
+  }
+
+  const parsed: CliArguments = {
+    command,
+    scenarioPath: '',
+    verbose: false,
+    grid: {},
+  };
+  for (let i = 0; i < rest.length; i++) {
+    const arg = rest[i];
+    switch (arg) {
+      case '--steps':
+        parsed.steps = parseInteger(arg, rest[++i]);
+        break;
+      case '--every':
+        parsed.every = parseInteger(arg, rest[++i]);
+        break;
+      case '--out':
+        parsed.out = rest[++i];
+        if (!parsed.out) throw new Error('--out expects a path.');
+        break;
+      case '--param':
+        if (command !== 'sweep') {
+          throw new Error('--param is only valid for sweep.');
+        }
+        parseSweepArgument(rest[++i], parsed.grid);
+        break;
+      case '--verbose':
+        parsed.verbose = true;
+        break;
+      default:
+        if (arg.startsWith('--') || parsed.scenarioPath) {
+          throw new Error(`Unexpected argument: ${arg}.`);
+        }
+        parsed.scenarioPath = arg;
+    }
+  }
+
+  if (!parsed.scenarioPath) throw new Error('Missing scenario file.');
+  if (command === 'sweep') {
+    if (Object.keys(parsed.grid).length === 0) {
+      throw new Error('sweep needs at least one --param.');
+    }
+    if (!parsed.out) throw new Error('sweep needs --out DIR.');
+  }
+  return parsed;
+}
+
+/**
+ * Opens a file for writing, passes a record writer to the callback and closes the
+ * file afterwards, even if the callback throws.
+ */
+function withRecordFile<T>(
+  file: string,
+  callback: (write: (record: RunRecord) => void) => T
+): T {
+  const fd = fs.openSync(file, 'w');
+  try {
+    return callback(record => fs.writeSync(fd, formatRecord(record)));
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+function runCommand(args: CliArguments, options: RunOptions): void {
+  const scenario = validateScenario(
+    JSON.parse(fs.readFileSync(args.scenarioPath, 'utf8'))
+  );
+  if (!args.out) {
+    runScenario(
+      scenario,
+      record => process.stdout.write(formatRecord(record)),
+      options
+    );
+    return;
+  }
+  const summary = withRecordFile(args.out, write =>
+    runScenario(scenario, write, options)
+  );
+  process.stderr.write(
+    `Wrote ${summary.steps} steps to ${args.out} (t = ${summary.time} s).\n`
+  );
+}
+
+function sweepCommand(args: CliArguments, options: RunOptions): void {
+  const scenario = validateScenario(
+    JSON.parse(fs.readFileSync(args.scenarioPath, 'utf8'))
+  );
+  const points: SweepPoint[] = expandSweep(args.grid);
+  const out = args.out as string;
+  fs.mkdirSync(out, { recursive: true });
+
+  const width = String(points.length).length;
+  const index: string[] = [];
+  points.forEach((point, i) => {
+    const file = `run-${String(i + 1).padStart(width, '0')}.jsonl`;
+    const summary = withRecordFile(path.join(out, file), write =>
+      runScenario(applySweepPoint(scenario, point), write, {
+        ...options,
+        parameters: point,
+      })
+    );
+    const { steps, time, kineticEnergy, events } = summary;
+    index.push(
+      JSON.stringify({
+        index: i + 1,
+        file,
+        parameters: point,
+        steps,
+        time,
+        kineticEnergy,
+        events,
+      })
+    );
+    process.stderr.write(
+      `[${i + 1}/${points.length}] ${describeSweepPoint(point)}: ${file}\n`
+    );
+  });
+  fs.writeFileSync(path.join(out, 'sweep.jsonl'), `${index.join('\n')}\n`);
+}
+
+/**
+ * Runs the qss command line.
+ * @param argv - The arguments following the program name.
+ * @returns The process exit code.
+ */
+export function main(argv: string[]): number {
+  let args: CliArguments;
+  try {
+    args = parseArguments(argv);
+  } catch (error) {
+    process.stderr.write(`qss: ${(error as Error).message}\n\n${USAGE}`);
+    return 1;
+  }
+  if (args.command === 'help') {
+    process.stdout.write(USAGE);
+    return 0;
+  }
+
+  Logger.configure({ level: args.verbose ? LogLevel.DEBUG : LogLevel.WARN });
+  const options: RunOptions = { steps: args.steps, every: args.every };
+  try {
+    if (args.command === 'run') {
+      runCommand(args, options);
+    } else {
+      sweepCommand(args, options);
+    }
+    return 0;
+  } catch (error) {
+    process.stderr.write(`qss: ${(error as Error).message}\n`);
+    return 1;
+  }
+}
+
+if (require.main === module) {
+  process.exitCode = main(process.argv.slice(2));
+}
@@ -0,0 +1,518 @@
+import { SimulationEngine } from '../SimulationEngine';
+import { Sensor } from '../sensors/Sensor';
+import { SensorSphere } from '../sensors/SensorSphere';
+import { SensorState } from '../sensors/SensorState';
+import { ChannelType } from '../sensors/SensorChannel';
+import {
+  NOISE_PARAMETERS,
+  NoiseType,
+  createNoiseStage,
+} from '../sensors/SensorNoise';
+import { FaultInjector, FaultType } from '../sensors/FaultInjector';
+import { Vector3 } from '../core/Vector3';
+import { Constants } from '../core/Constants';
+import { Random } from '../core/Random';
+import { AdaptiveStepper, StepControl } from '../core/AdaptiveStepper';
+import {
+  DEFAULT_INTEGRATOR,
+  IntegratorType,
+  createIntegrator,
+} from '../core/Integrator';
+import { BroadphaseType } from '../utils/broadphase';
+import { CollisionStrategy } from '../utils/collisionAlternatives';
+import { vectorFromSnapshot } from '../utils/snapshot';
+import { VectorSnapshot } from '../utils/snapshotTypes';
+import {
+  Boundary,
+  BoundaryType,
+  BoxBoundary,
+  CylinderBoundary,
+  OpenBoundary,
+  PeriodicBoundary,
+  WallBehavior,
+} from '../utils/boundaries';
+import {
+  CoulombForceProvider,
+  DampingForceProvider,
+  GravityForceProvider,
+  LorentzForceProvider,
+} from '../forces/ForceProviders';
+import { ForceProvider } from '../forces/ForceProvider';
+import {
+  Scenario,
+  ScenarioBoundary,
+  ScenarioForce,
+  SweepParameter,
+  SweepPoint,
+} from './batchTypes';
+
+/**
+ * The scenario fields a parameter sweep can vary.
+ */
+export const SWEEP_PARAMETERS: SweepParameter[] = [
+  'deltaTime',
+  'charge',
+  'radius',
+  'seed',
+];
+
+const FORCE_TYPES = ['gravity', 'coulomb', 'lorentz', 'damping'];
+
+/**
+ * Builds a paused engine from a scenario. Spheres are created first, with sensors drawn
+ * from the scenario seed's stream split by sphere id, followed by the explicit sensors.
+ * The first sphere becomes the container; spheres with a parent are confined inside it.
+ * @param scenario - A validated scenario.
+ * @returns The engine, ready to be stepped.
+ * @throws Error if a sensor mass is not positive, two forces share a name, the adaptive
+ * step bounds are inconsistent, the boundary's min is not below its max, a noise
+ * stage's parameters are out of range, or a fault names a sensor or channel that does
+ * not exist.
+ */
+export function buildEngine(scenario: Scenario): SimulationEngine {
+  const random = new Random(scenario.seed ?? Constants.DEFAULT_RANDOM_SEED);
+
+  const spheres = (scenario.spheres ?? []).map(
+    config =>
+      new SensorSphere(
+        config.id,
+        config.center ? vectorFromSnapshot(config.center) : new Vector3(),
+        config.radius,
+        config.sensorCount,
+        SensorState.ACTIVE,
+        random.split(config.id)
+      )
+  );
+  (scenario.spheres ?? []).forEach((config, i) => {
+    if (config.velocity)
+      spheres[i].velocity = vectorFromSnapshot(config.velocity);
+    if (config.parent !== undefined) {
+      spheres[i].setParent(
+        spheres.find(sphere => sphere.id === config.parent) as SensorSphere
+      );
+    }
+  });
+  const sensors: Sensor[] = [];
+  spheres.forEach(sphere => sensors.push(...sphere.sensors));
+  (scenario.sensors ?? []).forEach(config => {
+    const sensor = new Sensor(
+      config.id,
+      config.position ? vectorFromSnapshot(config.position) : new Vector3(),
+      config.velocity ? vectorFromSnapshot(config.velocity) : Vector3.zero(),
+      config.mass,
+      config.charge
+    );
+    if (config.radius !== undefined) sensor.radius = config.radius;
+    if (config.restitution !== undefined) {
+      sensor.restitution = config.restitution;
+    }
+    if (config.friction !== undefined) sensor.friction = config.friction;
+    sensors.push(sensor);
+  });
+
+  sensors.forEach(sensor => {
+    if (scenario.charge !== undefined) {
+      sensor.charge = scenario.charge;
+      sensor.updateColor();
+    }
+    if (scenario.radius !== undefined) sensor.radius = scenario.radius;
+    (scenario.channels ?? []).forEach(config => {
+      const channel = sensor.addChannel(
+        config.type,
+        random.split(`${sensor.id}/${config.type}`),
+        config.sampleRate
+      );
+      channel.noise = (config.noise ?? []).map(createNoiseStage);
+    });
+  });
+
+  const engine = new SimulationEngine(
+    sensors,
+    spheres,
+    scenario.deltaTime,
+    scenario.integrator
+      ? createIntegrator(scenario.integrator)
+      : DEFAULT_INTEGRATOR,
+    random
+  );
+  if (scenario.broadphase) engine.broadphase = scenario.broadphase;
+  if (scenario.collisionStrategy) {
+    engine.collisionStrategy = scenario.collisionStrategy;
+  }
+  if (scenario.contactStiffness !== undefined) {
+    engine.contactStiffness = scenario.contactStiffness;
+  }
+  if (scenario.contactDamping !== undefined) {
+    engine.contactDamping = scenario.contactDamping;
+  }
+  if (scenario.accretion !== undefined) {
+    engine.getSphereNetwork().accretion = scenario.accretion;
+  }
+  if (scenario.adaptive) {
+    engine.adaptiveStepper = new AdaptiveStepper(scenario.adaptive);
+  }
+  (scenario.forces ?? []).forEach(force =>
+    engine.addForceProvider(createForceProvider(force))
+  );
+  if (scenario.boundary) engine.boundary = createBoundary(scenario.boundary);
+  if (scenario.faults) {
+    engine.faultInjector = new FaultInjector(
+      scenario.faults,
+      random.split('faults')
+    );
+    engine.faultInjector.checkTargets(sensors, spheres);
+  }
+  if (scenario.randomize) engine.randomize();
+  return engine;
+}
+
+function createBoundary(boundary: ScenarioBoundary): Boundary {
+  const vector = (value?: VectorSnapshot): Vector3 =>
+    value ? vectorFromSnapshot(value) : new Vector3();
+  switch (boundary.type) {
+    case BoundaryType.BOX:
+      return new BoxBoundary(
+        vector(boundary.min),
+        vector(boundary.max),
+        boundary.walls
+      );
+    case BoundaryType.CYLINDER:
+      return new CylinderBoundary(
+        vector(boundary.center),
+        boundary.radius as number,
+        boundary.height as number,
+        boundary.walls
+      );
+    case BoundaryType.PERIODIC:
+      return new PeriodicBoundary(vector(boundary.min), vector(boundary.max));
+    case BoundaryType.OPEN:
+      return new OpenBoundary();
+  }
+}
+
+function createForceProvider(force: ScenarioForce): ForceProvider {
+  const weight = force.weight ?? 1;
+  switch (force.type) {
+    case 'gravity':
+      return new GravityForceProvider(weight, undefined, force.theta);
+    case 'coulomb':
+      return new CoulombForceProvider(weight, undefined, force.theta);
+    case 'lorentz':
+      return new LorentzForceProvider(
+        force.field ? vectorFromSnapshot(force.field) : Vector3.zero(),
+        weight
+      );
+    case 'damping':
+      return new DampingForceProvider(force.coefficient, weight);
+  }
+}
+
+/**
+ * Expands per-parameter value lists into their Cartesian product. The first parameter
+ * varies slowest.
+ * @param grid - The values to try for each swept parameter.
+ * @returns Every combination, one value per parameter.
+ * @throws Error if a parameter cannot be swept or has no values.
+ */
+export function expandSweep(
+  grid: Partial<Record<SweepParameter, number[]>>
+): SweepPoint[] {
+  let points: SweepPoint[] = [{}];
+  Object.entries(grid).forEach(([name, values]) => {
+    if (!SWEEP_PARAMETERS.includes(name as SweepParameter)) {
+      throw new Error(
+        `Cannot sweep ${name}; expected one of ${SWEEP_PARAMETERS.join(', ')}.`
+      );
+    }
+    if (!values || values.length === 0) {
+      throw new Error(`Sweep parameter ${name} needs at least one value.`);
+    }
+    points = points.flatMap(point =>
+      values.map(value => ({ ...point, [name]: value }))
+    );
+  });
+  return points;
+}
+
+/**
+ * Returns a copy of a scenario with the swept parameters set, validated again so that
+ * out-of-range sweep values are reported like scenario errors.
+ * @param scenario - The base scenario.
+ * @param point - The parameter values to apply.
+ * @returns The modified scenario.
+ * @throws Error if the result is not a valid scenario.
+ */
+export function applySweepPoint(
+  scenario: Scenario,
+  point: SweepPoint
+): Scenario {
+  return validateScenario({ ...scenario, ...point });
+}
+
+/* ============================= Schema validation ============================= */
+
+function fail(path: string, expectation: string): never {
+  throw new Error(`Invalid scenario: ${path} must be ${expectation}.`);
+}
+
+function checkObject(value: unknown, path: string): Record<string, unknown> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    fail(path, 'an object');
+  }
+  return value as Record<string, unknown>;
+}
+
+function checkOptionalArray(value: unknown, path: string): unknown[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) fail(path, 'an array');
+  return value as unknown[];
+}
+
+function checkOptionalNumber(
+  value: unknown,
+  path: string,
+  positive = false
+): void {
+  if (value === undefined) return;
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    fail(path, 'a finite number');
+  }
+  if (positive && (value as number) <= 0) fail(path, 'greater than zero');
+}
+
+function checkOptionalCount(value: unknown, path: string): void {
+  if (value === undefined) return;
+  if (!Number.isInteger(value) || (value as number) < 0) {
+    fail(path, 'a non-negative integer');
+  }
+}
+
+function checkOptionalVector(value: unknown, path: string): void {
+  if (value === undefined) return;
+  if (!Array.isArray(value) || value.length !== 3) {
+    fail(path, 'an [x, y, z] array');
+  }
+  (value as unknown[]).forEach((component, i) =>
+    checkOptionalNumber(component, `${path}[${i}]`)
+  );
+}
+
+function checkOptionalEnum(
+  value: unknown,
+  path: string,
+  allowed: string[]
+): void {
+  if (value !== undefined && !allowed.includes(value as string)) {
+    fail(path, `one of ${allowed.join(', ')}`);
+  }
+}
+
+function checkId(value: unknown, path: string): void {
+  if (typeof value !== 'string' || value === '') {
+    fail(path, 'a non-empty string');
+  }
+}
+
+/**
+ * Checks that a parsed JSON value matches the scenario schema.
+ * @param data - The value to check (e.g. the result of JSON.parse).
+ * @returns The value typed as a Scenario.
+ * @throws Error describing the first field that does not match the schema.
+ */
+export function validateScenario(data: unknown): Scenario {
+  const root = checkObject(data, 'scenario');
+  if (root.name !== undefined && typeof root.name !== 'string') {
+    fail('name', 'a string');
+  }
+  if (root.seed !== undefined && !Number.isInteger(root.seed)) {
+    fail('seed', 'an integer');
+  }
+  checkOptionalNumber(root.deltaTime, 'deltaTime', true);
+  checkOptionalCount(root.steps, 'steps');
+  checkOptionalEnum(
+    root.integrator,
+    'integrator',
+    Object.values(IntegratorType)
+  );
+  checkOptionalEnum(
+    root.broadphase,
+    'broadphase',
+    Object.values(BroadphaseType)
+  );
+  checkOptionalEnum(
+    root.collisionStrategy,
+    'collisionStrategy',
+    Object.values(CollisionStrategy)
+  );
+  checkOptionalNumber(root.contactStiffness, 'contactStiffness', true);
+  checkOptionalNumber(root.contactDamping, 'contactDamping');
+  if (root.accretion !== undefined && typeof root.accretion !== 'boolean') {
+    fail('accretion', 'a boolean');
+  }
+  if (root.randomize !== undefined && typeof root.randomize !== 'boolean') {
+    fail('randomize', 'a boolean');
+  }
+  checkOptionalNumber(root.charge, 'charge');
+  checkOptionalNumber(root.radius, 'radius', true);
+
+  const sphereIds: unknown[] = [];
+  checkOptionalArray(root.spheres, 'spheres').forEach((value, i) => {
+    const path = `spheres[${i}]`;
+    const sphere = checkObject(value, path);
+    checkId(sphere.id, `${path}.id`);
+    if (sphere.parent !== undefined && !sphereIds.includes(sphere.parent)) {
+      fail(`${path}.parent`, 'the id of an earlier sphere');
+    }
+    sphereIds.push(sphere.id);
+    checkOptionalVector(sphere.center, `${path}.center`);
+    checkOptionalVector(sphere.velocity, `${path}.velocity`);
+    checkOptionalNumber(sphere.radius, `${path}.radius`, true);
+    checkOptionalCount(sphere.sensorCount, `${path}.sensorCount`);
+  });
+
+  checkOptionalArray(root.sensors, 'sensors').forEach((value, i) => {
+    const path = `sensors[${i}]`;
+    const sensor = checkObject(value, path);
+    checkId(sensor.id, `${path}.id`);
+    checkOptionalVector(sensor.position, `${path}.position`);
+    checkOptionalVector(sensor.velocity, `${path}.velocity`);
+    checkOptionalNumber(sensor.mass, `${path}.mass`, true);
+    checkOptionalNumber(sensor.charge, `${path}.charge`);
+    checkOptionalNumber(sensor.radius, `${path}.radius`, true);
+    checkOptionalNumber(sensor.restitution, `${path}.restitution`);
+    checkOptionalNumber(sensor.friction, `${path}.friction`);
+  });
+
+  checkOptionalArray(root.forces, 'forces').forEach((value, i) => {
+    const path = `forces[${i}]`;
+    const force = checkObject(value, path);
+    if (!FORCE_TYPES.includes(force.type as string)) {
+      fail(`${path}.type`, `one of ${FORCE_TYPES.join(', ')}`);
+    }
+    checkOptionalNumber(force.weight, `${path}.weight`);
+    checkOptionalNumber(force.theta, `${path}.theta`, true);
+    checkOptionalVector(force.field, `${path}.field`);
+    checkOptionalNumber(force.coefficient, `${path}.coefficient`);
+  });
+
+  const channelTypes: string[] = Object.values(ChannelType);
+  const seenChannels = new Set<unknown>();
+  checkOptionalArray(root.channels, 'channels').forEach((value, i) => {
+    const path = `channels[${i}]`;
+    const channel = checkObject(value, path);
+    if (!channelTypes.includes(channel.type as string)) {
+      fail(`${path}.type`, `one of ${channelTypes.join(', ')}`);
+    }
+    if (seenChannels.has(channel.type)) fail(`${path}.type`, 'unique');
+    seenChannels.add(channel.type);
+    checkOptionalNumber(channel.sampleRate, `${path}.sampleRate`, true);
+    const noiseTypes: string[] = Object.values(NoiseType);
+    checkOptionalArray(channel.noise, `${path}.noise`).forEach((value, j) => {
+      const stage = checkObject(value, `${path}.noise[${j}]`);
+      const type = stage.type as NoiseType;
+      if (!noiseTypes.includes(type)) {
+        fail(`${path}.noise[${j}].type`, `one of ${noiseTypes.join(', ')}`);
+      }
+      NOISE_PARAMETERS[type].forEach(field => {
+        if (stage[field] === undefined) {
+          fail(`${path}.noise[${j}].${field}`, 'a finite number');
+        }
+        checkOptionalNumber(stage[field], `${path}.noise[${j}].${field}`);
+      });
+      if (type === NoiseType.LINEAR_RESPONSE) {
+        const matrix = `${path}.noise[${j}].matrix`;
+        if (stage.matrix === undefined) fail(matrix, 'an array of rows');
+        checkOptionalArray(stage.matrix, matrix).forEach((row, k) =>
+          checkOptionalArray(row, `${matrix}[${k}]`).forEach((entry, l) =>
+            checkOptionalNumber(entry, `${matrix}[${k}][${l}]`)
+          )
+        );
+      }
+    });
+  });
+
+  if (root.boundary !== undefined) {
+    const boundary = checkObject(root.boundary, 'boundary');
+    const type = boundary.type as BoundaryType;
+    const types: string[] = Object.values(BoundaryType);
+    if (!types.includes(type)) {
+      fail('boundary.type', `one of ${types.join(', ')}`);
+    }
+    const boxed = type === BoundaryType.BOX || type === BoundaryType.PERIODIC;
+    (['min', 'max'] as const).forEach(field => {
+      if (boxed && boundary[field] === undefined) {
+        fail(`boundary.${field}`, 'an [x, y, z] array');
+      }
+      checkOptionalVector(boundary[field], `boundary.${field}`);
+    });
+    checkOptionalVector(boundary.center, 'boundary.center');
+    (['radius', 'height'] as const).forEach(field => {
+      if (type === BoundaryType.CYLINDER && boundary[field] === undefined) {
+        fail(`boundary.${field}`, 'a finite number');
+      }
+      checkOptionalNumber(boundary[field], `boundary.${field}`, true);
+    });
+    checkOptionalEnum(
+      boundary.walls,
+      'boundary.walls',
+      Object.values(WallBehavior)
+    );
+  }
+
+  checkOptionalArray(root.faults, 'faults').forEach((value, i) => {
+    const path = `faults[${i}]`;
+    const fault = checkObject(value, path);
+    const types: string[] = Object.values(FaultType);
+    if (!types.includes(fault.type as string)) {
+      fail(`${path}.type`, `one of ${types.join(', ')}`);
+    }
+    checkId(fault.target, `${path}.target`);
+    if (
+      fault.type === FaultType.KILL_SPHERE &&
+      !sphereIds.includes(fault.target)
+    ) {
+      fail(`${path}.target`, 'the id of a sphere');
+    }
+    checkOptionalEnum(
+      fault.channel,
+      `${path}.channel`,
+      Object.values(ChannelType)
+    );
+    if ((fault.time === undefined) === (fault.rate === undefined)) {
+      fail(path, 'given either a time or a rate');
+    }
+    checkOptionalNumber(fault.time, `${path}.time`);
+    if ((fault.time as number) < 0) fail(`${path}.time`, 'non-negative');
+    checkOptionalNumber(fault.rate, `${path}.rate`, true);
+    checkOptionalNumber(fault.duration, `${path}.duration`, true);
+    if (fault.type === FaultType.BIAS_JUMP && fault.bias === undefined) {
+      fail(`${path}.bias`, 'an array of numbers');
+    }
+    checkOptionalArray(fault.bias, `${path}.bias`).forEach((component, j) => {
+      if (typeof component !== 'number' || !Number.isFinite(component)) {
+        fail(`${path}.bias[${j}]`, 'a finite number');
+      }
+    });
+  });
+
+  if (root.adaptive !== undefined) {
+    const adaptive = checkObject(root.adaptive, 'adaptive');
+    checkOptionalEnum(
+      adaptive.control,
+      'adaptive.control',
+      Object.values(StepControl)
+    );
+    checkOptionalNumber(adaptive.tolerance, 'adaptive.tolerance', true);
+    checkOptionalNumber(adaptive.courant, 'adaptive.courant', true);
+    checkOptionalNumber(adaptive.minStep, 'adaptive.minStep', true);
+    checkOptionalNumber(adaptive.maxStep, 'adaptive.maxStep', true);
+    if (
+      adaptive.gravity !== undefined &&
+      typeof adaptive.gravity !== 'boolean'
+    ) {
+      fail('adaptive.gravity', 'a boolean');
+    }
+  }
+
+  return data as Scenario;
+}
@@ -0,0 +1,173 @@
+import { Sensor } from '../sensors/Sensor';
+import { Constants } from './Constants';
+import {
+  BodyState,
+  DormandPrinceIntegrator,
+  ErrorEstimatingIntegrator,
+} from './Integrator';
+import { collisionRadius } from '../utils/broadphase';
+
+/**
+ * How an AdaptiveStepper chooses the time step.
+ */
+export enum StepControl {
+  /**
+   * From the embedded error estimate of an error-estimating integrator: steps whose
+   * error exceeds the tolerance are rejected and retried with a smaller step.
+   */
+  ERROR = 'error',
+
+  /**
+   * From CFL-like criteria: no sensor may move more than a fraction (the Courant number)
+   * of its radius per step, and the step must resolve the free-fall time of the closest
+   * gravitating pair.
+   */
+  CFL = 'cfl',
+}
+
+/**
+ * Settings for an AdaptiveStepper. Missing values fall back to the defaults in Constants.
+ */
+export interface AdaptiveStepperOptions {
+  control?: StepControl;
+  tolerance?: number; // Relative error allowed per step (ERROR control).
+  courant?: number; // Fraction of the limiting time scale used as the step (CFL control).
+  minStep?: number; // Smallest allowed step in seconds.
+  maxStep?: number; // Largest allowed step in seconds.
+  gravity?: boolean; // Whether CFL control includes the gravitational closest approach.
+  integrator?: ErrorEstimatingIntegrator; // Integrator for ERROR control (default: Dormand–Prince).
+}
+
+// Standard step-size controller constants: the safety factor and the limits on how much
+// a single step may shrink or grow the step size.
+const SAFETY = 0.9;
+const MIN_SCALE = 0.2;
+const MAX_SCALE = 5;
+
+/**
+ * Chooses time steps for SimulationEngine. Every step it proposes lies within
+ * [minStep, maxStep], by default Constants.MIN_TIME_STEP and Constants.MAX_TIME_STEP.
+ */
+export class AdaptiveStepper {
+  public readonly control: StepControl;
+  public readonly tolerance: number;
+  public readonly courant: number;
+  public readonly minStep: number;
+  public readonly maxStep: number;
+  public readonly gravity: boolean;
+  public readonly integrator: ErrorEstimatingIntegrator;
+
+  /**
+   * @param options - Control mode, tolerances and step bounds.
+   * @throws Error if the bounds are not 0 < minStep <= maxStep, or the tolerance or
+   * Courant number is not greater than zero.
+   */
+  constructor(options: AdaptiveStepperOptions = {}) {
+    this.control = options.control ?? StepControl.ERROR;
+    this.tolerance = options.tolerance ?? Constants.DEFAULT_STEP_TOLERANCE;
+    this.courant = options.courant ?? Constants.DEFAULT_COURANT_NUMBER;
+    this.minStep = options.minStep ?? Constants.MIN_TIME_STEP;
+    this.maxStep = options.maxStep ?? Constants.MAX_TIME_STEP;
+    this.gravity = options.gravity ?? true;
+    this.integrator = options.integrator ?? new DormandPrinceIntegrator();
+    if (!(this.minStep > 0) || !(this.minStep <= this.maxStep)) {
+      throw new Error('Time step bounds must satisfy 0 < minStep <= maxStep.');
+    }
+    if (!(this.tolerance > 0)) {
+      throw new Error('Tolerance must be greater than zero.');
+    }
+    if (!(this.courant > 0)) {
+      throw new Error('Courant number must be greater than zero.');
+    }
+  }
+
+  /**
+   * Limits a time step to [minStep, maxStep].
+   * @param deltaTime - The proposed step.
+   * @returns The step within bounds.
+   */
+  public clamp(deltaTime: number): number {
+    return Math.min(Math.max(deltaTime, this.minStep), this.maxStep);
+  }
+
+  /**
+   * Computes the CFL-limited step for the sensors' current state:
+   *   dt ≤ C · rᵢ / |vᵢ|                      for every sensor (radius rᵢ),
+   *   dt ≤ C · √(dᵢⱼ³ / (G·(mᵢ + mⱼ)))         for every pair at distance dᵢⱼ (gravity).
+   * @param sensors - The sensors to be advanced.
+   * @returns The largest step meeting every criterion, within bounds.
+   */
+  public cflStep(sensors: Sensor[]): number {
+    let limit = Infinity;
+    sensors.forEach(sensor => {
+      const speed = sensor.velocity.magnitude();
+      if (speed > 0) limit = Math.min(limit, collisionRadius(sensor) / speed);
+    });
+    if (this.gravity) {
+      for (let i = 0; i < sensors.length; i++) {
+        for (let j = i + 1; j < sensors.length; j++) {
+          const distance = sensors[i].position.distanceTo(sensors[j].position);
+          const mu =
+            Constants.GRAVITATIONAL_CONSTANT *
+            (sensors[i].mass + sensors[j].mass);
+          if (distance > 0) {
+            limit = Math.min(limit, Math.sqrt(distance ** 3 / mu));
+          }
+        }
+      }
+    }
+    return this.clamp(this.courant * limit);
+  }
+
+  /**
+   * Scales an integrator's error estimate by the tolerance. Each position and velocity
+   * component may err by tolerance · (1 + |value|); the result is the largest ratio of
+   * error to allowance, so a step is acceptable when it is at most 1.
+   * @param states - The states before the step.
+   * @param next - The states after the step.
+   * @param errors - The integrator's error estimates, index-aligned with the states.
+   * @returns The scaled error norm.
+   */
+  public errorNorm(
+    states: BodyState[],
+    next: BodyState[],
+    errors: BodyState[]
+  ): number {
+    let norm = 0;
+    const accumulate = (error: number, before: number, after: number): void => {
+      const allowance =
+        this.tolerance * (1 + Math.max(Math.abs(before), Math.abs(after)));
+      norm = Math.max(norm, Math.abs(error) / allowance);
+    };
+    errors.forEach((error, i) => {
+      (['position', 'velocity'] as const).forEach(field => {
+        (['x', 'y', 'z'] as const).forEach(axis =>
+          accumulate(
+            error[field][axis],
+            states[i][field][axis],
+            next[i][field][axis]
+          )
+        );
+      });
+    });
+    return norm;
+  }
+
+  /**
+   * Proposes the next step from the current one and its scaled error norm, using the
+   * standard controller dt' = dt · 0.9 · norm^(-1/5), limited to a factor of 0.2–5.
+   * @param deltaTime - The step just attempted.
+   * @param norm - Its scaled error norm (see errorNorm).
+   * @returns The proposed step, within bounds.
+   */
+  public nextStep(deltaTime: number, norm: number): number {
+    const scale =
+      norm === 0
+        ? MAX_SCALE
+        : Math.min(
+            Math.max(SAFETY * Math.pow(norm, -1 / 5), MIN_SCALE),
+            MAX_SCALE
+          );
+    return this.clamp(deltaTime * scale);
+  }
+}
@@ -140,6 +140,56 @@ export const Constants = {
    */
   MIN_TIME_STEP: 1e-6,
 
+  /**
+   * Default Random Seed.
+   * Seed used by the pseudo-random number generator when none is given.
+   * Dimensionless.
+   */
+  DEFAULT_RANDOM_SEED: 42,
+
+  /**
+   * Default Reversible Integrator Quantum.
+   * Fixed-point grid spacing of the bit-reversible leapfrog integrator. Positions and
+   * velocities must stay below 2⁵³ times this value (about 8 km).
+   * Unit: m (positions), m/s (velocities)
+   */
+  DEFAULT_REVERSIBLE_QUANTUM: Math.pow(2, -40),
+
+  /**
+   * Default Checkpoint Interval.
+   * Number of steps between saved snapshots in the time-reversal history.
+   * Dimensionless.
+   */
+  DEFAULT_CHECKPOINT_INTERVAL: 10,
+
+  /**
+   * Default History Capacity.
+   * Maximum number of checkpoints kept in the time-reversal ring buffer.
+   * Dimensionless.
+   */
+  DEFAULT_HISTORY_CAPACITY: 64,
+
+  /**
+   * Default Maximum Substeps.
+   * Largest number of fixed steps the real-time driver takes per tick. Real time beyond
+   * that is dropped so a slow frame cannot trigger an ever-growing backlog of steps.
+   * Dimensionless.
+   */
+  DEFAULT_MAX_SUBSTEPS: 8,
+
+  /**
+   * Default relative error allowed per step when the time step is chosen by error
+   * control. Dimensionless.
+   */
+  DEFAULT_STEP_TOLERANCE: 1e-6,
+
+  /**
+   * Default Courant number: the fraction of the limiting time scale (a sensor crossing
+   * its own radius, or a close pair falling together) used as the step under CFL control.
+   * Dimensionless.
+   */
+  DEFAULT_COURANT_NUMBER: 0.2,
+
   /**
    * Default Emissivity.
    * Represents how efficiently a sensor radiates energy.
@@ -147,6 +197,128 @@ export const Constants = {
    */
   DEFAULT_EMISSIVITY: 0.9,
 
+  /**
+   * Default Coefficient of Restitution.
+   * Ratio of the normal separation speed after a collision to the approach speed
+   * before it; 1 is perfectly elastic.
+   * Dimensionless.
+   */
+  DEFAULT_RESTITUTION: 1,
+
+  /**
+   * Default Coefficient of Friction.
+   * Limits the tangential collision impulse to this multiple of the normal impulse;
+   * 0 is frictionless.
+   * Dimensionless.
+   */
+  DEFAULT_FRICTION: 0,
+
+  /**
+   * Default Specific Heat Capacity.
+   * Converts kinetic energy dissipated in collisions into a sensor temperature rise
+   * (roughly that of rock, matching the density assumed for radiation).
+   * Unit: J/(kg·K)
+   */
+  DEFAULT_SPECIFIC_HEAT: 800,
+
+  /**
+   * Default Contact Stiffness.
+   * Spring constant of the penalty (soft-contact) collision model: the repulsive force
+   * per metre of penetration.
+   * Unit: N/m
+   */
+  DEFAULT_CONTACT_STIFFNESS: 1000,
+
+  /**
+   * Default Contact Damping.
+   * Damping coefficient of the penalty collision model: the repulsive force per m/s of
+   * closing speed. Zero makes soft contacts elastic.
+   * Unit: N·s/m
+   */
+  DEFAULT_CONTACT_DAMPING: 0,
+
+  /**
+   * Default Position Correction.
+   * Fraction of the overlap between two sensors removed by moving them apart at the
+   * end of a step; 0 disables positional correction.
+   * Dimensionless.
+   */
+  DEFAULT_POSITION_CORRECTION: 1,
+
+  /**
+   * Maximum Time-of-Impact Substeps.
+   * The most contacts continuous collision detection resolves within one step; later
+   * contacts in the same step are left to the discrete handling.
+   * Dimensionless.
+   */
+  MAX_TOI_SUBSTEPS: 16,
+
+  /**
+   * Default Sample Rate.
+   * How often a sensor measurement channel takes a reading.
+   * Unit: Hz
+   */
+  DEFAULT_SAMPLE_RATE: 10,
+
+  /**
+   * Default Sample Capacity.
+   * Maximum number of readings kept in a measurement channel's time series; older
+   * readings are dropped first.
+   * Dimensionless.
+   */
+  DEFAULT_SAMPLE_CAPACITY: 10000,
+
+  /**
+   * Reference Temperature.
+   * Temperature at which a sensor's temperature-dependent bias vanishes (20 °C).
+   * Unit: K
+   */
+  REFERENCE_TEMPERATURE: 293.15,
+
+  /**
+   * Maintenance Transition Duration.
+   * Time a sensor spends in the TRANSITION state on its way into or out of maintenance.
+   * Unit: s
+   */
+  MAINTENANCE_TRANSITION_DURATION: 1,
+
+  /**
+   * Default Message Size.
+   * Size of a message between sensors, which sets how long it occupies a link of
+   * limited bandwidth.
+   * Unit: bytes
+   */
+  DEFAULT_MESSAGE_SIZE: 32,
+
+  /**
+   * Default Hop Delay.
+   * Time a sensor takes to receive, process and pass on a message, added to every hop
+   * on top of the propagation time.
+   * Unit: s
+   */
+  DEFAULT_HOP_DELAY: 0.001,
+
+  /**
+   * Default Message TTL.
+   * Most hops a message may take before it is dropped.
+   * Dimensionless.
+   */
+  DEFAULT_MESSAGE_TTL: 16,
+
+  /**
+   * Default Consensus Tolerance.
+   * Spread of the sensors' estimates below which a consensus run counts as converged.
+   * Unit: that of the quantity agreed on
+   */
+  DEFAULT_CONSENSUS_TOLERANCE: 1e-6,
+
+  /**
+   * Default Consensus Rounds.
+   * Most rounds a consensus run takes before giving up.
+   * Dimensionless.
+   */
+  DEFAULT_CONSENSUS_ROUNDS: 1000,
+
   /* ============================= Color Palettes ============================= */
 
   /**
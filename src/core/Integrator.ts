@@ -0,0 +1,498 @@
+import { Vector3 } from './Vector3';
+import { Constants } from './Constants';
+
+/**
+ * Enumeration of the numerical integration schemes available to the simulation.
+ */
+export enum IntegratorType {
+  /**
+   * Explicit (forward) Euler. First order, not symplectic; energy drifts linearly.
+   */
+  EXPLICIT_EULER = 'explicit-euler',
+
+  /**
+   * Semi-implicit (symplectic) Euler. First order; velocity is updated before position.
+   */
+  SEMI_IMPLICIT_EULER = 'semi-implicit-euler',
+
+  /**
+   * Velocity Verlet (kick-drift-kick). Second order and symplectic.
+   */
+  VELOCITY_VERLET = 'velocity-verlet',
+
+  /**
+   * Leapfrog in drift-kick-drift form. Second order, symplectic and time-reversible.
+   */
+  LEAPFROG = 'leapfrog',
+
+  /**
+   * Classical fourth-order Runge-Kutta. Fourth order, not symplectic.
+   */
+  RK4 = 'rk4',
+
+  /**
+   * Leapfrog on a fixed-point grid. Second order and bit-for-bit time-reversible.
+   */
+  REVERSIBLE_LEAPFROG = 'reversible-leapfrog',
+
+  /**
+   * Dormand–Prince 5(4). Fifth order with an embedded fourth-order error estimate for
+   * adaptive step-size control. Not symplectic.
+   */
+  DORMAND_PRINCE = 'dormand-prince',
+}
+
+/**
+ * The kinematic state of a single body advanced by an integrator.
+ */
+export interface BodyState {
+  position: Vector3;
+  velocity: Vector3;
+}
+
+/**
+ * Computes the acceleration of every body for a trial set of states.
+ * The returned array must be index-aligned with the given states.
+ */
+export type AccelerationEvaluator = (states: BodyState[]) => Vector3[];
+
+/**
+ * A numerical integrator for Newtonian equations of motion.
+ *
+ * Integrators are stateless: each call to step() advances the given states by one
+ * time step and returns the new states, evaluating accelerations as often as the
+ * scheme requires.
+ */
+export interface Integrator {
+  /** The scheme implemented by this integrator. */
+  readonly type: IntegratorType;
+  /** The global order of accuracy of the scheme. */
+  readonly order: number;
+  /**
+   * True if stepping from (x', -v') exactly undoes a step from (x, v) when accelerations
+   * depend only on positions, so negating velocities retraces a run bit for bit.
+   */
+  readonly reversible: boolean;
+
+  /**
+   * Advances the given states by one time step.
+   * @param states - The current states of all bodies.
+   * @param deltaTime - The time step in seconds.
+   * @param evaluate - Computes accelerations for a trial set of states.
+   * @returns The new states, index-aligned with the input.
+   */
+  step(
+    states: BodyState[],
+    deltaTime: number,
+    evaluate: AccelerationEvaluator
+  ): BodyState[];
+}
+
+/**
+ * An integrator that also estimates the local error of each step, for adaptive stepping.
+ */
+export interface ErrorEstimatingIntegrator extends Integrator {
+  /**
+   * Advances the given states by one time step and estimates the step's local error.
+   * @param states - The current states of all bodies.
+   * @param deltaTime - The time step in seconds.
+   * @param evaluate - Computes accelerations for a trial set of states.
+   * @returns The new states and, index-aligned with them, the estimated error in each
+   * body's position and velocity.
+   */
+  stepWithError(
+    states: BodyState[],
+    deltaTime: number,
+    evaluate: AccelerationEvaluator
+  ): { states: BodyState[]; errors: BodyState[] };
+}
+
+/**
+ * Returns true if the integrator provides an embedded error estimate.
+ * @param integrator - The integrator to check.
+ */
+export function isErrorEstimating(
+  integrator: Integrator
+): integrator is ErrorEstimatingIntegrator {
+  return (
+    typeof (integrator as ErrorEstimatingIntegrator).stepWithError ===
+    'function'
+  );
+}
+
+/**
+ * Explicit Euler: x' = x + v·dt, v' = v + a(x)·dt.
+ */
+export class ExplicitEulerIntegrator implements Integrator {
+  public readonly type = IntegratorType.EXPLICIT_EULER;
+  public readonly order = 1;
+  public readonly reversible = false;
+
+  public step(
+    states: BodyState[],
+    deltaTime: number,
+    evaluate: AccelerationEvaluator
+  ): BodyState[] {
+    const accelerations = evaluate(states);
+    return states.map((state, i) => ({
+      position: state.position.add(state.velocity.multiplyScalar(deltaTime)),
+      velocity: state.velocity.add(accelerations[i].multiplyScalar(deltaTime)),
+    }));
+  }
+}
+
+/**
+ * Semi-implicit Euler: v' = v + a(x)·dt, x' = x + v'·dt.
+ */
+export class SemiImplicitEulerIntegrator implements Integrator {
+  public readonly type = IntegratorType.SEMI_IMPLICIT_EULER;
+  public readonly order = 1;
+  public readonly reversible = false;
+
+  public step(
+    states: BodyState[],
+    deltaTime: number,
+    evaluate: AccelerationEvaluator
+  ): BodyState[] {
+    const accelerations = evaluate(states);
+    return states.map((state, i) => {
+      const velocity = state.velocity.add(
+        accelerations[i].multiplyScalar(deltaTime)
+      );
+      return {
+        position: state.position.add(velocity.multiplyScalar(deltaTime)),
+        velocity,
+      };
+    });
+  }
+}
+
+/**
+ * Velocity Verlet (kick-drift-kick):
+ *   v½ = v + a(x)·dt/2
+ *   x' = x + v½·dt
+ *   v' = v½ + a(x')·dt/2
+ */
+export class VelocityVerletIntegrator implements Integrator {
+  public readonly type = IntegratorType.VELOCITY_VERLET;
+  public readonly order = 2;
+  public readonly reversible = false;
+
+  public step(
+    states: BodyState[],
+    deltaTime: number,
+    evaluate: AccelerationEvaluator
+  ): BodyState[] {
+    const halfStep = deltaTime / 2;
+    const initialAccelerations = evaluate(states);
+    const drifted = states.map((state, i) => {
+      const halfVelocity = state.velocity.add(
+        initialAccelerations[i].multiplyScalar(halfStep)
+      );
+      return {
+        position: state.position.add(halfVelocity.multiplyScalar(deltaTime)),
+        velocity: halfVelocity,
+      };
+    });
+    const finalAccelerations = evaluate(drifted);
+    return drifted.map((state, i) => ({
+      position: state.position,
+      velocity: state.velocity.add(
+        finalAccelerations[i].multiplyScalar(halfStep)
+      ),
+    }));
+  }
+}
+
+/**
+ * Leapfrog (drift-kick-drift):
+ *   x½ = x + v·dt/2
+ *   v' = v + a(x½)·dt
+ *   x' = x½ + v'·dt/2
+ */
+export class LeapfrogIntegrator implements Integrator {
+  public readonly type = IntegratorType.LEAPFROG;
+  public readonly order = 2;
+  public readonly reversible = false;
+
+  public step(
+    states: BodyState[],
+    deltaTime: number,
+    evaluate: AccelerationEvaluator
+  ): BodyState[] {
+    const halfStep = deltaTime / 2;
+    const drifted = states.map(state => ({
+      position: state.position.add(state.velocity.multiplyScalar(halfStep)),
+      velocity: state.velocity,
+    }));
+    const accelerations = evaluate(drifted);
+    return drifted.map((state, i) => {
+      const velocity = state.velocity.add(
+        accelerations[i].multiplyScalar(deltaTime)
+      );
+      return {
+        position: state.position.add(velocity.multiplyScalar(halfStep)),
+        velocity,
+      };
+    });
+  }
+}
+
+/**
+ * Classical fourth-order Runge-Kutta applied to the first-order system (x, v).
+ */
+export class RK4Integrator implements Integrator {
+  public readonly type = IntegratorType.RK4;
+  public readonly order = 4;
+  public readonly reversible = false;
+
+  public step(
+    states: BodyState[],
+    deltaTime: number,
+    evaluate: AccelerationEvaluator
+  ): BodyState[] {
+    const halfStep = deltaTime / 2;
+    // Each stage k holds (dx/dt, dv/dt) for every body.
+    const advance = (stage: BodyState[], factor: number): BodyState[] =>
+      states.map((state, i) => ({
+        position: state.position.add(stage[i].position.multiplyScalar(factor)),
+        velocity: state.velocity.add(stage[i].velocity.multiplyScalar(factor)),
+      }));
+    const derivative = (trial: BodyState[]): BodyState[] => {
+      const accelerations = evaluate(trial);
+      return trial.map((state, i) => ({
+        position: state.velocity,
+        velocity: accelerations[i],
+      }));
+    };
+
+    const k1 = derivative(states);
+    const k2 = derivative(advance(k1, halfStep));
+    const k3 = derivative(advance(k2, halfStep));
+    const k4 = derivative(advance(k3, deltaTime));
+
+    const sixth = deltaTime / 6;
+    return states.map((state, i) => ({
+      position: state.position.add(
+        k1[i].position
+          .add(k2[i].position.multiplyScalar(2))
+          .add(k3[i].position.multiplyScalar(2))
+          .add(k4[i].position)
+          .multiplyScalar(sixth)
+      ),
+      velocity: state.velocity.add(
+        k1[i].velocity
+          .add(k2[i].velocity.multiplyScalar(2))
+          .add(k3[i].velocity.multiplyScalar(2))
+          .add(k4[i].velocity)
+          .multiplyScalar(sixth)
+      ),
+    }));
+  }
+}
+
+/**
+ * Bit-reversible leapfrog (drift-kick-drift) on a fixed-point grid.
+ *
+ * Every increment is rounded to a multiple of `quantum`, a power of two, so sums of
+ * grid values are exact in floating point. Rounding is symmetric about zero, so a step
+ * from (x', -v') lands exactly on (x, -v). States are snapped to the grid on entry, and
+ * positions and velocities must stay below 2⁵³·quantum in magnitude.
+ */
+export class ReversibleLeapfrogIntegrator implements Integrator {
+  public readonly type = IntegratorType.REVERSIBLE_LEAPFROG;
+  public readonly order = 2;
+  public readonly reversible = true;
+  public readonly quantum: number;
+
+  /**
+   * @param quantum - Grid spacing, a positive power of two (default Constants.DEFAULT_REVERSIBLE_QUANTUM).
+   * @throws Error if quantum is not a positive power of two.
+   */
+  constructor(quantum: number = Constants.DEFAULT_REVERSIBLE_QUANTUM) {
+    if (!(quantum > 0) || !Number.isInteger(Math.log2(quantum))) {
+      throw new Error('Quantum must be a positive power of two.');
+    }
+    this.quantum = quantum;
+  }
+
+  public step(
+    states: BodyState[],
+    deltaTime: number,
+    evaluate: AccelerationEvaluator
+  ): BodyState[] {
+    const halfStep = deltaTime / 2;
+    const drifted = states.map(state => {
+      const velocity = this.snap(state.velocity);
+      return {
+        position: this.snap(state.position).add(
+          this.snap(velocity.multiplyScalar(halfStep))
+        ),
+        velocity,
+      };
+    });
+    const accelerations = evaluate(drifted);
+    return drifted.map((state, i) => {
+      const velocity = state.velocity.add(
+        this.snap(accelerations[i].multiplyScalar(deltaTime))
+      );
+      return {
+        position: state.position.add(
+          this.snap(velocity.multiplyScalar(halfStep))
+        ),
+        velocity,
+      };
+    });
+  }
+
+  /**
+   * Rounds each component to the nearest grid value, with ties rounded away from zero
+   * so that snap(-v) === -snap(v).
+   */
+  private snap(v: Vector3): Vector3 {
+    const round = (value: number): number =>
+      Math.sign(value) *
+      Math.round(Math.abs(value) / this.quantum) *
+      this.quantum;
+    return new Vector3(round(v.x), round(v.y), round(v.z));
+  }
+}
+
+// Dormand–Prince 5(4) Butcher tableau: stage coefficients, the fifth-order weights used
+// to advance, and the differences between the fifth- and fourth-order weights.
+const DORMAND_PRINCE_A = [
+  [],
+  [1 / 5],
+  [3 / 40, 9 / 40],
+  [44 / 45, -56 / 15, 32 / 9],
+  [19372 / 6561, -25360 / 2187, 64448 / 6561, -212 / 729],
+  [9017 / 3168, -355 / 33, 46732 / 5247, 49 / 176, -5103 / 18656],
+  [35 / 384, 0, 500 / 1113, 125 / 192, -2187 / 6784, 11 / 84],
+];
+const DORMAND_PRINCE_B = [
+  35 / 384,
+  0,
+  500 / 1113,
+  125 / 192,
+  -2187 / 6784,
+  11 / 84,
+  0,
+];
+const DORMAND_PRINCE_E = [
+  35 / 384 - 5179 / 57600,
+  0,
+  500 / 1113 - 7571 / 16695,
+  125 / 192 - 393 / 640,
+  -2187 / 6784 + 92097 / 339200,
+  11 / 84 - 187 / 2100,
+  -1 / 40,
+];
+
+/**
+ * Dormand–Prince 5(4) applied to the first-order system (x, v). Takes seven acceleration
+ * evaluations per step; the difference between the fifth- and the embedded fourth-order
+ * solution estimates the local error.
+ */
+export class DormandPrinceIntegrator implements ErrorEstimatingIntegrator {
+  public readonly type = IntegratorType.DORMAND_PRINCE;
+  public readonly order = 5;
+  public readonly reversible = false;
+
+  public step(
+    states: BodyState[],
+    deltaTime: number,
+    evaluate: AccelerationEvaluator
+  ): BodyState[] {
+    return this.stepWithError(states, deltaTime, evaluate).states;
+  }
+
+  public stepWithError(
+    states: BodyState[],
+    deltaTime: number,
+    evaluate: AccelerationEvaluator
+  ): { states: BodyState[]; errors: BodyState[] } {
+    // Sums weight·k over the stages for every body, where each stage k holds (dx/dt, dv/dt).
+    const combine = (stages: BodyState[][], weights: number[]): BodyState[] =>
+      states.map((_, i) =>
+        stages.reduce(
+          (sum, stage, j) => ({
+            position: sum.position.add(
+              stage[i].position.multiplyScalar(weights[j] * deltaTime)
+            ),
+            velocity: sum.velocity.add(
+              stage[i].velocity.multiplyScalar(weights[j] * deltaTime)
+            ),
+          }),
+          { position: Vector3.zero(), velocity: Vector3.zero() }
+        )
+      );
+    const offset = (increments: BodyState[]): BodyState[] =>
+      states.map((state, i) => ({
+        position: state.position.add(increments[i].position),
+        velocity: state.velocity.add(increments[i].velocity),
+      }));
+
+    const stages: BodyState[][] = [];
+    DORMAND_PRINCE_A.forEach(weights => {
+      const trial = offset(combine(stages, weights));
+      const accelerations = evaluate(trial);
+      stages.push(
+        trial.map((state, i) => ({
+          position: state.velocity,
+          velocity: accelerations[i],
+        }))
+      );
+    });
+
+    return {
+      states: offset(combine(stages, DORMAND_PRINCE_B)),
+      errors: combine(stages, DORMAND_PRINCE_E),
+    };
+  }
+}
+
+/**
+ * Creates an integrator for the given scheme.
+ * @param type - The integration scheme.
+ * @returns A new Integrator instance.
+ * @throws Error if the type is not recognised.
+ */
+export function createIntegrator(type: IntegratorType): Integrator {
+  switch (type) {
+    case IntegratorType.EXPLICIT_EULER:
+      return new ExplicitEulerIntegrator();
+    case IntegratorType.SEMI_IMPLICIT_EULER:
+      return new SemiImplicitEulerIntegrator();
+    case IntegratorType.VELOCITY_VERLET:
+      return new VelocityVerletIntegrator();
+    case IntegratorType.LEAPFROG:
+      return new LeapfrogIntegrator();
+    case IntegratorType.RK4:
+      return new RK4Integrator();
+    case IntegratorType.REVERSIBLE_LEAPFROG:
+      return new ReversibleLeapfrogIntegrator();
+    case IntegratorType.DORMAND_PRINCE:
+      return new DormandPrinceIntegrator();
+    default:
+      throw new Error(`Unknown integrator type: ${type}`);
+  }
+}
+
+/**
+ * Returns an evaluator that reports the same, fixed accelerations for every trial state.
+ * Used when forces have already been accumulated for the step (e.g. via Sensor.applyForce).
+ * @param accelerations - The accelerations to report, index-aligned with the states.
+ * @returns An AccelerationEvaluator.
+ */
+export function constantAcceleration(
+  accelerations: Vector3[]
+): AccelerationEvaluator {
+  return () => accelerations;
+}
+
+/**
+ * The integrator used when none is configured. Semi-implicit Euler matches the
+ * scheme the simulation has always used, so existing runs are unaffected.
+ * Integrators are stateless, so this instance is safe to share.
+ */
+export const DEFAULT_INTEGRATOR: Integrator = new SemiImplicitEulerIntegrator();
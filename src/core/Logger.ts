@@ -87,9 +87,16 @@ export class Logger {
    */
   public static recordEvent(event: RunEvent): void {
     Logger.runLog.push(event);
-    // Optionally log the event for debugging:
-    // eslint-disable-next-line no-console
-    console.debug(`RunEvent Recorded: ${JSON.stringify(event)}`);
+    // Echo the event only when debugging, so batch runs are not flooded with output.
+    // Sensors are echoed by id: their neighbor lists can link back to each other.
+    if (this.config.level <= LogLevel.DEBUG) {
+      const echo = {
+        ...event,
+        sensors: event.sensors.map(sensor => sensor.id),
+      };
+      // eslint-disable-next-line no-console
+      console.debug(`RunEvent Recorded: ${JSON.stringify(echo)}`);
+    }
   }
 
   // You could add a method to clear the run log, or to export it as JSON:
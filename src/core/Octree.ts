@@ -0,0 +1,300 @@
+import { Sensor } from '../sensors/Sensor';
+import { Vector3 } from './Vector3';
+import { Constants } from './Constants';
+
+/**
+ * A node of the Barnes–Hut octree. Each node stores the aggregate moments of the
+ * sensors it contains, so distant nodes can stand in for all of their sensors.
+ */
+interface OctreeNode {
+  center: Vector3; // Geometric center of the node's cube.
+  halfSize: number;
+  children: OctreeNode[] | null;
+  sensors: Sensor[]; // Only populated on leaves.
+  count: number;
+  mass: number;
+  massMoment: Vector3; // Σ mᵢ·rᵢ
+  charge: number;
+  absoluteCharge: number; // Σ |qᵢ|, zero when the node holds no charged sensors.
+  chargeMoment: Vector3; // Σ qᵢ·rᵢ
+  positionSum: Vector3; // Σ rᵢ
+}
+
+/**
+ * Barnes–Hut octree for approximating long-range gravitational and electrostatic
+ * interactions in O(n log n).
+ *
+ * A node of edge length s seen from distance d is treated as a single source when
+ * s / d < θ (the opening angle). Gravity uses the node's total mass at its center of
+ * mass. Electrostatics uses the node's total charge (monopole) and dipole moment,
+ * expanded about the mean position of its sensors, since the charge-weighted center
+ * is undefined for neutral groups. θ = 0 opens every node and reproduces the exact sum.
+ */
+export class Octree {
+  /** Maximum subdivision depth; coincident sensors share a leaf below this depth. */
+  private static readonly MAX_DEPTH = 32;
+
+  public readonly theta: number;
+  private root: OctreeNode | null = null;
+
+  /**
+   * Builds an octree over the given sensors.
+   * @param sensors - The sensors acting as sources.
+   * @param theta - The opening angle θ (must be >= 0; default 0.5).
+   * @throws Error if theta is negative.
+   */
+  constructor(sensors: Sensor[], theta: number = 0.5) {
+    if (!(theta >= 0)) {
+      throw new Error('Opening angle theta must be non-negative.');
+    }
+    this.theta = theta;
+    if (sensors.length === 0) return;
+
+    let min = sensors[0].position.clone();
+    let max = sensors[0].position.clone();
+    for (const sensor of sensors) {
+      const p = sensor.position;
+      min = new Vector3(
+        Math.min(min.x, p.x),
+        Math.min(min.y, p.y),
+        Math.min(min.z, p.z)
+      );
+      max = new Vector3(
+        Math.max(max.x, p.x),
+        Math.max(max.y, p.y),
+        Math.max(max.z, p.z)
+      );
+    }
+    const extent = max.subtract(min);
+    // Pad slightly so sensors on the upper faces fall strictly inside the root.
+    const halfSize =
+      (Math.max(extent.x, extent.y, extent.z) / 2) * (1 + 1e-9) + 1e-12;
+    this.root = Octree.createNode(min.add(max).multiplyScalar(0.5), halfSize);
+    for (const sensor of sensors) {
+      Octree.insert(this.root, sensor, 0);
+    }
+  }
+
+  /**
+   * Returns the number of sensors in the tree.
+   */
+  public get size(): number {
+    return this.root ? this.root.count : 0;
+  }
+
+  /**
+   * Approximates the gravitational acceleration at a point.
+   * @param point - The evaluation point.
+   * @param exclude - A sensor to leave out of the sum (e.g. the sensor at the point).
+   * @returns The acceleration vector in m/s².
+   */
+  public gravitationalAccelerationAt(
+    point: Vector3,
+    exclude?: Sensor
+  ): Vector3 {
+    const G = Constants.GRAVITATIONAL_CONSTANT;
+    let ax = 0;
+    let ay = 0;
+    let az = 0;
+    const addSource = (mass: number, source: Vector3): void => {
+      const dx = source.x - point.x;
+      const dy = source.y - point.y;
+      const dz = source.z - point.z;
+      const distanceSquared = dx * dx + dy * dy + dz * dz;
+      if (distanceSquared === 0) return;
+      const factor =
+        (G * mass) / (distanceSquared * Math.sqrt(distanceSquared));
+      ax += factor * dx;
+      ay += factor * dy;
+      az += factor * dz;
+    };
+
+    this.walk(
+      point,
+      node => node.massMoment.divideScalar(node.mass),
+      node => node.mass !== 0,
+      node => addSource(node.mass, node.massMoment.divideScalar(node.mass)),
+      sensor => {
+        if (sensor !== exclude) addSource(sensor.mass, sensor.position);
+      }
+    );
+    return new Vector3(ax, ay, az);
+  }
+
+  /**
+   * Approximates the gravitational force on a sensor from all other sensors in the tree.
+   * @param sensor - The sensor on which the force acts.
+   * @returns The force vector in newtons.
+   */
+  public gravitationalForceOn(sensor: Sensor): Vector3 {
+    return this.gravitationalAccelerationAt(
+      sensor.position,
+      sensor
+    ).multiplyScalar(sensor.mass);
+  }
+
+  /**
+   * Approximates the electric field at a point using monopole and dipole terms:
+   *   E = k·[Q·r̂ / r² + (3(p·r̂)r̂ − p) / r³]
+   * @param point - The evaluation point.
+   * @param exclude - A sensor to leave out of the sum (e.g. the sensor at the point).
+   * @param includeDipole - Whether to add the dipole term for approximated nodes (default true).
+   * @returns The electric field vector in N/C.
+   */
+  public electricFieldAt(
+    point: Vector3,
+    exclude?: Sensor,
+    includeDipole: boolean = true
+  ): Vector3 {
+    const k = Constants.COULOMB_CONSTANT;
+    let field = Vector3.zero();
+
+    this.walk(
+      point,
+      node => node.positionSum.divideScalar(node.count),
+      node => node.absoluteCharge > 0,
+      node => {
+        const centroid = node.positionSum.divideScalar(node.count);
+        const r = point.subtract(centroid);
+        const distance = r.magnitude();
+        if (distance === 0) return;
+        const rHat = r.divideScalar(distance);
+        const r2 = distance * distance;
+        field = field.add(rHat.multiplyScalar((k * node.charge) / r2));
+        if (includeDipole) {
+          // Dipole moment about the centroid: p = Σ qᵢ·rᵢ − Q·c
+          const dipole = node.chargeMoment.subtract(
+            centroid.multiplyScalar(node.charge)
+          );
+          const term = rHat
+            .multiplyScalar(3 * dipole.dot(rHat))
+            .subtract(dipole)
+            .multiplyScalar(k / (r2 * distance));
+          field = field.add(term);
+        }
+      },
+      sensor => {
+        if (sensor === exclude || sensor.charge === 0) return;
+        const r = point.subtract(sensor.position);
+        const distance = r.magnitude();
+        if (distance === 0) return;
+        field = field.add(
+          r.multiplyScalar(
+            (k * sensor.charge) / (distance * distance * distance)
+          )
+        );
+      }
+    );
+    return field;
+  }
+
+  /**
+   * Traverses the tree, approximating nodes that satisfy the opening criterion and
+   * visiting individual sensors otherwise. Nodes containing the evaluation point are
+   * always opened so that a sensor never interacts with an aggregate of itself.
+   */
+  private walk(
+    point: Vector3,
+    expansionCenter: (node: OctreeNode) => Vector3,
+    hasSource: (node: OctreeNode) => boolean,
+    approximate: (node: OctreeNode) => void,
+    direct: (sensor: Sensor) => void
+  ): void {
+    if (!this.root) return;
+    const stack: OctreeNode[] = [this.root];
+    while (stack.length > 0) {
+      const node = stack.pop() as OctreeNode;
+      if (node.count === 0 || !hasSource(node)) continue;
+      if (node.children === null) {
+        node.sensors.forEach(direct);
+        continue;
+      }
+      const distance = expansionCenter(node).distanceTo(point);
+      if (
+        !Octree.contains(node, point) &&
+        (2 * node.halfSize) / distance < this.theta
+      ) {
+        approximate(node);
+      } else {
+        stack.push(...node.children);
+      }
+    }
+  }
+
+  private static createNode(center: Vector3, halfSize: number): OctreeNode {
+    return {
+      center,
+      halfSize,
+      children: null,
+      sensors: [],
+      count: 0,
+      mass: 0,
+      massMoment: Vector3.zero(),
+      charge: 0,
+      absoluteCharge: 0,
+      chargeMoment: Vector3.zero(),
+      positionSum: Vector3.zero(),
+    };
+  }
+
+  private static contains(node: OctreeNode, point: Vector3): boolean {
+    return (
+      Math.abs(point.x - node.center.x) <= node.halfSize &&
+      Math.abs(point.y - node.center.y) <= node.halfSize &&
+      Math.abs(point.z - node.center.z) <= node.halfSize
+    );
+  }
+
+  private static childIndex(node: OctreeNode, point: Vector3): number {
+    return (
+      (point.x >= node.center.x ? 1 : 0) |
+      (point.y >= node.center.y ? 2 : 0) |
+      (point.z >= node.center.z ? 4 : 0)
+    );
+  }
+
+  private static insert(node: OctreeNode, sensor: Sensor, depth: number): void {
+    const p = sensor.position;
+    node.count++;
+    node.mass += sensor.mass;
+    node.massMoment = node.massMoment.add(p.multiplyScalar(sensor.mass));
+    node.charge += sensor.charge;
+    node.absoluteCharge += Math.abs(sensor.charge);
+    node.chargeMoment = node.chargeMoment.add(p.multiplyScalar(sensor.charge));
+    node.positionSum = node.positionSum.add(p);
+
+    if (node.children === null) {
+      if (node.sensors.length === 0 || depth >= Octree.MAX_DEPTH) {
+        node.sensors.push(sensor);
+        return;
+      }
+      // Split the leaf and push its existing sensors down one level.
+      const quarter = node.halfSize / 2;
+      node.children = [];
+      for (let i = 0; i < 8; i++) {
+        node.children.push(
+          Octree.createNode(
+            node.center.add(
+              new Vector3(
+                i & 1 ? quarter : -quarter,
+                i & 2 ? quarter : -quarter,
+                i & 4 ? quarter : -quarter
+              )
+            ),
+            quarter
+          )
+        );
+      }
+      const existing = node.sensors;
+      node.sensors = [];
+      for (const other of existing) {
+        Octree.insert(
+          node.children[Octree.childIndex(node, other.position)],
+          other,
+          depth + 1
+        );
+      }
+    }
+    Octree.insert(node.children[Octree.childIndex(node, p)], sensor, depth + 1);
+  }
+}
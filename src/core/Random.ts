@@ -0,0 +1,151 @@
+import { Constants } from './Constants';
+
+/**
+ * SplitMix32 step, used to expand a 32-bit seed into generator state and to
+ * derive child seeds.
+ * @param value - The input value.
+ * @returns A well-mixed unsigned 32-bit integer.
+ */
+function splitMix32(value: number): number {
+  let z = (value + 0x9e3779b9) >>> 0;
+  z = Math.imul(z ^ (z >>> 16), 0x85ebca6b);
+  z = Math.imul(z ^ (z >>> 13), 0xc2b2ae35);
+  return (z ^ (z >>> 16)) >>> 0;
+}
+
+/**
+ * 32-bit FNV-1a hash of a string, used to turn stream labels into seeds.
+ * @param text - The string to hash.
+ * @returns An unsigned 32-bit hash.
+ */
+function hashString(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash = Math.imul(hash ^ text.charCodeAt(i), 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Seedable pseudo-random number generator (xoshiro128**).
+ *
+ * The same seed always produces the same sequence, so any run driven by a Random can be
+ * replayed exactly. Subsystems should draw from their own stream via split(), which
+ * derives a child seed from this generator's seed and a label. Child streams do not
+ * depend on how many numbers the parent has produced, so adding draws in one subsystem
+ * never shifts the sequence seen by another.
+ */
+export class Random {
+  public readonly seed: number;
+  private state: Uint32Array = new Uint32Array(4);
+
+  /**
+   * @param seed - An integer seed; it is reduced to an unsigned 32-bit value (default Constants.DEFAULT_RANDOM_SEED).
+   * @throws Error if seed is not a finite integer.
+   */
+  constructor(seed: number = Constants.DEFAULT_RANDOM_SEED) {
+    if (!Number.isInteger(seed)) {
+      throw new Error('Random seed must be a finite integer.');
+    }
+    this.seed = seed >>> 0;
+    let mix = this.seed;
+    for (let i = 0; i < 4; i++) {
+      mix = splitMix32(mix);
+      this.state[i] = mix;
+    }
+  }
+
+  /**
+   * Creates an independent stream for a named subsystem.
+   * @param label - The stream label (e.g. 'randomize' or a sphere id).
+   * @returns A new Random seeded from this generator's seed and the label.
+   */
+  public split(label: string): Random {
+    return new Random(splitMix32(this.seed ^ hashString(label)));
+  }
+
+  /**
+   * Returns the generator's internal state, for saving and later resuming a stream.
+   * @returns The four unsigned 32-bit state words.
+   */
+  public getState(): number[] {
+    return Array.from(this.state);
+  }
+
+  /**
+   * Restores a state previously returned by getState().
+   * @param state - The four unsigned 32-bit state words.
+   * @throws Error if the state is not four integers or is all zero.
+   */
+  public setState(state: number[]): void {
+    if (
+      state.length !== 4 ||
+      !state.every(word => Number.isInteger(word)) ||
+      state.every(word => word >>> 0 === 0)
+    ) {
+      throw new Error('Random state must be four integers, not all zero.');
+    }
+    this.state.set(state.map(word => word >>> 0));
+  }
+
+  /**
+   * Returns the next unsigned 32-bit integer in the sequence.
+   */
+  public nextUint32(): number {
+    const s = this.state;
+    const result = Math.imul(Random.rotl(Math.imul(s[1], 5), 7), 9) >>> 0;
+    const t = s[1] << 9;
+    s[2] ^= s[0];
+    s[3] ^= s[1];
+    s[1] ^= s[2];
+    s[0] ^= s[3];
+    s[2] ^= t;
+    s[3] = Random.rotl(s[3], 11);
+    return result;
+  }
+
+  /**
+   * Returns a uniformly distributed number in [0, 1), like Math.random().
+   */
+  public next(): number {
+    return this.nextUint32() / 4294967296;
+  }
+
+  /**
+   * Returns a uniformly distributed number in [min, max).
+   * @param min - The minimum value (inclusive).
+   * @param max - The maximum value (exclusive).
+   */
+  public nextRange(min: number, max: number): number {
+    return this.next() * (max - min) + min;
+  }
+
+  /**
+   * Returns a uniformly distributed integer in [0, max).
+   * @param max - The exclusive upper bound (must be a positive integer).
+   * @throws Error if max is not a positive integer.
+   */
+  public nextInt(max: number): number {
+    if (!Number.isInteger(max) || max <= 0) {
+      throw new Error('Upper bound must be a positive integer.');
+    }
+    return Math.floor(this.next() * max);
+  }
+
+  /**
+   * Returns a normally distributed number using the Box–Muller transform.
+   * @param mean - The mean of the distribution (default 0).
+   * @param standardDeviation - The standard deviation (default 1).
+   */
+  public nextGaussian(mean: number = 0, standardDeviation: number = 1): number {
+    // 1 - next() lies in (0, 1], so the logarithm is always finite.
+    const u1 = 1 - this.next();
+    const u2 = this.next();
+    const z = Math.sqrt(-2 * Math.log(u1)) * Math.cos(Constants.TWO_PI * u2);
+    return mean + standardDeviation * z;
+  }
+
+  private static rotl(value: number, shift: number): number {
+    return (value << shift) | (value >>> (32 - shift));
+  }
+}
@@ -1,4 +1,5 @@
 import { Vector3 } from './Vector3';
+import { Random } from './Random';
 
 /**
  * The Utils class provides a collection of static helper functions for
@@ -9,10 +10,15 @@ export class Utils {
    * Generates a random number within the specified range.
    * @param min - The minimum value (inclusive).
    * @param max - The maximum value (exclusive).
+   * @param random - The random stream to draw from.
    * @returns A random number between min and max.
    */
-  static generateRandomNumber(min: number, max: number): number {
-    return Math.random() * (max - min) + min;
+  static generateRandomNumber(
+    min: number,
+    max: number,
+    random: Random
+  ): number {
+    return random.nextRange(min, max);
   }
 
   /**
@@ -2,6 +2,7 @@ import { Sensor } from '../sensors/Sensor';
 import { Vector3 } from '../core/Vector3';
 import { Constants } from '../core/Constants';
 import { Logger } from '../core/Logger';
+import { Octree } from '../core/Octree';
 
 /**
  * Utility class for calculating electric fields generated by sensors.
@@ -37,11 +38,22 @@ export class ElectricField {
 
   /**
    * Calculates the net electric field at a given point due to an array of sensors.
+   * By default the exact sum is used; passing an opening angle switches to the
+   * Barnes–Hut octree approximation (monopole and dipole terms).
    * @param sensors - The array of sensors generating the field.
    * @param point - The point in space for evaluation.
+   * @param theta - Optional Barnes–Hut opening angle; omit for the exact sum.
    * @returns The net electric field vector at the given point.
    */
-  public static calculateNetField(sensors: Sensor[], point: Vector3): Vector3 {
+  public static calculateNetField(
+    sensors: Sensor[],
+    point: Vector3,
+    theta?: number
+  ): Vector3 {
+    if (theta !== undefined) {
+      return new Octree(sensors, theta).electricFieldAt(point);
+    }
+
     let netField = new Vector3();
 
     for (const sensor of sensors) {
@@ -0,0 +1,44 @@
+import { Sensor } from '../sensors/Sensor';
+import { Vector3 } from '../core/Vector3';
+
+/**
+ * Returns the offset from one point to another, such as the minimum image in a periodic
+ * domain (see Boundary.separation).
+ */
+export type Separation = (from: Vector3, to: Vector3) => Vector3;
+
+/**
+ * A source of force acting on sensors, evaluated by the SimulationEngine every step.
+ *
+ * Providers are registered on the engine by name and can be enabled, disabled and
+ * weighted at runtime. The engine scales each provider's forces by its weight and
+ * accumulates them on the sensors via Sensor.applyForce.
+ */
+export interface ForceProvider {
+  /** Unique name used to look the provider up on the engine. */
+  readonly name: string;
+  /** Whether the engine evaluates this provider. */
+  enabled: boolean;
+  /** Scale factor applied to every force this provider returns. */
+  weight: number;
+  /**
+   * Whether the forces depend on the sensors' velocities (default false). Negating the
+   * velocities does not retrace steps taken under such forces, so the engine rewinds them
+   * from checkpoints instead.
+   */
+  readonly velocityDependent?: boolean;
+
+  /**
+   * Computes the force acting on each sensor.
+   * @param sensors - The sensors in the simulation.
+   * @param time - The current simulation time in seconds.
+   * @param separation - How pair interactions measure the offset between sensors
+   * (default: the direct difference of positions).
+   * @returns The force on each sensor, index-aligned with the input.
+   */
+  computeForces(
+    sensors: Sensor[],
+    time: number,
+    separation?: Separation
+  ): Vector3[];
+}
@@ -0,0 +1,269 @@
+import { Sensor } from '../sensors/Sensor';
+import { Vector3 } from '../core/Vector3';
+import { GravitySimulator } from '../gravity/GravitySimulator';
+import { ElectricField } from '../electricity/ElectricField';
+import { MagneticField } from '../magnetism/MagneticField';
+import { Octree } from '../core/Octree';
+import { Constants } from '../core/Constants';
+import { ForceProvider, Separation } from './ForceProvider';
+
+/**
+ * Returns the point at which a source's field must be evaluated for the field to act on
+ * a sensor at point across the given separation rather than the direct offset: with
+ * r = −separation(point, source), the point source + r.
+ */
+function imagePoint(
+  source: Sensor,
+  point: Vector3,
+  separation: Separation
+): Vector3 {
+  return source.position.subtract(separation(point, source.position));
+}
+
+/**
+ * Sums a field over every sensor except the one at index, measuring each offset with
+ * the separation. Coincident sensors are skipped.
+ */
+function imageField(
+  sensors: Sensor[],
+  index: number,
+  separation: Separation,
+  field: (source: Sensor, point: Vector3) => Vector3
+): Vector3 {
+  const point = sensors[index].position;
+  return sensors.reduce((total, source, i) => {
+    if (i === index) return total;
+    const image = imagePoint(source, point, separation);
+    return image.distanceTo(source.position) > 0
+      ? total.add(field(source, image))
+      : total;
+  }, Vector3.zero());
+}
+
+/**
+ * Newtonian gravity between every pair of sensors, computed with GravitySimulator. With a
+ * separation (e.g. periodic boundaries), the exact pairwise sum is taken over it instead.
+ */
+export class GravityForceProvider implements ForceProvider {
+  public readonly name: string;
+  public enabled: boolean = true;
+  public weight: number;
+  public theta?: number; // Barnes–Hut opening angle; undefined for the exact sum.
+
+  /**
+   * @param weight - Scale factor for the gravitational forces (default 1).
+   * @param name - Provider name (default 'gravity').
+   * @param theta - Optional Barnes–Hut opening angle; omit for the exact sum.
+   */
+  constructor(weight: number = 1, name: string = 'gravity', theta?: number) {
+    this.name = name;
+    this.weight = weight;
+    this.theta = theta;
+  }
+
+  public computeForces(
+    sensors: Sensor[],
+    _time?: number,
+    separation?: Separation
+  ): Vector3[] {
+    if (separation) {
+      const forces = sensors.map(() => Vector3.zero());
+      for (let i = 0; i < sensors.length; i++) {
+        for (let j = i + 1; j < sensors.length; j++) {
+          const offset = separation(sensors[i].position, sensors[j].position);
+          const distance = offset.magnitude();
+          if (distance === 0) continue;
+          const force = offset.multiplyScalar(
+            (Constants.GRAVITATIONAL_CONSTANT *
+              sensors[i].mass *
+              sensors[j].mass) /
+              distance ** 3
+          );
+          forces[i] = forces[i].add(force);
+          forces[j] = forces[j].subtract(force);
+        }
+      }
+      return forces;
+    }
+    const forcesMap = GravitySimulator.calculateNetForces(sensors, this.theta);
+    return sensors.map(sensor => forcesMap.get(sensor.id) ?? Vector3.zero());
+  }
+}
+
+/**
+ * Electrostatic (Coulomb) force on each charged sensor from the field of all the others:
+ *   F = q · E(x)
+ * With a separation (e.g. periodic boundaries), the exact sum is taken over it instead.
+ */
+export class CoulombForceProvider implements ForceProvider {
+  public readonly name: string;
+  public enabled: boolean = true;
+  public weight: number;
+  public theta?: number; // Barnes–Hut opening angle; undefined for the exact sum.
+
+  /**
+   * @param weight - Scale factor for the electrostatic forces (default 1).
+   * @param name - Provider name (default 'coulomb').
+   * @param theta - Optional Barnes–Hut opening angle; omit for the exact sum.
+   */
+  constructor(weight: number = 1, name: string = 'coulomb', theta?: number) {
+    this.name = name;
+    this.weight = weight;
+    this.theta = theta;
+  }
+
+  public computeForces(
+    sensors: Sensor[],
+    _time?: number,
+    separation?: Separation
+  ): Vector3[] {
+    const tree =
+      this.theta !== undefined && !separation
+        ? new Octree(sensors, this.theta)
+        : null;
+    return sensors.map((sensor, i) => {
+      if (sensor.charge === 0) return Vector3.zero();
+      if (separation) {
+        return imageField(
+          sensors,
+          i,
+          separation,
+          ElectricField.calculateFieldAtPoint
+        ).multiplyScalar(sensor.charge);
+      }
+      const field = tree
+        ? tree.electricFieldAt(sensor.position, sensor)
+        : ElectricField.calculateNetField(
+            sensors.filter(other => other !== sensor),
+            sensor.position
+          );
+      return field.multiplyScalar(sensor.charge);
+    });
+  }
+}
+
+/**
+ * Magnetic part of the Lorentz force on each charged sensor:
+ *   F = q · (v × B)
+ * where B is the field of all other moving sensors plus an optional uniform external field.
+ * With a separation (e.g. periodic boundaries), the field is summed over it.
+ */
+export class LorentzForceProvider implements ForceProvider {
+  public readonly name: string;
+  public readonly velocityDependent = true;
+  public enabled: boolean = true;
+  public weight: number;
+  public externalField: Vector3;
+
+  /**
+   * @param externalField - Uniform external magnetic field in tesla (default zero).
+   * @param weight - Scale factor for the magnetic forces (default 1).
+   * @param name - Provider name (default 'lorentz').
+   */
+  constructor(
+    externalField: Vector3 = Vector3.zero(),
+    weight: number = 1,
+    name: string = 'lorentz'
+  ) {
+    this.name = name;
+    this.externalField = externalField;
+    this.weight = weight;
+  }
+
+  public computeForces(
+    sensors: Sensor[],
+    _time?: number,
+    separation?: Separation
+  ): Vector3[] {
+    return sensors.map((sensor, i) => {
+      if (sensor.charge === 0) return Vector3.zero();
+      const field = (
+        separation
+          ? imageField(
+              sensors,
+              i,
+              separation,
+              MagneticField.calculateFieldAtPoint
+            )
+          : MagneticField.calculateNetField(
+              sensors.filter(other => other !== sensor),
+              sensor.position
+            )
+      ).add(this.externalField);
+      return sensor.velocity.cross(field).multiplyScalar(sensor.charge);
+    });
+  }
+}
+
+/**
+ * Linear viscous damping opposing each sensor's motion:
+ *   F = -c · v
+ */
+export class DampingForceProvider implements ForceProvider {
+  public readonly name: string;
+  public readonly velocityDependent = true;
+  public enabled: boolean = true;
+  public weight: number;
+  public coefficient: number;
+
+  /**
+   * @param coefficient - Damping coefficient c in kg/s (must be >= 0).
+   * @param weight - Scale factor for the damping forces (default 1).
+   * @param name - Provider name (default 'damping').
+   * @throws Error if coefficient is negative.
+   */
+  constructor(
+    coefficient: number = 0.1,
+    weight: number = 1,
+    name: string = 'damping'
+  ) {
+    if (coefficient < 0) {
+      throw new Error('Damping coefficient cannot be negative.');
+    }
+    this.name = name;
+    this.coefficient = coefficient;
+    this.weight = weight;
+  }
+
+  public computeForces(sensors: Sensor[]): Vector3[] {
+    return sensors.map(sensor =>
+      sensor.velocity.multiplyScalar(-this.coefficient)
+    );
+  }
+}
+
+/**
+ * Wraps a user-defined force function as a ForceProvider.
+ */
+export class CustomForceProvider implements ForceProvider {
+  public readonly name: string;
+  public enabled: boolean = true;
+  public weight: number;
+  private readonly forceFunction: (sensor: Sensor, time: number) => Vector3;
+
+  /**
+   * @param name - Provider name.
+   * @param forceFunction - Returns the force on a single sensor at the given time.
+   * @param weight - Scale factor for the returned forces (default 1).
+   * @throws Error if name is empty or forceFunction is missing.
+   */
+  constructor(
+    name: string,
+    forceFunction: (sensor: Sensor, time: number) => Vector3,
+    weight: number = 1
+  ) {
+    if (!name) {
+      throw new Error('Force provider name cannot be empty.');
+    }
+    if (!forceFunction) {
+      throw new Error('Force function cannot be null or undefined.');
+    }
+    this.name = name;
+    this.forceFunction = forceFunction;
+    this.weight = weight;
+  }
+
+  public computeForces(sensors: Sensor[], time: number): Vector3[] {
+    return sensors.map(sensor => this.forceFunction(sensor, time));
+  }
+}
@@ -3,6 +3,8 @@
 import { Sensor } from '../sensors/Sensor';
 import { Vector3 } from '../core/Vector3';
 import { Constants } from '../core/Constants';
+import { BodyState, Integrator, DEFAULT_INTEGRATOR } from '../core/Integrator';
+import { Octree } from '../core/Octree';
 
 /**
  * Utility class for simulating gravitational interactions among sensors.
@@ -34,14 +36,17 @@ export class GravitySimulator {
   }
 
   /**
-   * Calculates and applies gravitational forces to all sensors.
+   * Calculates the net gravitational force on every sensor from all the others.
+   * By default the exact all-pairs sum is used; passing an opening angle switches to
+   * the Barnes–Hut octree approximation.
    * @param sensors - Array of sensors in the simulation.
-   * @param deltaTime - The time step for the simulation update.
+   * @param theta - Optional Barnes–Hut opening angle; omit for the exact sum.
+   * @returns A map from sensor ID to the net force acting on that sensor.
    */
-  public static applyGravitationalForces(
+  public static calculateNetForces(
     sensors: Sensor[],
-    deltaTime: number
-  ): void {
+    theta?: number
+  ): Map<string, Vector3> {
     const forcesMap: Map<string, Vector3> = new Map();
 
     sensors.forEach(sensor => {
@@ -54,6 +59,16 @@ export class GravitySimulator {
       }
     });
 
+    if (theta !== undefined) {
+      const tree = new Octree(sensors, theta);
+      sensors.forEach(sensor => {
+        if (forcesMap.has(sensor.id)) {
+          forcesMap.set(sensor.id, tree.gravitationalForceOn(sensor));
+        }
+      });
+      return forcesMap;
+    }
+
     for (let i = 0; i < sensors.length; i++) {
       for (let j = i + 1; j < sensors.length; j++) {
         const sensorA = sensors[i];
@@ -98,16 +113,51 @@ export class GravitySimulator {
       }
     }
 
-    sensors.forEach(sensor => {
-      const netForce = forcesMap.get(sensor.id || '');
-      if (netForce) {
-        const acceleration = netForce.multiplyScalar(1 / sensor.mass);
-        sensor.velocity = sensor.velocity.add(
-          acceleration.multiplyScalar(deltaTime)
-        );
-        sensor.position = sensor.position.add(
-          sensor.velocity.multiplyScalar(deltaTime)
-        );
+    return forcesMap;
+  }
+
+  /**
+   * Calculates and applies gravitational forces to all sensors, advancing them by one
+   * time step with the given integrator. Forces are re-evaluated at every trial state
+   * the integrator requests. Sensors without an ID receive no force and are left unchanged.
+   * @param sensors - Array of sensors in the simulation.
+   * @param deltaTime - The time step for the simulation update.
+   * @param integrator - The integration scheme (default: semi-implicit Euler).
+   * @param theta - Optional Barnes–Hut opening angle; omit for the exact sum.
+   */
+  public static applyGravitationalForces(
+    sensors: Sensor[],
+    deltaTime: number,
+    integrator: Integrator = DEFAULT_INTEGRATOR,
+    theta?: number
+  ): void {
+    const initialPositions = sensors.map(sensor => sensor.position);
+    const states: BodyState[] = sensors.map(sensor => ({
+      position: sensor.position,
+      velocity: sensor.velocity,
+    }));
+    let forcesMap: Map<string, Vector3> = new Map();
+
+    const evaluate = (trial: BodyState[]): Vector3[] => {
+      trial.forEach((state, i) => {
+        sensors[i].position = state.position;
+      });
+      forcesMap = GravitySimulator.calculateNetForces(sensors, theta);
+      return sensors.map(sensor => {
+        const netForce = forcesMap.get(sensor.id || '');
+        return netForce
+          ? netForce.multiplyScalar(1 / sensor.mass)
+          : Vector3.zero();
+      });
+    };
+
+    const next = integrator.step(states, deltaTime, evaluate);
+    sensors.forEach((sensor, i) => {
+      if (forcesMap.has(sensor.id || '')) {
+        sensor.position = next[i].position;
+        sensor.velocity = next[i].velocity;
+      } else {
+        sensor.position = initialPositions[i];
       }
     });
   }
@@ -117,14 +167,23 @@ export class GravitySimulator {
    * @param sensors - Array of sensors in the simulation.
    * @param deltaTime - The time step for each simulation update.
    * @param steps - Number of simulation steps to run.
+   * @param integrator - The integration scheme (default: semi-implicit Euler).
+   * @param theta - Optional Barnes–Hut opening angle; omit for the exact sum.
    */
   public static simulate(
     sensors: Sensor[],
     deltaTime: number,
-    steps: number
+    steps: number,
+    integrator: Integrator = DEFAULT_INTEGRATOR,
+    theta?: number
   ): void {
     for (let step = 0; step < steps; step++) {
-      GravitySimulator.applyGravitationalForces(sensors, deltaTime);
+      GravitySimulator.applyGravitationalForces(
+        sensors,
+        deltaTime,
+        integrator,
+        theta
+      );
     }
   }
 }
@@ -0,0 +1,491 @@
+import { Sensor } from './Sensor';
+import { SensorState } from './SensorState';
+import { ChannelType } from './SensorChannel';
+import { Constants } from '../core/Constants';
+import { Random } from '../core/Random';
+import { Logger } from '../core/Logger';
+
+/**
+ * How a message finds its way to a sensor that is not a neighbour.
+ */
+export enum RoutingType {
+  FLOODING = 'flooding', // Every sensor passes each new message on to all its neighbours.
+  GREEDY = 'greedy', // Each hop goes to the neighbour nearest the destination.
+  SHORTEST_PATH = 'shortestPath', // Each hop follows the path of least expected latency.
+}
+
+/**
+ * The radio links between neighbouring sensors and the routing over them.
+ */
+export interface CommunicationOptions {
+  routing: RoutingType;
+  propagationSpeed?: number; // Signal speed (m/s; default: the speed of light).
+  hopDelay?: number; // Processing time per hop (s; default from Constants).
+  bandwidth?: number; // Bytes per second each link carries (default: unlimited).
+  lossProbability?: number; // Chance a transmission is lost at zero distance (default 0).
+  range?: number; // Distance at which every transmission is lost (m; default: unlimited).
+  ttl?: number; // Most hops per message (default from Constants).
+  sinks?: string[]; // Ids of the sensors that collect readings.
+}
+
+/**
+ * A message between sensors. A message without a destination is a broadcast to the
+ * sender's neighbours and is not passed on.
+ */
+export interface Message {
+  id: number;
+  source: string; // Sender's sensor id.
+  destination: string | null; // Receiver's sensor id, or null for a broadcast.
+  payload: number[];
+  channel?: ChannelType; // Channel the payload was read from, if it is a reading.
+  size: number; // Bytes.
+  sentAt: number; // Simulation time it was sent (s).
+  path: string[]; // Sensors it has passed through, from the source.
+}
+
+/**
+ * A copy of a message on its way over one link.
+ */
+export interface Transmission {
+  message: Message;
+  from: string;
+  to: string;
+  arrival: number; // Simulation time it arrives (s).
+}
+
+/**
+ * A message that reached its destination (or, for a broadcast, a neighbour).
+ */
+export interface Delivery {
+  message: Message;
+  receiver: string;
+  time: number; // Simulation time of arrival (s).
+}
+
+/**
+ * Running totals of the network's traffic.
+ */
+export interface NetworkStats {
+  sent: number; // Messages sent.
+  delivered: number; // Deliveries made.
+  transmissions: number; // Link transmissions attempted, including forwarded copies.
+  lost: number; // Transmissions lost on their link.
+  dropped: number; // Copies given up: no route, out of hops or a receiver switched off.
+  latency: number; // Sum of the delivery times (s).
+  hops: number; // Sum of the hops of the deliveries.
+}
+
+/**
+ * A message-passing layer over the neighbour graph. Sensors send messages, such as their
+ * readings, to their neighbours or to any other sensor, and the messages are relayed hop
+ * by hop along Sensor.neighbors by flooding, greedy geographic routing or shortest
+ * expected-latency paths.
+ *
+ * Each hop takes the link's queueing and transmission time (size / bandwidth; a link
+ * carries one message at a time), the hop delay and the propagation time, and is lost
+ * with a probability that grows from lossProbability at zero distance to certainty at the
+ * range: p = p₀ + (1 − p₀)·(d / range)². The SimulationEngine delivers the messages due
+ * at the end of every step; its snapshots include the messages in flight, so rewinds and
+ * replays reproduce the traffic exactly.
+ */
+export class CommunicationNetwork {
+  public readonly options: CommunicationOptions;
+  public random: Random; // Stream that decides which transmissions are lost.
+  public inFlight: Transmission[] = []; // In order of arrival.
+  public busyUntil = new Map<string, number>(); // When each link, `${from}>${to}`, is free.
+  public seen = new Map<string, Set<number>>(); // Ids of the messages each sensor has had.
+  public inboxes = new Map<string, Delivery[]>(); // Deliveries by receiver id.
+  public stats: NetworkStats = emptyStats();
+  public nextMessageId = 1;
+
+  /**
+   * @param options - The link model and routing.
+   * @param random - Stream for transmission losses.
+   * @throws Error if a speed, bandwidth or range is not greater than zero, the hop delay
+   * is negative, the loss probability is outside [0, 1] or the TTL is not a positive
+   * integer.
+   */
+  constructor(options: CommunicationOptions, random: Random) {
+    if (!Object.values(RoutingType).includes(options.routing)) {
+      throw new Error(`Unknown routing: ${String(options.routing)}.`);
+    }
+    (['propagationSpeed', 'bandwidth', 'range'] as const).forEach(field => {
+      const value = options[field];
+      if (value !== undefined && !(value > 0)) {
+        throw new Error(`Network ${field} must be greater than zero.`);
+      }
+    });
+    if (options.hopDelay !== undefined && !(options.hopDelay >= 0)) {
+      throw new Error('Network hopDelay must be non-negative.');
+    }
+    const loss = options.lossProbability ?? 0;
+    if (!(loss >= 0 && loss <= 1)) {
+      throw new Error('Network lossProbability must be between 0 and 1.');
+    }
+    const ttl = options.ttl ?? Constants.DEFAULT_MESSAGE_TTL;
+    if (!Number.isInteger(ttl) || ttl < 1) {
+      throw new Error('Network ttl must be a positive integer.');
+    }
+    this.options = { ...options, sinks: [...(options.sinks ?? [])] };
+    this.random = random;
+  }
+
+  /**
+   * The number of transmissions still on their way.
+   */
+  public get pending(): number {
+    return this.inFlight.length;
+  }
+
+  /**
+   * Returns the chance that a transmission over a distance is lost.
+   * @param distance - Distance between the sensors (m).
+   */
+  public lossProbability(distance: number): number {
+    const base = this.options.lossProbability ?? 0;
+    const range = this.options.range ?? Infinity;
+    if (distance >= range) return 1;
+    return base + (1 - base) * (distance / range) ** 2;
+  }
+
+  /**
+   * Returns the time one hop takes over an idle link, excluding any wait for the link.
+   * @param distance - Distance between the sensors (m).
+   * @param size - Message size in bytes.
+   */
+  public hopLatency(distance: number, size: number): number {
+    return (
+      size / (this.options.bandwidth ?? Infinity) +
+      (this.options.hopDelay ?? Constants.DEFAULT_HOP_DELAY) +
+      distance / (this.options.propagationSpeed ?? Constants.SPEED_OF_LIGHT)
+    );
+  }
+
+  /**
+   * Sends a message from a sensor.
+   * @param source - The sender.
+   * @param destination - The receiver, or null to broadcast to the sender's neighbours.
+   * @param payload - The content.
+   * @param time - The current simulation time.
+   * @param size - Message size in bytes (default from Constants).
+   * @param channel - Channel the payload was read from, if it is a reading.
+   * @returns The message.
+   * @throws Error if size is not greater than zero.
+   */
+  public send(
+    source: Sensor,
+    destination: Sensor | null,
+    payload: number[],
+    time: number,
+    size: number = Constants.DEFAULT_MESSAGE_SIZE,
+    channel?: ChannelType
+  ): Message {
+    if (!(size > 0)) {
+      throw new Error('Message size must be greater than zero.');
+    }
+    const message: Message = {
+      id: this.nextMessageId++,
+      source: source.id,
+      destination: destination?.id ?? null,
+      payload: [...payload],
+      channel,
+      size,
+      sentAt: time,
+      path: [source.id],
+    };
+    this.stats.sent++;
+    this.markSeen(source.id, message.id);
+    if (source.state === SensorState.INACTIVE) {
+      this.drop(message, `${source.id} is switched off`);
+    } else if (destination) {
+      this.route(message, source, destination, time);
+    } else {
+      source.neighbors.forEach(neighbor =>
+        this.transmit(message, source, neighbor, time)
+      );
+    }
+    return message;
+  }
+
+  /**
+   * Sends a sensor's latest reading of a channel to a receiver, or to the nearest sink
+   * if none is given.
+   * @param sensor - The sender.
+   * @param type - The channel whose latest reading is sent.
+   * @param time - The current simulation time.
+   * @param sensors - The sensors, to find the sinks among.
+   * @param destination - The receiver (default: the nearest sink).
+   * @returns The message.
+   * @throws Error if the sensor has no reading of the channel, or no destination is given
+   * and there is no sink.
+   */
+  public sendReading(
+    sensor: Sensor,
+    type: ChannelType,
+    time: number,
+    sensors: Sensor[],
+    destination?: Sensor
+  ): Message {
+    const reading = sensor.getChannel(type)?.latest();
+    if (!reading) {
+      throw new Error(`Sensor ${sensor.id} has no ${type} reading to send.`);
+    }
+    const receiver = destination ?? this.nearestSink(sensor, sensors);
+    if (!receiver) {
+      throw new Error('There is no sink to send the reading to.');
+    }
+    return this.send(
+      sensor,
+      receiver,
+      reading.value,
+      time,
+      Constants.DEFAULT_MESSAGE_SIZE,
+      type
+    );
+  }
+
+  /**
+   * Returns the sink nearest a sensor (itself, if it is one).
+   * @param sensor - The sensor.
+   * @param sensors - The sensors, to find the sinks among.
+   */
+  public nearestSink(sensor: Sensor, sensors: Sensor[]): Sensor | undefined {
+    const sinks = this.options.sinks as string[];
+    return sensors
+      .filter(candidate => sinks.includes(candidate.id))
+      .reduce<Sensor | undefined>(
+        (best, candidate) =>
+          !best ||
+          candidate.position.distanceTo(sensor.position) <
+            best.position.distanceTo(sensor.position)
+            ? candidate
+            : best,
+        undefined
+      );
+  }
+
+  /**
+   * Delivers or passes on every transmission that has arrived by a time, including those
+   * sent on by sensors along the way that arrive by then too.
+   * @param sensors - The sensors, to look up receivers and destinations by id.
+   * @param time - The current simulation time.
+   * @returns The number of transmissions that arrived.
+   */
+  public deliver(sensors: Sensor[], time: number): number {
+    const byId = new Map(sensors.map(sensor => [sensor.id, sensor]));
+    let arrived = 0;
+    while (this.inFlight.length > 0 && this.inFlight[0].arrival <= time) {
+      const { message, to, arrival } = this.inFlight.shift() as Transmission;
+      arrived++;
+      const receiver = byId.get(to);
+      if (!receiver || receiver.state === SensorState.INACTIVE) {
+        this.drop(message, `${to} is not receiving`);
+        continue;
+      }
+      // Flooding reaches sensors more than once; only the first copy counts.
+      if (this.seen.get(to)?.has(message.id)) continue;
+      this.markSeen(to, message.id);
+
+      if (message.destination === null || message.destination === to) {
+        this.receive(message, to, arrival);
+        continue;
+      }
+      const destination = byId.get(message.destination);
+      if (!destination) {
+        this.drop(message, `${message.destination} does not exist`);
+        continue;
+      }
+      this.route(message, receiver, destination, arrival);
+    }
+    return arrived;
+  }
+
+  /**
+   * Returns the messages delivered to a sensor, oldest first.
+   * @param sensorId - The receiver's id.
+   */
+  public inbox(sensorId: string): Delivery[] {
+    return this.inboxes.get(sensorId) ?? [];
+  }
+
+  /**
+   * Forgets every message in flight, every delivery and the statistics.
+   */
+  public clear(): void {
+    this.inFlight = [];
+    this.busyUntil.clear();
+    this.seen.clear();
+    this.inboxes.clear();
+    this.stats = emptyStats();
+    this.nextMessageId = 1;
+  }
+
+  /**
+   * Sends a message one hop closer to its destination, by the network's routing.
+   */
+  private route(
+    message: Message,
+    at: Sensor,
+    destination: Sensor,
+    time: number
+  ): void {
+    if (at === destination) {
+      this.receive(message, at.id, time);
+      return;
+    }
+    const ttl = this.options.ttl ?? Constants.DEFAULT_MESSAGE_TTL;
+    if (message.path.length > ttl) {
+      this.drop(message, 'out of hops');
+      return;
+    }
+    const live = at.neighbors.filter(
+      neighbor => neighbor.state !== SensorState.INACTIVE
+    );
+    switch (this.options.routing) {
+      case RoutingType.FLOODING: {
+        const previous = message.path[message.path.length - 2];
+        live
+          .filter(neighbor => neighbor.id !== previous)
+          .forEach(neighbor => this.transmit(message, at, neighbor, time));
+        return;
+      }
+      case RoutingType.GREEDY: {
+        const remaining = (sensor: Sensor): number =>
+          sensor.position.distanceTo(destination.position);
+        const next = live.reduce<Sensor | undefined>(
+          (best, neighbor) =>
+            remaining(neighbor) < remaining(best ?? at) ? neighbor : best,
+          undefined
+        );
+        if (next) this.transmit(message, at, next, time);
+        else this.drop(message, `${at.id} has no neighbor nearer the target`);
+        return;
+      }
+      case RoutingType.SHORTEST_PATH: {
+        const next = this.nextHop(at, destination, message.size);
+        if (next) this.transmit(message, at, next, time);
+        else this.drop(message, `no route from ${at.id}`);
+        return;
+      }
+    }
+  }
+
+  /**
+   * Finds the first hop of the path of least expected latency (each hop's latency over
+   * its chance of getting through) by Dijkstra's algorithm.
+   * @returns The neighbour to send to, or undefined if the destination is unreachable.
+   */
+  private nextHop(
+    from: Sensor,
+    destination: Sensor,
+    size: number
+  ): Sensor | undefined {
+    const cost = new Map<Sensor, number>([[from, 0]]);
+    const firstHop = new Map<Sensor, Sensor>();
+    const done = new Set<Sensor>();
+    for (;;) {
+      let current: Sensor | undefined;
+      cost.forEach((value, sensor) => {
+        if (
+          !done.has(sensor) &&
+          (!current || value < (cost.get(current) as number))
+        ) {
+          current = sensor;
+        }
+      });
+      if (!current) return undefined;
+      if (current === destination) return firstHop.get(current);
+      done.add(current);
+      const base = cost.get(current) as number;
+      for (const neighbor of current.neighbors) {
+        if (neighbor.state === SensorState.INACTIVE || done.has(neighbor)) {
+          continue;
+        }
+        const distance = current.position.distanceTo(neighbor.position);
+        const success = 1 - this.lossProbability(distance);
+        if (success <= 0) continue;
+        const total = base + this.hopLatency(distance, size) / success;
+        if (total < (cost.get(neighbor) ?? Infinity)) {
+          cost.set(neighbor, total);
+          firstHop.set(
+            neighbor,
+            current === from ? neighbor : (firstHop.get(current) as Sensor)
+          );
+        }
+      }
+    }
+  }
+
+  /**
+   * Puts a copy of a message on the link between two sensors, unless it is lost.
+   */
+  private transmit(
+    message: Message,
+    from: Sensor,
+    to: Sensor,
+    time: number
+  ): void {
+    const distance = from.position.distanceTo(to.position);
+    const link = `${from.id}>${to.id}`;
+    const start = Math.max(time, this.busyUntil.get(link) ?? -Infinity);
+    const occupied = message.size / (this.options.bandwidth ?? Infinity);
+    this.busyUntil.set(link, start + occupied);
+    this.stats.transmissions++;
+
+    const loss = this.lossProbability(distance);
+    if (loss >= 1 || (loss > 0 && this.random.next() < loss)) {
+      this.stats.lost++;
+      return;
+    }
+    const transmission: Transmission = {
+      message: { ...message, path: [...message.path, to.id] },
+      from: from.id,
+      to: to.id,
+      arrival: start + this.hopLatency(distance, message.size),
+    };
+    // Keep the queue in order of arrival; ties go in the order they were sent.
+    let index = this.inFlight.length;
+    while (
+      index > 0 &&
+      this.inFlight[index - 1].arrival > transmission.arrival
+    ) {
+      index--;
+    }
+    this.inFlight.splice(index, 0, transmission);
+  }
+
+  private receive(message: Message, receiver: string, time: number): void {
+    const inbox = this.inboxes.get(receiver) ?? [];
+    inbox.push({ message, receiver, time });
+    this.inboxes.set(receiver, inbox);
+    this.stats.delivered++;
+    this.stats.latency += time - message.sentAt;
+    this.stats.hops += message.path.length - 1;
+  }
+
+  private drop(message: Message, reason: string): void {
+    this.stats.dropped++;
+    Logger.debug(
+      `Message ${message.id} from ${message.source} dropped: ${reason}.`,
+      'CommunicationNetwork'
+    );
+  }
+
+  private markSeen(sensorId: string, messageId: number): void {
+    const seen = this.seen.get(sensorId) ?? new Set<number>();
+    seen.add(messageId);
+    this.seen.set(sensorId, seen);
+  }
+}
+
+function emptyStats(): NetworkStats {
+  return {
+    sent: 0,
+    delivered: 0,
+    transmissions: 0,
+    lost: 0,
+    dropped: 0,
+    latency: 0,
+    hops: 0,
+  };
+}
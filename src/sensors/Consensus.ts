@@ -0,0 +1,397 @@
+import { Sensor } from './Sensor';
+import { SensorState } from './SensorState';
+import { ChannelType } from './SensorChannel';
+import { Constants } from '../core/Constants';
+import { Random } from '../core/Random';
+import { Logger } from '../core/Logger';
+
+/**
+ * What the sensors agree on, and how.
+ */
+export enum ConsensusType {
+  GOSSIP = 'gossip', // The mean, by random pairwise averaging with a neighbour.
+  METROPOLIS = 'metropolis', // The mean, by averaging with every neighbour under Metropolis weights.
+  MAX = 'max', // The largest value, by passing on the largest seen so far.
+  LEADER = 'leader', // The sensor with the highest priority (ties go to the larger id).
+}
+
+/**
+ * How a consensus run proceeds.
+ */
+export interface ConsensusOptions {
+  type: ConsensusType;
+  tolerance?: number; // Spread of the estimates at which the run has converged (default from Constants).
+}
+
+/**
+ * Reads the value a sensor contributes, or undefined if it has none.
+ */
+export type SensorValue = (sensor: Sensor) => number | undefined;
+
+/**
+ * How far a consensus run has come.
+ */
+export interface ConsensusMetrics {
+  rounds: number; // Rounds taken since the start.
+  participants: number; // Sensors taking part that are not switched off.
+  informed: number; // Participants that hold an estimate.
+  spread: number; // Largest minus smallest estimate.
+  error: number; // Largest distance of an estimate from the exact result at the start.
+  rate: number; // Mean factor by which the spread shrank per round.
+  messages: number; // Values sent between neighbours since the start.
+  converged: boolean; // Whether every participant holds the same estimate, within tolerance.
+}
+
+/**
+ * What a sensor holds during a run. Averaging keeps a sum and a weight whose ratio is the
+ * estimate; max-consensus and leader election keep the best value seen and the sensor it
+ * came from.
+ */
+interface ConsensusState {
+  sum: number;
+  weight: number;
+  origin: string | null;
+}
+
+/**
+ * Distributed agreement over the neighbour graph, without a central node. Each round,
+ * every sensor exchanges its state with its neighbours along Sensor.neighbors (links are
+ * taken both ways, whichever side lists them), so the sensors converge on the mean or the
+ * maximum of their values, such as the mean field strength, or elect a leader.
+ *
+ * Averaging is run as ratio consensus: each sensor holds a sum and a weight, starting at
+ * its value and 1, and both are averaged; the estimate is sum / weight. Sensors that
+ * malfunction or have no value start at 0 and 0, so they pass values on without adding
+ * their own, and the sensors still agree on the mean of the others. Sensors that are
+ * switched off (INACTIVE) take no part until they are switched on again; the rest keep
+ * agreeing on a weighted mean of the values, close to the mean as long as the graph stays
+ * connected. Likewise, a malfunctioning sensor can relay but never win max-consensus or
+ * an election. The run does not follow values or states that change after it started:
+ * start it again to take them in, or to elect a new leader when the leader is gone.
+ */
+export class Consensus {
+  public readonly options: ConsensusOptions;
+  public random?: Random; // Stream that pairs sensors in gossip rounds.
+  public states = new Map<string, ConsensusState>(); // By sensor id.
+  public rounds = 0;
+  public messages = 0;
+  public target = NaN; // The exact mean, maximum or leader's priority at the start.
+  public history: number[] = []; // Spread of the estimates at the start and after each round.
+
+  /**
+   * @param options - The algorithm and tolerance.
+   * @param random - Stream for gossip pairings (needed only for gossip).
+   * @throws Error if the type is unknown, the tolerance is not greater than zero, or a
+   * gossip consensus has no random stream.
+   */
+  constructor(options: ConsensusOptions, random?: Random) {
+    if (!Object.values(ConsensusType).includes(options.type)) {
+      throw new Error(`Unknown consensus type: ${String(options.type)}.`);
+    }
+    const tolerance =
+      options.tolerance ?? Constants.DEFAULT_CONSENSUS_TOLERANCE;
+    if (!(tolerance > 0)) {
+      throw new Error('Consensus tolerance must be greater than zero.');
+    }
+    if (options.type === ConsensusType.GOSSIP && !random) {
+      throw new Error('Gossip consensus needs a random stream.');
+    }
+    this.options = { ...options, tolerance };
+    this.random = random;
+  }
+
+  /**
+   * Starts a run: every sensor takes up its own value. Sensors that malfunction, are
+   * switched off or have no value take part without one.
+   * @param sensors - The sensors taking part.
+   * @param value - Each sensor's value (for leader election, its priority; default 0).
+   * @throws Error if a value is not finite, no sensor has a value, or no value function is
+   * given for averaging or max-consensus.
+   */
+  public start(sensors: Sensor[], value?: SensorValue): void {
+    if (!value && this.options.type !== ConsensusType.LEADER) {
+      throw new Error(`A ${this.options.type} consensus needs a value.`);
+    }
+    const read = value ?? ((): number => 0);
+    const averaging = this.isAveraging();
+    this.states.clear();
+    this.rounds = 0;
+    this.messages = 0;
+    this.history = [];
+
+    const contributions: number[] = [];
+    let best: ConsensusState | null = null;
+    sensors.forEach(sensor => {
+      const contributes =
+        sensor.state !== SensorState.MALFUNCTION &&
+        sensor.state !== SensorState.INACTIVE;
+      const own = contributes ? read(sensor) : undefined;
+      if (own !== undefined && !Number.isFinite(own)) {
+        throw new Error(`Sensor ${sensor.id} has a value that is not finite.`);
+      }
+      if (own === undefined) {
+        this.states.set(sensor.id, { sum: 0, weight: 0, origin: null });
+        return;
+      }
+      const state = { sum: own, weight: 1, origin: sensor.id };
+      contributions.push(own);
+      if (!best || isBetter(state, best)) best = state;
+      this.states.set(sensor.id, state);
+    });
+    if (!best) {
+      throw new Error('No sensor has a value to agree on.');
+    }
+    this.target = averaging
+      ? contributions.reduce((sum, x) => sum + x, 0) / contributions.length
+      : (best as ConsensusState).sum;
+    this.history = [this.metrics(sensors).spread];
+  }
+
+  /**
+   * Runs one round of exchanges between neighbours.
+   * @param sensors - The sensors taking part.
+   * @throws Error if the run has not been started.
+   */
+  public step(sensors: Sensor[]): void {
+    if (this.history.length === 0) {
+      throw new Error('Consensus has not been started.');
+    }
+    const links = this.liveLinks(sensors);
+    switch (this.options.type) {
+      case ConsensusType.GOSSIP:
+        this.gossip(links);
+        break;
+      case ConsensusType.METROPOLIS:
+        this.metropolis(links);
+        break;
+      case ConsensusType.MAX:
+      case ConsensusType.LEADER:
+        this.flood(links);
+        break;
+    }
+    this.rounds++;
+    this.history.push(this.metrics(sensors).spread);
+  }
+
+  /**
+   * Runs rounds until the sensors agree.
+   * @param sensors - The sensors taking part.
+   * @param maxRounds - Most rounds to run (default from Constants).
+   * @returns The metrics at the end.
+   * @throws Error if the run has not been started or maxRounds is not a positive integer.
+   */
+  public run(
+    sensors: Sensor[],
+    maxRounds: number = Constants.DEFAULT_CONSENSUS_ROUNDS
+  ): ConsensusMetrics {
+    if (!Number.isInteger(maxRounds) || maxRounds < 1) {
+      throw new Error('Consensus rounds must be a positive integer.');
+    }
+    let metrics = this.metrics(sensors);
+    for (let round = 0; round < maxRounds && !metrics.converged; round++) {
+      this.step(sensors);
+      metrics = this.metrics(sensors);
+    }
+    Logger.debug(
+      `${this.options.type} consensus ${
+        metrics.converged ? 'converged' : 'did not converge'
+      } after ${metrics.rounds} rounds (spread ${metrics.spread}).`,
+      'Consensus'
+    );
+    return metrics;
+  }
+
+  /**
+   * Returns a sensor's current estimate of the mean or maximum (for leader election, the
+   * priority of the leader it knows), or undefined if it has none yet.
+   * @param sensorId - The sensor's id.
+   */
+  public estimate(sensorId: string): number | undefined {
+    const state = this.states.get(sensorId);
+    if (!state || state.weight <= 0) return undefined;
+    return this.isAveraging() ? state.sum / state.weight : state.sum;
+  }
+
+  /**
+   * Returns the id of the sensor a sensor currently takes to be the leader (for
+   * max-consensus, the sensor the maximum came from), or undefined if it knows none.
+   * @param sensorId - The sensor's id.
+   */
+  public leader(sensorId: string): string | undefined {
+    if (this.isAveraging()) return undefined;
+    return this.states.get(sensorId)?.origin ?? undefined;
+  }
+
+  /**
+   * Measures how far the sensors are from agreeing.
+   * @param sensors - The sensors taking part.
+   */
+  public metrics(sensors: Sensor[]): ConsensusMetrics {
+    const tolerance = this.options.tolerance as number;
+    const participants = sensors.filter(
+      sensor =>
+        this.states.has(sensor.id) && sensor.state !== SensorState.INACTIVE
+    );
+    const estimates: number[] = [];
+    const leaders = new Set<string | undefined>();
+    participants.forEach(sensor => {
+      const estimate = this.estimate(sensor.id);
+      if (estimate === undefined) return;
+      estimates.push(estimate);
+      leaders.add(this.leader(sensor.id));
+    });
+    const spread =
+      estimates.length > 0
+        ? Math.max(...estimates) - Math.min(...estimates)
+        : 0;
+    const initial = this.history[0] ?? spread;
+    return {
+      rounds: this.rounds,
+      participants: participants.length,
+      informed: estimates.length,
+      spread,
+      error: estimates.reduce(
+        (worst, estimate) => Math.max(worst, Math.abs(estimate - this.target)),
+        0
+      ),
+      rate:
+        this.rounds > 0 && initial > 0
+          ? (spread / initial) ** (1 / this.rounds)
+          : 0,
+      messages: this.messages,
+      converged:
+        estimates.length > 0 &&
+        estimates.length === participants.length &&
+        spread <= tolerance &&
+        (this.options.type !== ConsensusType.LEADER || leaders.size === 1),
+    };
+  }
+
+  private isAveraging(): boolean {
+    return (
+      this.options.type === ConsensusType.GOSSIP ||
+      this.options.type === ConsensusType.METROPOLIS
+    );
+  }
+
+  /**
+   * Lists each participant's neighbours that take part and are switched on, both ways
+   * round, in the order of the sensors.
+   */
+  private liveLinks(sensors: Sensor[]): Map<Sensor, Sensor[]> {
+    const live = sensors.filter(
+      sensor =>
+        this.states.has(sensor.id) && sensor.state !== SensorState.INACTIVE
+    );
+    const index = new Map(live.map((sensor, i) => [sensor, i]));
+    const adjacent = live.map(() => new Set<number>());
+    live.forEach((sensor, i) =>
+      sensor.neighbors.forEach(neighbor => {
+        const j = index.get(neighbor);
+        if (j === undefined || j === i) return;
+        adjacent[i].add(j);
+        adjacent[j].add(i);
+      })
+    );
+    return new Map(
+      live.map((sensor, i) => [
+        sensor,
+        [...adjacent[i]].sort((a, b) => a - b).map(j => live[j]),
+      ])
+    );
+  }
+
+  /**
+   * Each sensor in turn, in random order, averages with a random neighbour.
+   */
+  private gossip(links: Map<Sensor, Sensor[]>): void {
+    const random = this.random as Random;
+    const order = [...links.keys()];
+    for (let i = order.length - 1; i > 0; i--) {
+      const j = random.nextInt(i + 1);
+      [order[i], order[j]] = [order[j], order[i]];
+    }
+    order.forEach(sensor => {
+      const neighbors = links.get(sensor) as Sensor[];
+      if (neighbors.length === 0) return;
+      const partner = neighbors[random.nextInt(neighbors.length)];
+      const a = this.states.get(sensor.id) as ConsensusState;
+      const b = this.states.get(partner.id) as ConsensusState;
+      a.sum = b.sum = (a.sum + b.sum) / 2;
+      a.weight = b.weight = (a.weight + b.weight) / 2;
+      this.messages += 2;
+    });
+  }
+
+  /**
+   * Every sensor moves towards each neighbour by 1 / (1 + the larger of their degrees).
+   * The weights are symmetric and sum to at most 1, so the total is kept and the
+   * estimates converge on any connected graph.
+   */
+  private metropolis(links: Map<Sensor, Sensor[]>): void {
+    const updates = new Map<Sensor, [number, number]>();
+    links.forEach((neighbors, sensor) => {
+      const own = this.states.get(sensor.id) as ConsensusState;
+      let sum = own.sum;
+      let weight = own.weight;
+      neighbors.forEach(neighbor => {
+        const other = this.states.get(neighbor.id) as ConsensusState;
+        const w =
+          1 /
+          (1 +
+            Math.max(
+              neighbors.length,
+              (links.get(neighbor) as Sensor[]).length
+            ));
+        sum += w * (other.sum - own.sum);
+        weight += w * (other.weight - own.weight);
+      });
+      updates.set(sensor, [sum, weight]);
+      this.messages += neighbors.length;
+    });
+    updates.forEach(([sum, weight], sensor) => {
+      const state = this.states.get(sensor.id) as ConsensusState;
+      state.sum = sum;
+      state.weight = weight;
+    });
+  }
+
+  /**
+   * Every sensor keeps the best value among its own and its neighbours'.
+   */
+  private flood(links: Map<Sensor, Sensor[]>): void {
+    const updates = new Map<Sensor, ConsensusState>();
+    links.forEach((neighbors, sensor) => {
+      let best = this.states.get(sensor.id) as ConsensusState;
+      neighbors.forEach(neighbor => {
+        const other = this.states.get(neighbor.id) as ConsensusState;
+        if (isBetter(other, best)) best = other;
+      });
+      updates.set(sensor, { ...best });
+      this.messages += neighbors.length;
+    });
+    updates.forEach((state, sensor) => this.states.set(sensor.id, state));
+  }
+}
+
+/**
+ * Returns a reader of the magnitude of a sensor's latest reading of a channel, such as
+ * the field strength it measures.
+ * @param type - The channel.
+ */
+export function latestMagnitude(type: ChannelType): SensorValue {
+  return sensor => {
+    const reading = sensor.getChannel(type)?.latest();
+    return reading ? Math.hypot(...reading.value) : undefined;
+  };
+}
+
+/**
+ * Whether a candidate beats another in max-consensus: a larger value, or the same value
+ * from a sensor with a larger id.
+ */
+function isBetter(a: ConsensusState, b: ConsensusState): boolean {
+  if (a.origin === null) return false;
+  if (b.origin === null) return true;
+  return a.sum > b.sum || (a.sum === b.sum && a.origin > b.origin);
+}
@@ -0,0 +1,213 @@
+import { Sensor } from './Sensor';
+import { SensorSphere } from './SensorSphere';
+import { SensorState } from './SensorState';
+import { ChannelType, SensorChannel } from './SensorChannel';
+import { Random } from '../core/Random';
+import { Logger } from '../core/Logger';
+
+/**
+ * The ways a sensor or sphere can be broken on purpose.
+ */
+export enum FaultType {
+  MALFUNCTION = 'malfunction', // Puts the sensor into MALFUNCTION.
+  FREEZE = 'freeze', // The channel keeps repeating its last reading.
+  BIAS_JUMP = 'biasJump', // A step change in the channel's offset.
+  DROPOUT = 'dropout', // The channel's readings are lost.
+  KILL_SPHERE = 'killSphere', // Switches off a sphere and every sensor in it.
+}
+
+/**
+ * A fault to inject: what, into which sensor or sphere, and when. A fault happens either
+ * at a given time or, with a hazard rate, once at a random time.
+ */
+export interface FaultSpec {
+  type: FaultType;
+  target: string; // Sensor id, or sphere id for KILL_SPHERE.
+  channel?: ChannelType; // Channel hit by FREEZE, BIAS_JUMP or DROPOUT (default: all).
+  time?: number; // Simulation time of the fault (s).
+  rate?: number; // Hazard rate (1/s); the time to the fault is exponentially distributed.
+  duration?: number; // How long FREEZE and DROPOUT last (s; default: for good).
+  bias?: number[]; // Offset BIAS_JUMP adds to the readings, per component.
+}
+
+/**
+ * A fault with the time at which it will be injected.
+ */
+export interface ScheduledFault {
+  spec: FaultSpec;
+  time: number;
+}
+
+/**
+ * Breaks sensors and spheres on a schedule. Faults given a hazard rate have their times
+ * drawn once, when the injector is built, so a run injects the same faults at the same
+ * times however often it is rewound or replayed. The SimulationEngine injects every fault
+ * whose time falls within a step at the end of that step, and each injection is recorded
+ * in the run log as a 'fault' event so that results can be scored against it.
+ */
+export class FaultInjector {
+  public readonly faults: ScheduledFault[]; // In order of time.
+
+  /**
+   * @param specs - The faults to inject.
+   * @param random - Stream for the times of hazard-rate faults.
+   * @throws Error if a fault has both or neither of a time and a hazard rate, a negative
+   * time, a rate or duration not greater than zero, or is a bias jump without a bias.
+   */
+  constructor(specs: FaultSpec[], random: Random) {
+    this.faults = specs
+      .map(spec => ({ spec, time: scheduleFault(spec, random) }))
+      .sort((a, b) => a.time - b.time);
+  }
+
+  /**
+   * Rebuilds an injector whose fault times have already been drawn, such as one saved
+   * in a snapshot.
+   * @param faults - The faults with their times.
+   * @throws Error if a fault is invalid (see the constructor).
+   */
+  public static fromSchedule(faults: ScheduledFault[]): FaultInjector {
+    faults.forEach(({ spec }) => checkFault(spec));
+    // An empty list draws nothing from the stream.
+    const injector = new FaultInjector([], new Random());
+    injector.faults.push(...faults.slice().sort((a, b) => a.time - b.time));
+    return injector;
+  }
+
+  /**
+   * Returns the faults whose time falls within [from, to).
+   * @param from - Start of the interval (inclusive).
+   * @param to - End of the interval (exclusive).
+   */
+  public due(from: number, to: number): ScheduledFault[] {
+    return this.faults.filter(fault => fault.time >= from && fault.time < to);
+  }
+
+  /**
+   * Checks that every fault's target exists, along with the channel it names.
+   * @param sensors - The sensors that can be targeted.
+   * @param spheres - The spheres that can be targeted.
+   * @throws Error if a target or channel does not exist.
+   */
+  public checkTargets(sensors: Sensor[], spheres: SensorSphere[]): void {
+    this.faults.forEach(({ spec }) => {
+      if (spec.type === FaultType.KILL_SPHERE) {
+        if (!spheres.some(sphere => sphere.id === spec.target)) {
+          throw new Error(
+            `Fault target ${spec.target} is not a sensor sphere.`
+          );
+        }
+        return;
+      }
+      const sensor = sensors.find(sensor => sensor.id === spec.target);
+      if (!sensor) {
+        throw new Error(`Fault target ${spec.target} is not a sensor.`);
+      }
+      if (spec.channel && !sensor.getChannel(spec.channel)) {
+        throw new Error(`Sensor ${sensor.id} has no ${spec.channel} channel.`);
+      }
+    });
+  }
+
+  /**
+   * Applies a fault and records it in the run log. A fault whose target no longer exists
+   * (e.g. a sphere merged into another) is skipped with a warning.
+   * @param fault - The fault.
+   * @param sensors - The sensors that can be targeted.
+   * @param spheres - The spheres that can be targeted.
+   * @param time - The current simulation time, from which durations are counted.
+   */
+  public inject(
+    fault: ScheduledFault,
+    sensors: Sensor[],
+    spheres: SensorSphere[],
+    time: number
+  ): void {
+    const { spec } = fault;
+    if (spec.type === FaultType.KILL_SPHERE) {
+      const sphere = spheres.find(sphere => sphere.id === spec.target);
+      if (!sphere) {
+        skip(spec);
+        return;
+      }
+      sphere.setState(SensorState.INACTIVE);
+      record(spec, sphere.sensors, [sphere.id]);
+      return;
+    }
+    const sensor = sensors.find(sensor => sensor.id === spec.target);
+    if (!sensor) {
+      skip(spec);
+      return;
+    }
+    if (spec.type === FaultType.MALFUNCTION) {
+      // A sensor that is switched off cannot fail.
+      if (sensor.state !== SensorState.INACTIVE) {
+        sensor.setState(SensorState.MALFUNCTION);
+      }
+    } else {
+      const until = time + (spec.duration ?? Infinity);
+      const channels = spec.channel
+        ? [sensor.getChannel(spec.channel) as SensorChannel]
+        : sensor.channels;
+      channels.forEach(channel => {
+        if (spec.type === FaultType.FREEZE) channel.frozenUntil = until;
+        if (spec.type === FaultType.DROPOUT) channel.droppedUntil = until;
+        if (spec.type === FaultType.BIAS_JUMP) {
+          channel.offset = (spec.bias as number[]).map(
+            (jump, i) => (channel.offset[i] ?? 0) + jump
+          );
+        }
+      });
+    }
+    record(spec, [sensor]);
+  }
+}
+
+/**
+ * Returns the time of a fault, drawing it from the exponential distribution of its
+ * hazard rate if it has no fixed time.
+ */
+function scheduleFault(spec: FaultSpec, random: Random): number {
+  checkFault(spec);
+  return spec.time ?? -Math.log(1 - random.next()) / (spec.rate as number);
+}
+
+function checkFault(spec: FaultSpec): void {
+  if ((spec.time === undefined) === (spec.rate === undefined)) {
+    throw new Error('A fault needs either a time or a hazard rate.');
+  }
+  if (spec.time !== undefined && !(spec.time >= 0)) {
+    throw new Error('Fault time must be non-negative.');
+  }
+  if (spec.rate !== undefined && !(spec.rate > 0)) {
+    throw new Error('Fault hazard rate must be greater than zero.');
+  }
+  if (spec.duration !== undefined && !(spec.duration > 0)) {
+    throw new Error('Fault duration must be greater than zero.');
+  }
+  if (spec.type === FaultType.BIAS_JUMP && !spec.bias) {
+    throw new Error('A bias jump needs a bias.');
+  }
+}
+
+function record(spec: FaultSpec, sensors: Sensor[], spheres?: string[]): void {
+  Logger.info(
+    `Injected ${spec.type} fault into ${spec.target}.`,
+    'FaultInjector.inject'
+  );
+  Logger.recordEvent({
+    timestamp: Date.now(),
+    event: 'fault',
+    sensors,
+    spheres,
+    fault: spec.type,
+    channel: spec.channel,
+  });
+}
+
+function skip(spec: FaultSpec): void {
+  Logger.warn(
+    `Fault target ${spec.target} no longer exists; ${spec.type} fault skipped.`,
+    'FaultInjector.inject'
+  );
+}
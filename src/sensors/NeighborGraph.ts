@@ -0,0 +1,320 @@
+import { Sensor } from './Sensor';
+import { SensorState } from './SensorState';
+import { Vector3 } from '../core/Vector3';
+import { Logger } from '../core/Logger';
+import { SpatialHash } from '../utils/broadphase';
+import { delaunayEdges } from '../utils/delaunay';
+
+/**
+ * The rules for which sensors are neighbours.
+ */
+export enum NeighborGraphType {
+  KNN = 'knn', // Each sensor's k nearest sensors (and those it is nearest to).
+  RADIUS = 'radius', // Every sensor within a communication radius.
+  DELAUNAY = 'delaunay', // The edges of the Delaunay triangulation.
+}
+
+/**
+ * How to build the neighbour graph.
+ */
+export interface NeighborGraphOptions {
+  type: NeighborGraphType;
+  k?: number; // Neighbours per sensor, required by KNN.
+  radius?: number; // Communication radius (m), required by RADIUS.
+  interval?: number; // Steps between rebuilds (default 1).
+}
+
+/**
+ * Summary statistics of a neighbour graph.
+ */
+export interface GraphMetrics {
+  nodes: number; // Sensors in the graph.
+  links: number; // Undirected links.
+  degreeDistribution: number[]; // Entry d is the number of sensors with d neighbours.
+  meanDegree: number;
+  components: number; // Connected components, counting isolated sensors.
+  largestComponent: number; // Sensors in the largest component.
+  connected: boolean; // Whether every sensor can reach every other.
+  diameter: number; // Longest shortest path in hops within any component.
+}
+
+/**
+ * A link that appeared or disappeared when the graph was rebuilt.
+ */
+export interface LinkChange {
+  sensors: [Sensor, Sensor];
+  up: boolean;
+}
+
+/**
+ * Discovers which sensors are neighbours as they move. Every `interval` steps the
+ * SimulationEngine rebuilds the graph from the sensors' positions, by k-nearest
+ * neighbours, a fixed communication radius or a Delaunay triangulation, and replaces
+ * each sensor's Sensor.neighbors with it. Links are symmetric, and sensors that are
+ * switched off (INACTIVE) have none. Every link that appears or disappears is recorded in
+ * the run log as a 'linkUp' or 'linkDown' event.
+ */
+export class NeighborGraph {
+  public readonly options: NeighborGraphOptions;
+
+  /**
+   * @param options - The rule and how often to apply it.
+   * @throws Error if k or interval is not a positive integer, or radius is not greater
+   * than zero, where needed.
+   */
+  constructor(options: NeighborGraphOptions) {
+    if (!Object.values(NeighborGraphType).includes(options.type)) {
+      throw new Error(`Unknown neighbor graph type: ${String(options.type)}.`);
+    }
+    if (
+      options.type === NeighborGraphType.KNN &&
+      !(Number.isInteger(options.k) && (options.k as number) > 0)
+    ) {
+      throw new Error(
+        'A k-nearest-neighbor graph needs k to be a positive integer.'
+      );
+    }
+    if (
+      options.type === NeighborGraphType.RADIUS &&
+      !((options.radius as number) > 0)
+    ) {
+      throw new Error('A radius graph needs a radius greater than zero.');
+    }
+    const interval = options.interval ?? 1;
+    if (!Number.isInteger(interval) || interval < 1) {
+      throw new Error('Neighbor graph interval must be a positive integer.');
+    }
+    this.options = { ...options, interval };
+  }
+
+  /**
+   * Returns whether the graph is rebuilt on a step.
+   * @param step - The engine's step count.
+   */
+  public isDue(step: number): boolean {
+    return step % (this.options.interval as number) === 0;
+  }
+
+  /**
+   * Returns the links among a set of sensors under this graph's rule.
+   * @param sensors - The sensors, all of which take part.
+   * @returns The links as index pairs [i, j] with i < j, in lexicographic order.
+   */
+  public links(sensors: Sensor[]): [number, number][] {
+    const positions = sensors.map(sensor => sensor.position);
+    switch (this.options.type) {
+      case NeighborGraphType.KNN:
+        return knnLinks(positions, this.options.k as number);
+      case NeighborGraphType.RADIUS:
+        return radiusLinks(positions, this.options.radius as number);
+      case NeighborGraphType.DELAUNAY:
+        return delaunayEdges(positions);
+    }
+  }
+
+  /**
+   * Rewires the sensors' neighbour lists to the current graph and records each link that
+   * changed. Links to sensors outside the list are dropped without an event.
+   * @param sensors - The sensors to connect; INACTIVE ones are left without neighbours.
+   * @returns The links that appeared or disappeared, in order of the sensor list.
+   */
+  public rebuild(sensors: Sensor[]): LinkChange[] {
+    const index = new Map(sensors.map((sensor, i) => [sensor, i]));
+    const key = (i: number, j: number): string =>
+      i < j ? `${i},${j}` : `${j},${i}`;
+
+    const before = new Set<string>();
+    sensors.forEach((sensor, i) =>
+      sensor.neighbors.forEach(neighbor => {
+        const j = index.get(neighbor);
+        if (j !== undefined && j !== i) before.add(key(i, j));
+      })
+    );
+
+    const live = sensors
+      .map((_, i) => i)
+      .filter(i => sensors[i].state !== SensorState.INACTIVE);
+    const after = new Set(
+      this.links(live.map(i => sensors[i])).map(([a, b]) =>
+        key(live[a], live[b])
+      )
+    );
+
+    const neighbors: Sensor[][] = sensors.map(() => []);
+    after.forEach(link => {
+      const [i, j] = link.split(',').map(Number);
+      neighbors[i].push(sensors[j]);
+      neighbors[j].push(sensors[i]);
+    });
+    sensors.forEach((sensor, i) => {
+      sensor.neighbors = neighbors[i].sort(
+        (a, b) => (index.get(a) as number) - (index.get(b) as number)
+      );
+    });
+
+    const changes: LinkChange[] = [];
+    const record = (link: string, up: boolean): void => {
+      const [i, j] = link.split(',').map(Number);
+      changes.push({ sensors: [sensors[i], sensors[j]], up });
+    };
+    before.forEach(link => {
+      if (!after.has(link)) record(link, false);
+    });
+    after.forEach(link => {
+      if (!before.has(link)) record(link, true);
+    });
+    changes.sort(
+      (a, b) =>
+        (index.get(a.sensors[0]) as number) -
+          (index.get(b.sensors[0]) as number) ||
+        (index.get(a.sensors[1]) as number) -
+          (index.get(b.sensors[1]) as number)
+    );
+    changes.forEach(change =>
+      Logger.recordEvent({
+        timestamp: Date.now(),
+        event: change.up ? 'linkUp' : 'linkDown',
+        sensors: change.sensors,
+      })
+    );
+    if (changes.length > 0) {
+      Logger.debug(
+        `Neighbor graph rebuilt: ${
+          changes.filter(change => change.up).length
+        } links up, ${changes.filter(change => !change.up).length} down.`,
+        'NeighborGraph.rebuild'
+      );
+    }
+    return changes;
+  }
+}
+
+/**
+ * Computes the metrics of the graph formed by the sensors' neighbour lists. Links to
+ * sensors outside the list are ignored.
+ * @param sensors - The sensors.
+ * @returns The metrics.
+ */
+export function graphMetrics(sensors: Sensor[]): GraphMetrics {
+  const index = new Map(sensors.map((sensor, i) => [sensor, i]));
+  const adjacency = sensors.map((sensor, i) => {
+    const links = new Set<number>();
+    sensor.neighbors.forEach(neighbor => {
+      const j = index.get(neighbor);
+      if (j !== undefined && j !== i) links.add(j);
+    });
+    return links;
+  });
+  // Treat a one-sided entry as a link both ways.
+  adjacency.forEach((links, i) => links.forEach(j => adjacency[j].add(i)));
+
+  const degrees = adjacency.map(links => links.size);
+  const degreeDistribution = new Array<number>(
+    Math.max(0, ...degrees) + 1
+  ).fill(0);
+  degrees.forEach(degree => degreeDistribution[degree]++);
+  const totalDegree = degrees.reduce((sum, degree) => sum + degree, 0);
+
+  // Breadth-first search from every sensor gives both components and eccentricities.
+  const component = new Array<number>(sensors.length).fill(-1);
+  const sizes: number[] = [];
+  let diameter = 0;
+  for (let start = 0; start < sensors.length; start++) {
+    const distance = new Array<number>(sensors.length).fill(-1);
+    distance[start] = 0;
+    const queue = [start];
+    for (let head = 0; head < queue.length; head++) {
+      const current = queue[head];
+      adjacency[current].forEach(next => {
+        if (distance[next] < 0) {
+          distance[next] = distance[current] + 1;
+          queue.push(next);
+        }
+      });
+    }
+    diameter = Math.max(diameter, distance[queue[queue.length - 1]]);
+    if (component[start] < 0) {
+      queue.forEach(node => (component[node] = sizes.length));
+      sizes.push(queue.length);
+    }
+  }
+
+  return {
+    nodes: sensors.length,
+    links: totalDegree / 2,
+    degreeDistribution,
+    meanDegree: sensors.length > 0 ? totalDegree / sensors.length : 0,
+    components: sizes.length,
+    largestComponent: Math.max(0, ...sizes),
+    connected: sizes.length <= 1,
+    diameter,
+  };
+}
+
+/**
+ * Links each point to its k nearest (ties broken by index). A point is linked to another
+ * if either is among the other's nearest.
+ */
+function knnLinks(positions: Vector3[], k: number): [number, number][] {
+  const n = positions.length;
+  const wanted = Math.min(k, n - 1);
+  if (wanted <= 0) return [];
+
+  // Everything within one cell size of a point is in its cell or the 26 around it, so
+  // once the k-th candidate is that close the k nearest are known. Points still in doubt
+  // are searched again with cells twice the size.
+  const extent = positions.reduce(
+    (max, position) => Math.max(max, position.distanceTo(positions[0])),
+    0
+  );
+  let cellSize = extent > 0 ? 2 * extent * Math.cbrt(wanted / n) : 1;
+  const links = new Set<string>();
+  let pending = positions.map((_, i) => i);
+  while (pending.length > 0) {
+    const hash = new SpatialHash(cellSize);
+    positions.forEach((position, i) => hash.insert(i, position));
+    pending = pending.filter(i => {
+      const candidates = hash
+        .queryNeighbors(positions[i])
+        .filter(j => j !== i)
+        .map(j => ({ j, distance: positions[i].distanceTo(positions[j]) }))
+        .sort((a, b) => a.distance - b.distance || a.j - b.j);
+      if (
+        candidates.length < wanted ||
+        (candidates.length < n - 1 &&
+          candidates[wanted - 1].distance > cellSize)
+      ) {
+        return true;
+      }
+      candidates
+        .slice(0, wanted)
+        .forEach(({ j }) => links.add(i < j ? `${i},${j}` : `${j},${i}`));
+      return false;
+    });
+    cellSize *= 2;
+  }
+  return sortLinks(links);
+}
+
+/**
+ * Links every pair of points within the radius of each other.
+ */
+function radiusLinks(positions: Vector3[], radius: number): [number, number][] {
+  const hash = new SpatialHash(radius);
+  positions.forEach((position, i) => hash.insert(i, position));
+  const links = new Set<string>();
+  positions.forEach((position, i) =>
+    hash.queryNeighbors(position).forEach(j => {
+      if (j > i && position.distanceTo(positions[j]) <= radius) {
+        links.add(`${i},${j}`);
+      }
+    })
+  );
+  return sortLinks(links);
+}
+
+function sortLinks(links: Set<string>): [number, number][] {
+  return [...links]
+    .map(link => link.split(',').map(Number) as [number, number])
+    .sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+}
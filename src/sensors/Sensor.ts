@@ -1,7 +1,14 @@
 import { Vector3 } from '../core/Vector3';
-import { SensorState } from './SensorState';
+import { SENSOR_TRANSITIONS, SensorState } from './SensorState';
 import { Constants } from '../core/Constants';
 import { Logger } from '../core/Logger';
+import { Random } from '../core/Random';
+import {
+  Integrator,
+  DEFAULT_INTEGRATOR,
+  constantAcceleration,
+} from '../core/Integrator';
+import { ChannelType, Sample, SensorChannel } from './SensorChannel';
 
 /**
  * Represents an individual sensor used within the simulation.
@@ -18,6 +25,9 @@ export class Sensor {
   public mass: number;
   public charge: number;
   public state: SensorState;
+  public targetState: SensorState | null; // Where a TRANSITION leads.
+  public transitionRemaining: number; // Seconds left in TRANSITION.
+  public calibrationDue: boolean; // Set by a malfunction, cleared by calibrate().
   public color: string;
   public neighbors: Sensor[];
 
@@ -40,7 +50,14 @@ export class Sensor {
 
   // Extra dynamic properties
   public radius: number; // For collision detection.
-  public spin: number; // Angular velocity (radians per second).
+  public spin: number; // Angular velocity (radians per second) about rotationAxis.
+
+  // Material properties for collision response
+  public restitution: number; // Coefficient of restitution (1 = perfectly elastic).
+  public friction: number; // Coefficient of friction (0 = frictionless).
+
+  // Measurement channels, at most one per quantity
+  public channels: SensorChannel[];
 
   /**
    * Constructs a new Sensor instance.
@@ -70,6 +87,9 @@ export class Sensor {
     this.mass = mass;
     this.charge = charge;
     this.state = state;
+    this.targetState = null;
+    this.transitionRemaining = 0;
+    this.calibrationDue = false;
     this.neighbors = [];
 
     // Initialize vibration properties.
@@ -93,6 +113,13 @@ export class Sensor {
     this.radius = Constants.DEFAULT_SENSOR_RADIUS;
     this.spin = 0;
 
+    // Initialize material properties.
+    this.restitution = Constants.DEFAULT_RESTITUTION;
+    this.friction = Constants.DEFAULT_FRICTION;
+
+    // No measurement channels until some are added.
+    this.channels = [];
+
     // Compute and assign the sensor's initial color using continuous HSL mapping.
     this.color = this.computeColor(this.charge);
   }
@@ -139,20 +166,38 @@ export class Sensor {
 
   /**
    * Updates the sensor's state over a given time step.
-   * Updates velocity and position, resets acceleration, and triggers placeholders for dynamic behaviors.
+   * Updates velocity and position with the given integrator, treating the accumulated
+   * acceleration as constant over the step, then resets acceleration and triggers
+   * placeholders for dynamic behaviors.
    * @param deltaTime - Time step in seconds (must be > 0).
+   * @param integrator - The integration scheme (default: semi-implicit Euler).
    * @throws Error if deltaTime <= 0.
    */
-  public update(deltaTime: number): void {
+  public update(
+    deltaTime: number,
+    integrator: Integrator = DEFAULT_INTEGRATOR
+  ): void {
     if (deltaTime <= 0) {
       throw new Error('Delta time must be greater than zero.');
     }
-    this.velocity = this.velocity.add(
-      this.acceleration.multiplyScalar(deltaTime)
+    const [next] = integrator.step(
+      [{ position: this.position, velocity: this.velocity }],
+      deltaTime,
+      constantAcceleration([this.acceleration])
     );
-    this.position = this.position.add(this.velocity.multiplyScalar(deltaTime));
+    this.position = next.position;
+    this.velocity = next.velocity;
     this.acceleration = Vector3.zero();
+    this.updateBehaviors(deltaTime);
+  }
 
+  /**
+   * Advances vibration, rotation, wobble and radiation over a time step. update() calls
+   * this after integrating the motion; callers that integrate the motion themselves
+   * call it directly.
+   * @param deltaTime - Time step in seconds.
+   */
+  public updateBehaviors(deltaTime: number): void {
     // Update dynamic behaviors (placeholders for future enhancements)
     this.updateVibration(deltaTime);
     this.updateRotation(deltaTime);
@@ -253,15 +298,166 @@ export class Sensor {
   }
 
   /**
-   * Sets the sensor's state.
-   * @param state - The new sensor state.
-   * @throws Error if state is null or undefined.
+   * Requests a change of state, following SENSOR_TRANSITIONS. A change with a duration
+   * puts the sensor in TRANSITION until advanceState has counted it down; others take
+   * effect at once. Every change is recorded in the run log as a 'stateChange' event.
+   * Requesting the current state (or the one a transition is already heading for) does
+   * nothing.
+   * @param state - The requested state.
+   * @throws Error if state is null or undefined, or the change is not allowed from the
+   * current state or is refused by its guard.
    */
   public setState(state: SensorState): void {
     if (!state) {
       throw new Error('State cannot be null or undefined.');
     }
+    if (state === this.state || state === this.targetState) return;
+    const transition = SENSOR_TRANSITIONS[this.state][state];
+    if (!transition) {
+      throw new Error(
+        `Sensor ${this.id} cannot change from ${this.state} to ${state}.`
+      );
+    }
+    const refusal = transition.guard?.(this) ?? null;
+    if (refusal) {
+      throw new Error(
+        `Sensor ${this.id} cannot change from ${this.state} to ${state}: ${refusal}.`
+      );
+    }
+    if (transition.duration > 0) {
+      this.targetState = state;
+      this.transitionRemaining = transition.duration;
+      this.enterState(SensorState.TRANSITION);
+    } else {
+      this.targetState = null;
+      this.transitionRemaining = 0;
+      this.enterState(state);
+    }
+  }
+
+  /**
+   * Counts down a transition in progress and completes it once its duration has passed.
+   * The SimulationEngine calls this every forward step.
+   * @param dt - The time step in seconds.
+   * @returns True if the sensor was in TRANSITION.
+   */
+  public advanceState(dt: number): boolean {
+    if (this.state !== SensorState.TRANSITION || this.targetState === null) {
+      return false;
+    }
+    this.transitionRemaining -= dt;
+    // Allow for rounding in the accumulated step sizes.
+    if (this.transitionRemaining <= dt * 1e-9) {
+      const target = this.targetState;
+      this.targetState = null;
+      this.transitionRemaining = 0;
+      this.enterState(target);
+    }
+    return true;
+  }
+
+  /**
+   * Marks the sensor as calibrated, which a sensor that has malfunctioned needs before it
+   * may leave maintenance.
+   * @throws Error if the sensor is not in maintenance.
+   */
+  public calibrate(): void {
+    if (this.state !== SensorState.MAINTENANCE) {
+      throw new Error(
+        `Sensor ${this.id} can only be calibrated in maintenance.`
+      );
+    }
+    this.calibrationDue = false;
+  }
+
+  /**
+   * Returns true if the sensor takes readings: only active sensors do.
+   */
+  public get isMeasuring(): boolean {
+    return this.state === SensorState.ACTIVE;
+  }
+
+  /**
+   * Returns true if the sensor collides with other sensors: inactive ones do not.
+   */
+  public get isCollidable(): boolean {
+    return this.state !== SensorState.INACTIVE;
+  }
+
+  /**
+   * Switches to a state and records the change.
+   */
+  private enterState(state: SensorState): void {
+    const previous = this.state;
     this.state = state;
+    if (state === SensorState.MALFUNCTION) this.calibrationDue = true;
+    Logger.debug(
+      `Sensor ${this.id} changed from ${previous} to ${state}.`,
+      'Sensor.setState'
+    );
+    Logger.recordEvent({
+      timestamp: Date.now(),
+      event: 'stateChange',
+      sensors: [this],
+      fromState: previous,
+      toState: state,
+    });
+  }
+
+  /**
+   * Adds a measurement channel. The SimulationEngine samples it at the end of every step
+   * at which a reading is due.
+   * @param type - The quantity to measure.
+   * @param random - Stream for the channel's noise; give each channel its own split of
+   * the engine's root stream (e.g. by sensor id and type).
+   * @param sampleRate - Samples per second (default from Constants).
+   * @returns The new channel.
+   * @throws Error if the sensor already has a channel of this type or sampleRate is not
+   * greater than zero.
+   */
+  public addChannel(
+    type: ChannelType,
+    random: Random,
+    sampleRate: number = Constants.DEFAULT_SAMPLE_RATE
+  ): SensorChannel {
+    if (this.getChannel(type)) {
+      throw new Error(`Sensor ${this.id} already has a ${type} channel.`);
+    }
+    const channel = new SensorChannel(
+      type,
+      random,
+      sampleRate,
+      Constants.DEFAULT_SAMPLE_CAPACITY
+    );
+    this.channels.push(channel);
+    return channel;
+  }
+
+  /**
+   * Returns the channel measuring a quantity, or undefined if there is none.
+   * @param type - The quantity.
+   */
+  public getChannel(type: ChannelType): SensorChannel | undefined {
+    return this.channels.find(channel => channel.type === type);
+  }
+
+  /**
+   * Returns the readings of a channel taken within a time range, oldest first.
+   * @param type - The quantity.
+   * @param from - Earliest time included (default: no limit).
+   * @param to - Latest time included (default: no limit).
+   * @throws Error if the sensor has no channel of this type.
+   */
+  public getTimeSeries(
+    type: ChannelType,
+    from?: number,
+    to?: number
+  ): Sample[] {
+    const channel = this.getChannel(type);
+    if (!channel) {
+      throw new Error(`Sensor ${this.id} has no ${type} channel.`);
+    }
+    return channel.getSamples(from, to);
   }
 
   /**
@@ -0,0 +1,223 @@
+import { Sensor } from './Sensor';
+import { SensorSphere } from './SensorSphere';
+import { SensorState } from './SensorState';
+import { ChannelType } from './SensorChannel';
+import { Vector3 } from '../core/Vector3';
+import { Constants } from '../core/Constants';
+import { leastSquares, solveLinearSystem } from '../utils/linearAlgebra';
+
+/**
+ * A field whose true value at a sensor is known, used as a calibration reference.
+ */
+export interface ReferenceField {
+  readonly type: ChannelType; // The channel the reference calibrates.
+
+  /**
+   * Returns the true value of the field at a sensor: [x, y, z] or [value].
+   */
+  valueAt(sensor: Sensor): number[];
+}
+
+/**
+ * A uniform reference field, e.g. the E-field between the plates of a capacitor or a
+ * temperature-controlled bath.
+ */
+export class UniformReferenceField implements ReferenceField {
+  public readonly type: ChannelType;
+  public readonly value: number[];
+
+  /**
+   * @param type - The channel the reference calibrates.
+   * @param value - The field everywhere: [x, y, z] or [value].
+   */
+  constructor(type: ChannelType, value: number[]) {
+    this.type = type;
+    this.value = [...value];
+  }
+
+  public valueAt(): number[] {
+    return [...this.value];
+  }
+}
+
+/**
+ * The gravitational acceleration of a known source mass at a known position:
+ * g = G·M·(p − s) / |p − s|³ at a sensor at s.
+ */
+export class PointMassReference implements ReferenceField {
+  public readonly type = ChannelType.GRAVITY;
+  public readonly position: Vector3;
+  public readonly mass: number;
+
+  /**
+   * @param position - Position of the source mass.
+   * @param mass - The source mass in kg.
+   * @throws Error if mass is not greater than zero.
+   */
+  constructor(position: Vector3, mass: number) {
+    if (!(mass > 0)) {
+      throw new Error('Mass must be greater than zero.');
+    }
+    this.position = position;
+    this.mass = mass;
+  }
+
+  /**
+   * @throws Error if the sensor is at the source mass.
+   */
+  public valueAt(sensor: Sensor): number[] {
+    const offset = this.position.subtract(sensor.position);
+    const distance = offset.magnitude();
+    if (distance === 0) {
+      throw new Error(
+        `Sensor ${sensor.id} is at the reference mass; its field is undefined there.`
+      );
+    }
+    return offset
+      .multiplyScalar(
+        (Constants.GRAVITATIONAL_CONSTANT * this.mass) / distance ** 3
+      )
+      .toArray();
+  }
+}
+
+/**
+ * Returns uniform references of a given strength pointing along +x, −x, +y, −y, +z and
+ * −z in turn: enough to separate the gain, offset and misalignment of every axis.
+ * @param type - A vector channel.
+ * @param magnitude - The field strength.
+ */
+export function axisReferences(
+  type: ChannelType,
+  magnitude: number
+): UniformReferenceField[] {
+  return [0, 1, 2].flatMap(axis =>
+    [magnitude, -magnitude].map(
+      strength =>
+        new UniformReferenceField(
+          type,
+          [0, 1, 2].map(i => (i === axis ? strength : 0))
+        )
+    )
+  );
+}
+
+/**
+ * The estimated response of a channel, r = M·v + offset with M = diag(gain)·misalignment,
+ * and how well it fits the calibration readings.
+ */
+export interface Calibration {
+  gain: number[]; // Per axis.
+  misalignment: number[][]; // Unit diagonal; row i is how axis i picks up each component.
+  offset: number[]; // Per component.
+  residuals: number[]; // Root-mean-square misfit of the readings, per component.
+  readings: number; // Number of readings fitted.
+}
+
+/**
+ * Calibrates a channel of a sensor in maintenance. The sensor takes raw readings of each
+ * reference field (repetitions times each, passing through the channel's noise stages),
+ * and the gain, offset and misalignment are estimated from them by least squares. The
+ * result is stored on the channel, which corrects every later reading with it, and the
+ * sensor is marked as calibrated.
+ * @param sensor - The sensor, in MAINTENANCE.
+ * @param type - The channel to calibrate.
+ * @param references - Known fields for the channel; a channel of n components needs at
+ * least n + 1 that are not coplanar.
+ * @param repetitions - Readings taken of each reference (default 1).
+ * @returns The calibration.
+ * @throws Error if the sensor is not in maintenance or has no such channel, a reference
+ * is for another channel, or the references do not determine the response.
+ */
+export function calibrateChannel(
+  sensor: Sensor,
+  type: ChannelType,
+  references: ReferenceField[],
+  repetitions: number = 1
+): Calibration {
+  if (sensor.state !== SensorState.MAINTENANCE) {
+    throw new Error(
+      `Sensor ${sensor.id} can only be calibrated in maintenance.`
+    );
+  }
+  const channel = sensor.getChannel(type);
+  if (!channel) {
+    throw new Error(`Sensor ${sensor.id} has no ${type} channel.`);
+  }
+  references.forEach(reference => {
+    if (reference.type !== type) {
+      throw new Error(
+        `A ${reference.type} reference cannot calibrate a ${type} channel.`
+      );
+    }
+  });
+
+  const truths: number[][] = [];
+  const raws: number[][] = [];
+  references.forEach(reference => {
+    for (let i = 0; i < repetitions; i++) {
+      const truth = reference.valueAt(sensor);
+      truths.push(truth);
+      raws.push(channel.respond(sensor, truth, 1 / channel.sampleRate));
+    }
+  });
+
+  // Each component is an affine function of the true value: r_i = M_i·v + offset_i.
+  const size = truths[0]?.length ?? 0;
+  const design = truths.map(truth => [...truth, 1]);
+  const rows = Array.from({ length: size }, (_, i) =>
+    leastSquares(
+      design,
+      raws.map(raw => raw[i])
+    )
+  );
+  const undetermined = (): Error =>
+    new Error(
+      `The references do not determine the ${type} response of sensor ${sensor.id}.`
+    );
+  if (size === 0 || rows.some(row => row === null)) throw undetermined();
+  const response = rows.map(row => (row as number[]).slice(0, size));
+  const offset = rows.map(row => (row as number[])[size]);
+  if (!solveLinearSystem(response, offset)) throw undetermined();
+
+  const gain = response.map((row, i) => row[i]);
+  const residuals = offset.map((_, i) => {
+    const squares = truths.reduce((sum, truth, k) => {
+      const fitted =
+        response[i].reduce((total, entry, j) => total + entry * truth[j], 0) +
+        offset[i];
+      return sum + (raws[k][i] - fitted) ** 2;
+    }, 0);
+    return Math.sqrt(squares / truths.length);
+  });
+  const calibration: Calibration = {
+    gain,
+    misalignment: response.map((row, i) => row.map(entry => entry / gain[i])),
+    offset,
+    residuals,
+    readings: truths.length,
+  };
+  channel.calibration = calibration;
+  sensor.calibrate();
+  return calibration;
+}
+
+/**
+ * Calibrates a channel of every sensor in a sphere, all exposed to the same references.
+ * @param sphere - The sphere, whose sensors are in MAINTENANCE.
+ * @param type - The channel to calibrate.
+ * @param references - Known fields for the channel.
+ * @param repetitions - Readings taken of each reference by each sensor (default 1).
+ * @returns The calibration of each sensor, in the sphere's order.
+ * @throws Error as calibrateChannel does, for the first sensor that cannot be calibrated.
+ */
+export function calibrateSphere(
+  sphere: SensorSphere,
+  type: ChannelType,
+  references: ReferenceField[],
+  repetitions: number = 1
+): Calibration[] {
+  return sphere.sensors.map(sensor =>
+    calibrateChannel(sensor, type, references, repetitions)
+  );
+}
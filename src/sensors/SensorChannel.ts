@@ -0,0 +1,283 @@
+import { Sensor } from './Sensor';
+import { Vector3 } from '../core/Vector3';
+import { Constants } from '../core/Constants';
+import { Random } from '../core/Random';
+import { RingBuffer } from '../utils/ringBuffer';
+import { ElectricField } from '../electricity/ElectricField';
+import { MagneticField } from '../magnetism/MagneticField';
+import { GravitySimulator } from '../gravity/GravitySimulator';
+import { NoiseStage } from './SensorNoise';
+import { Calibration } from './SensorCalibration';
+import { solveLinearSystem } from '../utils/linearAlgebra';
+
+/**
+ * The quantities a sensor can measure.
+ */
+export enum ChannelType {
+  ELECTRIC_FIELD = 'electricField', // Electric field vector (N/C).
+  MAGNETIC_FIELD = 'magneticField', // Magnetic field vector (T).
+  GRAVITY = 'gravity', // Gravitational acceleration vector (m/s²).
+  TEMPERATURE = 'temperature', // The sensor's own temperature (K).
+}
+
+/**
+ * One reading of a channel: [x, y, z] for vector channels, [value] for scalar ones.
+ */
+export interface Sample {
+  time: number;
+  value: number[];
+}
+
+/**
+ * Sample times within this fraction of a sampling period of the scheduled time count as
+ * on time, so that rounding in the accumulated simulation time cannot skip a sample.
+ */
+const SCHEDULE_TOLERANCE = 1e-6;
+
+/**
+ * Evaluates the true value of a channel at a sensor, without noise. Fields are those of
+ * every other sensor at the sensor's position; sources that coincide with it are skipped.
+ * @param type - The quantity to measure.
+ * @param sensor - The measuring sensor.
+ * @param sources - The sensors generating the fields (the sensor itself is ignored).
+ * @returns The reading: [x, y, z] for fields, [value] for temperature.
+ */
+export function measure(
+  type: ChannelType,
+  sensor: Sensor,
+  sources: Sensor[]
+): number[] {
+  const others = sources.filter(
+    source =>
+      source !== sensor && source.position.distanceTo(sensor.position) > 0
+  );
+  switch (type) {
+    case ChannelType.ELECTRIC_FIELD:
+      return ElectricField.calculateNetField(others, sensor.position).toArray();
+    case ChannelType.MAGNETIC_FIELD:
+      return MagneticField.calculateNetField(others, sensor.position).toArray();
+    case ChannelType.GRAVITY:
+      // g = Σ F / m: the force on the sensor from each source per unit of its own mass.
+      return others
+        .reduce(
+          (sum, source) =>
+            sum.add(
+              GravitySimulator.calculateGravitationalForce(sensor, source)
+            ),
+          Vector3.zero()
+        )
+        .divideScalar(sensor.mass)
+        .toArray();
+    case ChannelType.TEMPERATURE:
+      return [sensor.temperature];
+  }
+}
+
+/**
+ * A measurement channel of a sensor: what it measures, how often, how imperfectly, and
+ * the time series of its readings. Each true value, plus any offset, is passed through
+ * the noise stages in order and corrected by the channel's calibration before it is
+ * stored. Readings are kept in a ring buffer, so
+ * the oldest are dropped once the capacity is reached. Injected faults can freeze the
+ * channel, which then repeats its last reading, or make it drop the readings that fall
+ * due.
+ */
+export class SensorChannel {
+  public readonly type: ChannelType;
+  public readonly sampleRate: number; // Samples per second (Hz).
+  public nextSampleTime = 0; // Simulation time at which the next sample is due.
+  public noise: NoiseStage[] = []; // Applied to every reading, in order.
+  public readonly random: Random; // Stream the noise stages draw from.
+  public offset: number[] = []; // Added to every true value, per component (bias jumps).
+  public frozenUntil = 0; // Readings repeat the last one until this time.
+  public droppedUntil = 0; // Readings that fall due are lost until this time.
+  public calibration: Calibration | null = null; // Correction applied to every reading.
+  private samples: RingBuffer<Sample>;
+
+  /**
+   * @param type - The quantity measured.
+   * @param random - Stream for the noise stages, which should be the channel's own so
+   * that the noise of different sensors is independent (see Sensor.addChannel).
+   * @param sampleRate - Samples per second (default from Constants).
+   * @param capacity - The most samples kept (default from Constants).
+   * @throws Error if sampleRate is not greater than zero or capacity is not a positive
+   * integer.
+   */
+  constructor(
+    type: ChannelType,
+    random: Random,
+    sampleRate: number = Constants.DEFAULT_SAMPLE_RATE,
+    capacity: number = Constants.DEFAULT_SAMPLE_CAPACITY
+  ) {
+    if (!(sampleRate > 0) || !Number.isFinite(sampleRate)) {
+      throw new Error('Sample rate must be greater than zero.');
+    }
+    this.type = type;
+    this.sampleRate = sampleRate;
+    this.samples = new RingBuffer<Sample>(capacity);
+    this.random = random;
+  }
+
+  /**
+   * The most samples kept.
+   */
+  public get capacity(): number {
+    return this.samples.capacity;
+  }
+
+  /**
+   * Returns true if a sample is due at the given time.
+   * @param time - Simulation time in seconds.
+   */
+  public isDue(time: number): boolean {
+    return (
+      (time - this.nextSampleTime) * this.sampleRate >= -SCHEDULE_TOLERANCE
+    );
+  }
+
+  /**
+   * Appends a reading and schedules the next sample one period after the scheduled time
+   * of this one. Periods skipped because the time step is longer than a period are not
+   * made up.
+   * @param time - Simulation time of the reading.
+   * @param value - The reading.
+   * @returns The stored sample.
+   */
+  public record(time: number, value: number[]): Sample {
+    const sample = { time, value };
+    this.samples.push(sample);
+    this.schedule(time);
+    return sample;
+  }
+
+  /**
+   * Schedules the next sample one period after the scheduled time of one taken now.
+   */
+  private schedule(time: number): void {
+    const periods = Math.floor(
+      (time - this.nextSampleTime) * this.sampleRate + SCHEDULE_TOLERANCE
+    );
+    this.nextSampleTime += (Math.max(periods, 0) + 1) / this.sampleRate;
+  }
+
+  /**
+   * Returns the raw reading for a true value: the value plus any offset, passed through
+   * the noise stages.
+   * @param sensor - The sensor this channel belongs to.
+   * @param value - The true value.
+   * @param interval - Seconds since the previous reading.
+   * @returns The value as the sensor reports it before calibration.
+   */
+  public respond(sensor: Sensor, value: number[], interval: number): number[] {
+    return this.noise.reduce(
+      (reading, stage) =>
+        stage.apply(reading, { sensor, interval, random: this.random }),
+      value.map((component, i) => component + (this.offset[i] ?? 0))
+    );
+  }
+
+  /**
+   * Undoes the estimated response of a raw reading, if the channel has been calibrated:
+   * returns x such that M·x + offset equals the reading.
+   * @param reading - The raw reading.
+   * @returns The corrected reading.
+   */
+  public correct(reading: number[]): number[] {
+    const calibration = this.calibration;
+    if (!calibration) return reading;
+    const response = calibration.misalignment.map((row, i) =>
+      row.map(entry => entry * calibration.gain[i])
+    );
+    const corrected = solveLinearSystem(
+      response,
+      reading.map((component, i) => component - calibration.offset[i])
+    );
+    return corrected ?? reading;
+  }
+
+  /**
+   * Measures and records a reading if one is due. While the channel is frozen, the last
+   * reading is repeated; while it drops readings, the due one is lost.
+   * @param sensor - The sensor this channel belongs to.
+   * @param sources - The sensors generating the fields.
+   * @param time - The current simulation time.
+   * @returns The new sample, or null if none was due or it was dropped.
+   */
+  public sample(
+    sensor: Sensor,
+    sources: Sensor[],
+    time: number
+  ): Sample | null {
+    if (!this.isDue(time)) return null;
+    if (time < this.droppedUntil) {
+      this.schedule(time);
+      return null;
+    }
+    const held = time < this.frozenUntil ? this.latest() : undefined;
+    if (held) return this.record(time, [...held.value]);
+    const previous = this.latest();
+    const interval = previous ? time - previous.time : 1 / this.sampleRate;
+    const value = measure(this.type, sensor, sources);
+    return this.record(
+      time,
+      this.correct(this.respond(sensor, value, interval))
+    );
+  }
+
+  /**
+   * Returns the stored samples taken within a time range, oldest first.
+   * @param from - Earliest time included (default: no limit).
+   * @param to - Latest time included (default: no limit).
+   */
+  public getSamples(from: number = -Infinity, to: number = Infinity): Sample[] {
+    return this.samples
+      .toArray()
+      .filter(sample => sample.time >= from && sample.time <= to);
+  }
+
+  /**
+   * Returns the newest sample, or undefined if there is none.
+   */
+  public latest(): Sample | undefined {
+    return this.samples.peek();
+  }
+
+  /**
+   * Drops the samples taken after a time, as when the simulation steps backwards, and
+   * schedules the next sample at the earliest one dropped so that it is taken again.
+   * @param time - The simulation time stepped back to.
+   */
+  public rewind(time: number): void {
+    let newest = this.samples.peek();
+    while (
+      newest &&
+      (newest.time - time) * this.sampleRate > SCHEDULE_TOLERANCE
+    ) {
+      this.nextSampleTime = newest.time;
+      this.samples.pop();
+      newest = this.samples.peek();
+    }
+  }
+
+  /**
+   * Removes every sample and restarts the schedule at time zero.
+   */
+  public clear(): void {
+    this.samples.clear();
+    this.nextSampleTime = 0;
+  }
+
+  /**
+   * Formats the time series as CSV, with a header row: "time,x,y,z" for vector channels
+   * and "time,value" for scalar ones.
+   * @returns The CSV text, one line per sample.
+   */
+  public toCSV(): string {
+    const header =
+      this.type === ChannelType.TEMPERATURE ? 'time,value' : 'time,x,y,z';
+    const rows = this.samples
+      .toArray()
+      .map(sample => [sample.time, ...sample.value].join(','));
+    return [header, ...rows].join('\n') + '\n';
+  }
+}
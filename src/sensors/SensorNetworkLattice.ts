@@ -0,0 +1,316 @@
+import { Sensor } from './Sensor';
+import { Vector3 } from '../core/Vector3';
+import { Random } from '../core/Random';
+import { Logger } from '../core/Logger';
+import { SpatialHash } from '../utils/broadphase';
+
+/**
+ * The arrangements a lattice can place its sensors in.
+ */
+export enum LatticeType {
+  CUBIC = 'cubic', // Simple cubic: one site per cell.
+  BCC = 'bcc', // Body-centred cubic: corner and body centre.
+  FCC = 'fcc', // Face-centred cubic: corner and three face centres.
+  HEXAGONAL = 'hexagonal', // Ideal hexagonal close packing: triangular layers stacked ABAB.
+  FIBONACCI = 'fibonacci', // Near-uniform sites on a spherical shell.
+}
+
+/**
+ * How to lay out a lattice.
+ */
+export interface LatticeOptions {
+  type: LatticeType;
+  spacing: number; // Cube edge for cubic, BCC and FCC; nearest-neighbour distance for hexagonal and fibonacci (m).
+  cells?: [number, number, number]; // Cells along x, y and z (default [1, 1, 1]); hexagonal counts sites per row, rows and layers. Not used by fibonacci.
+  radius?: number; // Shell radius, required by fibonacci (m).
+  center?: [number, number, number]; // Centre of the lattice (default: the origin).
+  jitter?: number; // Standard deviation of the Gaussian displacement of each site (m; default 0).
+  neighborDistance?: number; // Sites closer than this are linked (default: just over the nearest-neighbour distance).
+}
+
+/**
+ * Basis sites of each cubic cell, in units of the cube edge.
+ */
+const CUBIC_BASES: Record<string, number[][]> = {
+  [LatticeType.CUBIC]: [[0, 0, 0]],
+  [LatticeType.BCC]: [
+    [0, 0, 0],
+    [0.5, 0.5, 0.5],
+  ],
+  [LatticeType.FCC]: [
+    [0, 0, 0],
+    [0.5, 0.5, 0],
+    [0.5, 0, 0.5],
+    [0, 0.5, 0.5],
+  ],
+};
+
+/**
+ * Nearest-neighbour distance in units of the spacing.
+ */
+const NEAREST_NEIGHBOR: Record<LatticeType, number> = {
+  [LatticeType.CUBIC]: 1,
+  [LatticeType.BCC]: Math.sqrt(3) / 2,
+  [LatticeType.FCC]: Math.SQRT1_2,
+  [LatticeType.HEXAGONAL]: 1,
+  [LatticeType.FIBONACCI]: 1,
+};
+
+/**
+ * Default link distance as a multiple of the nearest-neighbour distance. Crystals link
+ * only their first shell (the second is at least 15% further out); the sites of a
+ * Fibonacci shell are less regular, so its links reach further.
+ */
+const CRYSTAL_NEIGHBOR_TOLERANCE = 1.05;
+const SHELL_NEIGHBOR_TOLERANCE = 1.3;
+
+/**
+ * A regular deployment of sensors: cubic, body- or face-centred cubic, hexagonal close
+ * packed, or spread evenly over a spherical shell along a Fibonacci spiral. Every site
+ * gets a sensor, optionally displaced by Gaussian jitter, and sensors at neighbouring
+ * sites are linked through Sensor.neighbors. Links are decided on the ideal sites, so
+ * jitter moves sensors without changing the network's topology.
+ *
+ * Crystal sites are ordered by cell, x fastest, then by basis site within the cell, so
+ * sensorAt() can address them by cell; shell sites run from the +z pole to the −z pole.
+ */
+export class SensorNetworkLattice {
+  public readonly id: string;
+  public readonly options: LatticeOptions;
+  public sensors: Sensor[];
+
+  /**
+   * Creates a lattice and its sensors, named `${id}_sensor_${n}`.
+   * @param id - Unique identifier for the lattice.
+   * @param options - The layout.
+   * @param random - Stream for the jitter (needed only when the lattice has jitter and
+   * creates its sensors).
+   * @param sensors - Existing sensors to adopt as the sites, in site order, instead of
+   * creating them (used when restoring a snapshot; their links are left as they are).
+   * @throws Error if spacing, radius or neighborDistance is not greater than zero, cells
+   * are not positive integers, jitter is negative, sensors does not have one sensor per
+   * site, or there is jitter to draw but no random stream.
+   */
+  constructor(
+    id: string,
+    options: LatticeOptions,
+    random?: Random,
+    sensors?: Sensor[]
+  ) {
+    const sites = latticeSites(options);
+    if (options.jitter !== undefined && !(options.jitter >= 0)) {
+      throw new Error('Lattice jitter must be non-negative.');
+    }
+    if (
+      options.neighborDistance !== undefined &&
+      !(options.neighborDistance > 0)
+    ) {
+      throw new Error('Lattice neighbor distance must be greater than zero.');
+    }
+    this.id = id;
+    this.options = { ...options };
+
+    if (sensors) {
+      if (sensors.length !== sites.length) {
+        throw new Error(
+          `Lattice ${id} has ${sites.length} sites but was given ${sensors.length} sensors.`
+        );
+      }
+      this.sensors = sensors;
+      return;
+    }
+    const jitter = options.jitter ?? 0;
+    if (jitter > 0 && !random) {
+      throw new Error(`Lattice ${id} needs a random stream for its jitter.`);
+    }
+    this.sensors = sites.map(
+      (site, i) =>
+        new Sensor(
+          `${id}_sensor_${i + 1}`,
+          jitter > 0
+            ? site.add(
+                new Vector3(
+                  (random as Random).nextGaussian(0, jitter),
+                  (random as Random).nextGaussian(0, jitter),
+                  (random as Random).nextGaussian(0, jitter)
+                )
+              )
+            : site
+        )
+    );
+    const links = this.link(sites);
+    Logger.info(
+      `Built ${options.type} lattice ${id} with ${sites.length} sensors and ${links} links.`,
+      'SensorNetworkLattice'
+    );
+  }
+
+  /**
+   * The distance between nearest-neighbour sites, before jitter.
+   */
+  public get nearestNeighborDistance(): number {
+    const { type, spacing } = this.options;
+    if (type === LatticeType.FIBONACCI) return fibonacciSpacing(this.options);
+    return spacing * NEAREST_NEIGHBOR[type];
+  }
+
+  /**
+   * The distance within which sites are linked.
+   */
+  public get neighborDistance(): number {
+    return (
+      this.options.neighborDistance ??
+      this.nearestNeighborDistance *
+        (this.options.type === LatticeType.FIBONACCI
+          ? SHELL_NEIGHBOR_TOLERANCE
+          : CRYSTAL_NEIGHBOR_TOLERANCE)
+    );
+  }
+
+  /**
+   * Returns the sensor at a site of a crystal lattice.
+   * @param i - Cell (hexagonal: site in its row) along x.
+   * @param j - Cell (hexagonal: row) along y.
+   * @param k - Cell (hexagonal: layer) along z.
+   * @param basis - Site within the cell (default 0): one for cubic and hexagonal, two for
+   * BCC, four for FCC.
+   * @returns The sensor, or undefined if there is no such site.
+   */
+  public sensorAt(
+    i: number,
+    j: number,
+    k: number,
+    basis: number = 0
+  ): Sensor | undefined {
+    if (this.options.type === LatticeType.FIBONACCI) return undefined;
+    const [nx, ny, nz] = this.options.cells ?? [1, 1, 1];
+    const perCell = (CUBIC_BASES[this.options.type] ?? [[0, 0, 0]]).length;
+    if (
+      [i, j, k, basis].some(index => !Number.isInteger(index) || index < 0) ||
+      i >= nx ||
+      j >= ny ||
+      k >= nz ||
+      basis >= perCell
+    ) {
+      return undefined;
+    }
+    return this.sensors[((k * ny + j) * nx + i) * perCell + basis];
+  }
+
+  /**
+   * Links every pair of sensors whose sites lie within the neighbour distance.
+   * @returns The number of links made.
+   */
+  private link(sites: Vector3[]): number {
+    const cutoff = this.neighborDistance;
+    const hash = new SpatialHash(cutoff);
+    sites.forEach((site, i) => hash.insert(i, site));
+    let links = 0;
+    sites.forEach((site, i) => {
+      hash
+        .queryNeighbors(site)
+        .filter(j => j > i && site.distanceTo(sites[j]) <= cutoff)
+        .sort((a, b) => a - b)
+        .forEach(j => {
+          this.sensors[i].addNeighbor(this.sensors[j]);
+          this.sensors[j].addNeighbor(this.sensors[i]);
+          links++;
+        });
+    });
+    return links;
+  }
+}
+
+/**
+ * Returns the ideal sites of a lattice, centred on its centre.
+ * @param options - The layout.
+ * @throws Error if the layout is invalid.
+ */
+export function latticeSites(options: LatticeOptions): Vector3[] {
+  const { type, spacing } = options;
+  if (!Object.values(LatticeType).includes(type)) {
+    throw new Error(`Unknown lattice type: ${String(type)}.`);
+  }
+  if (!(spacing > 0)) {
+    throw new Error('Lattice spacing must be greater than zero.');
+  }
+  const center = new Vector3(...(options.center ?? [0, 0, 0]));
+
+  if (type === LatticeType.FIBONACCI) {
+    const radius = options.radius ?? NaN;
+    if (!(radius > 0)) {
+      throw new Error('A fibonacci lattice needs a radius greater than zero.');
+    }
+    const count = fibonacciCount(options);
+    const goldenAngle = Math.PI * (3 - Math.sqrt(5));
+    return Array.from({ length: count }, (_, i) => {
+      const z = 1 - (2 * i + 1) / count;
+      const ring = Math.sqrt(1 - z * z);
+      const phi = i * goldenAngle;
+      return center.add(
+        new Vector3(
+          ring * Math.cos(phi),
+          ring * Math.sin(phi),
+          z
+        ).multiplyScalar(radius)
+      );
+    });
+  }
+
+  const cells = options.cells ?? [1, 1, 1];
+  if (cells.length !== 3 || cells.some(n => !Number.isInteger(n) || n < 1)) {
+    throw new Error('Lattice cells must be three positive integers.');
+  }
+  const [nx, ny, nz] = cells;
+  const sites: Vector3[] = [];
+  for (let k = 0; k < nz; k++) {
+    for (let j = 0; j < ny; j++) {
+      for (let i = 0; i < nx; i++) {
+        if (type === LatticeType.HEXAGONAL) {
+          // Rows of a triangular layer are offset by half a site; B layers sit over
+          // the centres of the A layer's triangles, a·√(2/3) higher.
+          const b = k % 2;
+          sites.push(
+            new Vector3(
+              i + (j % 2) / 2 + b / 2,
+              (j + b / 3) * (Math.sqrt(3) / 2),
+              k * Math.sqrt(2 / 3)
+            ).multiplyScalar(spacing)
+          );
+        } else {
+          CUBIC_BASES[type].forEach(([bx, by, bz]) =>
+            sites.push(
+              new Vector3(i + bx, j + by, k + bz).multiplyScalar(spacing)
+            )
+          );
+        }
+      }
+    }
+  }
+  const centroid = sites
+    .reduce((sum, site) => sum.add(site), Vector3.zero())
+    .divideScalar(sites.length);
+  return sites.map(site => site.subtract(centroid).add(center));
+}
+
+/**
+ * The number of shell sites that gives neighbours about `spacing` apart: each site of a
+ * triangular packing covers (√3/2)·spacing² of the shell's area.
+ */
+function fibonacciCount(options: LatticeOptions): number {
+  const radius = options.radius as number;
+  const area = 4 * Math.PI * radius * radius;
+  return Math.max(
+    1,
+    Math.round(area / ((Math.sqrt(3) / 2) * options.spacing ** 2))
+  );
+}
+
+/**
+ * The mean neighbour distance of the shell's sites once their count is rounded.
+ */
+function fibonacciSpacing(options: LatticeOptions): number {
+  const radius = options.radius as number;
+  const area = 4 * Math.PI * radius * radius;
+  return Math.sqrt(area / ((Math.sqrt(3) / 2) * fibonacciCount(options)));
+}
@@ -0,0 +1,468 @@
+import { Sensor } from './Sensor';
+import { Random } from '../core/Random';
+import { Constants } from '../core/Constants';
+
+/**
+ * The imperfections a channel's noise model can be built from.
+ */
+export enum NoiseType {
+  WHITE = 'white', // Independent Gaussian noise on every reading.
+  PINK = 'pink', // 1/f (flicker) noise.
+  RANDOM_WALK = 'randomWalk', // Bias that drifts as a random walk.
+  TEMPERATURE_BIAS = 'temperatureBias', // Bias proportional to the sensor's temperature.
+  QUANTIZATION = 'quantization', // ADC rounding and clipping to the full-scale range.
+  SATURATION = 'saturation', // Readings clamped to the range the sensor can report.
+  LINEAR_RESPONSE = 'linearResponse', // Per-axis gain, cross-axis misalignment and offset.
+}
+
+/**
+ * What a noise stage may use besides the reading itself.
+ */
+export interface NoiseContext {
+  sensor: Sensor; // The measuring sensor.
+  interval: number; // Seconds since the channel's previous reading.
+  random: Random; // The channel's noise stream.
+}
+
+/**
+ * Parameters of WhiteNoise.
+ */
+export interface WhiteNoiseSpec {
+  type: NoiseType.WHITE;
+  standardDeviation: number;
+}
+
+/**
+ * Parameters and state of PinkNoise.
+ */
+export interface PinkNoiseSpec {
+  type: NoiseType.PINK;
+  amplitude: number; // Standard deviation of the summed rows.
+  octaves?: number; // Number of rows; the 1/f band spans 2^octaves readings.
+  rows?: number[][]; // State: the current value of each row, per component.
+  counter?: number; // State: readings taken so far.
+}
+
+/**
+ * Parameters and state of RandomWalkDrift.
+ */
+export interface RandomWalkSpec {
+  type: NoiseType.RANDOM_WALK;
+  rate: number; // Standard deviation of the drift after one second (units/√s).
+  bias?: number[]; // State: the current bias, per component.
+}
+
+/**
+ * Parameters of TemperatureBias.
+ */
+export interface TemperatureBiasSpec {
+  type: NoiseType.TEMPERATURE_BIAS;
+  coefficient: number; // Bias per kelvin (units/K).
+  referenceTemperature?: number; // Temperature at which the bias vanishes (K).
+}
+
+/**
+ * Parameters of a Quantizer.
+ */
+export interface QuantizationSpec {
+  type: NoiseType.QUANTIZATION;
+  bits: number;
+  fullScale: number; // Readings are clipped to [−fullScale, fullScale].
+}
+
+/**
+ * Parameters of Saturation.
+ */
+export interface SaturationSpec {
+  type: NoiseType.SATURATION;
+  min: number;
+  max: number;
+}
+
+/**
+ * Parameters of a LinearResponse.
+ */
+export interface LinearResponseSpec {
+  type: NoiseType.LINEAR_RESPONSE;
+  matrix: number[][]; // Gains on the diagonal, misalignment off it.
+  offset?: number[]; // Added after the matrix, per component.
+}
+
+/**
+ * A JSON-serializable description of a noise stage, including any state it carries
+ * between readings.
+ */
+export type NoiseSpec =
+  | WhiteNoiseSpec
+  | PinkNoiseSpec
+  | RandomWalkSpec
+  | TemperatureBiasSpec
+  | QuantizationSpec
+  | SaturationSpec
+  | LinearResponseSpec;
+
+/**
+ * The numeric parameters each noise stage requires. A linear response's matrix is
+ * checked separately.
+ */
+export const NOISE_PARAMETERS: Record<NoiseType, string[]> = {
+  [NoiseType.WHITE]: ['standardDeviation'],
+  [NoiseType.PINK]: ['amplitude'],
+  [NoiseType.RANDOM_WALK]: ['rate'],
+  [NoiseType.TEMPERATURE_BIAS]: ['coefficient'],
+  [NoiseType.QUANTIZATION]: ['bits', 'fullScale'],
+  [NoiseType.SATURATION]: ['min', 'max'],
+  [NoiseType.LINEAR_RESPONSE]: [],
+};
+
+/**
+ * One stage of a channel's noise model. A channel passes each true reading through its
+ * stages in order, so stages compose: e.g. a temperature bias, drift and white noise
+ * followed by saturation and quantization in the ADC.
+ */
+export interface NoiseStage {
+  readonly type: NoiseType;
+
+  /**
+   * Returns the reading with this stage's imperfection applied.
+   * @param value - The reading: [x, y, z] or [value].
+   * @param context - The sensor, the time since the previous reading and the channel's
+   * noise stream.
+   */
+  apply(value: number[], context: NoiseContext): number[];
+
+  /**
+   * Describes the stage, including its current state, for snapshots.
+   */
+  toSpec(): NoiseSpec;
+}
+
+/**
+ * Independent, zero-mean Gaussian noise on every component of every reading.
+ */
+export class WhiteNoise implements NoiseStage {
+  public readonly type = NoiseType.WHITE;
+  public readonly standardDeviation: number;
+
+  /**
+   * @param standardDeviation - Standard deviation of each component's noise.
+   * @throws Error if standardDeviation is negative.
+   */
+  constructor(standardDeviation: number) {
+    if (!(standardDeviation >= 0)) {
+      throw new Error('Noise standard deviation must be non-negative.');
+    }
+    this.standardDeviation = standardDeviation;
+  }
+
+  public apply(value: number[], context: NoiseContext): number[] {
+    return value.map(
+      component =>
+        component + context.random.nextGaussian(0, this.standardDeviation)
+    );
+  }
+
+  public toSpec(): WhiteNoiseSpec {
+    return { type: this.type, standardDeviation: this.standardDeviation };
+  }
+}
+
+/**
+ * 1/f (pink) noise from the Voss–McCartney algorithm: the sum of `octaves` Gaussian rows,
+ * where row k is redrawn every 2^k readings. Its power spectrum falls as 1/f over the
+ * band from the sampling rate down to 2^−octaves of it, where the Allan deviation is flat.
+ */
+export class PinkNoise implements NoiseStage {
+  public readonly type = NoiseType.PINK;
+  public readonly amplitude: number;
+  public readonly octaves: number;
+  private rows: number[][];
+  private counter: number;
+
+  /**
+   * @param amplitude - Standard deviation of the noise.
+   * @param octaves - Number of rows (default 16).
+   * @param rows - Initial row values per component (default: drawn on first use).
+   * @param counter - Readings taken so far (default 0).
+   * @throws Error if amplitude is negative or octaves is not a positive integer.
+   */
+  constructor(
+    amplitude: number,
+    octaves: number = 16,
+    rows: number[][] = [],
+    counter: number = 0
+  ) {
+    if (!(amplitude >= 0)) {
+      throw new Error('Noise amplitude must be non-negative.');
+    }
+    if (!Number.isInteger(octaves) || octaves <= 0) {
+      throw new Error('Pink noise octaves must be a positive integer.');
+    }
+    this.amplitude = amplitude;
+    this.octaves = octaves;
+    this.rows = rows.map(row => [...row]);
+    this.counter = counter;
+  }
+
+  public apply(value: number[], context: NoiseContext): number[] {
+    const scale = this.amplitude / Math.sqrt(this.octaves);
+    if (this.rows.length === 0) {
+      this.rows = Array.from({ length: this.octaves }, () =>
+        value.map(() => context.random.nextGaussian(0, scale))
+      );
+    } else {
+      // Row k changes whenever the counter's lowest set bit is bit k.
+      const next = this.counter + 1;
+      const row = Math.min(Math.log2(next & -next), this.octaves - 1);
+      this.rows[row] = value.map(() => context.random.nextGaussian(0, scale));
+    }
+    this.counter++;
+    return value.map(
+      (component, i) =>
+        component + this.rows.reduce((sum, row) => sum + row[i], 0)
+    );
+  }
+
+  public toSpec(): PinkNoiseSpec {
+    return {
+      type: this.type,
+      amplitude: this.amplitude,
+      octaves: this.octaves,
+      rows: this.rows.map(row => [...row]),
+      counter: this.counter,
+    };
+  }
+}
+
+/**
+ * A bias that drifts as a random walk: between readings it changes by a Gaussian step
+ * with standard deviation rate·√interval.
+ */
+export class RandomWalkDrift implements NoiseStage {
+  public readonly type = NoiseType.RANDOM_WALK;
+  public readonly rate: number;
+  private bias: number[];
+
+  /**
+   * @param rate - Standard deviation of the drift after one second (units/√s).
+   * @param bias - Initial bias per component (default: zero).
+   * @throws Error if rate is negative.
+   */
+  constructor(rate: number, bias: number[] = []) {
+    if (!(rate >= 0)) {
+      throw new Error('Drift rate must be non-negative.');
+    }
+    this.rate = rate;
+    this.bias = [...bias];
+  }
+
+  public apply(value: number[], context: NoiseContext): number[] {
+    const step = this.rate * Math.sqrt(context.interval);
+    this.bias = value.map(
+      (_, i) => (this.bias[i] ?? 0) + context.random.nextGaussian(0, step)
+    );
+    return value.map((component, i) => component + this.bias[i]);
+  }
+
+  public toSpec(): RandomWalkSpec {
+    return { type: this.type, rate: this.rate, bias: [...this.bias] };
+  }
+}
+
+/**
+ * A bias on every component proportional to the sensor's temperature above a reference:
+ * coefficient·(Sensor.temperature − referenceTemperature).
+ */
+export class TemperatureBias implements NoiseStage {
+  public readonly type = NoiseType.TEMPERATURE_BIAS;
+  public readonly coefficient: number;
+  public readonly referenceTemperature: number;
+
+  /**
+   * @param coefficient - Bias per kelvin.
+   * @param referenceTemperature - Temperature of zero bias (default from Constants).
+   */
+  constructor(
+    coefficient: number,
+    referenceTemperature: number = Constants.REFERENCE_TEMPERATURE
+  ) {
+    this.coefficient = coefficient;
+    this.referenceTemperature = referenceTemperature;
+  }
+
+  public apply(value: number[], context: NoiseContext): number[] {
+    const bias =
+      this.coefficient *
+      (context.sensor.temperature - this.referenceTemperature);
+    return value.map(component => component + bias);
+  }
+
+  public toSpec(): TemperatureBiasSpec {
+    return {
+      type: this.type,
+      coefficient: this.coefficient,
+      referenceTemperature: this.referenceTemperature,
+    };
+  }
+}
+
+/**
+ * An analog-to-digital converter: readings are clipped to [−fullScale, fullScale] and
+ * rounded to the nearest of the levels 2·fullScale / 2^bits apart.
+ */
+export class Quantizer implements NoiseStage {
+  public readonly type = NoiseType.QUANTIZATION;
+  public readonly bits: number;
+  public readonly fullScale: number;
+
+  /**
+   * @param bits - Bit depth of the converter.
+   * @param fullScale - Largest magnitude the converter can represent.
+   * @throws Error if bits is not a positive integer or fullScale is not greater than zero.
+   */
+  constructor(bits: number, fullScale: number) {
+    if (!Number.isInteger(bits) || bits <= 0 || !(fullScale > 0)) {
+      throw new Error(
+        'Quantizer bits must be a positive integer and full scale greater than zero.'
+      );
+    }
+    this.bits = bits;
+    this.fullScale = fullScale;
+  }
+
+  /**
+   * The spacing of the output levels (one least significant bit).
+   */
+  public get step(): number {
+    return (2 * this.fullScale) / Math.pow(2, this.bits);
+  }
+
+  public apply(value: number[]): number[] {
+    return value.map(component => {
+      const clipped = Math.min(
+        Math.max(component, -this.fullScale),
+        this.fullScale
+      );
+      return Math.round(clipped / this.step) * this.step;
+    });
+  }
+
+  public toSpec(): QuantizationSpec {
+    return { type: this.type, bits: this.bits, fullScale: this.fullScale };
+  }
+}
+
+/**
+ * Clamps every component to the range the sensor can report.
+ */
+export class Saturation implements NoiseStage {
+  public readonly type = NoiseType.SATURATION;
+  public readonly min: number;
+  public readonly max: number;
+
+  /**
+   * @param min - Lowest reportable value.
+   * @param max - Highest reportable value.
+   * @throws Error if min is not below max.
+   */
+  constructor(min: number, max: number) {
+    if (!(min < max)) {
+      throw new Error('Saturation limits must satisfy min < max.');
+    }
+    this.min = min;
+    this.max = max;
+  }
+
+  public apply(value: number[]): number[] {
+    return value.map(component =>
+      Math.min(Math.max(component, this.min), this.max)
+    );
+  }
+
+  public toSpec(): SaturationSpec {
+    return { type: this.type, min: this.min, max: this.max };
+  }
+}
+
+/**
+ * The sensor's transfer function: a reading v is reported as M·v + offset. The diagonal
+ * of M holds the gain of each axis; off-diagonal terms are the cross-axis coupling of
+ * axes that are not quite orthogonal or not aligned with the frame. This is what
+ * calibration estimates and undoes.
+ */
+export class LinearResponse implements NoiseStage {
+  public readonly type = NoiseType.LINEAR_RESPONSE;
+  public readonly matrix: number[][];
+  public readonly offset: number[];
+
+  /**
+   * @param matrix - The n×n response matrix for readings of n components.
+   * @param offset - Offset per component (default: zero).
+   * @throws Error if matrix is not square or offset does not match its size.
+   */
+  constructor(matrix: number[][], offset: number[] = []) {
+    const size = matrix.length;
+    if (size === 0 || matrix.some(row => row.length !== size)) {
+      throw new Error('A linear response needs a square matrix.');
+    }
+    if (offset.length > 0 && offset.length !== size) {
+      throw new Error('A linear response offset must match its matrix size.');
+    }
+    this.matrix = matrix.map(row => [...row]);
+    this.offset = offset.length > 0 ? [...offset] : new Array(size).fill(0);
+  }
+
+  /**
+   * @throws Error if the reading does not have as many components as the matrix.
+   */
+  public apply(value: number[]): number[] {
+    if (value.length !== this.matrix.length) {
+      throw new Error(
+        `A ${this.matrix.length}-component linear response cannot apply to a ${value.length}-component reading.`
+      );
+    }
+    return this.matrix.map(
+      (row, i) =>
+        row.reduce((sum, entry, j) => sum + entry * value[j], 0) +
+        this.offset[i]
+    );
+  }
+
+  public toSpec(): LinearResponseSpec {
+    return {
+      type: this.type,
+      matrix: this.matrix.map(row => [...row]),
+      offset: [...this.offset],
+    };
+  }
+}
+
+/**
+ * Builds a noise stage from its description, restoring any state it carries.
+ * @param spec - The stage's type, parameters and optional state.
+ * @returns The stage.
+ * @throws Error if the parameters are invalid.
+ */
+export function createNoiseStage(spec: NoiseSpec): NoiseStage {
+  switch (spec.type) {
+    case NoiseType.WHITE:
+      return new WhiteNoise(spec.standardDeviation);
+    case NoiseType.PINK:
+      return new PinkNoise(
+        spec.amplitude,
+        spec.octaves,
+        spec.rows,
+        spec.counter
+      );
+    case NoiseType.RANDOM_WALK:
+      return new RandomWalkDrift(spec.rate, spec.bias);
+    case NoiseType.TEMPERATURE_BIAS:
+      return new TemperatureBias(spec.coefficient, spec.referenceTemperature);
+    case NoiseType.QUANTIZATION:
+      return new Quantizer(spec.bits, spec.fullScale);
+    case NoiseType.SATURATION:
+      return new Saturation(spec.min, spec.max);
+    case NoiseType.LINEAR_RESPONSE:
+      return new LinearResponse(spec.matrix, spec.offset);
+  }
+}
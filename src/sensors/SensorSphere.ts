@@ -3,6 +3,12 @@ import { Vector3 } from '../core/Vector3';
 import { SensorState } from './SensorState';
 import { Logger } from '../core/Logger';
 import { Constants } from '../core/Constants';
+import {
+  Integrator,
+  DEFAULT_INTEGRATOR,
+  constantAcceleration,
+} from '../core/Integrator';
+import { Random } from '../core/Random';
 
 /**
  * Represents a sphere composed of sensors, which can act as a single entity or a container.
@@ -19,6 +25,8 @@ export class SensorSphere {
   public acceleration: Vector3;
   public state: SensorState;
   public color: string; // New: overall sphere color based on average sensor charge.
+  public readonly random: Random; // Stream used to place and charge the sphere's sensors.
+  public parent: SensorSphere | null = null; // Container this sphere is confined to (null: unconfined).
 
   /**
    * Creates a new SensorSphere instance.
@@ -27,13 +35,16 @@ export class SensorSphere {
    * @param radius - Radius of the sphere.
    * @param sensorCount - Number of sensors to initialize within the sphere.
    * @param state - Initial state of the sphere.
+   * @param random - Random stream for sensor placement (default: a stream with the default
+   * seed split by id, so the layout depends on nothing but the id).
    */
   constructor(
     id: string,
     center: Vector3 = new Vector3(),
     radius: number = 1.0,
     sensorCount: number = 100,
-    state: SensorState = SensorState.ACTIVE
+    state: SensorState = SensorState.ACTIVE,
+    random: Random = new Random().split(id)
   ) {
     this.id = id;
     this.center = center;
@@ -43,6 +54,7 @@ export class SensorSphere {
     this.velocity = Vector3.zero();
     this.acceleration = Vector3.zero();
     this.state = state;
+    this.random = random;
 
     this.initializeSensors(sensorCount);
     this.computeMass();
@@ -60,9 +72,9 @@ export class SensorSphere {
   private initializeSensors(sensorCount: number): void {
     for (let i = 0; i < sensorCount; i++) {
       // Generate spherical coordinates.
-      const theta = Math.acos(2 * Math.random() - 1); // angle from z-axis [0, π]
-      const phi = Constants.TWO_PI * Math.random(); // angle in x-y plane [0, 2π]
-      const r = this.radius * Math.cbrt(Math.random()); // uniform distribution in volume
+      const theta = Math.acos(2 * this.random.next() - 1); // angle from z-axis [0, π]
+      const phi = Constants.TWO_PI * this.random.next(); // angle in x-y plane [0, 2π]
+      const r = this.radius * Math.cbrt(this.random.next()); // uniform distribution in volume
 
       // Convert spherical coordinates to Cartesian.
       const x = r * Math.sin(theta) * Math.cos(phi);
@@ -74,7 +86,7 @@ export class SensorSphere {
 
       // Randomly pick a charge: ~1/3 chance for 0, +5, and -5.
       let charge: number;
-      const rnd = Math.random();
+      const rnd = this.random.next();
       if (rnd < 1 / 3) {
         charge = 0; // neutral
       } else if (rnd < 2 / 3) {
@@ -145,26 +157,32 @@ export class SensorSphere {
    * Updates the sphere's kinematics (velocity, center) and each sensor's state.
    * Then, recomputes the sphere's color based on the updated average sensor charge.
    * @param deltaTime - Time step in seconds; must be > 0.
+   * @param integrator - The integration scheme used for the sphere and its sensors.
    * @throws Error if deltaTime <= 0.
    */
-  public update(deltaTime: number): void {
+  public update(
+    deltaTime: number,
+    integrator: Integrator = DEFAULT_INTEGRATOR
+  ): void {
     if (deltaTime <= 0) {
       throw new Error('Delta time must be greater than zero.');
     }
 
     // Update sphere's velocity and center.
-    this.velocity = this.velocity.add(
-      this.acceleration.multiplyScalar(deltaTime)
+    const [next] = integrator.step(
+      [{ position: this.center, velocity: this.velocity }],
+      deltaTime,
+      constantAcceleration([this.acceleration])
     );
-    this.center = this.center.add(this.velocity.multiplyScalar(deltaTime));
+    const displacement = next.position.subtract(this.center);
+    this.center = next.position;
+    this.velocity = next.velocity;
     this.acceleration = Vector3.zero();
 
-    // Update each sensor.
+    // Carry each sensor along with the sphere, then update it.
     for (const sensor of this.sensors) {
-      sensor.position = sensor.position.add(
-        this.velocity.multiplyScalar(deltaTime)
-      );
-      sensor.update(deltaTime);
+      sensor.position = sensor.position.add(displacement);
+      sensor.update(deltaTime, integrator);
     }
 
     // Recompute mass in case sensors changed.
@@ -175,6 +193,51 @@ export class SensorSphere {
     this.color = this.computeColor(avgCharge);
   }
 
+  /**
+   * Confines the sphere to a parent container, or frees it.
+   * @param parent - The container, or null.
+   * @throws Error if the parent is this sphere or one of the spheres it contains.
+   */
+  public setParent(parent: SensorSphere | null): void {
+    if (parent === this || (parent !== null && parent.isInside(this))) {
+      throw new Error('A sensor sphere cannot contain itself.');
+    }
+    this.parent = parent;
+  }
+
+  /**
+   * Returns true if the sphere is confined, directly or through its parents, to another.
+   * @param container - The possible container.
+   */
+  public isInside(container: SensorSphere): boolean {
+    for (let sphere = this.parent; sphere !== null; sphere = sphere.parent) {
+      if (sphere === container) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Returns the number of containers above the sphere (0 for an unconfined sphere).
+   */
+  public getDepth(): number {
+    let depth = 0;
+    for (let sphere = this.parent; sphere !== null; sphere = sphere.parent) {
+      depth++;
+    }
+    return depth;
+  }
+
+  /**
+   * Moves the sphere and every sensor it contains by the same offset.
+   * @param offset - The displacement to apply.
+   */
+  public translate(offset: Vector3): void {
+    this.center = this.center.add(offset);
+    for (const sensor of this.sensors) {
+      sensor.position = sensor.position.add(offset);
+    }
+  }
+
   /**
    * Calculates forces due to other sensor spheres and updates acceleration.
    * @param spheres - Array of other sensor spheres.
@@ -232,9 +295,11 @@ export class SensorSphere {
   }
 
   /**
-   * Sets the state of the sphere and optionally propagates it to its sensors.
+   * Sets the state of the sphere and optionally propagates it to its sensors. Each sensor
+   * follows its own transition rules, so it may pass through TRANSITION first.
    * @param state - The new state.
    * @param propagateToSensors - If true, updates the state for all sensors. Defaults to true.
+   * @throws Error if a sensor may not change to the state.
    */
   public setState(
     state: SensorState,
@@ -326,12 +391,17 @@ export class SensorSphere {
    * Generates a random point inside a sphere defined by its center and radius.
    * @param center - The center of the sphere.
    * @param radius - The radius of the sphere.
+   * @param random - The random stream to draw from.
    * @returns A Vector3 representing a random point within the sphere.
    */
-  static randomPointInSphere(center: Vector3, radius: number): Vector3 {
-    const theta = Math.acos(2 * Math.random() - 1);
-    const phi = Constants.TWO_PI * Math.random();
-    const r = radius * Math.cbrt(Math.random());
+  static randomPointInSphere(
+    center: Vector3,
+    radius: number,
+    random: Random
+  ): Vector3 {
+    const theta = Math.acos(2 * random.next() - 1);
+    const phi = Constants.TWO_PI * random.next();
+    const r = radius * Math.cbrt(random.next());
     const x = r * Math.sin(theta) * Math.cos(phi);
     const y = r * Math.sin(theta) * Math.sin(phi);
     const z = r * Math.cos(theta);
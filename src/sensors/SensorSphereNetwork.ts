@@ -5,6 +5,32 @@ import { Constants } from '../core/Constants';
 import { Logger } from '../core/Logger';
 import { SensorState } from './SensorState';
 
+/**
+ * Two spheres merged by accretion: the survivor took over the absorbed sphere's sensors,
+ * mass and momentum, and the absorbed sphere left the network.
+ */
+export interface SphereMerger {
+  survivor: SensorSphere;
+  absorbed: SensorSphere;
+}
+
+/**
+ * Returns the speed two touching spheres need to escape each other's gravity,
+ * v = √(2·G·(m₁ + m₂) / (r₁ + r₂)).
+ * @param sphereA - The first sphere.
+ * @param sphereB - The second sphere.
+ * @returns The mutual escape velocity in m/s.
+ */
+export function escapeVelocity(
+  sphereA: SensorSphere,
+  sphereB: SensorSphere
+): number {
+  return Math.sqrt(
+    (2 * Constants.GRAVITATIONAL_CONSTANT * (sphereA.mass + sphereB.mass)) /
+      (sphereA.radius + sphereB.radius)
+  );
+}
+
 /**
  * Represents a network of sensor spheres.
  *
@@ -15,6 +41,8 @@ import { SensorState } from './SensorState';
  */
 export class SensorSphereNetwork {
   public spheres: SensorSphere[];
+  public restitution: number = Constants.DEFAULT_RESTITUTION; // Coefficient of restitution for sphere–sphere collisions.
+  public accretion: boolean = false; // Merge spheres that collide below their mutual escape velocity.
 
   /**
    * Constructs a new SensorSphereNetwork.
@@ -126,6 +154,137 @@ export class SensorSphereNetwork {
     }
   }
 
+  /**
+   * Resolves contacts between spheres, treating each as a rigid ball of its radius and
+   * mass. Overlapping spheres that approach each other receive equal and opposite
+   * impulses along the line of centers,
+   *   J = (1 + e)·uₙ / (1/m₁ + 1/m₂),
+   * with uₙ their approach speed and e the network's restitution, and every overlap is
+   * then removed by moving both spheres apart in inverse proportion to their masses.
+   * Sensors move with their spheres.
+   *
+   * With accretion enabled, touching spheres whose relative speed is below their mutual
+   * escape velocity merge instead: the heavier sphere absorbs the lighter one's sensors,
+   * takes the combined mass, momentum and volume, and centers itself on the pair's center
+   * of mass. The sensors of both spheres keep their positions: the new center marks where
+   * the combined mass already is, so nothing physical moves. Spheres confined to the
+   * absorbed sphere are handed to the survivor. Each merge is recorded in the run log as
+   * a 'merge' event.
+   *
+   * @param containers - Spheres that hold other spheres rather than collide with them
+   * (such as the engine's container); they are skipped, as are pairs where one sphere
+   * is confined inside the other (see SensorSphere.setParent).
+   * @returns The mergers performed, in order.
+   */
+  public resolveCollisions(containers: SensorSphere[] = []): SphereMerger[] {
+    const mergers: SphereMerger[] = [];
+    for (let i = 0; i < this.spheres.length; i++) {
+      for (let j = i + 1; j < this.spheres.length; j++) {
+        const sphereA = this.spheres[i];
+        const sphereB = this.spheres[j];
+        if (
+          containers.includes(sphereA) ||
+          containers.includes(sphereB) ||
+          sphereA.isInside(sphereB) ||
+          sphereB.isInside(sphereA)
+        ) {
+          continue;
+        }
+        if (sphereA.mass <= 0 || sphereB.mass <= 0) continue;
+
+        const offset = sphereB.center.subtract(sphereA.center);
+        const distance = offset.magnitude();
+        const overlap = sphereA.radius + sphereB.radius - distance;
+        if (overlap < 0 || distance === 0) continue;
+
+        const relative = sphereA.velocity.subtract(sphereB.velocity);
+        if (
+          this.accretion &&
+          relative.magnitude() < escapeVelocity(sphereA, sphereB)
+        ) {
+          mergers.push(
+            sphereA.mass >= sphereB.mass
+              ? this.merge(sphereA, sphereB)
+              : this.merge(sphereB, sphereA)
+          );
+          // The survivor has grown and the list has shrunk; scan again.
+          i = -1;
+          break;
+        }
+
+        const normal = offset.divideScalar(distance);
+        const totalMass = sphereA.mass + sphereB.mass;
+        const approachSpeed = relative.dot(normal);
+        if (approachSpeed > 0) {
+          const impulse =
+            ((1 + this.restitution) * approachSpeed) /
+            (1 / sphereA.mass + 1 / sphereB.mass);
+          sphereA.applyImpulse(normal.multiplyScalar(-impulse));
+          sphereB.applyImpulse(normal.multiplyScalar(impulse));
+        }
+        sphereA.translate(
+          normal.multiplyScalar((-overlap * sphereB.mass) / totalMass)
+        );
+        sphereB.translate(
+          normal.multiplyScalar((overlap * sphereA.mass) / totalMass)
+        );
+        Logger.debug(
+          `Collision handled between sphere ${sphereA.id} and sphere ${sphereB.id}.`,
+          'SensorSphereNetwork.resolveCollisions'
+        );
+      }
+    }
+    return mergers;
+  }
+
+  /**
+   * Merges one sphere into another and removes it from the network.
+   * @param survivor - The sphere that remains.
+   * @param absorbed - The sphere merged into it.
+   * @returns The merger.
+   */
+  private merge(survivor: SensorSphere, absorbed: SensorSphere): SphereMerger {
+    const totalMass = survivor.mass + absorbed.mass;
+    const momentum = survivor.velocity
+      .multiplyScalar(survivor.mass)
+      .add(absorbed.velocity.multiplyScalar(absorbed.mass));
+    const preEnergy =
+      0.5 * survivor.mass * survivor.velocity.magnitude() ** 2 +
+      0.5 * absorbed.mass * absorbed.velocity.magnitude() ** 2;
+
+    // Not translate(): the sensors stay where they are and only the center moves to the
+    // pair's center of mass.
+    survivor.center = survivor.center
+      .multiplyScalar(survivor.mass)
+      .add(absorbed.center.multiplyScalar(absorbed.mass))
+      .divideScalar(totalMass);
+    survivor.velocity = momentum.divideScalar(totalMass);
+    survivor.radius = Math.cbrt(survivor.radius ** 3 + absorbed.radius ** 3);
+    survivor.sensors.push(...absorbed.sensors);
+    survivor.mass = totalMass;
+    this.spheres = this.spheres.filter(sphere => sphere !== absorbed);
+    // Spheres confined to the absorbed sphere are now confined to the survivor.
+    this.spheres.forEach(sphere => {
+      if (sphere.parent === absorbed) sphere.setParent(survivor);
+    });
+
+    Logger.info(
+      `Sensor sphere ${absorbed.id} merged into ${survivor.id}.`,
+      'SensorSphereNetwork.resolveCollisions'
+    );
+    Logger.recordEvent({
+      timestamp: Date.now(),
+      event: 'merge',
+      sensors: absorbed.sensors,
+      spheres: [survivor.id, absorbed.id],
+      preMomentum: momentum.magnitude(),
+      postMomentum: survivor.velocity.multiplyScalar(totalMass).magnitude(),
+      preEnergy,
+      postEnergy: 0.5 * totalMass * survivor.velocity.magnitude() ** 2,
+    });
+    return { survivor, absorbed };
+  }
+
   /**
    * Computes and returns the total aggregated mass of the network by summing up the masses of all sensor spheres.
    * @returns The total mass of the network.
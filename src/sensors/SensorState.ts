@@ -1,10 +1,9 @@
+import { Sensor } from './Sensor';
+import { Constants } from '../core/Constants';
+
 /**
  * Enum representing the various states that a sensor can assume within the simulation.
- *
- * This simple enum approach guarantees type safety across the codebase,
- * ensuring that only valid states are used. As the simulation evolves, additional
- * states may be introduced or more complex state management (such as state machines)
- * can be adopted.
+ * Which changes are allowed, and how long they take, is given by SENSOR_TRANSITIONS.
  */
 export enum SensorState {
   /**
@@ -33,8 +32,80 @@ export enum SensorState {
   MAINTENANCE = 'maintenance',
 
   /**
-   * Sensor is in a transient state (e.g., transitioning between states).
-   * This value can help identify sensors that are in the process of switching behaviors.
+   * Sensor is in a transient state, on its way to Sensor.targetState.
+   * Changes that take time (e.g., into or out of maintenance) pass through it.
    */
   TRANSITION = 'transition',
 }
+
+/**
+ * How a sensor may change from one state to another.
+ */
+export interface StateTransition {
+  duration: number; // Seconds spent in TRANSITION on the way; 0 for an immediate change.
+  guard?: (sensor: Sensor) => string | null; // Returns why the change is refused, or null.
+}
+
+/**
+ * A sensor that has malfunctioned must be calibrated in maintenance before it may report
+ * again.
+ */
+const requireCalibration = (sensor: Sensor): string | null =>
+  sensor.calibrationDue ? 'it must be calibrated first' : null;
+
+const immediate: StateTransition = { duration: 0 };
+const maintenance: StateTransition = {
+  duration: Constants.MAINTENANCE_TRANSITION_DURATION,
+};
+const recommission: StateTransition = {
+  duration: Constants.MAINTENANCE_TRANSITION_DURATION,
+  guard: requireCalibration,
+};
+const reactivation: StateTransition = {
+  duration: 0,
+  guard: requireCalibration,
+};
+
+/**
+ * The allowed state changes, by current and requested state. Any change not listed is
+ * refused. Every sensor can be switched off or fail; entering and leaving maintenance
+ * takes time, spent in TRANSITION; and a sensor that malfunctioned only returns to
+ * service through maintenance, where it is calibrated. A sensor in TRANSITION can only be
+ * interrupted by a failure or by switching it off.
+ */
+export const SENSOR_TRANSITIONS: Record<
+  SensorState,
+  Partial<Record<SensorState, StateTransition>>
+> = {
+  [SensorState.ACTIVE]: {
+    [SensorState.IDLE]: immediate,
+    [SensorState.INACTIVE]: immediate,
+    [SensorState.MALFUNCTION]: immediate,
+    [SensorState.MAINTENANCE]: maintenance,
+  },
+  [SensorState.IDLE]: {
+    [SensorState.ACTIVE]: immediate,
+    [SensorState.INACTIVE]: immediate,
+    [SensorState.MALFUNCTION]: immediate,
+    [SensorState.MAINTENANCE]: maintenance,
+  },
+  [SensorState.INACTIVE]: {
+    [SensorState.ACTIVE]: reactivation,
+    [SensorState.IDLE]: reactivation,
+    [SensorState.MAINTENANCE]: maintenance,
+  },
+  [SensorState.MALFUNCTION]: {
+    [SensorState.INACTIVE]: immediate,
+    [SensorState.MAINTENANCE]: maintenance,
+  },
+  [SensorState.MAINTENANCE]: {
+    [SensorState.ACTIVE]: recommission,
+    [SensorState.IDLE]: recommission,
+    [SensorState.INACTIVE]: immediate,
+    [SensorState.MALFUNCTION]: immediate,
+  },
+  [SensorState.TRANSITION]: {
+    [SensorState.INACTIVE]: immediate,
+    [SensorState.MALFUNCTION]: immediate,
+  },
+};
@@ -0,0 +1,105 @@
+/**
+ * A point on an Allan deviation curve.
+ */
+export interface AllanPoint {
+  tau: number; // Averaging time in seconds.
+  deviation: number;
+}
+
+/**
+ * Computes the overlapping Allan deviation of evenly spaced readings for one averaging
+ * time τ = m·τ₀. With θ the running integral of the readings,
+ *   σ²(τ) = Σ (θ[k+2m] − 2θ[k+m] + θ[k])² / (2τ²(N − 2m + 1)),
+ * i.e. half the mean squared difference of consecutive τ-long averages, taken at every
+ * starting reading.
+ * @param values - The readings, one every interval seconds.
+ * @param interval - The sampling interval τ₀ in seconds.
+ * @param clusterSize - The number of readings m per average.
+ * @returns The Allan deviation at τ = m·τ₀.
+ * @throws Error if interval is not greater than zero, clusterSize is not a positive
+ * integer, or there are fewer than 2m readings.
+ */
+export function allanDeviation(
+  values: number[],
+  interval: number,
+  clusterSize: number
+): number {
+  if (!(interval > 0)) {
+    throw new Error('Sampling interval must be greater than zero.');
+  }
+  if (!Number.isInteger(clusterSize) || clusterSize <= 0) {
+    throw new Error('Cluster size must be a positive integer.');
+  }
+  const count = values.length;
+  if (count < 2 * clusterSize) {
+    throw new Error(
+      `Allan deviation at cluster size ${clusterSize} needs at least ${
+        2 * clusterSize
+      } readings.`
+    );
+  }
+  const theta = [0];
+  values.forEach(value =>
+    theta.push(theta[theta.length - 1] + value * interval)
+  );
+  const m = clusterSize;
+  let sum = 0;
+  for (let k = 0; k + 2 * m <= count; k++) {
+    const difference = theta[k + 2 * m] - 2 * theta[k + m] + theta[k];
+    sum += difference * difference;
+  }
+  const tau = m * interval;
+  return Math.sqrt(sum / (2 * tau * tau * (count - 2 * m + 1)));
+}
+
+/**
+ * Computes the Allan deviation at octave-spaced averaging times τ₀, 2τ₀, 4τ₀, … while
+ * each average spans at most maxFraction of the readings (a quarter by default), beyond
+ * which too few independent averages remain for a useful estimate.
+ * @param values - The readings, one every interval seconds.
+ * @param interval - The sampling interval τ₀ in seconds.
+ * @param maxFraction - The largest cluster size as a fraction of the readings.
+ * @returns The curve, in order of increasing τ.
+ * @throws Error if interval is not greater than zero or there are fewer than two
+ * readings.
+ */
+export function allanDeviationCurve(
+  values: number[],
+  interval: number,
+  maxFraction: number = 0.25
+): AllanPoint[] {
+  const curve: AllanPoint[] = [];
+  const largest = Math.max(1, Math.floor(values.length * maxFraction));
+  for (let m = 1; m <= largest; m *= 2) {
+    curve.push({
+      tau: m * interval,
+      deviation: allanDeviation(values, interval, m),
+    });
+  }
+  return curve;
+}
+
+/**
+ * Fits a straight line to an Allan deviation curve on log-log axes. The slope identifies
+ * the dominant noise: −1/2 for white noise, 0 for flicker (1/f) noise and +1/2 for a
+ * random walk.
+ * @param curve - Points of the curve (at least two).
+ * @returns The least-squares slope of log σ against log τ.
+ * @throws Error if the curve has fewer than two points.
+ */
+export function allanSlope(curve: AllanPoint[]): number {
+  if (curve.length < 2) {
+    throw new Error('A slope needs at least two points.');
+  }
+  const xs = curve.map(point => Math.log(point.tau));
+  const ys = curve.map(point => Math.log(point.deviation));
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / xs.length;
+  const meanY = ys.reduce((sum, y) => sum + y, 0) / ys.length;
+  let covariance = 0;
+  let variance = 0;
+  xs.forEach((x, i) => {
+    covariance += (x - meanX) * (ys[i] - meanY);
+    variance += (x - meanX) * (x - meanX);
+  });
+  return covariance / variance;
+}
@@ -0,0 +1,280 @@
+import { Sensor } from '../sensors/Sensor';
+import { SensorState } from '../sensors/SensorState';
+import { Vector3 } from '../core/Vector3';
+
+/**
+ * The shapes of simulation domain a Boundary can describe.
+ */
+export enum BoundaryType {
+  BOX = 'box', // Axis-aligned box with solid walls.
+  CYLINDER = 'cylinder', // Cylinder along the z axis with solid walls and caps.
+  PERIODIC = 'periodic', // Axis-aligned box whose opposite faces are identified.
+  OPEN = 'open', // Unbounded domain.
+}
+
+/**
+ * What a solid wall does to a sensor that reaches it.
+ */
+export enum WallBehavior {
+  REFLECT = 'reflect', // Specular, elastic reflection.
+  ABSORB = 'absorb', // The sensor stops on the wall and is deactivated.
+}
+
+/**
+ * What a boundary did to a sensor.
+ */
+export type BoundaryAction = 'reflect' | 'absorb' | 'wrap';
+
+/**
+ * The edge of the simulation domain for sensors that no sphere holds. Selecting a
+ * Boundary on the SimulationEngine replaces the root container.
+ */
+export interface Boundary {
+  readonly type: BoundaryType;
+
+  /**
+   * Brings a sensor that has left the domain back into it, by reflecting, absorbing or
+   * wrapping it around.
+   * @param sensor - The sensor, after it has moved.
+   * @returns What was done, or null if the sensor is inside the domain.
+   */
+  apply(sensor: Sensor): BoundaryAction | null;
+
+  /**
+   * Returns the offset from one point to another as seen through the boundary. In a
+   * periodic domain this is the minimum image; elsewhere it is simply to − from.
+   * @param from - The first point.
+   * @param to - The second point.
+   */
+  separation(from: Vector3, to: Vector3): Vector3;
+}
+
+function checkBounds(min: Vector3, max: Vector3): void {
+  if (!(min.x < max.x && min.y < max.y && min.z < max.z)) {
+    throw new Error('Box bounds must satisfy min < max on every axis.');
+  }
+}
+
+/**
+ * Stops a sensor on a wall and deactivates it.
+ */
+function absorb(sensor: Sensor, position: Vector3): BoundaryAction {
+  sensor.position = position;
+  sensor.velocity = Vector3.zero();
+  sensor.setState(SensorState.INACTIVE);
+  return 'absorb';
+}
+
+/**
+ * Keeps sensors inside a pair of walls on each axis (±Infinity for an axis without
+ * walls), given as [x, y, z] arrays of the low and high walls. A reflected sensor is
+ * mirrored back across the wall it crossed (and kept inside if it overshot the whole
+ * span) with the velocity component along that axis reversed, which is exact for a
+ * straight path; an absorbed sensor stops on the wall.
+ */
+function applyWalls(
+  sensor: Sensor,
+  min: number[],
+  max: number[],
+  walls: WallBehavior
+): BoundaryAction | null {
+  const position = sensor.position.toArray();
+  const velocity = sensor.velocity.toArray();
+  let hit = false;
+  for (let axis = 0; axis < 3; axis++) {
+    const low = min[axis];
+    const high = max[axis];
+    const value = position[axis];
+    if (value >= low && value <= high) continue;
+    hit = true;
+    let inside = value;
+    if (walls === WallBehavior.REFLECT) {
+      inside = value < low ? 2 * low - value : 2 * high - value;
+      velocity[axis] =
+        value < low ? Math.abs(velocity[axis]) : -Math.abs(velocity[axis]);
+    }
+    position[axis] = Math.min(Math.max(inside, low), high);
+  }
+  if (!hit) return null;
+  const [x, y, z] = position;
+  if (walls === WallBehavior.ABSORB) {
+    return absorb(sensor, new Vector3(x, y, z));
+  }
+  sensor.position = new Vector3(x, y, z);
+  sensor.velocity = new Vector3(velocity[0], velocity[1], velocity[2]);
+  return 'reflect';
+}
+
+/**
+ * An axis-aligned box with reflecting or absorbing walls.
+ */
+export class BoxBoundary implements Boundary {
+  public readonly type = BoundaryType.BOX;
+  public readonly min: Vector3;
+  public readonly max: Vector3;
+  public readonly walls: WallBehavior;
+
+  /**
+   * @param min - The corner with the smallest coordinates.
+   * @param max - The corner with the largest coordinates.
+   * @param walls - What the walls do to sensors (default: reflect).
+   * @throws Error if min is not below max on every axis.
+   */
+  constructor(
+    min: Vector3,
+    max: Vector3,
+    walls: WallBehavior = WallBehavior.REFLECT
+  ) {
+    checkBounds(min, max);
+    this.min = min;
+    this.max = max;
+    this.walls = walls;
+  }
+
+  public apply(sensor: Sensor): BoundaryAction | null {
+    return applyWalls(
+      sensor,
+      this.min.toArray(),
+      this.max.toArray(),
+      this.walls
+    );
+  }
+
+  public separation(from: Vector3, to: Vector3): Vector3 {
+    return to.subtract(from);
+  }
+}
+
+/**
+ * A cylinder along the z axis with reflecting or absorbing side wall and caps. A sensor
+ * beyond the side wall is put back on it with the radial part of its velocity reversed.
+ */
+export class CylinderBoundary implements Boundary {
+  public readonly type = BoundaryType.CYLINDER;
+  public readonly center: Vector3;
+  public readonly radius: number;
+  public readonly height: number;
+  public readonly walls: WallBehavior;
+
+  /**
+   * @param center - The center of the cylinder (midway between the caps).
+   * @param radius - The radius of the side wall.
+   * @param height - The distance between the caps.
+   * @param walls - What the walls do to sensors (default: reflect).
+   * @throws Error if the radius or height is not greater than zero.
+   */
+  constructor(
+    center: Vector3,
+    radius: number,
+    height: number,
+    walls: WallBehavior = WallBehavior.REFLECT
+  ) {
+    if (!(radius > 0) || !(height > 0)) {
+      throw new Error('Cylinder radius and height must be greater than zero.');
+    }
+    this.center = center;
+    this.radius = radius;
+    this.height = height;
+    this.walls = walls;
+  }
+
+  public apply(sensor: Sensor): BoundaryAction | null {
+    const half = this.height / 2;
+    const caps = applyWalls(
+      sensor,
+      [-Infinity, -Infinity, this.center.z - half],
+      [Infinity, Infinity, this.center.z + half],
+      this.walls
+    );
+    if (caps === 'absorb') return caps;
+
+    const offset = sensor.position.subtract(this.center);
+    const radial = new Vector3(offset.x, offset.y, 0);
+    const distance = radial.magnitude();
+    if (distance <= this.radius) return caps;
+    const normal = radial.divideScalar(distance);
+    const position = sensor.position.add(
+      normal.multiplyScalar(this.radius - distance)
+    );
+    if (this.walls === WallBehavior.ABSORB) return absorb(sensor, position);
+    sensor.position = position;
+    const outwardSpeed = sensor.velocity.dot(normal);
+    if (outwardSpeed > 0) {
+      sensor.velocity = sensor.velocity.subtract(
+        normal.multiplyScalar(2 * outwardSpeed)
+      );
+    }
+    return 'reflect';
+  }
+
+  public separation(from: Vector3, to: Vector3): Vector3 {
+    return to.subtract(from);
+  }
+}
+
+/**
+ * An axis-aligned box with periodic boundaries: a sensor leaving through one face
+ * re-enters through the opposite one with its velocity unchanged, and distances are
+ * measured to the nearest periodic image of the other point (the minimum-image
+ * convention), so forces act across the faces.
+ */
+export class PeriodicBoundary implements Boundary {
+  public readonly type = BoundaryType.PERIODIC;
+  public readonly min: Vector3;
+  public readonly max: Vector3;
+
+  /**
+   * @param min - The corner with the smallest coordinates.
+   * @param max - The corner with the largest coordinates.
+   * @throws Error if min is not below max on every axis.
+   */
+  constructor(min: Vector3, max: Vector3) {
+    checkBounds(min, max);
+    this.min = min;
+    this.max = max;
+  }
+
+  public apply(sensor: Sensor): BoundaryAction | null {
+    const size = this.max.subtract(this.min);
+    const wrap = (value: number, low: number, length: number): number =>
+      value >= low && value < low + length
+        ? value
+        : low + ((((value - low) % length) + length) % length);
+    const { x, y, z } = sensor.position;
+    const wrapped = new Vector3(
+      wrap(x, this.min.x, size.x),
+      wrap(y, this.min.y, size.y),
+      wrap(z, this.min.z, size.z)
+    );
+    if (wrapped.x === x && wrapped.y === y && wrapped.z === z) return null;
+    sensor.position = wrapped;
+    return 'wrap';
+  }
+
+  public separation(from: Vector3, to: Vector3): Vector3 {
+    const size = this.max.subtract(this.min);
+    const image = (delta: number, length: number): number =>
+      delta - length * Math.round(delta / length);
+    const delta = to.subtract(from);
+    return new Vector3(
+      image(delta.x, size.x),
+      image(delta.y, size.y),
+      image(delta.z, size.z)
+    );
+  }
+}
+
+/**
+ * An unbounded domain: sensors are never stopped, however far they travel.
+ */
+export class OpenBoundary implements Boundary {
+  public readonly type = BoundaryType.OPEN;
+
+  public apply(): BoundaryAction | null {
+    return null;
+  }
+
+  public separation(from: Vector3, to: Vector3): Vector3 {
+    return to.subtract(from);
+  }
+}
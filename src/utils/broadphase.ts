@@ -0,0 +1,175 @@
+import { Sensor } from '../sensors/Sensor';
+import { Vector3 } from '../core/Vector3';
+import { Constants } from '../core/Constants';
+
+/**
+ * Broadphase strategies for finding sensor pairs that may be in contact.
+ */
+export enum BroadphaseType {
+  /**
+   * Tests every unique pair of sensors. O(n²).
+   */
+  BRUTE_FORCE = 'brute-force',
+
+  /**
+   * Buckets sensors into a uniform grid (spatial hash) and only tests sensors in
+   * neighbouring cells. O(n) for roughly uniform densities.
+   */
+  UNIFORM_GRID = 'uniform-grid',
+}
+
+/**
+ * Returns the collision radius of a sensor, falling back to the default radius
+ * when none is set (matching SimulationEngine's narrowphase).
+ * @param sensor - The sensor.
+ * @returns The sensor's radius.
+ */
+export function collisionRadius(sensor: Sensor): number {
+  return sensor.radius || Constants.DEFAULT_SENSOR_RADIUS;
+}
+
+/**
+ * A spatial hash that buckets item indices into cubic cells of a fixed size.
+ *
+ * Items are inserted by position only. When the cell size is at least the largest
+ * interaction distance, every item within that distance of a point lies in the
+ * point's cell or one of its 26 neighbours.
+ */
+export class SpatialHash {
+  public readonly cellSize: number;
+  private cells: Map<string, number[]> = new Map();
+
+  /**
+   * @param cellSize - Edge length of each cubic cell (must be > 0).
+   * @throws Error if cellSize is not greater than zero.
+   */
+  constructor(cellSize: number) {
+    if (!(cellSize > 0)) {
+      throw new Error('Cell size must be greater than zero.');
+    }
+    this.cellSize = cellSize;
+  }
+
+  /**
+   * Inserts an item index at the given position.
+   * @param index - The item index.
+   * @param position - The item's position.
+   */
+  public insert(index: number, position: Vector3): void {
+    const key = this.keyFor(position);
+    const bucket = this.cells.get(key);
+    if (bucket) {
+      bucket.push(index);
+    } else {
+      this.cells.set(key, [index]);
+    }
+  }
+
+  /**
+   * Returns the indices stored in the cell containing the position and its 26 neighbours.
+   * @param position - The query position.
+   * @returns The candidate indices (unordered).
+   */
+  public queryNeighbors(position: Vector3): number[] {
+    const cx = Math.floor(position.x / this.cellSize);
+    const cy = Math.floor(position.y / this.cellSize);
+    const cz = Math.floor(position.z / this.cellSize);
+    const result: number[] = [];
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dz = -1; dz <= 1; dz++) {
+          const bucket = this.cells.get(`${cx + dx},${cy + dy},${cz + dz}`);
+          if (bucket) {
+            for (const index of bucket) result.push(index);
+          }
+        }
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Returns the number of non-empty cells.
+   */
+  public get cellCount(): number {
+    return this.cells.size;
+  }
+
+  /**
+   * Removes all items.
+   */
+  public clear(): void {
+    this.cells.clear();
+  }
+
+  private keyFor(position: Vector3): string {
+    return `${Math.floor(position.x / this.cellSize)},${Math.floor(
+      position.y / this.cellSize
+    )},${Math.floor(position.z / this.cellSize)}`;
+  }
+}
+
+/**
+ * Visits every candidate pair (i, j) with i < j that the chosen broadphase reports.
+ *
+ * Pairs are visited in the same lexicographic order for both strategies, so a
+ * collision pass produces identical results whichever broadphase is selected.
+ *
+ * @param sensors - The sensors to test.
+ * @param type - The broadphase strategy.
+ * @param visit - Callback invoked with the indices of each candidate pair.
+ * @param cellSize - Grid cell size; defaults to the largest sensor diameter.
+ */
+export function forEachCandidatePair(
+  sensors: Sensor[],
+  type: BroadphaseType,
+  visit: (i: number, j: number) => void,
+  cellSize?: number
+): void {
+  if (type === BroadphaseType.BRUTE_FORCE) {
+    for (let i = 0; i < sensors.length; i++) {
+      for (let j = i + 1; j < sensors.length; j++) {
+        visit(i, j);
+      }
+    }
+    return;
+  }
+
+  if (sensors.length < 2) return;
+  const size =
+    cellSize ??
+    2 *
+      sensors.reduce(
+        (largest, sensor) => Math.max(largest, collisionRadius(sensor)),
+        0
+      );
+  const grid = new SpatialHash(size);
+  sensors.forEach((sensor, index) => grid.insert(index, sensor.position));
+
+  for (let i = 0; i < sensors.length; i++) {
+    const candidates = grid
+      .queryNeighbors(sensors[i].position)
+      .filter(j => j > i)
+      .sort((a, b) => a - b);
+    for (const j of candidates) {
+      visit(i, j);
+    }
+  }
+}
+
+/**
+ * Collects the candidate pairs reported by the chosen broadphase.
+ * @param sensors - The sensors to test.
+ * @param type - The broadphase strategy.
+ * @param cellSize - Grid cell size; defaults to the largest sensor diameter.
+ * @returns Index pairs [i, j] with i < j, in lexicographic order.
+ */
+export function findCandidatePairs(
+  sensors: Sensor[],
+  type: BroadphaseType,
+  cellSize?: number
+): Array<[number, number]> {
+  const pairs: Array<[number, number]> = [];
+  forEachCandidatePair(sensors, type, (i, j) => pairs.push([i, j]), cellSize);
+  return pairs;
+}
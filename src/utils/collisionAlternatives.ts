@@ -1,5 +1,8 @@
 import { Sensor } from '../sensors/Sensor';
 import { Vector3 } from '../core/Vector3';
+import { Constants } from '../core/Constants';
+import { resolveCollision } from './collisionResponse';
+import { collisionRadius } from './broadphase';
 
 /**
  * Resolves a collision between two sensors by computing the final velocities using a center-of-mass (COM) transformation.
@@ -59,7 +62,7 @@ export function centerOfMassCollision(
  *
  * 2. **Relative Velocity and Collision Check:**
  *    It calculates the relative velocity between the sensors along this normal.
- *    If the relative speed is non-negative (i.e., sensors are moving apart or parallel), no collision response is applied.
+ *    If the relative speed is not positive (i.e., sensors are moving apart or parallel), no collision response is applied.
  *
  * 3. **Impulse Calculation:**
  *    For a collision, the impulse is computed using:
@@ -85,7 +88,9 @@ export function centerOfMassCollision(
  * @returns An object containing the updated sensors `{ s1, s2 }` with their post-collision velocities.
  *
  * @remarks
- * If the sensors are separating (speed >= 0), the function returns the original sensors without modification.
+ * If the sensors are separating (speed <= 0), the function returns the original sensors without modification.
+ * The response itself is resolveCollision, so the formulas above hold for the default (perfectly elastic,
+ * frictionless) materials; sensors with restitution below 1 or friction lose kinetic energy to heat and spin.
  */
 export function impulseCollision(
   sensor1: Sensor,
@@ -94,15 +99,8 @@ export function impulseCollision(
   const normal = sensor2.position.subtract(sensor1.position).normalize();
   const relativeVelocity = sensor1.velocity.subtract(sensor2.velocity);
   const speed = relativeVelocity.dot(normal);
-  if (speed >= 0) return { s1: sensor1, s2: sensor2 }; // No collision response if sensors are separating.
-  const totalMass = sensor1.mass + sensor2.mass;
-  const impulse = (2 * speed) / totalMass;
-  sensor1.velocity = sensor1.velocity.subtract(
-    normal.multiplyScalar(impulse * sensor2.mass)
-  );
-  sensor2.velocity = sensor2.velocity.add(
-    normal.multiplyScalar(impulse * sensor1.mass)
-  );
+  if (speed <= 0) return { s1: sensor1, s2: sensor2 }; // No collision response if sensors are separating.
+  resolveCollision(sensor1, sensor2, normal);
   return { s1: sensor1, s2: sensor2 };
 }
 
@@ -155,26 +153,91 @@ export function bruteForceCollision(
 }
 
 /**
- * (Optional, Future Work)
+ * How SimulationEngine responds to overlapping sensors.
+ */
+export enum CollisionStrategy {
+  /**
+   * Instantaneous impulses from resolveCollision (restitution, friction and spin).
+   */
+  IMPULSE = 'impulse',
+
+  /**
+   * Soft contact: a spring–damper force proportional to the penetration depth, applied
+   * through the integrator like any other force (see penaltyContactForce).
+   */
+  PENALTY = 'penalty',
+}
+
+/**
+ * Computes the soft-contact (penalty) force between two sensors from their penetration
+ * depth δ = r₁ + r₂ − |x₂ − x₁| and closing speed vₙ = (v₁ − v₂)·n, where n points from
+ * sensor1 to sensor2:
+ *   F = max(k·δ + c·vₙ, 0)
+ * The force only pushes the sensors apart; the clamp keeps the damper from pulling them
+ * together while they separate. With c = 0 the contact is a conservative spring
+ * (energy is conserved up to integration error); c > 0 dissipates energy.
+ *
+ * @param sensor1 - The first sensor.
+ * @param sensor2 - The second sensor.
+ * @param stiffness - Spring constant k in N/m (must be ≥ 0).
+ * @param damping - Damping coefficient c in N·s/m (must be ≥ 0).
+ * @returns The force on sensor2; sensor1 receives the opposite. Zero if the sensors do
+ * not overlap.
+ */
+export function penaltyContactForce(
+  sensor1: Sensor,
+  sensor2: Sensor,
+  stiffness: number = Constants.DEFAULT_CONTACT_STIFFNESS,
+  damping: number = Constants.DEFAULT_CONTACT_DAMPING
+): Vector3 {
+  const offset = sensor2.position.subtract(sensor1.position);
+  const distance = offset.magnitude();
+  const penetration =
+    collisionRadius(sensor1) + collisionRadius(sensor2) - distance;
+  if (penetration <= 0 || distance === 0) return Vector3.zero();
+  const normal = offset.divideScalar(distance);
+  const closingSpeed = sensor1.velocity.subtract(sensor2.velocity).dot(normal);
+  const magnitude = Math.max(
+    stiffness * penetration + damping * closingSpeed,
+    0
+  );
+  return normal.multiplyScalar(magnitude);
+}
+
+/**
  * Resolves a collision using a penalty-force method.
  *
- * Instead of applying an instantaneous impulse, this method would compute a repulsive
- * force based on the penetration depth between sensors, then integrate this force over
- * the collision duration to update sensor velocities.
+ * Instead of applying an instantaneous impulse, the repulsive spring–damper force of
+ * penaltyContactForce acts over one time step, so a full contact spans several steps.
+ * The sensors are not modified.
  *
  * @remarks
- * This approach typically requires tuning parameters such as stiffness and damping,
- * and may involve more complex integration methods (e.g., Runge-Kutta). Currently,
- * this function serves as a stub and simply calls impulseCollision.
+ * The contact behaves like a harmonic oscillator with angular frequency ω = √(k/μ), where
+ * μ = m₁m₂/(m₁ + m₂) is the reduced mass; explicit integration is only stable and accurate
+ * for time steps well below 2/ω. Stiffer springs reduce penetration but need smaller steps.
  *
  * @param sensor1 - The first sensor involved in the collision.
  * @param sensor2 - The second sensor involved in the collision.
+ * @param deltaTime - Time over which the force acts, in seconds (default: Constants.DEFAULT_TIME_STEP).
+ * @param stiffness - Spring constant in N/m (default: Constants.DEFAULT_CONTACT_STIFFNESS).
+ * @param damping - Damping coefficient in N·s/m (default: Constants.DEFAULT_CONTACT_DAMPING).
  * @returns An object containing the final velocities { v1, v2 }.
  */
 export function penaltyForceCollision(
   sensor1: Sensor,
-  sensor2: Sensor
+  sensor2: Sensor,
+  deltaTime: number = Constants.DEFAULT_TIME_STEP,
+  stiffness: number = Constants.DEFAULT_CONTACT_STIFFNESS,
+  damping: number = Constants.DEFAULT_CONTACT_DAMPING
 ): { v1: Vector3; v2: Vector3 } {
-  const result = impulseCollision(sensor1, sensor2);
-  return { v1: result.s1.velocity, v2: result.s2.velocity };
+  const impulse = penaltyContactForce(
+    sensor1,
+    sensor2,
+    stiffness,
+    damping
+  ).multiplyScalar(deltaTime);
+  return {
+    v1: sensor1.velocity.subtract(impulse.divideScalar(sensor1.mass)),
+    v2: sensor2.velocity.add(impulse.divideScalar(sensor2.mass)),
+  };
 }
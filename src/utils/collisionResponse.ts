@@ -0,0 +1,152 @@
+import { Sensor } from '../sensors/Sensor';
+import { Vector3 } from '../core/Vector3';
+import { Constants } from '../core/Constants';
+import { collisionRadius } from './broadphase';
+
+/**
+ * The outcome of resolving a contact between two sensors.
+ */
+export interface CollisionResponse {
+  normalImpulse: number; // Magnitude of the impulse along the contact normal (N·s).
+  tangentialImpulse: number; // Magnitude of the friction impulse (N·s).
+  preEnergy: number; // Translational plus rotational kinetic energy before the contact (J).
+  postEnergy: number; // The same after the contact (J).
+  dissipated: number; // Kinetic energy converted into heat (J).
+}
+
+/**
+ * Returns a sensor's angular velocity vector: its spin about its rotation axis.
+ * @param sensor - The sensor.
+ * @returns The angular velocity in radians per second.
+ */
+export function angularVelocity(sensor: Sensor): Vector3 {
+  return sensor.rotationAxis.normalize().multiplyScalar(sensor.spin);
+}
+
+/**
+ * Returns a sensor's moment of inertia as a solid sphere of its collision radius,
+ * I = ⅖·m·r².
+ * @param sensor - The sensor.
+ * @returns The moment of inertia in kg·m².
+ */
+export function momentOfInertia(sensor: Sensor): number {
+  return 0.4 * sensor.mass * collisionRadius(sensor) ** 2;
+}
+
+/**
+ * Returns a sensor's translational plus rotational kinetic energy.
+ * @param sensor - The sensor.
+ * @returns The kinetic energy in joules.
+ */
+export function kineticEnergy(sensor: Sensor): number {
+  return (
+    0.5 * sensor.mass * sensor.velocity.magnitude() ** 2 +
+    0.5 * momentOfInertia(sensor) * sensor.spin ** 2
+  );
+}
+
+/**
+ * Resolves a contact between two sensors with restitution, Coulomb friction and spin
+ * transfer, treating the sensors as solid spheres touching at the surface point along
+ * the normal.
+ *
+ * The pair's restitution is the smaller of the two sensors' coefficients (the less
+ * elastic material dominates) and its friction coefficient is the geometric mean of
+ * theirs. With u the relative velocity of the contact points (sensor1 minus sensor2)
+ * and uₙ = u·n its normal component:
+ *   Jₙ = (1 + e)·uₙ / (1/m₁ + 1/m₂)
+ * reverses uₙ and scales it by e. The tangential impulse opposes the sliding velocity
+ * uₜ = u − uₙ·n; it is just large enough to stop sliding, which for solid spheres is
+ *   Jₜ = |uₜ| / (3.5·(1/m₁ + 1/m₂)),
+ * but limited by friction to μ·|Jₙ|. Both impulses change the linear velocities; the
+ * tangential impulse also applies a torque r × J that changes each sensor's angular
+ * velocity (spin about rotationAxis, which is realigned with the new angular velocity).
+ *
+ * Momentum is conserved exactly. Kinetic energy lost to restitution below 1 or to
+ * friction is converted into heat, raising both sensors' temperatures by the same
+ * amount ΔT = ΔE / (c·(m₁ + m₂)) with c = Constants.DEFAULT_SPECIFIC_HEAT. Perfectly
+ * elastic, frictionless contacts transfer no heat.
+ *
+ * @param sensor1 - The first sensor.
+ * @param sensor2 - The second sensor.
+ * @param normal - Unit vector from sensor1 towards sensor2.
+ * @returns The impulses applied and the kinetic energy before, after and dissipated.
+ */
+export function resolveCollision(
+  sensor1: Sensor,
+  sensor2: Sensor,
+  normal: Vector3
+): CollisionResponse {
+  const restitution = Math.min(sensor1.restitution, sensor2.restitution);
+  const friction = Math.sqrt(sensor1.friction * sensor2.friction);
+  const preEnergy = kineticEnergy(sensor1) + kineticEnergy(sensor2);
+
+  // Contact point offsets from each center, and the contact points' velocities.
+  const r1 = normal.multiplyScalar(collisionRadius(sensor1));
+  const r2 = normal.multiplyScalar(-collisionRadius(sensor2));
+  const omega1 = angularVelocity(sensor1);
+  const omega2 = angularVelocity(sensor2);
+  const relative = sensor1.velocity
+    .add(omega1.cross(r1))
+    .subtract(sensor2.velocity.add(omega2.cross(r2)));
+
+  const inverseMass = 1 / sensor1.mass + 1 / sensor2.mass;
+  const normalSpeed = relative.dot(normal);
+  const normalImpulse = ((1 + restitution) * normalSpeed) / inverseMass;
+
+  const sliding = relative.subtract(normal.multiplyScalar(normalSpeed));
+  const slidingSpeed = sliding.magnitude();
+  const tangentialImpulse =
+    slidingSpeed > 0
+      ? Math.min(
+          slidingSpeed / (3.5 * inverseMass),
+          friction * Math.abs(normalImpulse)
+        )
+      : 0;
+  const tangent =
+    slidingSpeed > 0 ? sliding.divideScalar(slidingSpeed) : Vector3.zero();
+
+  // The impulse on sensor1; sensor2 receives the opposite.
+  const impulse = normal
+    .multiplyScalar(-normalImpulse)
+    .subtract(tangent.multiplyScalar(tangentialImpulse));
+  sensor1.velocity = sensor1.velocity.add(impulse.divideScalar(sensor1.mass));
+  sensor2.velocity = sensor2.velocity.subtract(
+    impulse.divideScalar(sensor2.mass)
+  );
+  if (tangentialImpulse > 0) {
+    setAngularVelocity(
+      sensor1,
+      omega1.add(r1.cross(impulse).divideScalar(momentOfInertia(sensor1)))
+    );
+    setAngularVelocity(
+      sensor2,
+      omega2.subtract(r2.cross(impulse).divideScalar(momentOfInertia(sensor2)))
+    );
+  }
+
+  const postEnergy = kineticEnergy(sensor1) + kineticEnergy(sensor2);
+  const elastic = restitution === 1 && tangentialImpulse === 0;
+  const dissipated = elastic ? 0 : Math.max(preEnergy - postEnergy, 0);
+  if (dissipated > 0) {
+    const temperatureRise =
+      dissipated /
+      (Constants.DEFAULT_SPECIFIC_HEAT * (sensor1.mass + sensor2.mass));
+    sensor1.temperature += temperatureRise;
+    sensor2.temperature += temperatureRise;
+  }
+
+  return {
+    normalImpulse: Math.abs(normalImpulse),
+    tangentialImpulse,
+    preEnergy,
+    postEnergy,
+    dissipated,
+  };
+}
+
+function setAngularVelocity(sensor: Sensor, omega: Vector3): void {
+  const magnitude = omega.magnitude();
+  sensor.spin = magnitude;
+  if (magnitude > 0) sensor.rotationAxis = omega.divideScalar(magnitude);
+}
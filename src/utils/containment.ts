@@ -0,0 +1,79 @@
+import { Sensor } from '../sensors/Sensor';
+import { SensorSphere } from '../sensors/SensorSphere';
+import { Vector3 } from '../core/Vector3';
+
+/**
+ * Reflects a velocity off the wall of a moving container. Only motion towards the wall
+ * relative to the container is reversed: with n the outward wall normal and w the wall's
+ * velocity,
+ *   v' = v − 2·((v − w)·n)·n   if (v − w)·n > 0,
+ * so a body hit by an advancing wall is pushed along with it, and a body the wall is
+ * already moving away from is left alone.
+ * @param velocity - The body's velocity.
+ * @param normal - Unit outward normal of the wall at the contact.
+ * @param wallVelocity - The wall's velocity.
+ * @returns The velocity after the reflection.
+ */
+export function reflectOffWall(
+  velocity: Vector3,
+  normal: Vector3,
+  wallVelocity: Vector3
+): Vector3 {
+  const outwardSpeed = velocity.subtract(wallVelocity).dot(normal);
+  return outwardSpeed > 0
+    ? velocity.subtract(normal.multiplyScalar(2 * outwardSpeed))
+    : velocity;
+}
+
+/**
+ * Keeps a sensor's center inside a container sphere. A sensor found outside is moved
+ * back onto the boundary and its velocity reflected off the wall.
+ *
+ * Sensors held by a sphere are carried along with it, so their velocities are relative to
+ * it and the wall is at rest for them; sensors that merely sit inside a container see the
+ * wall move with the container's velocity.
+ *
+ * @param sensor - The sensor.
+ * @param container - The sphere confining it.
+ * @param wallVelocity - The wall's velocity in the sensor's frame (default: the
+ * container's velocity).
+ * @returns True if the sensor was outside the container and was moved back.
+ */
+export function confineSensor(
+  sensor: Sensor,
+  container: SensorSphere,
+  wallVelocity: Vector3 = container.velocity
+): boolean {
+  const offset = sensor.position.subtract(container.center);
+  const distance = offset.magnitude();
+  if (distance <= container.radius) return false;
+  const normal = offset.divideScalar(distance);
+  sensor.velocity = reflectOffWall(sensor.velocity, normal, wallVelocity);
+  sensor.position = container.center.add(
+    normal.multiplyScalar(container.radius)
+  );
+  return true;
+}
+
+/**
+ * Keeps a sphere entirely inside a container sphere. A sphere that pokes out is moved
+ * back (with its sensors) until it touches the wall from inside, and its velocity is
+ * reflected off the wall, which moves with the container's velocity. A sphere larger
+ * than its container is centered in it.
+ * @param sphere - The confined sphere.
+ * @param container - The sphere confining it.
+ * @returns True if the sphere poked out and was moved back.
+ */
+export function confineSphere(
+  sphere: SensorSphere,
+  container: SensorSphere
+): boolean {
+  const limit = Math.max(container.radius - sphere.radius, 0);
+  const offset = sphere.center.subtract(container.center);
+  const distance = offset.magnitude();
+  if (distance <= limit) return false;
+  const normal = offset.divideScalar(distance);
+  sphere.velocity = reflectOffWall(sphere.velocity, normal, container.velocity);
+  sphere.translate(normal.multiplyScalar(limit - distance));
+  return true;
+}
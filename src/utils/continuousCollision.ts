@@ -0,0 +1,57 @@
+import { Vector3 } from '../core/Vector3';
+
+/**
+ * Finds when two spheres moving in straight lines first touch. Motion is measured in
+ * fractions s ∈ [0, 1] of a step: the offset from the first sphere's center to the
+ * second's is p(s) = offset + displacement·s, and contact happens when |p(s)| equals the
+ * sum of the radii. Spheres that already overlap at s = 0 are left to the discrete
+ * overlap handling.
+ *
+ * @param offset - Offset from the first center to the second at s = 0.
+ * @param displacement - Change of that offset over the whole step.
+ * @param radius - Sum of the two radii.
+ * @returns The fraction of the step at first contact, or null if the spheres do not
+ * touch during the step, already overlap or are moving apart.
+ */
+export function sweptSphereTimeOfImpact(
+  offset: Vector3,
+  displacement: Vector3,
+  radius: number
+): number | null {
+  // Solve |offset + displacement·s|² = radius², a quadratic a·s² + 2b·s + c = 0.
+  const a = displacement.dot(displacement);
+  const b = offset.dot(displacement);
+  const c = offset.dot(offset) - radius * radius;
+  if (c < 0 || b >= 0 || a === 0) return null;
+  const discriminant = b * b - a * c;
+  if (discriminant < 0) return null;
+  const s = (-b - Math.sqrt(discriminant)) / a;
+  return s <= 1 ? Math.max(s, 0) : null;
+}
+
+/**
+ * Finds when a point moving in a straight line leaves a sphere. The point's position is
+ * start + displacement·s for s ∈ [0, 1].
+ *
+ * @param start - Position at s = 0 (inside or on the sphere).
+ * @param displacement - Change of position over the whole step.
+ * @param center - Center of the sphere.
+ * @param radius - Radius of the sphere.
+ * @returns The fraction of the step at which the point crosses the surface outwards, or
+ * null if it stays inside or starts outside.
+ */
+export function boundaryTimeOfImpact(
+  start: Vector3,
+  displacement: Vector3,
+  center: Vector3,
+  radius: number
+): number | null {
+  const offset = start.subtract(center);
+  const a = displacement.dot(displacement);
+  const b = offset.dot(displacement);
+  const c = offset.dot(offset) - radius * radius;
+  if (c > 0 || a === 0) return null;
+  // Inside the sphere c ≤ 0, so the larger root is the exit and lies at s ≥ 0.
+  const s = (-b + Math.sqrt(b * b - a * c)) / a;
+  return s <= 1 ? s : null;
+}
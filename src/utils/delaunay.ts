@@ -0,0 +1,187 @@
+import { Vector3 } from '../core/Vector3';
+import { Random } from '../core/Random';
+import { solveLinearSystem } from './linearAlgebra';
+
+/**
+ * Points closer than this fraction of the point set's extent to the span of the others
+ * count as lying in it (so a flat set is triangulated in its plane).
+ */
+const FLATNESS_TOLERANCE = 1e-9;
+
+/**
+ * Size of the perturbation, as a fraction of the extent, that breaks ties between
+ * co-spherical points (every cube of a cubic lattice has eight).
+ */
+const PERTURBATION = 1e-9;
+
+/**
+ * Half-width of the super-simplex that encloses every point, in units of the extent.
+ */
+const SUPER_SIMPLEX_SCALE = 1e3;
+
+/**
+ * A simplex of the triangulation with its circumsphere.
+ */
+interface Simplex {
+  vertices: number[];
+  center: number[];
+  radiusSquared: number;
+}
+
+/**
+ * Returns the edges of the Delaunay triangulation of a point set: the pairs of points
+ * that share a tetrahedron (a triangle, if the points lie in a plane; a segment, if they
+ * lie on a line) whose circumsphere holds no other point.
+ *
+ * The triangulation is built by Bowyer–Watson insertion in the points' own affine hull.
+ * Co-spherical points, such as the sites of a lattice, have several Delaunay
+ * triangulations; a tiny fixed perturbation picks one of them, so the result is
+ * deterministic. Edges along the convex hull that only the very flattest simplices
+ * would carry may be missed.
+ *
+ * @param points - The points.
+ * @returns The edges as index pairs [i, j] with i < j, in lexicographic order.
+ */
+export function delaunayEdges(points: Vector3[]): [number, number][] {
+  const coordinates = affineCoordinates(points);
+  const dimension = coordinates[0]?.length ?? 0;
+  const edges = new Set<string>();
+  const addEdge = (a: number, b: number): void => {
+    if (a !== b) edges.add(a < b ? `${a},${b}` : `${b},${a}`);
+  };
+
+  if (dimension === 1) {
+    // On a line, each point links to the next along it.
+    const order = coordinates
+      .map((coordinate, i) => ({ i, t: coordinate[0] }))
+      .sort((a, b) => a.t - b.t || a.i - b.i);
+    for (let k = 1; k < order.length; k++) addEdge(order[k - 1].i, order[k].i);
+  } else if (dimension > 1) {
+    triangulate(coordinates).forEach(vertices =>
+      vertices.forEach((a, i) =>
+        vertices.slice(i + 1).forEach(b => addEdge(a, b))
+      )
+    );
+  }
+
+  return [...edges]
+    .map(key => key.split(',').map(Number) as [number, number])
+    .sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+}
+
+/**
+ * Expresses the points in an orthonormal basis of their affine hull, scaled to unit
+ * extent and slightly perturbed.
+ * @returns One coordinate array per point, of the hull's dimension (0 to 3).
+ */
+function affineCoordinates(points: Vector3[]): number[][] {
+  if (points.length === 0) return [];
+  const origin = points[0];
+  const offsets = points.map(point => point.subtract(origin));
+  const extent = Math.max(...offsets.map(offset => offset.magnitude()));
+  if (!(extent > 0)) return points.map(() => []);
+
+  // Gram–Schmidt on the offsets, keeping directions that leave the span so far.
+  const basis: Vector3[] = [];
+  offsets.forEach(offset => {
+    if (basis.length === 3) return;
+    const residual = basis.reduce(
+      (rest, axis) => rest.subtract(axis.multiplyScalar(rest.dot(axis))),
+      offset
+    );
+    if (residual.magnitude() > FLATNESS_TOLERANCE * extent) {
+      basis.push(residual.normalize());
+    }
+  });
+
+  const random = new Random(basis.length);
+  return offsets.map(offset =>
+    basis.map(
+      axis => offset.dot(axis) / extent + PERTURBATION * (2 * random.next() - 1)
+    )
+  );
+}
+
+/**
+ * Triangulates points in 2 or 3 dimensions by Bowyer–Watson insertion.
+ * @returns The vertex indices of each simplex.
+ */
+function triangulate(coordinates: number[][]): number[][] {
+  const n = coordinates.length;
+  const dimension = coordinates[0].length;
+  const center = new Array<number>(dimension).fill(0);
+  coordinates.forEach(point => point.forEach((x, i) => (center[i] += x / n)));
+
+  // The simplex with a corner at −s on every axis and its other corners at +s·d on one
+  // axis each contains the ball of radius s about its centre.
+  const s = SUPER_SIMPLEX_SCALE;
+  const vertices = [
+    ...coordinates,
+    center.map(x => x - s),
+    ...center.map((_, axis) =>
+      center.map((x, i) => (i === axis ? x + s * dimension : x - s))
+    ),
+  ];
+  const superVertices = Array.from({ length: dimension + 1 }, (_, i) => n + i);
+
+  let simplices = [circumscribe(vertices, superVertices) as Simplex];
+  for (let p = 0; p < n; p++) {
+    const point = vertices[p];
+    const bad: Simplex[] = [];
+    const kept: Simplex[] = [];
+    simplices.forEach(simplex =>
+      (distanceSquared(point, simplex.center) < simplex.radiusSquared
+        ? bad
+        : kept
+      ).push(simplex)
+    );
+
+    // The faces of the cavity are those of exactly one bad simplex.
+    const faces = new Map<string, number[]>();
+    const shared = new Set<string>();
+    bad.forEach(simplex =>
+      simplex.vertices.forEach((_, skip) => {
+        const face = simplex.vertices.filter((__, i) => i !== skip);
+        const key = [...face].sort((a, b) => a - b).join(',');
+        if (faces.has(key)) shared.add(key);
+        else faces.set(key, face);
+      })
+    );
+    faces.forEach((face, key) => {
+      if (shared.has(key)) return;
+      const simplex = circumscribe(vertices, [...face, p]);
+      if (simplex) kept.push(simplex);
+    });
+    simplices = kept;
+  }
+
+  return simplices
+    .filter(simplex => simplex.vertices.every(vertex => vertex < n))
+    .map(simplex => simplex.vertices);
+}
+
+/**
+ * Finds the circumsphere of a simplex: the centre c with |c − pᵢ| equal for every
+ * vertex, from 2(pᵢ − p₀)·(c − p₀) = |pᵢ − p₀|².
+ * @returns The simplex, or null if it is flat.
+ */
+function circumscribe(points: number[][], vertices: number[]): Simplex | null {
+  const origin = points[vertices[0]];
+  const edges = vertices
+    .slice(1)
+    .map(vertex => points[vertex].map((x, i) => x - origin[i]));
+  const relative = solveLinearSystem(
+    edges.map(edge => edge.map(x => 2 * x)),
+    edges.map(edge => edge.reduce((sum, x) => sum + x * x, 0))
+  );
+  if (!relative) return null;
+  return {
+    vertices,
+    center: relative.map((x, i) => x + origin[i]),
+    radiusSquared: relative.reduce((sum, x) => sum + x * x, 0),
+  };
+}
+
+function distanceSquared(a: number[], b: number[]): number {
+  return a.reduce((sum, x, i) => sum + (x - b[i]) ** 2, 0);
+}
@@ -0,0 +1,79 @@
+/**
+ * Pivots smaller than this fraction of the largest matrix entry count as zero.
+ */
+const SINGULAR_TOLERANCE = 1e-12;
+
+/**
+ * Solves the square linear system A·x = b by Gaussian elimination with partial pivoting.
+ * @param matrix - The n×n matrix A (not modified).
+ * @param rhs - The right-hand side b, of length n.
+ * @returns The solution x, or null if A is singular.
+ */
+export function solveLinearSystem(
+  matrix: number[][],
+  rhs: number[]
+): number[] | null {
+  const n = rhs.length;
+  const rows = matrix.map((row, i) => [...row, rhs[i]]);
+  const scale = matrix.reduce(
+    (largest, row) =>
+      row.reduce((max, entry) => Math.max(max, Math.abs(entry)), largest),
+    0
+  );
+  for (let column = 0; column < n; column++) {
+    let pivot = column;
+    for (let row = column + 1; row < n; row++) {
+      if (Math.abs(rows[row][column]) > Math.abs(rows[pivot][column])) {
+        pivot = row;
+      }
+    }
+    if (!(Math.abs(rows[pivot][column]) > SINGULAR_TOLERANCE * scale)) {
+      return null;
+    }
+    [rows[column], rows[pivot]] = [rows[pivot], rows[column]];
+    for (let row = column + 1; row < n; row++) {
+      const factor = rows[row][column] / rows[column][column];
+      for (let k = column; k <= n; k++) {
+        rows[row][k] -= factor * rows[column][k];
+      }
+    }
+  }
+  const solution = new Array<number>(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = rows[row][n];
+    for (let k = row + 1; k < n; k++) sum -= rows[row][k] * solution[k];
+    solution[row] = sum / rows[row][row];
+  }
+  return solution;
+}
+
+/**
+ * Finds the coefficients β that minimize |X·β − y|² by solving the normal equations
+ * XᵀX·β = Xᵀy. Each column of X is scaled to a largest entry of one first, so columns of
+ * very different magnitudes (e.g. a field of 1e-8 beside a constant term) stay solvable.
+ * @param design - The design matrix X, one row per observation.
+ * @param targets - The observations y.
+ * @returns β, or null if the columns of X are linearly dependent (e.g. too few
+ * observations).
+ */
+export function leastSquares(
+  design: number[][],
+  targets: number[]
+): number[] | null {
+  const columns = design[0]?.length ?? 0;
+  const scales = Array.from({ length: columns }, (_, i) =>
+    design.reduce((max, row) => Math.max(max, Math.abs(row[i])), 0)
+  );
+  if (scales.some(scale => scale === 0)) return null;
+  const scaled = design.map(row => row.map((entry, i) => entry / scales[i]));
+  const normal = Array.from({ length: columns }, (_, i) =>
+    Array.from({ length: columns }, (_, j) =>
+      scaled.reduce((sum, row) => sum + row[i] * row[j], 0)
+    )
+  );
+  const moments = Array.from({ length: columns }, (_, i) =>
+    scaled.reduce((sum, row, k) => sum + row[i] * targets[k], 0)
+  );
+  const solution = solveLinearSystem(normal, moments);
+  return solution && solution.map((value, i) => value / scales[i]);
+}
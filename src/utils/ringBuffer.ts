@@ -0,0 +1,91 @@
+/**
+ * A fixed-capacity FIFO buffer. Pushing onto a full buffer evicts the oldest item.
+ */
+export class RingBuffer<T> {
+  public readonly capacity: number;
+  private items: (T | undefined)[];
+  private start = 0; // Index of the oldest item.
+  private count = 0;
+
+  /**
+   * @param capacity - Maximum number of items (must be a positive integer).
+   * @throws Error if capacity is not a positive integer.
+   */
+  constructor(capacity: number) {
+    if (!Number.isInteger(capacity) || capacity <= 0) {
+      throw new Error('Ring buffer capacity must be a positive integer.');
+    }
+    this.capacity = capacity;
+    this.items = new Array(capacity);
+  }
+
+  /**
+   * Returns the number of items in the buffer.
+   */
+  public get size(): number {
+    return this.count;
+  }
+
+  /**
+   * Appends an item as the newest entry.
+   * @param item - The item to add.
+   * @returns The evicted oldest item if the buffer was full, otherwise undefined.
+   */
+  public push(item: T): T | undefined {
+    if (this.count < this.capacity) {
+      this.items[(this.start + this.count) % this.capacity] = item;
+      this.count++;
+      return undefined;
+    }
+    const evicted = this.items[this.start];
+    this.items[this.start] = item;
+    this.start = (this.start + 1) % this.capacity;
+    return evicted;
+  }
+
+  /**
+   * Removes and returns the newest item.
+   */
+  public pop(): T | undefined {
+    if (this.count === 0) return undefined;
+    const index = (this.start + this.count - 1) % this.capacity;
+    const item = this.items[index];
+    this.items[index] = undefined;
+    this.count--;
+    return item;
+  }
+
+  /**
+   * Returns the newest item without removing it.
+   */
+  public peek(): T | undefined {
+    if (this.count === 0) return undefined;
+    return this.items[(this.start + this.count - 1) % this.capacity];
+  }
+
+  /**
+   * Returns the oldest item without removing it.
+   */
+  public oldest(): T | undefined {
+    return this.count === 0 ? undefined : this.items[this.start];
+  }
+
+  /**
+   * Returns the items from oldest to newest.
+   */
+  public toArray(): T[] {
+    return Array.from(
+      { length: this.count },
+      (_, i) => this.items[(this.start + i) % this.capacity] as T
+    );
+  }
+
+  /**
+   * Removes all items.
+   */
+  public clear(): void {
+    this.items = new Array(this.capacity);
+    this.start = 0;
+    this.count = 0;
+  }
+}
@@ -1,14 +1,37 @@
 import { Sensor } from '../sensors/Sensor';
+import { SensorState } from '../sensors/SensorState';
+import { ChannelType } from '../sensors/SensorChannel';
+import { FaultType } from '../sensors/FaultInjector';
 
 /**
  * RunEvent interface represents a simulation event to be logged during a run.
  */
 export interface RunEvent {
   timestamp: number;
-  event: 'collision' | 'impulse' | 'energyTransfer';
+  event:
+    | 'collision'
+    | 'impulse'
+    | 'energyTransfer'
+    | 'seed'
+    | 'timeStep'
+    | 'merge'
+    | 'absorption'
+    | 'stateChange'
+    | 'fault'
+    | 'linkUp'
+    | 'linkDown';
   sensors: Sensor[];
+  spheres?: string[]; // Sphere ids, recorded with 'merge' events (survivor first).
   preMomentum?: number;
   postMomentum?: number;
   preEnergy?: number;
   postEnergy?: number;
+  seed?: number; // Random seed of the run, recorded with 'seed' events.
+  timeStep?: number; // Step size taken, recorded with 'timeStep' events.
+  errorEstimate?: number; // Scaled error norm of an error-controlled step (≤ 1 when accepted within bounds).
+  rejectedSteps?: number; // Attempts rejected before an error-controlled step was accepted.
+  fromState?: SensorState; // Previous state, recorded with 'stateChange' events.
+  toState?: SensorState; // New state, recorded with 'stateChange' events.
+  fault?: FaultType; // Kind of fault, recorded with 'fault' events.
+  channel?: ChannelType; // Channel a 'fault' event hit, if only one.
 }
@@ -0,0 +1,971 @@
+import { Sensor } from '../sensors/Sensor';
+import { SensorSphere } from '../sensors/SensorSphere';
+import { SensorState } from '../sensors/SensorState';
+import { ChannelType, SensorChannel } from '../sensors/SensorChannel';
+import { FaultType } from '../sensors/FaultInjector';
+import { NeighborGraphType } from '../sensors/NeighborGraph';
+import {
+  NOISE_PARAMETERS,
+  NoiseType,
+  createNoiseStage,
+} from '../sensors/SensorNoise';
+import { Calibration } from '../sensors/SensorCalibration';
+import {
+  LatticeType,
+  SensorNetworkLattice,
+} from '../sensors/SensorNetworkLattice';
+import {
+  CommunicationNetwork,
+  RoutingType,
+} from '../sensors/CommunicationNetwork';
+import { Vector3 } from '../core/Vector3';
+import { Random } from '../core/Random';
+import {
+  ErrorEstimatingIntegrator,
+  IntegratorType,
+  createIntegrator,
+  isErrorEstimating,
+} from '../core/Integrator';
+import { AdaptiveStepper, StepControl } from '../core/AdaptiveStepper';
+import { BroadphaseType } from './broadphase';
+import { CollisionStrategy } from './collisionAlternatives';
+import {
+  Boundary,
+  BoundaryType,
+  BoxBoundary,
+  CylinderBoundary,
+  OpenBoundary,
+  PeriodicBoundary,
+  WallBehavior,
+} from './boundaries';
+import {
+  AdaptiveStepperSnapshot,
+  BoundarySnapshot,
+  ChannelSnapshot,
+  CommunicationSnapshot,
+  EngineSnapshot,
+  LatticeSnapshot,
+  NetworkSnapshot,
+  RandomSnapshot,
+  SensorSnapshot,
+  SensorSphereSnapshot,
+  SimulationSnapshot,
+  VectorSnapshot,
+} from './snapshotTypes';
+
+/**
+ * Current snapshot schema version. Bump it whenever the schema changes shape.
+ */
+export const SNAPSHOT_VERSION = 16;
+
+/**
+ * The object graph captured by a snapshot: the engine's sensors, spheres and lattices,
+ * the spheres in the interaction network and the container sphere.
+ */
+export interface SimulationWorld {
+  sensors: Sensor[];
+  sensorSpheres: SensorSphere[];
+  network: SensorSphere[];
+  container: SensorSphere | null;
+  lattices: SensorNetworkLattice[];
+}
+
+/**
+ * The parts of a snapshot produced by captureWorld.
+ */
+export interface WorldSnapshot {
+  sensors: SensorSnapshot[];
+  spheres: SensorSphereSnapshot[];
+  network: NetworkSnapshot;
+  lattices: LatticeSnapshot[];
+  engine: Pick<EngineSnapshot, 'sensors' | 'sensorSpheres' | 'container'>;
+}
+
+/**
+ * Converts a vector to its [x, y, z] snapshot form.
+ */
+export const vectorToSnapshot = (v: Vector3): VectorSnapshot => [v.x, v.y, v.z];
+
+/**
+ * Converts an [x, y, z] snapshot back to a vector.
+ */
+export const vectorFromSnapshot = (v: VectorSnapshot): Vector3 =>
+  new Vector3(v[0], v[1], v[2]);
+
+/**
+ * Captures a random stream, including how far it has advanced.
+ * @param random - The stream to capture.
+ * @returns The stream's seed and state.
+ */
+export function serializeRandom(random: Random): RandomSnapshot {
+  return { seed: random.seed, state: random.getState() };
+}
+
+/**
+ * Recreates a random stream captured by serializeRandom.
+ * @param snapshot - The captured stream.
+ * @returns A stream that continues exactly where the captured one left off.
+ */
+export function deserializeRandom(snapshot: RandomSnapshot): Random {
+  const random = new Random(snapshot.seed);
+  random.setState(snapshot.state);
+  return random;
+}
+
+/**
+ * Captures the settings of an adaptive stepper.
+ * @param stepper - The stepper to capture.
+ * @returns Its control mode, tolerances, bounds and integrator type.
+ */
+export function adaptiveStepperToSnapshot(
+  stepper: AdaptiveStepper
+): AdaptiveStepperSnapshot {
+  return {
+    control: stepper.control,
+    tolerance: stepper.tolerance,
+    courant: stepper.courant,
+    minStep: stepper.minStep,
+    maxStep: stepper.maxStep,
+    gravity: stepper.gravity,
+    integrator: stepper.integrator.type,
+  };
+}
+
+/**
+ * Recreates an adaptive stepper captured by adaptiveStepperToSnapshot.
+ * @param snapshot - The captured settings.
+ * @returns A stepper with the same settings.
+ */
+export function adaptiveStepperFromSnapshot(
+  snapshot: AdaptiveStepperSnapshot
+): AdaptiveStepper {
+  return new AdaptiveStepper({
+    ...snapshot,
+    integrator: createIntegrator(
+      snapshot.integrator
+    ) as ErrorEstimatingIntegrator,
+  });
+}
+
+/**
+ * Converts a domain boundary to its snapshot form.
+ * @param boundary - One of the boundaries in utils/boundaries.
+ */
+export function boundaryToSnapshot(boundary: Boundary): BoundarySnapshot {
+  switch (boundary.type) {
+    case BoundaryType.BOX: {
+      const box = boundary as BoxBoundary;
+      return {
+        type: BoundaryType.BOX,
+        min: vectorToSnapshot(box.min),
+        max: vectorToSnapshot(box.max),
+        walls: box.walls,
+      };
+    }
+    case BoundaryType.CYLINDER: {
+      const cylinder = boundary as CylinderBoundary;
+      return {
+        type: BoundaryType.CYLINDER,
+        center: vectorToSnapshot(cylinder.center),
+        radius: cylinder.radius,
+        height: cylinder.height,
+        walls: cylinder.walls,
+      };
+    }
+    case BoundaryType.PERIODIC: {
+      const periodic = boundary as PeriodicBoundary;
+      return {
+        type: BoundaryType.PERIODIC,
+        min: vectorToSnapshot(periodic.min),
+        max: vectorToSnapshot(periodic.max),
+      };
+    }
+    case BoundaryType.OPEN:
+      return { type: BoundaryType.OPEN };
+  }
+}
+
+/**
+ * Recreates a domain boundary captured by boundaryToSnapshot.
+ */
+export function boundaryFromSnapshot(snapshot: BoundarySnapshot): Boundary {
+  switch (snapshot.type) {
+    case BoundaryType.BOX:
+      return new BoxBoundary(
+        vectorFromSnapshot(snapshot.min),
+        vectorFromSnapshot(snapshot.max),
+        snapshot.walls
+      );
+    case BoundaryType.CYLINDER:
+      return new CylinderBoundary(
+        vectorFromSnapshot(snapshot.center),
+        snapshot.radius,
+        snapshot.height,
+        snapshot.walls
+      );
+    case BoundaryType.PERIODIC:
+      return new PeriodicBoundary(
+        vectorFromSnapshot(snapshot.min),
+        vectorFromSnapshot(snapshot.max)
+      );
+    case BoundaryType.OPEN:
+      return new OpenBoundary();
+  }
+}
+
+/**
+ * Captures sensors and spheres by value. Every distinct Sensor and SensorSphere object is
+ * written once and referred to by index, so sensors shared between the engine, spheres and
+ * neighbor lists keep their identity when restored.
+ * @param world - The objects to capture.
+ * @returns The sensor, sphere, network and engine-list parts of a snapshot.
+ */
+export function captureWorld(world: SimulationWorld): WorldSnapshot {
+  const sensorIndices = new Map<Sensor, number>();
+  const sensors: Sensor[] = [];
+  const indexOfSensor = (sensor: Sensor): number => {
+    let index = sensorIndices.get(sensor);
+    if (index === undefined) {
+      index = sensors.length;
+      sensorIndices.set(sensor, index);
+      sensors.push(sensor);
+    }
+    return index;
+  };
+
+  const sphereIndices = new Map<SensorSphere, number>();
+  const spheres: SensorSphere[] = [];
+  const indexOfSphere = (sphere: SensorSphere): number => {
+    let index = sphereIndices.get(sphere);
+    if (index === undefined) {
+      index = spheres.length;
+      sphereIndices.set(sphere, index);
+      spheres.push(sphere);
+    }
+    return index;
+  };
+
+  const engine = {
+    sensors: world.sensors.map(indexOfSensor),
+    sensorSpheres: world.sensorSpheres.map(indexOfSphere),
+    container: world.container ? indexOfSphere(world.container) : null,
+  };
+  const network = { spheres: world.network.map(indexOfSphere) };
+  const lattices = world.lattices.map(
+    (lattice): LatticeSnapshot => ({
+      id: lattice.id,
+      options: JSON.parse(JSON.stringify(lattice.options)),
+      sensors: lattice.sensors.map(indexOfSensor),
+    })
+  );
+  // Parents may be spheres not yet indexed, so the list can grow while we walk it.
+  for (let i = 0; i < spheres.length; i++) {
+    const parent = spheres[i].parent;
+    if (parent) indexOfSphere(parent);
+  }
+
+  const sphereSnapshots = spheres.map(
+    (sphere): SensorSphereSnapshot => ({
+      id: sphere.id,
+      center: vectorToSnapshot(sphere.center),
+      radius: sphere.radius,
+      mass: sphere.mass,
+      velocity: vectorToSnapshot(sphere.velocity),
+      acceleration: vectorToSnapshot(sphere.acceleration),
+      state: sphere.state,
+      color: sphere.color,
+      random: serializeRandom(sphere.random),
+      sensors: sphere.sensors.map(indexOfSensor),
+      parent: sphere.parent ? indexOfSphere(sphere.parent) : null,
+    })
+  );
+
+  // Neighbor lists may reach sensors not yet indexed, so the list can grow while we walk it.
+  const sensorSnapshots: SensorSnapshot[] = [];
+  for (let i = 0; i < sensors.length; i++) {
+    const sensor = sensors[i];
+    sensorSnapshots.push({
+      id: sensor.id,
+      position: vectorToSnapshot(sensor.position),
+      velocity: vectorToSnapshot(sensor.velocity),
+      acceleration: vectorToSnapshot(sensor.acceleration),
+      mass: sensor.mass,
+      charge: sensor.charge,
+      state: sensor.state,
+      targetState: sensor.targetState,
+      transitionRemaining: sensor.transitionRemaining,
+      calibrationDue: sensor.calibrationDue,
+      color: sensor.color,
+      neighbors: sensor.neighbors.map(indexOfSensor),
+      vibrationAmplitude: vectorToSnapshot(sensor.vibrationAmplitude),
+      vibrationFrequency: vectorToSnapshot(sensor.vibrationFrequency),
+      vibrationPhase: vectorToSnapshot(sensor.vibrationPhase),
+      rotationAxis: vectorToSnapshot(sensor.rotationAxis),
+      rotationAngle: sensor.rotationAngle,
+      rotationSpeed: sensor.rotationSpeed,
+      wobbleAmplitude: sensor.wobbleAmplitude,
+      wobbleFrequency: sensor.wobbleFrequency,
+      temperature: sensor.temperature,
+      emissivity: sensor.emissivity,
+      radiatedEnergy: sensor.radiatedEnergy,
+      radius: sensor.radius,
+      spin: sensor.spin,
+      restitution: sensor.restitution,
+      friction: sensor.friction,
+      channels: sensor.channels.map(channelToSnapshot),
+    });
+  }
+
+  return {
+    sensors: sensorSnapshots,
+    spheres: sphereSnapshots,
+    network,
+    lattices,
+    engine,
+  };
+}
+
+/**
+ * Rebuilds the object graph captured by captureWorld. Each call creates fresh objects.
+ * @param snapshot - A validated snapshot.
+ * @returns The restored sensors, spheres, network, container and lattices.
+ */
+export function restoreWorld(snapshot: SimulationSnapshot): SimulationWorld {
+  const sensors = snapshot.sensors.map(data => {
+    const sensor = new Sensor(
+      data.id,
+      vectorFromSnapshot(data.position),
+      vectorFromSnapshot(data.velocity),
+      data.mass,
+      data.charge,
+      data.state
+    );
+    sensor.acceleration = vectorFromSnapshot(data.acceleration);
+    sensor.targetState = data.targetState;
+    sensor.transitionRemaining = data.transitionRemaining;
+    sensor.calibrationDue = data.calibrationDue;
+    sensor.color = data.color;
+    sensor.vibrationAmplitude = vectorFromSnapshot(data.vibrationAmplitude);
+    sensor.vibrationFrequency = vectorFromSnapshot(data.vibrationFrequency);
+    sensor.vibrationPhase = vectorFromSnapshot(data.vibrationPhase);
+    sensor.rotationAxis = vectorFromSnapshot(data.rotationAxis);
+    sensor.rotationAngle = data.rotationAngle;
+    sensor.rotationSpeed = data.rotationSpeed;
+    sensor.wobbleAmplitude = data.wobbleAmplitude;
+    sensor.wobbleFrequency = data.wobbleFrequency;
+    sensor.temperature = data.temperature;
+    sensor.emissivity = data.emissivity;
+    sensor.radiatedEnergy = data.radiatedEnergy;
+    sensor.radius = data.radius;
+    sensor.spin = data.spin;
+    sensor.restitution = data.restitution;
+    sensor.friction = data.friction;
+    sensor.channels = data.channels.map(channelFromSnapshot);
+    return sensor;
+  });
+  snapshot.sensors.forEach((data, i) => {
+    sensors[i].neighbors = data.neighbors.map(index => sensors[index]);
+  });
+
+  const spheres = snapshot.spheres.map(data => {
+    const sphere = new SensorSphere(
+      data.id,
+      vectorFromSnapshot(data.center),
+      data.radius,
+      0,
+      data.state,
+      deserializeRandom(data.random)
+    );
+    sphere.sensors = data.sensors.map(index => sensors[index]);
+    sphere.mass = data.mass;
+    sphere.velocity = vectorFromSnapshot(data.velocity);
+    sphere.acceleration = vectorFromSnapshot(data.acceleration);
+    sphere.color = data.color;
+    return sphere;
+  });
+  snapshot.spheres.forEach((data, i) => {
+    spheres[i].setParent(data.parent === null ? null : spheres[data.parent]);
+  });
+
+  return {
+    sensors: snapshot.engine.sensors.map(index => sensors[index]),
+    sensorSpheres: snapshot.engine.sensorSpheres.map(index => spheres[index]),
+    network: snapshot.network.spheres.map(index => spheres[index]),
+    container:
+      snapshot.engine.container === null
+        ? null
+        : spheres[snapshot.engine.container],
+    lattices: snapshot.lattices.map(
+      data =>
+        new SensorNetworkLattice(
+          data.id,
+          data.options,
+          undefined,
+          data.sensors.map(index => sensors[index])
+        )
+    ),
+  };
+}
+
+/**
+ * Captures the traffic of a communication network.
+ * @param network - The network.
+ * @returns A copy of its messages, links, inboxes, statistics and loss stream.
+ */
+export function communicationToSnapshot(
+  network: CommunicationNetwork
+): CommunicationSnapshot {
+  return JSON.parse(
+    JSON.stringify({
+      random: serializeRandom(network.random),
+      nextMessageId: network.nextMessageId,
+      inFlight: network.inFlight,
+      busyUntil: [...network.busyUntil],
+      seen: [...network.seen].map(([id, messages]) => [id, [...messages]]),
+      inboxes: [...network.inboxes],
+      stats: network.stats,
+    })
+  );
+}
+
+/**
+ * Puts a communication network back into a captured state.
+ * @param network - The network.
+ * @param snapshot - The captured traffic, or null to clear the network.
+ */
+export function restoreCommunication(
+  network: CommunicationNetwork,
+  snapshot: CommunicationSnapshot | null
+): void {
+  network.clear();
+  if (!snapshot) return;
+  const copy: CommunicationSnapshot = JSON.parse(JSON.stringify(snapshot));
+  network.random = deserializeRandom(copy.random);
+  network.nextMessageId = copy.nextMessageId;
+  network.inFlight = copy.inFlight;
+  network.busyUntil = new Map(copy.busyUntil);
+  network.seen = new Map(
+    copy.seen.map(([id, messages]) => [id, new Set(messages)])
+  );
+  network.inboxes = new Map(copy.inboxes);
+  network.stats = copy.stats;
+}
+
+function channelToSnapshot(channel: SensorChannel): ChannelSnapshot {
+  return {
+    type: channel.type,
+    sampleRate: channel.sampleRate,
+    capacity: channel.capacity,
+    nextSampleTime: channel.nextSampleTime,
+    noise: channel.noise.map(stage => stage.toSpec()),
+    random: serializeRandom(channel.random),
+    offset: [...channel.offset],
+    frozenUntil: finiteOrNull(channel.frozenUntil),
+    droppedUntil: finiteOrNull(channel.droppedUntil),
+    calibration: channel.calibration && copyCalibration(channel.calibration),
+    samples: channel
+      .getSamples()
+      .map(sample => ({ time: sample.time, value: [...sample.value] })),
+  };
+}
+
+function channelFromSnapshot(data: ChannelSnapshot): SensorChannel {
+  const channel = new SensorChannel(
+    data.type,
+    deserializeRandom(data.random),
+    data.sampleRate,
+    data.capacity
+  );
+  data.samples.forEach(sample =>
+    channel.record(sample.time, [...sample.value])
+  );
+  channel.nextSampleTime = data.nextSampleTime;
+  channel.noise = data.noise.map(createNoiseStage);
+  channel.offset = [...data.offset];
+  channel.frozenUntil = data.frozenUntil ?? Infinity;
+  channel.droppedUntil = data.droppedUntil ?? Infinity;
+  channel.calibration = data.calibration && copyCalibration(data.calibration);
+  return channel;
+}
+
+function copyCalibration(calibration: Calibration): Calibration {
+  return {
+    gain: [...calibration.gain],
+    misalignment: calibration.misalignment.map(row => [...row]),
+    offset: [...calibration.offset],
+    residuals: [...calibration.residuals],
+    readings: calibration.readings,
+  };
+}
+
+function finiteOrNull(value: number): number | null {
+  return Number.isFinite(value) ? value : null;
+}
+
+/* ============================= Schema validation ============================= */
+
+function fail(path: string, expectation: string): never {
+  throw new Error(`Invalid snapshot: ${path} must be ${expectation}.`);
+}
+
+function checkObject(value: unknown, path: string): Record<string, unknown> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    fail(path, 'an object');
+  }
+  return value as Record<string, unknown>;
+}
+
+function checkArray(value: unknown, path: string): unknown[] {
+  if (!Array.isArray(value)) fail(path, 'an array');
+  return value as unknown[];
+}
+
+function checkNumber(value: unknown, path: string): void {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    fail(path, 'a finite number');
+  }
+}
+
+function checkString(value: unknown, path: string): void {
+  if (typeof value !== 'string') fail(path, 'a string');
+}
+
+function checkBoolean(value: unknown, path: string): void {
+  if (typeof value !== 'boolean') fail(path, 'a boolean');
+}
+
+function checkVector(value: unknown, path: string): void {
+  const array = checkArray(value, path);
+  if (array.length !== 3) fail(path, 'an [x, y, z] array');
+  array.forEach((component, i) => checkNumber(component, `${path}[${i}]`));
+}
+
+function checkEnum(
+  value: unknown,
+  path: string,
+  allowed: Record<string, string>
+): void {
+  const values = Object.values(allowed);
+  if (!values.includes(value as string)) {
+    fail(path, `one of ${values.join(', ')}`);
+  }
+}
+
+function checkIndex(value: unknown, path: string, length: number): void {
+  if (
+    !Number.isInteger(value) ||
+    (value as number) < 0 ||
+    (value as number) >= length
+  ) {
+    fail(path, `an index below ${length}`);
+  }
+}
+
+function checkIndices(value: unknown, path: string, length: number): void {
+  checkArray(value, path).forEach((index, i) =>
+    checkIndex(index, `${path}[${i}]`, length)
+  );
+}
+
+function checkAdaptiveStepper(value: unknown, path: string): void {
+  const stepper = checkObject(value, path);
+  checkEnum(stepper.control, `${path}.control`, StepControl);
+  checkNumber(stepper.tolerance, `${path}.tolerance`);
+  checkNumber(stepper.courant, `${path}.courant`);
+  checkNumber(stepper.minStep, `${path}.minStep`);
+  checkNumber(stepper.maxStep, `${path}.maxStep`);
+  checkBoolean(stepper.gravity, `${path}.gravity`);
+  checkEnum(stepper.integrator, `${path}.integrator`, IntegratorType);
+  if (
+    !isErrorEstimating(createIntegrator(stepper.integrator as IntegratorType))
+  ) {
+    fail(`${path}.integrator`, 'an error-estimating integrator');
+  }
+}
+
+function checkBoundary(value: unknown, path: string): void {
+  const boundary = checkObject(value, path);
+  checkEnum(boundary.type, `${path}.type`, BoundaryType);
+  const type = boundary.type as BoundaryType;
+  if (type === BoundaryType.BOX || type === BoundaryType.PERIODIC) {
+    checkVector(boundary.min, `${path}.min`);
+    checkVector(boundary.max, `${path}.max`);
+    const max = boundary.max as VectorSnapshot;
+    if (!(boundary.min as VectorSnapshot).every((v, axis) => v < max[axis])) {
+      fail(`${path}.max`, 'above min on every axis');
+    }
+  }
+  if (type === BoundaryType.CYLINDER) {
+    checkVector(boundary.center, `${path}.center`);
+    (['radius', 'height'] as const).forEach(field => {
+      checkNumber(boundary[field], `${path}.${field}`);
+      if ((boundary[field] as number) <= 0) {
+        fail(`${path}.${field}`, 'greater than zero');
+      }
+    });
+  }
+  if (type === BoundaryType.BOX || type === BoundaryType.CYLINDER) {
+    checkEnum(boundary.walls, `${path}.walls`, WallBehavior);
+  }
+}
+
+function checkRandom(value: unknown, path: string): void {
+  const random = checkObject(value, path);
+  if (!Number.isInteger(random.seed)) fail(`${path}.seed`, 'an integer');
+  const state = checkArray(random.state, `${path}.state`);
+  if (
+    state.length !== 4 ||
+    !state.every(word => Number.isInteger(word)) ||
+    state.every(word => (word as number) >>> 0 === 0)
+  ) {
+    fail(`${path}.state`, 'four integers, not all zero');
+  }
+}
+
+function checkFaults(value: unknown, path: string): void {
+  checkArray(value, path).forEach((item, i) => {
+    const fault = checkObject(item, `${path}[${i}]`);
+    checkNumber(fault.time, `${path}[${i}].time`);
+    const spec = checkObject(fault.spec, `${path}[${i}].spec`);
+    checkEnum(spec.type, `${path}[${i}].spec.type`, FaultType);
+    checkString(spec.target, `${path}[${i}].spec.target`);
+    if (spec.channel !== undefined) {
+      checkEnum(spec.channel, `${path}[${i}].spec.channel`, ChannelType);
+    }
+    (['time', 'rate', 'duration'] as const).forEach(field => {
+      if (spec[field] !== undefined) {
+        checkNumber(spec[field], `${path}[${i}].spec.${field}`);
+      }
+    });
+    if (spec.bias !== undefined) {
+      checkNumbers(spec.bias, `${path}[${i}].spec.bias`);
+    }
+  });
+}
+
+function checkNumbers(value: unknown, path: string): void {
+  checkArray(value, path).forEach((entry, i) =>
+    checkNumber(entry, `${path}[${i}]`)
+  );
+}
+
+function checkMatrix(value: unknown, path: string): void {
+  checkArray(value, path).forEach((row, i) =>
+    checkNumbers(row, `${path}[${i}]`)
+  );
+}
+
+function checkChannel(value: unknown, path: string): void {
+  const channel = checkObject(value, path);
+  checkEnum(channel.type, `${path}.type`, ChannelType);
+  checkNumber(channel.sampleRate, `${path}.sampleRate`);
+  if ((channel.sampleRate as number) <= 0) {
+    fail(`${path}.sampleRate`, 'greater than zero');
+  }
+  if (
+    !Number.isInteger(channel.capacity) ||
+    (channel.capacity as number) <= 0
+  ) {
+    fail(`${path}.capacity`, 'a positive integer');
+  }
+  checkNumber(channel.nextSampleTime, `${path}.nextSampleTime`);
+  checkArray(channel.noise, `${path}.noise`).forEach((value, i) => {
+    const stage = checkObject(value, `${path}.noise[${i}]`);
+    checkEnum(stage.type, `${path}.noise[${i}].type`, NoiseType);
+    NOISE_PARAMETERS[stage.type as NoiseType].forEach(field =>
+      checkNumber(stage[field], `${path}.noise[${i}].${field}`)
+    );
+    if (stage.type === NoiseType.LINEAR_RESPONSE) {
+      checkMatrix(stage.matrix, `${path}.noise[${i}].matrix`);
+    }
+  });
+  checkRandom(channel.random, `${path}.random`);
+  checkNumbers(channel.offset, `${path}.offset`);
+  (['frozenUntil', 'droppedUntil'] as const).forEach(field => {
+    if (channel[field] !== null)
+      checkNumber(channel[field], `${path}.${field}`);
+  });
+  if (channel.calibration !== null) {
+    const calibration = checkObject(channel.calibration, `${path}.calibration`);
+    (['gain', 'offset', 'residuals'] as const).forEach(field =>
+      checkNumbers(calibration[field], `${path}.calibration.${field}`)
+    );
+    checkMatrix(calibration.misalignment, `${path}.calibration.misalignment`);
+    checkNumber(calibration.readings, `${path}.calibration.readings`);
+  }
+  checkArray(channel.samples, `${path}.samples`).forEach((value, i) => {
+    const sample = checkObject(value, `${path}.samples[${i}]`);
+    checkNumber(sample.time, `${path}.samples[${i}].time`);
+    checkArray(sample.value, `${path}.samples[${i}].value`).forEach(
+      (component, j) =>
+        checkNumber(component, `${path}.samples[${i}].value[${j}]`)
+    );
+  });
+}
+
+function checkMessage(value: unknown, path: string): void {
+  const message = checkObject(value, path);
+  checkNumber(message.id, `${path}.id`);
+  checkString(message.source, `${path}.source`);
+  if (message.destination !== null) {
+    checkString(message.destination, `${path}.destination`);
+  }
+  checkNumbers(message.payload, `${path}.payload`);
+  checkNumber(message.size, `${path}.size`);
+  checkNumber(message.sentAt, `${path}.sentAt`);
+  checkArray(message.path, `${path}.path`).forEach((id, i) =>
+    checkString(id, `${path}.path[${i}]`)
+  );
+}
+
+function checkCommunication(value: unknown, path: string): void {
+  const communication = checkObject(value, path);
+  checkRandom(communication.random, `${path}.random`);
+  checkNumber(communication.nextMessageId, `${path}.nextMessageId`);
+  checkArray(communication.inFlight, `${path}.inFlight`).forEach((item, i) => {
+    const transmission = checkObject(item, `${path}.inFlight[${i}]`);
+    checkMessage(transmission.message, `${path}.inFlight[${i}].message`);
+    checkString(transmission.from, `${path}.inFlight[${i}].from`);
+    checkString(transmission.to, `${path}.inFlight[${i}].to`);
+    checkNumber(transmission.arrival, `${path}.inFlight[${i}].arrival`);
+  });
+  checkArray(communication.busyUntil, `${path}.busyUntil`).forEach(
+    (item, i) => {
+      const entry = checkArray(item, `${path}.busyUntil[${i}]`);
+      checkString(entry[0], `${path}.busyUntil[${i}][0]`);
+      checkNumber(entry[1], `${path}.busyUntil[${i}][1]`);
+    }
+  );
+  checkArray(communication.seen, `${path}.seen`).forEach((item, i) => {
+    const entry = checkArray(item, `${path}.seen[${i}]`);
+    checkString(entry[0], `${path}.seen[${i}][0]`);
+    checkNumbers(entry[1], `${path}.seen[${i}][1]`);
+  });
+  checkArray(communication.inboxes, `${path}.inboxes`).forEach((item, i) => {
+    const entry = checkArray(item, `${path}.inboxes[${i}]`);
+    checkString(entry[0], `${path}.inboxes[${i}][0]`);
+    checkArray(entry[1], `${path}.inboxes[${i}][1]`).forEach((delivery, j) => {
+      const at = `${path}.inboxes[${i}][1][${j}]`;
+      const data = checkObject(delivery, at);
+      checkMessage(data.message, `${at}.message`);
+      checkString(data.receiver, `${at}.receiver`);
+      checkNumber(data.time, `${at}.time`);
+    });
+  });
+  const stats = checkObject(communication.stats, `${path}.stats`);
+  [
+    'sent',
+    'delivered',
+    'transmissions',
+    'lost',
+    'dropped',
+    'latency',
+    'hops',
+  ].forEach(field => checkNumber(stats[field], `${path}.stats.${field}`));
+}
+
+const SENSOR_VECTOR_FIELDS = [
+  'position',
+  'velocity',
+  'acceleration',
+  'vibrationAmplitude',
+  'vibrationFrequency',
+  'vibrationPhase',
+  'rotationAxis',
+];
+
+const SENSOR_NUMBER_FIELDS = [
+  'charge',
+  'transitionRemaining',
+  'rotationAngle',
+  'rotationSpeed',
+  'wobbleAmplitude',
+  'wobbleFrequency',
+  'temperature',
+  'emissivity',
+  'radiatedEnergy',
+  'radius',
+  'spin',
+  'restitution',
+  'friction',
+];
+
+/**
+ * Checks that a parsed JSON value matches the snapshot schema, including that every
+ * index refers to an existing sensor or sphere.
+ * @param data - The value to check (e.g. the result of JSON.parse).
+ * @returns The value typed as a SimulationSnapshot.
+ * @throws Error describing the first field that does not match the schema.
+ */
+export function validateSnapshot(data: unknown): SimulationSnapshot {
+  const root = checkObject(data, 'snapshot');
+  if (root.version !== SNAPSHOT_VERSION) {
+    throw new Error(
+      `Unsupported snapshot version: ${String(
+        root.version
+      )} (expected ${SNAPSHOT_VERSION}).`
+    );
+  }
+
+  const sensors = checkArray(root.sensors, 'sensors');
+  const spheres = checkArray(root.spheres, 'spheres');
+
+  sensors.forEach((value, i) => {
+    const path = `sensors[${i}]`;
+    const sensor = checkObject(value, path);
+    checkString(sensor.id, `${path}.id`);
+    checkString(sensor.color, `${path}.color`);
+    checkEnum(sensor.state, `${path}.state`, SensorState);
+    if (sensor.targetState !== null) {
+      checkEnum(sensor.targetState, `${path}.targetState`, SensorState);
+    }
+    checkBoolean(sensor.calibrationDue, `${path}.calibrationDue`);
+    checkNumber(sensor.mass, `${path}.mass`);
+    if ((sensor.mass as number) <= 0) fail(`${path}.mass`, 'greater than zero');
+    SENSOR_VECTOR_FIELDS.forEach(field =>
+      checkVector(sensor[field], `${path}.${field}`)
+    );
+    SENSOR_NUMBER_FIELDS.forEach(field =>
+      checkNumber(sensor[field], `${path}.${field}`)
+    );
+    checkIndices(sensor.neighbors, `${path}.neighbors`, sensors.length);
+    checkArray(sensor.channels, `${path}.channels`).forEach((channel, j) =>
+      checkChannel(channel, `${path}.channels[${j}]`)
+    );
+  });
+
+  spheres.forEach((value, i) => {
+    const path = `spheres[${i}]`;
+    const sphere = checkObject(value, path);
+    checkString(sphere.id, `${path}.id`);
+    checkString(sphere.color, `${path}.color`);
+    checkEnum(sphere.state, `${path}.state`, SensorState);
+    checkNumber(sphere.radius, `${path}.radius`);
+    checkNumber(sphere.mass, `${path}.mass`);
+    checkVector(sphere.center, `${path}.center`);
+    checkVector(sphere.velocity, `${path}.velocity`);
+    checkVector(sphere.acceleration, `${path}.acceleration`);
+    checkRandom(sphere.random, `${path}.random`);
+    checkIndices(sphere.sensors, `${path}.sensors`, sensors.length);
+    if (sphere.parent !== null) {
+      checkIndex(sphere.parent, `${path}.parent`, spheres.length);
+    }
+  });
+  // Walk each parent chain; reaching a sphere twice means the chain loops.
+  spheres.forEach((_, i) => {
+    const visited = new Set<number>();
+    let index: number | null = i;
+    while (index !== null) {
+      if (visited.has(index)) {
+        fail(`spheres[${i}].parent`, 'a chain of containers without cycles');
+      }
+      visited.add(index);
+      index = (spheres[index] as Record<string, unknown>).parent as
+        | number
+        | null;
+    }
+  });
+
+  const time = checkObject(root.time, 'time');
+  checkNumber(time.globalTime, 'time.globalTime');
+  checkNumber(time.deltaTime, 'time.deltaTime');
+  if ((time.deltaTime as number) <= 0) {
+    fail('time.deltaTime', 'greater than zero');
+  }
+  checkBoolean(time.timeReversed, 'time.timeReversed');
+
+  const engine = checkObject(root.engine, 'engine');
+  checkEnum(engine.integrator, 'engine.integrator', IntegratorType);
+  checkEnum(engine.broadphase, 'engine.broadphase', BroadphaseType);
+  checkEnum(
+    engine.collisionStrategy,
+    'engine.collisionStrategy',
+    CollisionStrategy
+  );
+  checkNumber(engine.contactStiffness, 'engine.contactStiffness');
+  if ((engine.contactStiffness as number) <= 0) {
+    fail('engine.contactStiffness', 'greater than zero');
+  }
+  checkNumber(engine.contactDamping, 'engine.contactDamping');
+  if ((engine.contactDamping as number) < 0) {
+    fail('engine.contactDamping', 'non-negative');
+  }
+  checkNumber(engine.positionCorrection, 'engine.positionCorrection');
+  if ((engine.positionCorrection as number) < 0) {
+    fail('engine.positionCorrection', 'non-negative');
+  }
+  checkBoolean(
+    engine.continuousCollisionDetection,
+    'engine.continuousCollisionDetection'
+  );
+  checkNumber(engine.sphereRestitution, 'engine.sphereRestitution');
+  checkBoolean(engine.accretion, 'engine.accretion');
+  if (engine.boundary !== null) {
+    checkBoundary(engine.boundary, 'engine.boundary');
+  }
+  checkBoolean(engine.resetAndRestart, 'engine.resetAndRestart');
+  if (engine.adaptiveStepper !== null) {
+    checkAdaptiveStepper(engine.adaptiveStepper, 'engine.adaptiveStepper');
+  }
+  if (engine.faultInjector !== null) {
+    checkFaults(engine.faultInjector, 'engine.faultInjector');
+  }
+  if (engine.neighborGraph !== null) {
+    const graph = checkObject(engine.neighborGraph, 'engine.neighborGraph');
+    checkEnum(graph.type, 'engine.neighborGraph.type', NeighborGraphType);
+    (['k', 'radius', 'interval'] as const).forEach(field => {
+      if (graph[field] !== undefined) {
+        checkNumber(graph[field], `engine.neighborGraph.${field}`);
+      }
+    });
+  }
+  if (engine.communication !== null) {
+    const options = checkObject(engine.communication, 'engine.communication');
+    checkEnum(options.routing, 'engine.communication.routing', RoutingType);
+    (
+      [
+        'propagationSpeed',
+        'hopDelay',
+        'bandwidth',
+        'lossProbability',
+        'range',
+        'ttl',
+      ] as const
+    ).forEach(field => {
+      if (options[field] !== undefined) {
+        checkNumber(options[field], `engine.communication.${field}`);
+      }
+    });
+    checkArray(options.sinks, 'engine.communication.sinks').forEach((id, i) =>
+      checkString(id, `engine.communication.sinks[${i}]`)
+    );
+  }
+  checkRandom(engine.random, 'engine.random');
+  checkRandom(engine.randomizeStream, 'engine.randomizeStream');
+  checkIndices(engine.sensors, 'engine.sensors', sensors.length);
+  checkIndices(engine.sensorSpheres, 'engine.sensorSpheres', spheres.length);
+  if (engine.container !== null) {
+    checkIndex(engine.container, 'engine.container', spheres.length);
+  }
+
+  const network = checkObject(root.network, 'network');
+  checkIndices(network.spheres, 'network.spheres', spheres.length);
+
+  if (engine.communication !== null) {
+    checkCommunication(root.communication, 'communication');
+  } else if (root.communication !== null) {
+    fail('communication', 'null when engine.communication is');
+  }
+
+  checkArray(root.lattices, 'lattices').forEach((value, i) => {
+    const path = `lattices[${i}]`;
+    const lattice = checkObject(value, path);
+    checkString(lattice.id, `${path}.id`);
+    const options = checkObject(lattice.options, `${path}.options`);
+    checkEnum(options.type, `${path}.options.type`, LatticeType);
+    checkNumber(options.spacing, `${path}.options.spacing`);
+    checkIndices(lattice.sensors, `${path}.sensors`, sensors.length);
+  });
+
+  return data as SimulationSnapshot;
+}
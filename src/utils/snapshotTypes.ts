@@ -0,0 +1,217 @@
+import { IntegratorType } from '../core/Integrator';
+import { StepControl } from '../core/AdaptiveStepper';
+import { BroadphaseType } from './broadphase';
+import { CollisionStrategy } from './collisionAlternatives';
+import { BoundaryType, WallBehavior } from './boundaries';
+import { SensorState } from '../sensors/SensorState';
+import { ChannelType, Sample } from '../sensors/SensorChannel';
+import { NoiseSpec } from '../sensors/SensorNoise';
+import { ScheduledFault } from '../sensors/FaultInjector';
+import { NeighborGraphOptions } from '../sensors/NeighborGraph';
+import { Calibration } from '../sensors/SensorCalibration';
+import { LatticeOptions } from '../sensors/SensorNetworkLattice';
+import {
+  CommunicationOptions,
+  Delivery,
+  NetworkStats,
+  Transmission,
+} from '../sensors/CommunicationNetwork';
+
+/**
+ * A vector stored as [x, y, z].
+ */
+export type VectorSnapshot = [number, number, number];
+
+/**
+ * A random stream: its seed and its current xoshiro128** state words.
+ */
+export interface RandomSnapshot {
+  seed: number;
+  state: number[];
+}
+
+/**
+ * A sensor measurement channel with its noise stages (including their state), noise
+ * stream, injected faults, calibration and time series. A fault that lasts for good is stored with a
+ * null end time, since JSON has no Infinity.
+ */
+export interface ChannelSnapshot {
+  type: ChannelType;
+  sampleRate: number;
+  capacity: number;
+  nextSampleTime: number;
+  noise: NoiseSpec[];
+  random: RandomSnapshot;
+  offset: number[];
+  frozenUntil: number | null;
+  droppedUntil: number | null;
+  calibration: Calibration | null;
+  samples: Sample[];
+}
+
+/**
+ * Every field of a Sensor. Neighbors are stored as indices into SimulationSnapshot.sensors.
+ */
+export interface SensorSnapshot {
+  id: string;
+  position: VectorSnapshot;
+  velocity: VectorSnapshot;
+  acceleration: VectorSnapshot;
+  mass: number;
+  charge: number;
+  state: SensorState;
+  targetState: SensorState | null;
+  transitionRemaining: number;
+  calibrationDue: boolean;
+  color: string;
+  neighbors: number[];
+  vibrationAmplitude: VectorSnapshot;
+  vibrationFrequency: VectorSnapshot;
+  vibrationPhase: VectorSnapshot;
+  rotationAxis: VectorSnapshot;
+  rotationAngle: number;
+  rotationSpeed: number;
+  wobbleAmplitude: number;
+  wobbleFrequency: number;
+  temperature: number;
+  emissivity: number;
+  radiatedEnergy: number;
+  radius: number;
+  spin: number;
+  restitution: number;
+  friction: number;
+  channels: ChannelSnapshot[];
+}
+
+/**
+ * Every field of a SensorSphere. Its sensors are stored as indices into
+ * SimulationSnapshot.sensors, so a sensor shared with the engine is restored once, and
+ * its parent container as an index into SimulationSnapshot.spheres.
+ */
+export interface SensorSphereSnapshot {
+  id: string;
+  center: VectorSnapshot;
+  radius: number;
+  mass: number;
+  velocity: VectorSnapshot;
+  acceleration: VectorSnapshot;
+  state: SensorState;
+  color: string;
+  random: RandomSnapshot;
+  sensors: number[];
+  parent: number | null;
+}
+
+/**
+ * A sensor lattice registered with the engine: its layout and its sensors, as indices
+ * into SimulationSnapshot.sensors in site order.
+ */
+export interface LatticeSnapshot {
+  id: string;
+  options: LatticeOptions;
+  sensors: number[];
+}
+
+/**
+ * The traffic of the engine's communication network: messages in flight, busy links,
+ * the messages each sensor has had and delivered, and the loss stream. Maps are stored
+ * as [key, value] entries.
+ */
+export interface CommunicationSnapshot {
+  random: RandomSnapshot;
+  nextMessageId: number;
+  inFlight: Transmission[];
+  busyUntil: [string, number][];
+  seen: [string, number[]][];
+  inboxes: [string, Delivery[]][];
+  stats: NetworkStats;
+}
+
+/**
+ * The clock of a run.
+ */
+export interface TimeSnapshot {
+  globalTime: number;
+  deltaTime: number;
+  timeReversed: boolean;
+}
+
+/**
+ * The settings of an AdaptiveStepper; its integrator is stored by type.
+ */
+export interface AdaptiveStepperSnapshot {
+  control: StepControl;
+  tolerance: number;
+  courant: number;
+  minStep: number;
+  maxStep: number;
+  gravity: boolean;
+  integrator: IntegratorType;
+}
+
+/**
+ * The engine's domain boundary, with the fields of its type.
+ */
+export type BoundarySnapshot =
+  | {
+      type: BoundaryType.BOX;
+      min: VectorSnapshot;
+      max: VectorSnapshot;
+      walls: WallBehavior;
+    }
+  | {
+      type: BoundaryType.CYLINDER;
+      center: VectorSnapshot;
+      radius: number;
+      height: number;
+      walls: WallBehavior;
+    }
+  | { type: BoundaryType.PERIODIC; min: VectorSnapshot; max: VectorSnapshot }
+  | { type: BoundaryType.OPEN };
+
+/**
+ * Engine settings and the engine's own sensor and sphere lists (as indices).
+ */
+export interface EngineSnapshot {
+  integrator: IntegratorType;
+  broadphase: BroadphaseType;
+  collisionStrategy: CollisionStrategy;
+  contactStiffness: number;
+  contactDamping: number;
+  positionCorrection: number;
+  continuousCollisionDetection: boolean;
+  sphereRestitution: number;
+  accretion: boolean;
+  boundary: BoundarySnapshot | null;
+  resetAndRestart: boolean;
+  adaptiveStepper: AdaptiveStepperSnapshot | null;
+  faultInjector: ScheduledFault[] | null; // Faults with their drawn times.
+  neighborGraph: NeighborGraphOptions | null;
+  communication: CommunicationOptions | null; // Its traffic is in SimulationSnapshot.communication.
+  random: RandomSnapshot;
+  randomizeStream: RandomSnapshot;
+  sensors: number[];
+  sensorSpheres: number[];
+  container: number | null;
+}
+
+/**
+ * The spheres taking part in inter-sphere interactions (indices into SimulationSnapshot.spheres).
+ */
+export interface NetworkSnapshot {
+  spheres: number[];
+}
+
+/**
+ * A complete, JSON-serializable snapshot of a SimulationEngine.
+ */
+export interface SimulationSnapshot {
+  version: number;
+  time: TimeSnapshot;
+  engine: EngineSnapshot;
+  network: NetworkSnapshot;
+  spheres: SensorSphereSnapshot[];
+  sensors: SensorSnapshot[];
+  lattices: LatticeSnapshot[];
+  communication: CommunicationSnapshot | null;
+}
@@ -2,14 +2,11 @@ const Sequencer = require('@jest/test-sequencer').default;
 
 class CustomSequencer extends Sequencer {
   sort(tests) {
-    // Move collision tests to the end
-    const collisionBenchmarkTest = tests.find(test =>
-      test.path.includes('collisionBenchmark.test.ts')
-    );
-    const otherTests = tests.filter(
-      test => !test.path.includes('collisionBenchmark.test.ts')
-    );
-    return [...otherTests, collisionBenchmarkTest];
+    // Move benchmark tests to the end
+    const isBenchmark = test => /Benchmark\.test\.ts$/.test(test.path);
+    const benchmarkTests = tests.filter(isBenchmark);
+    const otherTests = tests.filter(test => !isBenchmark(test));
+    return [...otherTests, ...benchmarkTests];
   }
 }
 
@@ -0,0 +1,240 @@
+/// <reference types="jest" />
+
+import { expect } from '@jest/globals';
+import { AdaptiveStepper, StepControl } from '../src/core/AdaptiveStepper';
+import {
+  DormandPrinceIntegrator,
+  IntegratorType,
+  constantAcceleration,
+  createIntegrator,
+  isErrorEstimating,
+} from '../src/core/Integrator';
+import { Constants } from '../src/core/Constants';
+import { Logger } from '../src/core/Logger';
+import { Vector3 } from '../src/core/Vector3';
+import { Sensor } from '../src/sensors/Sensor';
+import { SimulationEngine } from '../src/SimulationEngine';
+import { GravityForceProvider } from '../src/forces/ForceProviders';
+
+describe('AdaptiveStepper', () => {
+  const G = Constants.GRAVITATIONAL_CONSTANT;
+  // Equal masses chosen so that G * (m1 + m2) = 1.
+  const mass = 0.5 / G;
+
+  // A highly eccentric binary (e ≈ 0.95, period ≈ 2.3 s) starting at apoapsis: slow
+  // there, fast at periapsis.
+  const createEccentricBinary = (): Sensor[] => {
+    const sensors = [
+      new Sensor('A', new Vector3(-0.5, 0, 0), new Vector3(0, -0.112, 0), mass),
+      new Sensor('B', new Vector3(0.5, 0, 0), new Vector3(0, 0.112, 0), mass),
+    ];
+    sensors.forEach(sensor => (sensor.radius = 0.01));
+    return sensors;
+  };
+
+  const createEngine = (stepper: AdaptiveStepper): SimulationEngine => {
+    const engine = new SimulationEngine(createEccentricBinary(), [], 0.01);
+    engine.addForceProvider(new GravityForceProvider());
+    engine.adaptiveStepper = stepper;
+    return engine;
+  };
+
+  const timeSteps = (): number[] =>
+    Logger.runLog
+      .filter(event => event.event === 'timeStep')
+      .map(event => event.timeStep as number);
+
+  beforeEach(() => {
+    Logger.clearRunLog();
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+    jest.spyOn(Logger, 'debug').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    Logger.clearRunLog();
+    jest.restoreAllMocks();
+  });
+
+  test('defaults to error control within the engine time step bounds', () => {
+    const stepper = new AdaptiveStepper();
+    expect(stepper.control).toEqual(StepControl.ERROR);
+    expect(stepper.tolerance).toEqual(Constants.DEFAULT_STEP_TOLERANCE);
+    expect(stepper.courant).toEqual(Constants.DEFAULT_COURANT_NUMBER);
+    expect(stepper.minStep).toEqual(Constants.MIN_TIME_STEP);
+    expect(stepper.maxStep).toEqual(Constants.MAX_TIME_STEP);
+    expect(stepper.integrator.type).toEqual(IntegratorType.DORMAND_PRINCE);
+    expect(stepper.clamp(1e-9)).toEqual(Constants.MIN_TIME_STEP);
+    expect(stepper.clamp(10)).toEqual(Constants.MAX_TIME_STEP);
+  });
+
+  test('rejects inconsistent settings', () => {
+    expect(() => new AdaptiveStepper({ minStep: 0 })).toThrow(
+      'Time step bounds must satisfy 0 < minStep <= maxStep.'
+    );
+    expect(() => new AdaptiveStepper({ minStep: 0.5, maxStep: 0.1 })).toThrow(
+      'Time step bounds must satisfy 0 < minStep <= maxStep.'
+    );
+    expect(() => new AdaptiveStepper({ tolerance: 0 })).toThrow(
+      'Tolerance must be greater than zero.'
+    );
+    expect(() => new AdaptiveStepper({ courant: -1 })).toThrow(
+      'Courant number must be greater than zero.'
+    );
+  });
+
+  test('Dormand–Prince error estimate tracks the local truncation error', () => {
+    const integrator = new DormandPrinceIntegrator();
+    expect(isErrorEstimating(integrator)).toBe(true);
+    expect(isErrorEstimating(createIntegrator(IntegratorType.RK4))).toBe(false);
+
+    // Harmonic oscillator x'' = -x from x = 1: the exact solution is cos t.
+    const evaluate = (states: { position: Vector3 }[]): Vector3[] =>
+      states.map(state => state.position.multiplyScalar(-1));
+    const start = [
+      { position: new Vector3(1, 0, 0), velocity: Vector3.zero() },
+    ];
+    const estimate = (dt: number): number =>
+      integrator.stepWithError(start, dt, evaluate).errors[0].velocity.x;
+    const actual = (dt: number): number =>
+      Math.abs(
+        integrator.step(start, dt, evaluate)[0].velocity.x + Math.sin(dt)
+      );
+
+    // The embedded estimate is of the fourth-order solution: local error O(dt⁵).
+    expect(Math.log2(estimate(0.2) / estimate(0.1))).toBeCloseTo(5, 0);
+    expect(Math.abs(estimate(0.1))).toBeGreaterThan(actual(0.1));
+
+    // Constant acceleration is integrated exactly, with a zero error estimate.
+    const { states, errors } = integrator.stepWithError(
+      start,
+      0.5,
+      constantAcceleration([new Vector3(0, -2, 0)])
+    );
+    expect(states[0].position.y).toBeCloseTo(-0.25, 12);
+    expect(errors[0].position.magnitude()).toBeLessThan(1e-15);
+  });
+
+  test('nextStep shrinks after large errors, grows after small ones and stays in bounds', () => {
+    const stepper = new AdaptiveStepper({ minStep: 1e-3, maxStep: 0.5 });
+    expect(stepper.nextStep(0.1, 1)).toBeCloseTo(0.09, 12);
+    expect(stepper.nextStep(0.1, 32)).toBeCloseTo(0.045, 12);
+    expect(stepper.nextStep(0.1, 1e12)).toBeCloseTo(0.02, 12);
+    expect(stepper.nextStep(0.1, 0)).toEqual(0.5);
+    expect(stepper.nextStep(0.002, 1e12)).toEqual(1e-3);
+  });
+
+  test('cflStep limits motion per step and resolves close gravitating pairs', () => {
+    const stepper = new AdaptiveStepper({
+      control: StepControl.CFL,
+      courant: 0.5,
+    });
+    const fast = new Sensor('F', new Vector3(), new Vector3(4, 0, 0));
+    fast.radius = 0.2;
+    // Crossing the radius takes 0.05 s; the Courant number halves that.
+    expect(stepper.cflStep([fast])).toBeCloseTo(0.025, 12);
+    expect(stepper.cflStep([new Sensor('S')])).toEqual(Constants.MAX_TIME_STEP);
+
+    // Two slow sensors at distance 1 with G(m1 + m2) = 1: free-fall time scale 1 s.
+    const [a, b] = createEccentricBinary();
+    a.velocity = Vector3.zero();
+    b.velocity = Vector3.zero();
+    expect(stepper.cflStep([a, b])).toBeCloseTo(0.5, 12);
+    const withoutGravity = new AdaptiveStepper({
+      control: StepControl.CFL,
+      gravity: false,
+    });
+    expect(withoutGravity.cflStep([a, b])).toEqual(Constants.MAX_TIME_STEP);
+  });
+
+  const totalEnergy = (sensors: Sensor[]): number => {
+    const [a, b] = sensors;
+    const kinetic =
+      0.5 * a.mass * a.velocity.magnitude() ** 2 +
+      0.5 * b.mass * b.velocity.magnitude() ** 2;
+    return kinetic - (G * a.mass * b.mass) / a.position.distanceTo(b.position);
+  };
+
+  test('error control shortens steps at periapsis and logs every step size', () => {
+    const engine = createEngine(new AdaptiveStepper({ tolerance: 1e-8 }));
+    const initialEnergy = totalEnergy(engine.getSensors());
+    while (engine.globalTime < 5) engine.step();
+
+    const steps = timeSteps();
+    expect(steps.reduce((sum, dt) => sum + dt, 0)).toBeCloseTo(
+      engine.globalTime,
+      10
+    );
+    expect(Math.max(...steps) / Math.min(...steps)).toBeGreaterThan(10);
+
+    const errors = Logger.runLog
+      .filter(event => event.event === 'timeStep')
+      .map(event => event.errorEstimate as number);
+    expect(Math.max(...errors)).toBeLessThanOrEqual(1);
+
+    // Two periapsis passages leave the energy nearly unchanged.
+    const drift = totalEnergy(engine.getSensors()) / initialEnergy - 1;
+    expect(Math.abs(drift)).toBeLessThan(1e-5);
+  });
+
+  test('error control rejects steps that are too large and retries', () => {
+    const engine = createEngine(new AdaptiveStepper({ tolerance: 1e-10 }));
+    engine.deltaTime = 1;
+    engine.step();
+    const [event] = Logger.runLog.filter(e => e.event === 'timeStep');
+    expect(event.rejectedSteps).toBeGreaterThan(0);
+    expect(event.timeStep).toBeLessThan(1);
+    expect(event.errorEstimate).toBeLessThanOrEqual(1);
+  });
+
+  test('steps are accepted at minStep even if the tolerance is not met', () => {
+    const engine = createEngine(
+      new AdaptiveStepper({ tolerance: 1e-30, minStep: 1e-3, maxStep: 1e-2 })
+    );
+    engine.step(3);
+    expect(timeSteps()).toEqual([1e-3, 1e-3, 1e-3]);
+    expect(engine.globalTime).toBeCloseTo(3e-3, 15);
+  });
+
+  test('CFL control sets the engine time step from the sensor state', () => {
+    const engine = createEngine(
+      new AdaptiveStepper({ control: StepControl.CFL, maxStep: 0.05 })
+    );
+    engine.step(5);
+    const steps = timeSteps();
+    expect(steps).toHaveLength(5);
+    steps.forEach(dt => {
+      expect(dt).toBeGreaterThanOrEqual(Constants.MIN_TIME_STEP);
+      expect(dt).toBeLessThanOrEqual(0.05);
+    });
+    expect(engine.deltaTime).toEqual(steps[4]);
+  });
+
+  test('adaptive runs rewind exactly from checkpoints', () => {
+    const engine = createEngine(new AdaptiveStepper({ tolerance: 1e-6 }));
+    const positions: Vector3[][] = [];
+    for (let i = 0; i < 12; i++) {
+      positions.push(engine.getSensors().map(sensor => sensor.position));
+      engine.step();
+    }
+    engine.toggleTimeReversal();
+    engine.step(12);
+    expect(engine.globalTime).toBeCloseTo(0, 12);
+    expect(engine.getSensors().map(sensor => sensor.position)).toEqual(
+      positions[0]
+    );
+    expect(engine.deltaTime).toEqual(0.01);
+  });
+
+  test('advance pays for each adaptive step taken', () => {
+    const engine = createEngine(
+      new AdaptiveStepper({ control: StepControl.CFL, maxStep: 0.1 })
+    );
+    engine.start(false);
+    const taken = engine.advance(0.3);
+    expect(taken).toBeGreaterThan(0);
+    expect(engine.globalTime).toBeLessThanOrEqual(0.3 + 1e-12);
+    expect(engine.getInterpolationAlpha()).toBeGreaterThanOrEqual(0);
+    expect(engine.getInterpolationAlpha()).toBeLessThanOrEqual(1);
+    engine.pause();
+  });
+});
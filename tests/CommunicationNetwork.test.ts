@@ -0,0 +1,335 @@
+/// <reference types="jest" />
+
+import { expect } from '@jest/globals';
+import {
+  CommunicationNetwork,
+  CommunicationOptions,
+  RoutingType,
+} from '../src/sensors/CommunicationNetwork';
+import {
+  LatticeType,
+  SensorNetworkLattice,
+} from '../src/sensors/SensorNetworkLattice';
+import { ChannelType } from '../src/sensors/SensorChannel';
+import { Sensor } from '../src/sensors/Sensor';
+import { SensorState } from '../src/sensors/SensorState';
+import { Vector3 } from '../src/core/Vector3';
+import { Random } from '../src/core/Random';
+import { Logger } from '../src/core/Logger';
+import { SimulationEngine } from '../src/SimulationEngine';
+
+describe('CommunicationNetwork', () => {
+  // Slow links, so that latencies are easy to read: 32-byte messages take 0.1 s to send,
+  // 0.01 s to process and 0.1 s per 10 m to travel.
+  const slow: Omit<CommunicationOptions, 'routing'> = {
+    propagationSpeed: 100,
+    hopDelay: 0.01,
+    bandwidth: 320,
+  };
+
+  const link = (a: Sensor, b: Sensor): void => {
+    a.addNeighbor(b);
+    b.addNeighbor(a);
+  };
+
+  // Sensors 1 m apart along x, each linked to the next.
+  const chain = (count: number): Sensor[] => {
+    const sensors = Array.from(
+      { length: count },
+      (_, i) => new Sensor(`C${i}`, new Vector3(i))
+    );
+    sensors.slice(1).forEach((sensor, i) => link(sensors[i], sensor));
+    return sensors;
+  };
+
+  // Readings flow along a chain to a sink, 0.21 s per hop.
+  const createEngine = (): SimulationEngine => {
+    const engine = new SimulationEngine(chain(4), [], 0.01);
+    engine.communication = new CommunicationNetwork(
+      {
+        routing: RoutingType.FLOODING,
+        ...slow,
+        propagationSpeed: 10,
+        lossProbability: 0.3,
+      },
+      new Random(9)
+    );
+    return engine;
+  };
+  const sendAll = (engine: SimulationEngine): void => {
+    const sensors = engine.getSensors();
+    sensors.forEach(sensor =>
+      engine.communication?.send(sensor, sensors[3], [1], engine.globalTime)
+    );
+  };
+
+  // A 5 × 5 square grid with its nearest neighbours linked.
+  const grid = (): Sensor[] =>
+    new SensorNetworkLattice('G', {
+      type: LatticeType.CUBIC,
+      spacing: 1,
+      cells: [5, 5, 1],
+    }).sensors;
+
+  beforeAll(() => {
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+    jest.spyOn(Logger, 'debug').mockImplementation(() => {});
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+    jest.spyOn(Logger, 'info').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('a hop takes the transmission, processing and propagation time', () => {
+    const a = new Sensor('A');
+    const b = new Sensor('B', new Vector3(10));
+    link(a, b);
+    const network = new CommunicationNetwork(
+      {
+        routing: RoutingType.SHORTEST_PATH,
+        ...slow,
+      },
+      new Random(1)
+    );
+    // Three messages queue on the same link, each waiting for the one before.
+    [1, 2, 3].forEach(value => network.send(a, b, [value], 0));
+    expect(network.deliver([a, b], 0.2)).toEqual(0);
+    expect(network.deliver([a, b], 1)).toEqual(3);
+    const inbox = network.inbox('B');
+    expect(inbox.map(delivery => delivery.message.payload[0])).toEqual([
+      1, 2, 3,
+    ]);
+    [0.21, 0.31, 0.41].forEach((time, i) =>
+      expect(inbox[i].time).toBeCloseTo(time, 12)
+    );
+    expect(network.stats.latency).toBeCloseTo(0.93, 12);
+    expect(network.stats.hops).toEqual(3);
+
+    expect(() => network.send(a, null, [], 0, 0)).toThrow(
+      'Message size must be greater than zero.'
+    );
+    expect(
+      () =>
+        new CommunicationNetwork(
+          { routing: RoutingType.SHORTEST_PATH, ...slow, bandwidth: 0 },
+          new Random(1)
+        )
+    ).toThrow('Network bandwidth must be greater than zero.');
+    expect(
+      () =>
+        new CommunicationNetwork(
+          { routing: RoutingType.SHORTEST_PATH, ...slow, hopDelay: -1 },
+          new Random(1)
+        )
+    ).toThrow('Network hopDelay must be non-negative.');
+  });
+
+  test('links lose messages more often the longer they are', () => {
+    const network = new CommunicationNetwork(
+      { routing: RoutingType.GREEDY, lossProbability: 0.2, range: 10 },
+      new Random(5)
+    );
+    expect(network.lossProbability(0)).toBeCloseTo(0.2, 12);
+    expect(network.lossProbability(5)).toBeCloseTo(0.4, 12);
+    expect(network.lossProbability(10)).toEqual(1);
+
+    const a = new Sensor('A');
+    const b = new Sensor('B', new Vector3(5));
+    link(a, b);
+    for (let i = 0; i < 4000; i++) network.send(a, b, [i], 0);
+    network.deliver([a, b], 1);
+    expect(network.stats.lost / network.stats.transmissions).toBeCloseTo(
+      0.4,
+      1
+    );
+    expect(network.stats.delivered + network.stats.lost).toEqual(4000);
+    expect(
+      () =>
+        new CommunicationNetwork(
+          { routing: RoutingType.GREEDY, lossProbability: 1.5 },
+          new Random(5)
+        )
+    ).toThrow('Network lossProbability must be between 0 and 1.');
+  });
+
+  // Flooding sends every copy on over each link but the one it came by.
+  test.each([
+    [RoutingType.GREEDY, 8],
+    [RoutingType.SHORTEST_PATH, 8],
+    [RoutingType.FLOODING, 55],
+  ])(
+    '%s routing crosses a grid in the fewest hops',
+    (routing, transmissions) => {
+      const sensors = grid();
+      const network = new CommunicationNetwork({ routing }, new Random(2));
+      network.send(sensors[0], sensors[24], [1], 0);
+      network.deliver(sensors, 1);
+      const [delivery] = network.inbox(sensors[24].id);
+      expect(network.inbox(sensors[24].id)).toHaveLength(1);
+      expect(delivery.message.path).toHaveLength(9);
+      expect(network.stats.transmissions).toEqual(transmissions);
+    }
+  );
+
+  test('greedy routing gives up where shortest paths go round', () => {
+    // B is further from D than A is, so greedy routing is stuck at A.
+    const a = new Sensor('A');
+    const b = new Sensor('B', new Vector3(-1));
+    const d = new Sensor('D', new Vector3(3));
+    link(a, b);
+    link(b, d);
+    const greedy = new CommunicationNetwork(
+      { routing: RoutingType.GREEDY },
+      new Random(3)
+    );
+    greedy.send(a, d, [1], 0);
+    expect(greedy.pending).toEqual(0);
+    expect(greedy.stats.dropped).toEqual(1);
+
+    const shortest = new CommunicationNetwork(
+      {
+        routing: RoutingType.SHORTEST_PATH,
+      },
+      new Random(4)
+    );
+    shortest.send(a, d, [1], 0);
+    shortest.deliver([a, b, d], 1);
+    expect(shortest.inbox('D')[0].message.path).toEqual(['A', 'B', 'D']);
+    expect(
+      () =>
+        new CommunicationNetwork(
+          { routing: 'carrier' as RoutingType },
+          new Random(3)
+        )
+    ).toThrow('Unknown routing: carrier.');
+  });
+
+  test('shortest paths avoid lossy long links', () => {
+    // The direct link is lost 64% of the time; each of the two hops via M only 16%.
+    const a = new Sensor('A');
+    const m = new Sensor('M', new Vector3(4));
+    const d = new Sensor('D', new Vector3(8));
+    link(a, m);
+    link(m, d);
+    link(a, d);
+    const network = new CommunicationNetwork(
+      {
+        routing: RoutingType.SHORTEST_PATH,
+        range: 10,
+      },
+      new Random(5)
+    );
+    for (let i = 0; i < 50; i++) network.send(a, d, [i], 0);
+    network.deliver([a, m, d], 1);
+    const paths = network.inbox('D').map(delivery => delivery.message.path);
+    expect(paths.length).toBeGreaterThan(0);
+    paths.forEach(path => expect(path).toEqual(['A', 'M', 'D']));
+  });
+
+  test('messages are dropped when out of hops or the receiver is off', () => {
+    const sensors = chain(5);
+    const network = new CommunicationNetwork(
+      {
+        routing: RoutingType.GREEDY,
+        ttl: 3,
+      },
+      new Random(6)
+    );
+    network.send(sensors[0], sensors[3], [1], 0);
+    network.send(sensors[0], sensors[4], [2], 0);
+    network.deliver(sensors, 1);
+    expect(network.inbox('C3')).toHaveLength(1);
+    expect(network.inbox('C4')).toHaveLength(0);
+    expect(network.stats.dropped).toEqual(1);
+
+    sensors[1].setState(SensorState.INACTIVE);
+    network.send(sensors[0], sensors[2], [3], 1);
+    network.deliver(sensors, 2);
+    expect(network.inbox('C2')).toHaveLength(0);
+    expect(network.stats.dropped).toEqual(2);
+    expect(
+      () =>
+        new CommunicationNetwork(
+          { routing: RoutingType.GREEDY, ttl: 0 },
+          new Random(6)
+        )
+    ).toThrow('Network ttl must be a positive integer.');
+  });
+
+  test('broadcasts reach the neighbours and readings reach the nearest sink', () => {
+    const sensors = chain(5);
+    const network = new CommunicationNetwork(
+      {
+        routing: RoutingType.SHORTEST_PATH,
+        sinks: ['C0', 'C4'],
+      },
+      new Random(7)
+    );
+    network.send(sensors[2], null, [7], 0);
+    network.deliver(sensors, 1);
+    expect(network.inbox('C1')).toHaveLength(1);
+    expect(network.inbox('C3')).toHaveLength(1);
+    expect(network.inbox('C0')).toHaveLength(0);
+
+    const sensor = sensors[3];
+    sensor.temperature = 300;
+    sensor
+      .addChannel(ChannelType.TEMPERATURE, new Random(1))
+      .sample(sensor, sensors, 0);
+    network.sendReading(sensor, ChannelType.TEMPERATURE, 1, sensors);
+    network.deliver(sensors, 2);
+    const [reading] = network.inbox('C4');
+    expect(reading.message.payload).toEqual([300]);
+    expect(reading.message.channel).toEqual(ChannelType.TEMPERATURE);
+    expect(() =>
+      network.sendReading(sensors[0], ChannelType.GRAVITY, 1, sensors)
+    ).toThrow('Sensor C0 has no gravity reading to send.');
+  });
+
+  test('the engine delivers messages as they arrive', () => {
+    const engine = createEngine();
+    sendAll(engine);
+    const network = engine.communication as CommunicationNetwork;
+    engine.step(20);
+    expect(network.inbox('C3').map(d => d.message.source)).toEqual(['C3']);
+    engine.step(100);
+    expect(network.pending).toEqual(0);
+    expect(network.stats.delivered + network.stats.lost).toBeGreaterThan(1);
+  });
+
+  test('traffic survives snapshots and is replayed exactly after a rewind', () => {
+    const reference = createEngine();
+    sendAll(reference);
+    reference.step(100);
+
+    const engine = createEngine();
+    sendAll(engine);
+    engine.step(30);
+    const restored = SimulationEngine.fromSnapshot(
+      JSON.stringify(engine.saveSnapshot())
+    );
+    expect(restored.communication?.options).toEqual(
+      engine.communication?.options
+    );
+    expect(restored.communication?.pending).toBeGreaterThan(0);
+    expect(restored.communication?.inFlight).toEqual(
+      engine.communication?.inFlight
+    );
+    restored.step(70);
+    expect(restored.communication?.inbox('C3')).toEqual(
+      reference.communication?.inbox('C3')
+    );
+
+    engine.step(70);
+    engine.toggleTimeReversal();
+    engine.step(60);
+    engine.toggleTimeReversal();
+    engine.step(60);
+    expect(engine.communication?.inbox('C3')).toEqual(
+      reference.communication?.inbox('C3')
+    );
+    expect(engine.communication?.stats).toEqual(reference.communication?.stats);
+  });
+});
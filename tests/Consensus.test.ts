@@ -0,0 +1,270 @@
+/// <reference types="jest" />
+
+import { expect } from '@jest/globals';
+import {
+  Consensus,
+  ConsensusType,
+  latestMagnitude,
+} from '../src/sensors/Consensus';
+import {
+  NeighborGraph,
+  NeighborGraphType,
+  graphMetrics,
+} from '../src/sensors/NeighborGraph';
+import {
+  LatticeType,
+  SensorNetworkLattice,
+} from '../src/sensors/SensorNetworkLattice';
+import { ChannelType } from '../src/sensors/SensorChannel';
+import { Sensor } from '../src/sensors/Sensor';
+import { SensorState } from '../src/sensors/SensorState';
+import { Vector3 } from '../src/core/Vector3';
+import { Random } from '../src/core/Random';
+import { Logger } from '../src/core/Logger';
+
+describe('Consensus', () => {
+  // A 3 × 3 × 3 cubic lattice with its nearest neighbours linked.
+  const lattice = (): Sensor[] =>
+    new SensorNetworkLattice('L', {
+      type: LatticeType.CUBIC,
+      spacing: 1,
+      cells: [3, 3, 3],
+    }).sensors;
+
+  // Sensors scattered through a 10 m cube, each linked to its five nearest.
+  const scatter = (count: number): Sensor[] => {
+    const random = new Random(21);
+    const sensors = Array.from(
+      { length: count },
+      (_, i) =>
+        new Sensor(
+          `S${i}`,
+          new Vector3(
+            random.next(),
+            random.next(),
+            random.next()
+          ).multiplyScalar(10)
+        )
+    );
+    new NeighborGraph({ type: NeighborGraphType.KNN, k: 5 }).rebuild(sensors);
+    return sensors;
+  };
+
+  // Each sensor's value is a fixed random number between 0 and 100.
+  const randomValues = (sensors: Sensor[]): Map<string, number> => {
+    const random = new Random(3);
+    return new Map(sensors.map(sensor => [sensor.id, 100 * random.next()]));
+  };
+  const mean = (values: number[]): number =>
+    values.reduce((sum, x) => sum + x, 0) / values.length;
+
+  beforeAll(() => {
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+    jest.spyOn(Logger, 'debug').mockImplementation(() => {});
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+    jest.spyOn(Logger, 'info').mockImplementation(() => {});
+  });
+
+  beforeEach(() => {
+    Logger.clearRunLog();
+  });
+
+  afterAll(() => {
+    Logger.clearRunLog();
+    jest.restoreAllMocks();
+  });
+
+  test.each([
+    ['lattice', ConsensusType.METROPOLIS, lattice],
+    ['lattice', ConsensusType.GOSSIP, lattice],
+    ['random graph', ConsensusType.METROPOLIS, () => scatter(40)],
+    ['random graph', ConsensusType.GOSSIP, () => scatter(40)],
+  ])('sensors on a %s agree on the mean by %s averaging', (_, type, create) => {
+    const sensors = create();
+    expect(graphMetrics(sensors).connected).toBe(true);
+    const values = randomValues(sensors);
+    const consensus = new Consensus({ type }, new Random(1));
+    consensus.start(sensors, sensor => values.get(sensor.id));
+    const metrics = consensus.run(sensors);
+
+    const expected = mean([...values.values()]);
+    expect(consensus.target).toBeCloseTo(expected, 9);
+    expect(metrics.converged).toBe(true);
+    expect(metrics.spread).toBeLessThanOrEqual(1e-6);
+    expect(metrics.error).toBeLessThan(1e-6);
+    expect(metrics.rate).toBeGreaterThan(0);
+    expect(metrics.rate).toBeLessThan(1);
+    expect(metrics.messages).toBeGreaterThan(0);
+    expect(consensus.history).toHaveLength(metrics.rounds + 1);
+    sensors.forEach(sensor =>
+      expect(consensus.estimate(sensor.id)).toBeCloseTo(expected, 5)
+    );
+  });
+
+  test('sensors agree on the mean field strength they measure', () => {
+    const sensors = lattice();
+    sensors.forEach((sensor, i) => {
+      sensor.charge = (i % 3) - 1;
+      sensor
+        .addChannel(ChannelType.ELECTRIC_FIELD, new Random(1))
+        .sample(sensor, sensors, 0);
+    });
+    const strength = latestMagnitude(ChannelType.ELECTRIC_FIELD);
+    const expected = mean(sensors.map(sensor => strength(sensor) as number));
+    const consensus = new Consensus({
+      type: ConsensusType.METROPOLIS,
+      tolerance: expected * 1e-9,
+    });
+    consensus.start(sensors, strength);
+    expect(consensus.run(sensors).converged).toBe(true);
+    sensors.forEach(sensor =>
+      expect((consensus.estimate(sensor.id) as number) / expected).toBeCloseTo(
+        1,
+        8
+      )
+    );
+    expect(
+      () => new Consensus({ type: ConsensusType.METROPOLIS, tolerance: 0 })
+    ).toThrow('Consensus tolerance must be greater than zero.');
+  });
+
+  test('max-consensus spreads the maximum across the graph diameter', () => {
+    const sensors = lattice();
+    // The largest value is at a corner, the full diameter from the opposite corner.
+    const consensus = new Consensus({ type: ConsensusType.MAX });
+    consensus.start(sensors, sensor => sensors.indexOf(sensor));
+    const metrics = consensus.run(sensors);
+    expect(metrics.converged).toBe(true);
+    expect(metrics.rounds).toEqual(graphMetrics(sensors).diameter);
+    expect(metrics.messages).toEqual(metrics.rounds * 2 * 54);
+    sensors.forEach(sensor => {
+      expect(consensus.estimate(sensor.id)).toEqual(26);
+      expect(consensus.leader(sensor.id)).toEqual(sensors[26].id);
+    });
+    expect(() => consensus.start(sensors)).toThrow(
+      'A max consensus needs a value.'
+    );
+    expect(() => new Consensus({ type: 'vote' as ConsensusType })).toThrow(
+      'Unknown consensus type: vote.'
+    );
+  });
+
+  test('sensors elect the highest priority, and never a malfunctioning one', () => {
+    const sensors = scatter(30);
+    const consensus = new Consensus({ type: ConsensusType.LEADER });
+    const byId = [...sensors].sort((a, b) => (a.id < b.id ? 1 : -1));
+
+    // Without priorities the largest id wins.
+    consensus.start(sensors);
+    expect(consensus.run(sensors).converged).toBe(true);
+    sensors.forEach(sensor =>
+      expect(consensus.leader(sensor.id)).toEqual(byId[0].id)
+    );
+
+    const priority = (sensor: Sensor): number => (sensor === byId[5] ? 2 : 1);
+    consensus.start(sensors, priority);
+    consensus.run(sensors);
+    expect(consensus.leader(byId[0].id)).toEqual(byId[5].id);
+
+    // When the leader fails, a new election passes it over.
+    byId[5].setState(SensorState.MALFUNCTION);
+    consensus.start(sensors, priority);
+    expect(consensus.run(sensors).converged).toBe(true);
+    sensors.forEach(sensor =>
+      expect(consensus.leader(sensor.id)).toEqual(byId[0].id)
+    );
+  });
+
+  test('malfunctioning sensors relay values without adding their own', () => {
+    const sensors = lattice();
+    const values = randomValues(sensors);
+    // The centre of the lattice and two of its face centres.
+    const broken = [sensors[13], sensors[4], sensors[22]];
+    broken.forEach(sensor => sensor.setState(SensorState.MALFUNCTION));
+    const consensus = new Consensus({ type: ConsensusType.METROPOLIS });
+    consensus.start(sensors, sensor =>
+      broken.includes(sensor) ? 1e6 : values.get(sensor.id)
+    );
+    expect(consensus.estimate(sensors[13].id)).toBeUndefined();
+    expect(consensus.metrics(sensors).converged).toBe(false);
+
+    const metrics = consensus.run(sensors);
+    const expected = mean(
+      sensors
+        .filter(sensor => !broken.includes(sensor))
+        .map(sensor => values.get(sensor.id) as number)
+    );
+    expect(metrics.converged).toBe(true);
+    expect(metrics.informed).toEqual(27);
+    sensors.forEach(sensor =>
+      expect(consensus.estimate(sensor.id)).toBeCloseTo(expected, 5)
+    );
+
+    // Broken sensors are not asked for a value, so a run needs one from the others.
+    expect(() =>
+      consensus.start(sensors, sensor => (sensor === sensors[0] ? NaN : 1))
+    ).toThrow('Sensor L_sensor_1 has a value that is not finite.');
+    expect(() =>
+      consensus.start(sensors, sensor =>
+        broken.includes(sensor) ? 1 : undefined
+      )
+    ).toThrow('No sensor has a value to agree on.');
+  });
+
+  test('averaging carries on when sensors switch off in the middle of a run', () => {
+    const sensors = scatter(40);
+    const values = randomValues(sensors);
+    const consensus = new Consensus(
+      { type: ConsensusType.GOSSIP },
+      new Random(8)
+    );
+    consensus.start(sensors, sensor => values.get(sensor.id));
+    for (let round = 0; round < 5; round++) consensus.step(sensors);
+
+    // Switch off a few sensors whose loss leaves the rest connected.
+    const off = sensors
+      .filter(
+        sensor =>
+          graphMetrics(sensors.filter(other => other !== sensor)).connected
+      )
+      .slice(0, 4);
+    off.forEach(sensor => sensor.setState(SensorState.INACTIVE));
+    new NeighborGraph({ type: NeighborGraphType.KNN, k: 5 }).rebuild(sensors);
+    expect(graphMetrics(sensors.filter(s => !off.includes(s))).connected).toBe(
+      true
+    );
+
+    const metrics = consensus.run(sensors);
+    expect(metrics.converged).toBe(true);
+    expect(metrics.participants).toEqual(36);
+    // The rest agree on a mean that is still close to that of every value.
+    const agreed = consensus.estimate(
+      (sensors.find(s => !off.includes(s)) as Sensor).id
+    );
+    expect(Math.abs((agreed as number) - consensus.target)).toBeLessThan(5);
+    expect(metrics.error).toBeLessThan(5);
+    expect(() => new Consensus({ type: ConsensusType.GOSSIP })).toThrow(
+      'Gossip consensus needs a random stream.'
+    );
+  });
+
+  test('a divided graph never agrees', () => {
+    const sensors = [0, 1, 5, 6].map(x => new Sensor(`S${x}`, new Vector3(x)));
+    new NeighborGraph({ type: NeighborGraphType.RADIUS, radius: 2 }).rebuild(
+      sensors
+    );
+    const consensus = new Consensus({ type: ConsensusType.METROPOLIS });
+    expect(() => consensus.step(sensors)).toThrow(
+      'Consensus has not been started.'
+    );
+    consensus.start(sensors, sensor => sensor.position.x);
+    const metrics = consensus.run(sensors, 50);
+    expect(metrics.converged).toBe(false);
+    expect(metrics.rounds).toEqual(50);
+    expect(consensus.estimate('S0')).toBeCloseTo(0.5, 9);
+    expect(consensus.estimate('S6')).toBeCloseTo(5.5, 9);
+    expect(() => consensus.run(sensors, 0)).toThrow(
+      'Consensus rounds must be a positive integer.'
+    );
+  });
+});
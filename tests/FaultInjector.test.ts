@@ -0,0 +1,220 @@
+/// <reference types="jest" />
+
+import { expect } from '@jest/globals';
+import {
+  FaultInjector,
+  FaultSpec,
+  FaultType,
+} from '../src/sensors/FaultInjector';
+import { ChannelType } from '../src/sensors/SensorChannel';
+import { Sensor } from '../src/sensors/Sensor';
+import { SensorSphere } from '../src/sensors/SensorSphere';
+import { SensorState } from '../src/sensors/SensorState';
+import { Vector3 } from '../src/core/Vector3';
+import { Random } from '../src/core/Random';
+import { Logger } from '../src/core/Logger';
+import { SimulationEngine } from '../src/SimulationEngine';
+
+describe('FaultInjector', () => {
+  beforeAll(() => {
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+    jest.spyOn(Logger, 'debug').mockImplementation(() => {});
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+    jest.spyOn(Logger, 'info').mockImplementation(() => {});
+  });
+
+  beforeEach(() => {
+    Logger.clearRunLog();
+  });
+
+  afterAll(() => {
+    Logger.clearRunLog();
+    jest.restoreAllMocks();
+  });
+
+  // Two sensors reading their temperature at 10 Hz, both held by a sphere.
+  const createEngine = (faults: FaultSpec[]): SimulationEngine => {
+    const sensors = ['A', 'B'].map((id, i) => {
+      const sensor = new Sensor(id, new Vector3(i - 0.5, 0, 0));
+      sensor.temperature = 300;
+      sensor.addChannel(ChannelType.TEMPERATURE, new Random(1), 10);
+      return sensor;
+    });
+    const sphere = new SensorSphere('S', new Vector3(), 5, 0);
+    sphere.sensors = sensors;
+    const engine = new SimulationEngine(sensors, [sphere], 0.01);
+    engine.faultInjector = new FaultInjector(faults, new Random(2));
+    return engine;
+  };
+
+  const readings = (engine: SimulationEngine, index: number): number[] =>
+    engine
+      .getSensors()
+      [index].getTimeSeries(ChannelType.TEMPERATURE)
+      .map(sample => sample.value[0]);
+
+  const specs = (spec: Partial<FaultSpec>): FaultSpec[] => [
+    { type: FaultType.FREEZE, target: 'A', ...spec } as FaultSpec,
+  ];
+
+  test('faults are scheduled at their time or after an exponential wait', () => {
+    const injector = new FaultInjector(
+      [
+        { type: FaultType.MALFUNCTION, target: 'A', time: 0.5 },
+        { type: FaultType.MALFUNCTION, target: 'B', time: 0.2 },
+      ],
+      new Random(1)
+    );
+    expect(injector.faults.map(fault => fault.spec.target)).toEqual(['B', 'A']);
+    expect(injector.due(0.2, 0.3)).toHaveLength(1);
+    expect(injector.due(0.1, 0.2)).toHaveLength(0);
+
+    // The mean time to failure is 1 / rate.
+    const hazards: FaultSpec[] = Array.from({ length: 4000 }, () => ({
+      type: FaultType.MALFUNCTION,
+      target: 'A',
+      rate: 2,
+    }));
+    const times = new FaultInjector(hazards, new Random(2)).faults.map(
+      fault => fault.time
+    );
+    const mean = times.reduce((sum, time) => sum + time, 0) / times.length;
+    expect(mean).toBeCloseTo(0.5, 1);
+    expect(new FaultInjector(hazards, new Random(2)).faults).toEqual(
+      new FaultInjector(hazards, new Random(2)).faults
+    );
+
+    const random = new Random(1);
+    expect(() => new FaultInjector(specs({}), random)).toThrow(
+      'A fault needs either a time or a hazard rate.'
+    );
+    expect(
+      () => new FaultInjector(specs({ time: 1, rate: 1 }), random)
+    ).toThrow('A fault needs either a time or a hazard rate.');
+    expect(() => new FaultInjector(specs({ time: -1 }), random)).toThrow(
+      'Fault time must be non-negative.'
+    );
+    expect(() => new FaultInjector(specs({ rate: 0 }), random)).toThrow(
+      'Fault hazard rate must be greater than zero.'
+    );
+  });
+
+  test('channel faults freeze, offset and drop readings', () => {
+    expect(() => createEngine(specs({ time: 1, duration: 0 }))).toThrow(
+      'Fault duration must be greater than zero.'
+    );
+    expect(() =>
+      createEngine(specs({ time: 1, type: FaultType.BIAS_JUMP }))
+    ).toThrow('A bias jump needs a bias.');
+
+    const engine = createEngine([
+      {
+        type: FaultType.FREEZE,
+        target: 'A',
+        channel: ChannelType.TEMPERATURE,
+        time: 0.15,
+        duration: 0.2,
+      },
+      { type: FaultType.BIAS_JUMP, target: 'B', time: 0.15, bias: [5] },
+      { type: FaultType.DROPOUT, target: 'B', time: 0.35, duration: 0.2 },
+    ]);
+    const [a] = engine.getSensors();
+    engine.step(10);
+    a.temperature = 310;
+    engine.step(60);
+
+    // A held 300 K through its freeze, up to 0.35 s.
+    expect(readings(engine, 0)).toEqual([
+      300, 300, 300, 300, 310, 310, 310, 310,
+    ]);
+    // B read 5 K high from 0.2 s and lost its 0.4 and 0.5 s readings.
+    expect(readings(engine, 1)).toEqual([300, 300, 305, 305, 305, 305]);
+
+    // Faults that last for good survive a snapshot round trip.
+    engine.faultInjector = new FaultInjector(
+      [{ type: FaultType.FREEZE, target: 'A', time: 0.705 }],
+      new Random(3)
+    );
+    engine.step();
+    const restored = SimulationEngine.fromSnapshot(
+      JSON.stringify(engine.saveSnapshot())
+    );
+    const channel = restored.getSensors()[1].channels[0];
+    expect(channel.offset).toEqual([5]);
+    expect(channel.droppedUntil).toBeCloseTo(0.55, 1);
+    expect(restored.getSensors()[0].channels[0].frozenUntil).toEqual(Infinity);
+
+    const faults = Logger.runLog.filter(event => event.event === 'fault');
+    expect(
+      faults.map(event => [event.fault, event.sensors[0].id, event.channel])
+    ).toEqual([
+      [FaultType.FREEZE, 'A', ChannelType.TEMPERATURE],
+      [FaultType.BIAS_JUMP, 'B', undefined],
+      [FaultType.DROPOUT, 'B', undefined],
+      [FaultType.FREEZE, 'A', undefined],
+    ]);
+  });
+
+  test('malfunctions stop readings, and killing a sphere switches it off', () => {
+    const engine = createEngine([
+      { type: FaultType.MALFUNCTION, target: 'A', time: 0.15 },
+      { type: FaultType.KILL_SPHERE, target: 'S', time: 0.25 },
+    ]);
+    const sensors = engine.getSensors();
+    const spheres = engine.getSphereNetwork().getSpheres();
+    (engine.faultInjector as FaultInjector).checkTargets(sensors, spheres);
+    expect(() =>
+      new FaultInjector(
+        specs({ time: 1, target: 'C' }),
+        new Random(1)
+      ).checkTargets(sensors, spheres)
+    ).toThrow('Fault target C is not a sensor.');
+    expect(() =>
+      new FaultInjector(
+        specs({ time: 1, channel: ChannelType.GRAVITY }),
+        new Random(1)
+      ).checkTargets(sensors, spheres)
+    ).toThrow('Sensor A has no gravity channel.');
+    expect(() =>
+      new FaultInjector(
+        specs({ time: 1, type: FaultType.KILL_SPHERE }),
+        new Random(1)
+      ).checkTargets(sensors, spheres)
+    ).toThrow('Fault target A is not a sensor sphere.');
+
+    engine.step(40);
+    const [a, b] = sensors;
+    expect(a.state).toEqual(SensorState.INACTIVE);
+    expect(a.calibrationDue).toBe(true);
+    expect(b.state).toEqual(SensorState.INACTIVE);
+    expect(readings(engine, 0)).toHaveLength(2);
+    expect(readings(engine, 1)).toHaveLength(3);
+    const kill = Logger.runLog.find(
+      event => event.fault === FaultType.KILL_SPHERE
+    );
+    expect(kill?.spheres).toEqual(['S']);
+    expect(kill?.sensors.map(sensor => sensor.id)).toEqual(['A', 'B']);
+  });
+
+  test('faults are injected again when a run is rewound and replayed', () => {
+    const faults: FaultSpec[] = [
+      { type: FaultType.MALFUNCTION, target: 'A', rate: 4 },
+      { type: FaultType.BIAS_JUMP, target: 'B', rate: 4, bias: [1] },
+    ];
+    const reference = createEngine(faults);
+    reference.step(100);
+
+    const engine = createEngine(faults);
+    engine.step(100);
+    engine.toggleTimeReversal();
+    engine.step(100);
+    engine.toggleTimeReversal();
+    Logger.clearRunLog();
+    engine.step(100);
+    expect(readings(engine, 0)).toEqual(readings(reference, 0));
+    expect(readings(engine, 1)).toEqual(readings(reference, 1));
+    expect(Logger.runLog.filter(event => event.event === 'fault')).toHaveLength(
+      2
+    );
+  });
+});
@@ -0,0 +1,148 @@
+/// <reference types="jest" />
+
+import { expect } from '@jest/globals';
+import {
+  GravityForceProvider,
+  CoulombForceProvider,
+  LorentzForceProvider,
+  DampingForceProvider,
+  CustomForceProvider,
+} from '../src/forces/ForceProviders';
+import { SimulationEngine } from '../src/SimulationEngine';
+import { Sensor } from '../src/sensors/Sensor';
+import { Vector3 } from '../src/core/Vector3';
+import { Constants } from '../src/core/Constants';
+import { Logger } from '../src/core/Logger';
+
+describe('Force Providers', () => {
+  beforeAll(() => {
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+    jest.spyOn(Logger, 'debug').mockImplementation(() => {});
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+    jest.spyOn(Logger, 'info').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('GravityForceProvider returns equal and opposite attractive forces', () => {
+    const a = new Sensor('A', new Vector3(0, 0, 0), new Vector3(), 5);
+    const b = new Sensor('B', new Vector3(0, 10, 0), new Vector3(), 10);
+    const [forceA, forceB] = new GravityForceProvider().computeForces([a, b]);
+    const expected = (Constants.GRAVITATIONAL_CONSTANT * 5 * 10) / 100;
+    expect(forceA.y).toBeCloseTo(expected, 15);
+    expect(forceB.y).toBeCloseTo(-expected, 15);
+  });
+
+  test('CoulombForceProvider repels like charges and ignores neutral sensors', () => {
+    const a = new Sensor('A', new Vector3(0, 0, 0), new Vector3(), 1, 1e-6);
+    const b = new Sensor('B', new Vector3(1, 0, 0), new Vector3(), 1, 1e-6);
+    const n = new Sensor('N', new Vector3(0, 1, 0), new Vector3(), 1, 0);
+    const [forceA, forceB, forceN] = new CoulombForceProvider().computeForces([
+      a,
+      b,
+      n,
+    ]);
+    const expected = Constants.COULOMB_CONSTANT * 1e-12;
+    expect(forceA.x).toBeCloseTo(-expected, 10);
+    expect(forceB.x).toBeCloseTo(expected, 10);
+    expect(forceN).toEqual(Vector3.zero());
+  });
+
+  test('LorentzForceProvider applies q(v × B) for an external field', () => {
+    const sensor = new Sensor('A', new Vector3(), new Vector3(1, 0, 0), 1, 2);
+    const provider = new LorentzForceProvider(new Vector3(0, 0, 3));
+    const [force] = provider.computeForces([sensor]);
+    // v × B = (1,0,0) × (0,0,3) = (0,-3,0); F = 2·(0,-3,0)
+    expect(force.x).toBeCloseTo(0);
+    expect(force.y).toBeCloseTo(-6);
+    expect(force.z).toBeCloseTo(0);
+  });
+
+  test('DampingForceProvider opposes velocity and rejects negative coefficients', () => {
+    const sensor = new Sensor('A', new Vector3(), new Vector3(2, -4, 0));
+    const [force] = new DampingForceProvider(0.5).computeForces([sensor]);
+    expect(force).toEqual(new Vector3(-1, 2, -0));
+    expect(() => new DampingForceProvider(-1)).toThrow(
+      'Damping coefficient cannot be negative.'
+    );
+  });
+
+  test('CustomForceProvider wraps a user-defined function and validates input', () => {
+    const provider = new CustomForceProvider(
+      'wind',
+      (_sensor, time) => new Vector3(time, 0, 0)
+    );
+    const [force] = provider.computeForces([new Sensor('A')], 3);
+    expect(force.x).toEqual(3);
+    expect(() => new CustomForceProvider('', () => Vector3.zero())).toThrow(
+      'Force provider name cannot be empty.'
+    );
+    expect(
+      // @ts-expect-error: Testing with null.
+      () => new CustomForceProvider('nothing', null)
+    ).toThrow('Force function cannot be null or undefined.');
+  });
+
+  describe('SimulationEngine pipeline', () => {
+    const constantPush = (): CustomForceProvider =>
+      new CustomForceProvider('push', () => new Vector3(1, 0, 0));
+
+    test('engine evaluates registered providers every step', () => {
+      const sensor = new Sensor('S1', new Vector3(), new Vector3(), 2);
+      const engine = new SimulationEngine([sensor], [], 0.1);
+      engine.addForceProvider(constantPush());
+      (engine as any).running = true;
+      engine.update();
+      // a = F/m = 0.5, semi-implicit Euler: v = 0.05, x = 0.005
+      expect(sensor.velocity.x).toBeCloseTo(0.05);
+      expect(sensor.position.x).toBeCloseTo(0.005);
+    });
+
+    test('disabled providers are skipped and weights scale forces', () => {
+      const sensor = new Sensor('S1', new Vector3(), new Vector3(), 1);
+      const engine = new SimulationEngine([sensor], [], 0.1);
+      engine.addForceProvider(constantPush());
+      engine.setForceProviderEnabled('push', false);
+      (engine as any).running = true;
+      engine.update();
+      expect(sensor.velocity.x).toEqual(0);
+
+      engine.setForceProviderEnabled('push', true);
+      engine.setForceProviderWeight('push', 3);
+      engine.update();
+      expect(sensor.velocity.x).toBeCloseTo(0.3);
+    });
+
+    test('providers can be listed and removed', () => {
+      const engine = new SimulationEngine([], [], 0.1);
+      engine.addForceProvider(new GravityForceProvider());
+      engine.addForceProvider(new DampingForceProvider());
+      expect(engine.getForceProviders().map(p => p.name)).toEqual([
+        'gravity',
+        'damping',
+      ]);
+      engine.removeForceProvider('gravity');
+      expect(engine.getForceProviders().map(p => p.name)).toEqual(['damping']);
+    });
+
+    test('registration and lookup errors', () => {
+      const engine = new SimulationEngine([], [], 0.1);
+      engine.addForceProvider(new GravityForceProvider());
+      expect(() => engine.addForceProvider(new GravityForceProvider())).toThrow(
+        'A force provider named gravity is already registered.'
+      );
+      // @ts-expect-error: Testing with null.
+      expect(() => engine.addForceProvider(null)).toThrow(
+        'ForceProvider cannot be null or undefined.'
+      );
+      expect(() => engine.setForceProviderEnabled('missing', true)).toThrow(
+        'Force provider missing is not registered.'
+      );
+      expect(() => engine.setForceProviderWeight('gravity', NaN)).toThrow(
+        'Force provider weight must be a finite number.'
+      );
+    });
+  });
+});
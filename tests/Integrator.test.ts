@@ -0,0 +1,130 @@
+/// <reference types="jest" />
+
+import { expect } from '@jest/globals';
+import {
+  IntegratorType,
+  Integrator,
+  createIntegrator,
+  constantAcceleration,
+  DEFAULT_INTEGRATOR,
+  SemiImplicitEulerIntegrator,
+} from '../src/core/Integrator';
+import { GravitySimulator } from '../src/gravity/GravitySimulator';
+import { Sensor } from '../src/sensors/Sensor';
+import { Vector3 } from '../src/core/Vector3';
+import { Constants } from '../src/core/Constants';
+
+describe('Integrator', () => {
+  const G = Constants.GRAVITATIONAL_CONSTANT;
+  // Equal masses chosen so that G * (m1 + m2) = 1.
+  const mass = 0.5 / G;
+
+  // Creates an eccentric two-body orbit (e ≈ 0.36) with period 2π.
+  const createBinary = (): Sensor[] => [
+    new Sensor('A', new Vector3(-0.5, 0, 0), new Vector3(0, -0.4, 0), mass),
+    new Sensor('B', new Vector3(0.5, 0, 0), new Vector3(0, 0.4, 0), mass),
+  ];
+
+  const totalEnergy = (sensors: Sensor[]): number => {
+    const [a, b] = sensors;
+    const kinetic =
+      0.5 * a.mass * a.velocity.magnitude() ** 2 +
+      0.5 * b.mass * b.velocity.magnitude() ** 2;
+    const potential =
+      (-G * a.mass * b.mass) / a.position.distanceTo(b.position);
+    return kinetic + potential;
+  };
+
+  // Integrates one orbital period and returns the maximum relative energy error.
+  const maxEnergyError = (
+    integrator: Integrator,
+    deltaTime: number
+  ): number => {
+    const sensors = createBinary();
+    const initialEnergy = totalEnergy(sensors);
+    const steps = Math.round(Constants.TWO_PI / deltaTime);
+    let maxError = 0;
+    for (let i = 0; i < steps; i++) {
+      GravitySimulator.simulate(sensors, deltaTime, 1, integrator);
+      const error = Math.abs(
+        (totalEnergy(sensors) - initialEnergy) / initialEnergy
+      );
+      maxError = Math.max(maxError, error);
+    }
+    return maxError;
+  };
+
+  test.each([
+    [IntegratorType.EXPLICIT_EULER, 1, 0.0005],
+    [IntegratorType.SEMI_IMPLICIT_EULER, 1, 0.002],
+    [IntegratorType.VELOCITY_VERLET, 2, 0.01],
+    [IntegratorType.LEAPFROG, 2, 0.01],
+    [IntegratorType.RK4, 4, 0.01],
+  ])(
+    '%s shows energy drift of order %i on a two-body orbit',
+    (type, order, deltaTime) => {
+      const integrator = createIntegrator(type);
+      expect(integrator.type).toEqual(type);
+      expect(integrator.order).toEqual(order);
+
+      const coarse = maxEnergyError(integrator, deltaTime);
+      const fine = maxEnergyError(integrator, deltaTime / 2);
+      const observedOrder = Math.log2(coarse / fine);
+      expect(Math.abs(observedOrder - order)).toBeLessThan(0.35);
+    }
+  );
+
+  test('symplectic schemes keep energy error bounded where explicit Euler drifts', () => {
+    const explicit = maxEnergyError(
+      createIntegrator(IntegratorType.EXPLICIT_EULER),
+      0.001
+    );
+    const verlet = maxEnergyError(
+      createIntegrator(IntegratorType.VELOCITY_VERLET),
+      0.001
+    );
+    expect(verlet).toBeLessThan(explicit / 100);
+  });
+
+  test('constant acceleration reproduces uniformly accelerated motion', () => {
+    const state = { position: new Vector3(), velocity: new Vector3(1, 0, 0) };
+    const acceleration = new Vector3(0, -2, 0);
+    const [verlet] = createIntegrator(IntegratorType.VELOCITY_VERLET).step(
+      [state],
+      0.5,
+      constantAcceleration([acceleration])
+    );
+    // x = v·t + ½·a·t², v = v₀ + a·t
+    expect(verlet.position.x).toBeCloseTo(0.5);
+    expect(verlet.position.y).toBeCloseTo(-0.25);
+    expect(verlet.velocity.y).toBeCloseTo(-1);
+
+    const [euler] = createIntegrator(IntegratorType.EXPLICIT_EULER).step(
+      [state],
+      0.5,
+      constantAcceleration([acceleration])
+    );
+    expect(euler.position.y).toBeCloseTo(0);
+    expect(euler.velocity.y).toBeCloseTo(-1);
+  });
+
+  test('default integrator is semi-implicit Euler', () => {
+    expect(DEFAULT_INTEGRATOR).toBeInstanceOf(SemiImplicitEulerIntegrator);
+  });
+
+  test('createIntegrator throws for an unknown type', () => {
+    expect(() => createIntegrator('bogus' as IntegratorType)).toThrow(
+      'Unknown integrator type: bogus'
+    );
+  });
+
+  test('Sensor.update uses the supplied integrator', () => {
+    const sensor = new Sensor('S1', new Vector3(), new Vector3(1, 0, 0));
+    sensor.applyForce(new Vector3(2, 0, 0));
+    sensor.update(1, createIntegrator(IntegratorType.VELOCITY_VERLET));
+    // x = 1 + ½·2 = 2 (semi-implicit Euler would give 3).
+    expect(sensor.position.x).toBeCloseTo(2);
+    expect(sensor.velocity.x).toBeCloseTo(3);
+    expect(sensor.acceleration).toEqual(Vector3.zero());
+  });
+});
@@ -0,0 +1,238 @@
+/// <reference types="jest" />
+
+import { expect } from '@jest/globals';
+import {
+  NeighborGraph,
+  NeighborGraphType,
+  graphMetrics,
+} from '../src/sensors/NeighborGraph';
+import { Sensor } from '../src/sensors/Sensor';
+import { SensorState } from '../src/sensors/SensorState';
+import { delaunayEdges } from '../src/utils/delaunay';
+import { Vector3 } from '../src/core/Vector3';
+import { Random } from '../src/core/Random';
+import { Logger } from '../src/core/Logger';
+import { SimulationEngine } from '../src/SimulationEngine';
+
+describe('NeighborGraph', () => {
+  const scatter = (count: number): Sensor[] => {
+    const random = new Random(11);
+    return Array.from(
+      { length: count },
+      (_, i) =>
+        new Sensor(
+          `S${i}`,
+          new Vector3(
+            random.next(),
+            random.next(),
+            random.next()
+          ).multiplyScalar(10)
+        )
+    );
+  };
+  const distance = (sensors: Sensor[], i: number, j: number): number =>
+    sensors[i].position.distanceTo(sensors[j].position);
+
+  // Two sensors 1 m apart, separating at 2 m/s, within radio range up to 2.05 m.
+  const createEngine = (): SimulationEngine => {
+    const sensors = [-1, 1].map(
+      direction =>
+        new Sensor(
+          direction < 0 ? 'A' : 'B',
+          new Vector3(direction / 2),
+          new Vector3(direction)
+        )
+    );
+    const engine = new SimulationEngine(sensors, [], 0.01);
+    engine.neighborGraph = new NeighborGraph({
+      type: NeighborGraphType.RADIUS,
+      radius: 2.05,
+      interval: 10,
+    });
+    return engine;
+  };
+  const linkEvents = (): string[] =>
+    Logger.runLog
+      .filter(event => event.event.startsWith('link'))
+      .map(event => event.event);
+
+  beforeAll(() => {
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+    jest.spyOn(Logger, 'debug').mockImplementation(() => {});
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+    jest.spyOn(Logger, 'info').mockImplementation(() => {});
+  });
+
+  beforeEach(() => {
+    Logger.clearRunLog();
+  });
+
+  afterAll(() => {
+    Logger.clearRunLog();
+    jest.restoreAllMocks();
+  });
+
+  test('k-nearest-neighbor links match a brute-force search', () => {
+    const sensors = scatter(60);
+    const expected = new Set<string>();
+    sensors.forEach((_, i) =>
+      sensors
+        .map((__, j) => j)
+        .filter(j => j !== i)
+        .sort((a, b) => distance(sensors, i, a) - distance(sensors, i, b))
+        .slice(0, 4)
+        .forEach(j => expected.add(i < j ? `${i},${j}` : `${j},${i}`))
+    );
+    const links = new NeighborGraph({
+      type: NeighborGraphType.KNN,
+      k: 4,
+    }).links(sensors);
+    expect(links.map(([i, j]) => `${i},${j}`).sort()).toEqual(
+      [...expected].sort()
+    );
+    // With fewer sensors than k + 1, everyone links to everyone.
+    expect(
+      new NeighborGraph({ type: NeighborGraphType.KNN, k: 9 }).links(
+        sensors.slice(0, 3)
+      )
+    ).toEqual([
+      [0, 1],
+      [0, 2],
+      [1, 2],
+    ]);
+    expect(
+      () => new NeighborGraph({ type: NeighborGraphType.KNN, k: 0 })
+    ).toThrow('A k-nearest-neighbor graph needs k to be a positive integer.');
+  });
+
+  test('radius links join every pair within the radius', () => {
+    const sensors = scatter(60);
+    const links = new NeighborGraph({
+      type: NeighborGraphType.RADIUS,
+      radius: 3,
+    }).links(sensors);
+    const expected: [number, number][] = [];
+    sensors.forEach((_, i) =>
+      sensors.forEach((__, j) => {
+        if (j > i && distance(sensors, i, j) <= 3) expected.push([i, j]);
+      })
+    );
+    expect(links).toEqual(expected);
+    expect(() => new NeighborGraph({ type: NeighborGraphType.RADIUS })).toThrow(
+      'A radius graph needs a radius greater than zero.'
+    );
+  });
+
+  test('Delaunay links are the edges of the triangulation', () => {
+    const sensors = scatter(25);
+    expect(
+      new NeighborGraph({ type: NeighborGraphType.DELAUNAY }).links(sensors)
+    ).toEqual(delaunayEdges(sensors.map(sensor => sensor.position)));
+    expect(
+      () => new NeighborGraph({ type: 'mesh' as NeighborGraphType })
+    ).toThrow('Unknown neighbor graph type: mesh.');
+  });
+
+  test('rebuilding rewires neighbor lists and reports the changes', () => {
+    const sensors = [0, 1, 2, 5].map(x => new Sensor(`S${x}`, new Vector3(x)));
+    sensors[0].addNeighbor(sensors[3]);
+    const graph = new NeighborGraph({
+      type: NeighborGraphType.RADIUS,
+      radius: 1.5,
+    });
+    const changes = graph.rebuild(sensors);
+    expect(
+      changes.map(change => [
+        change.sensors.map(sensor => sensor.id).join('-'),
+        change.up,
+      ])
+    ).toEqual([
+      ['S0-S1', true],
+      ['S0-S5', false],
+      ['S1-S2', true],
+    ]);
+    expect(sensors[1].neighbors).toEqual([sensors[0], sensors[2]]);
+    expect(sensors[3].neighbors).toEqual([]);
+    expect(
+      Logger.runLog.map(event => [event.event, event.sensors[1].id])
+    ).toEqual([
+      ['linkUp', 'S1'],
+      ['linkDown', 'S5'],
+      ['linkUp', 'S2'],
+    ]);
+
+    // A switched-off sensor loses its links; an unchanged graph reports nothing.
+    sensors[1].setState(SensorState.INACTIVE);
+    expect(graph.rebuild(sensors).every(change => !change.up)).toBe(true);
+    expect(sensors[0].neighbors).toEqual([]);
+    expect(graph.rebuild(sensors)).toEqual([]);
+  });
+
+  test('metrics describe degrees, components and diameter', () => {
+    // A path A–B–C–D, a triangle E–F–G and an isolated H.
+    const sensors = 'ABCDEFGH'.split('').map(id => new Sensor(id));
+    const link = (a: number, b: number): void => {
+      sensors[a].addNeighbor(sensors[b]);
+      sensors[b].addNeighbor(sensors[a]);
+    };
+    link(0, 1);
+    link(1, 2);
+    link(2, 3);
+    link(4, 5);
+    link(5, 6);
+    sensors[6].addNeighbor(sensors[4]); // One-sided entries count both ways.
+    expect(graphMetrics(sensors)).toEqual({
+      nodes: 8,
+      links: 6,
+      degreeDistribution: [1, 2, 5],
+      meanDegree: 1.5,
+      components: 3,
+      largestComponent: 4,
+      connected: false,
+      diameter: 3,
+    });
+    expect(graphMetrics([])).toEqual({
+      nodes: 0,
+      links: 0,
+      degreeDistribution: [0],
+      meanDegree: 0,
+      components: 0,
+      largestComponent: 0,
+      connected: true,
+      diameter: 0,
+    });
+  });
+
+  test('links come and go as sensors move', () => {
+    const engine = createEngine();
+    const [a, b] = engine.getSensors();
+    engine.step();
+    expect(a.neighbors).toEqual([b]);
+    // The sensors are out of range after 0.525 s, but the graph is only rebuilt on
+    // every tenth step.
+    engine.step(58);
+    expect(a.neighbors).toEqual([b]);
+    engine.step(2);
+    expect(a.neighbors).toEqual([]);
+    expect(b.neighbors).toEqual([]);
+    expect(linkEvents()).toEqual(['linkUp', 'linkDown']);
+    expect(
+      () =>
+        new NeighborGraph({ type: NeighborGraphType.DELAUNAY, interval: 1.5 })
+    ).toThrow('Neighbor graph interval must be a positive integer.');
+  });
+
+  test('rewinding restores the links and replaying records them again', () => {
+    const engine = createEngine();
+    engine.step(80);
+    engine.toggleTimeReversal();
+    engine.step(70);
+    engine.toggleTimeReversal();
+    const [a, b] = engine.getSensors();
+    expect(a.neighbors).toEqual([b]);
+    Logger.clearRunLog();
+    engine.step(70);
+    expect(a.neighbors).toEqual([]);
+    expect(linkEvents()).toEqual(['linkDown']);
+  });
+});
@@ -0,0 +1,157 @@
+/// <reference types="jest" />
+
+import { expect } from '@jest/globals';
+import { Octree } from '../src/core/Octree';
+import { GravitySimulator } from '../src/gravity/GravitySimulator';
+import { ElectricField } from '../src/electricity/ElectricField';
+import { CoulombForceProvider } from '../src/forces/ForceProviders';
+import { Sensor } from '../src/sensors/Sensor';
+import { Vector3 } from '../src/core/Vector3';
+
+describe('Octree (Barnes–Hut)', () => {
+  // Small deterministic LCG so accuracy figures are reproducible.
+  const createRandom = (seed: number): (() => number) => {
+    let state = seed;
+    return () => {
+      state = (state * 1664525 + 1013904223) % 4294967296;
+      return state / 4294967296;
+    };
+  };
+
+  // Two separated clusters of sensors with mixed charges.
+  const createSensors = (count: number, seed: number = 42): Sensor[] => {
+    const random = createRandom(seed);
+    return Array.from({ length: count }, (_, i) => {
+      const offset = i % 2 === 0 ? -5 : 5;
+      const position = new Vector3(
+        offset + random() * 4 - 2,
+        random() * 4 - 2,
+        random() * 4 - 2
+      );
+      const charge = random() < 0.5 ? 1e-6 : -1e-6;
+      return new Sensor(`S${i}`, position, new Vector3(), 1 + random(), charge);
+    });
+  };
+
+  // Maximum error relative to the RMS magnitude of the exact vectors.
+  const relativeError = (approx: Vector3[], exact: Vector3[]): number => {
+    const rms = Math.sqrt(
+      exact.reduce((sum, v) => sum + v.magnitude() ** 2, 0) / exact.length
+    );
+    return Math.max(
+      ...approx.map((v, i) => v.subtract(exact[i]).magnitude() / rms)
+    );
+  };
+
+  const sensors = createSensors(300);
+  const exactForces = (() => {
+    const map = GravitySimulator.calculateNetForces(sensors);
+    return sensors.map(sensor => map.get(sensor.id) as Vector3);
+  })();
+  const exactFields = sensors.map(sensor =>
+    ElectricField.calculateNetField(
+      sensors.filter(other => other !== sensor),
+      sensor.position
+    )
+  );
+
+  test('theta = 0 reproduces the exact gravitational and electric sums', () => {
+    const tree = new Octree(sensors, 0);
+    expect(tree.size).toEqual(sensors.length);
+    const forces = sensors.map(sensor => tree.gravitationalForceOn(sensor));
+    const fields = sensors.map(sensor =>
+      tree.electricFieldAt(sensor.position, sensor)
+    );
+    expect(relativeError(forces, exactForces)).toBeLessThan(1e-10);
+    expect(relativeError(fields, exactFields)).toBeLessThan(1e-10);
+  });
+
+  test('gravity accuracy degrades gracefully as theta grows', () => {
+    const errors = [0.2, 0.5, 1.0].map(theta => {
+      const map = GravitySimulator.calculateNetForces(sensors, theta);
+      return relativeError(
+        sensors.map(sensor => map.get(sensor.id) as Vector3),
+        exactForces
+      );
+    });
+    expect(errors[0]).toBeLessThan(1e-3);
+    expect(errors[1]).toBeLessThan(5e-2);
+    expect(errors[2]).toBeLessThan(0.3);
+    expect(errors[0]).toBeLessThan(errors[1]);
+    expect(errors[1]).toBeLessThan(errors[2]);
+  });
+
+  test('electric field accuracy degrades gracefully as theta grows', () => {
+    const errors = [0.2, 0.5, 1.0].map(theta => {
+      const tree = new Octree(sensors, theta);
+      return relativeError(
+        sensors.map(sensor => tree.electricFieldAt(sensor.position, sensor)),
+        exactFields
+      );
+    });
+    expect(errors[0]).toBeLessThan(2e-3);
+    expect(errors[1]).toBeLessThan(1e-1);
+    expect(errors[0]).toBeLessThan(errors[1]);
+    expect(errors[1]).toBeLessThan(errors[2]);
+  });
+
+  test('dipole term improves the field of a distant neutral cluster', () => {
+    const dipolePair = [
+      new Sensor('P', new Vector3(0.1, 0, 0), new Vector3(), 1, 1e-6),
+      new Sensor('N', new Vector3(-0.1, 0, 0), new Vector3(), 1, -1e-6),
+    ];
+    const point = new Vector3(5, 3, 0);
+    const exact = ElectricField.calculateNetField(dipolePair, point);
+    const tree = new Octree(dipolePair, 1);
+    const monopoleOnly = tree.electricFieldAt(point, undefined, false);
+    const withDipole = tree.electricFieldAt(point);
+    // A neutral pair has no monopole field at all.
+    expect(monopoleOnly.magnitude()).toEqual(0);
+    expect(withDipole.subtract(exact).magnitude()).toBeLessThan(
+      exact.magnitude() * 0.02
+    );
+  });
+
+  test('ElectricField.calculateNetField accepts theta as a drop-in backend', () => {
+    const point = new Vector3(0, 20, 0);
+    const exact = ElectricField.calculateNetField(sensors, point);
+    const approx = ElectricField.calculateNetField(sensors, point, 0.5);
+    expect(approx.subtract(exact).magnitude()).toBeLessThan(
+      exact.magnitude() * 0.01
+    );
+  });
+
+  test('GravitySimulator.simulate and CoulombForceProvider accept theta', () => {
+    const pair = [
+      new Sensor('A', new Vector3(0, 0, 0), new Vector3(), 5, 1e-6),
+      new Sensor('B', new Vector3(0, 10, 0), new Vector3(), 10, 1e-6),
+    ];
+    GravitySimulator.simulate(pair, 1, 5, undefined, 0.5);
+    expect(pair[0].position.y).toBeGreaterThan(0);
+    expect(pair[1].position.y).toBeLessThan(10);
+
+    const exact = new CoulombForceProvider().computeForces(sensors);
+    const approx = new CoulombForceProvider(1, 'coulomb', 0.3).computeForces(
+      sensors
+    );
+    expect(relativeError(approx, exact)).toBeLessThan(5e-2);
+  });
+
+  test('handles empty input, coincident sensors and invalid theta', () => {
+    expect(new Octree([]).size).toEqual(0);
+    expect(new Octree([]).gravitationalAccelerationAt(new Vector3())).toEqual(
+      new Vector3()
+    );
+    const stacked = [
+      new Sensor('A', new Vector3(1, 1, 1)),
+      new Sensor('B', new Vector3(1, 1, 1)),
+      new Sensor('C', new Vector3(1, 1, 1)),
+    ];
+    const tree = new Octree(stacked, 0.5);
+    expect(tree.size).toEqual(3);
+    expect(tree.gravitationalForceOn(stacked[0])).toEqual(new Vector3());
+    expect(() => new Octree(stacked, -1)).toThrow(
+      'Opening angle theta must be non-negative.'
+    );
+  });
+});
@@ -0,0 +1,165 @@
+/// <reference types="jest" />
+
+import { expect } from '@jest/globals';
+import { Random } from '../src/core/Random';
+import { SensorSphere } from '../src/sensors/SensorSphere';
+import { SimulationEngine } from '../src/SimulationEngine';
+import { Sensor } from '../src/sensors/Sensor';
+import { Vector3 } from '../src/core/Vector3';
+import { Logger } from '../src/core/Logger';
+
+describe('Random', () => {
+  const draw = (random: Random, count: number): number[] =>
+    Array.from({ length: count }, () => random.next());
+
+  test('the same seed reproduces the same sequence', () => {
+    expect(draw(new Random(1234), 50)).toEqual(draw(new Random(1234), 50));
+    expect(draw(new Random(1234), 50)).not.toEqual(draw(new Random(1235), 50));
+    expect(new Random(-1).seed).toEqual(4294967295);
+  });
+
+  test('uniform draws stay in range and are roughly uniform', () => {
+    const random = new Random(7);
+    const values = draw(random, 20000);
+    expect(Math.min(...values)).toBeGreaterThanOrEqual(0);
+    expect(Math.max(...values)).toBeLessThan(1);
+    const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+    expect(mean).toBeCloseTo(0.5, 2);
+
+    const ranged = random.nextRange(-3, 2);
+    expect(ranged).toBeGreaterThanOrEqual(-3);
+    expect(ranged).toBeLessThan(2);
+    const counts = [0, 0, 0, 0];
+    for (let i = 0; i < 4000; i++) counts[random.nextInt(4)]++;
+    counts.forEach(count => expect(Math.abs(count - 1000)).toBeLessThan(120));
+  });
+
+  test('nextGaussian has the requested mean and standard deviation', () => {
+    const random = new Random(99);
+    const values = Array.from({ length: 20000 }, () =>
+      random.nextGaussian(3, 2)
+    );
+    const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+    const variance =
+      values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length;
+    expect(mean).toBeCloseTo(3, 1);
+    expect(Math.sqrt(variance)).toBeCloseTo(2, 1);
+  });
+
+  test('split streams are stable and independent of parent consumption', () => {
+    const root = new Random(5);
+    const before = draw(root.split('spheres'), 10);
+    draw(root, 100);
+    expect(draw(root.split('spheres'), 10)).toEqual(before);
+    expect(draw(root.split('noise'), 10)).not.toEqual(before);
+  });
+
+  test('rejects invalid seeds and bounds', () => {
+    expect(() => new Random(1.5)).toThrow(
+      'Random seed must be a finite integer.'
+    );
+    expect(() => new Random(NaN)).toThrow(
+      'Random seed must be a finite integer.'
+    );
+    expect(() => new Random().nextInt(0)).toThrow(
+      'Upper bound must be a positive integer.'
+    );
+  });
+
+  describe('injection', () => {
+    beforeAll(() => {
+      // eslint-disable-next-line @typescript-eslint/no-empty-function
+      jest.spyOn(Logger, 'info').mockImplementation(() => {});
+      // eslint-disable-next-line @typescript-eslint/no-empty-function
+      jest.spyOn(console, 'debug').mockImplementation(() => {});
+    });
+
+    afterAll(() => {
+      Logger.clearRunLog();
+      jest.restoreAllMocks();
+    });
+
+    const layout = (sphere: SensorSphere): number[][] =>
+      sphere.sensors.map(s => [...s.position.toArray(), s.charge]);
+
+    test('spheres built from the same stream have identical sensors', () => {
+      const a = new SensorSphere(
+        'A',
+        new Vector3(),
+        2,
+        30,
+        undefined,
+        new Random(8)
+      );
+      const b = new SensorSphere(
+        'A',
+        new Vector3(),
+        2,
+        30,
+        undefined,
+        new Random(8)
+      );
+      const c = new SensorSphere(
+        'A',
+        new Vector3(),
+        2,
+        30,
+        undefined,
+        new Random(9)
+      );
+      expect(layout(a)).toEqual(layout(b));
+      expect(layout(a)).not.toEqual(layout(c));
+      // The default stream is derived from the sphere id.
+      expect(layout(new SensorSphere('D', new Vector3(), 2, 30))).toEqual(
+        layout(new SensorSphere('D', new Vector3(), 2, 30))
+      );
+    });
+
+    test('engine randomize is reproducible and restarts on reset', () => {
+      const run = (seed: number): number[][] => {
+        const sensors = [new Sensor('S1'), new Sensor('S2')];
+        const engine = new SimulationEngine(
+          sensors,
+          [],
+          0.01,
+          undefined,
+          new Random(seed)
+        );
+        engine.resetAndRestart = false;
+        engine.randomize();
+        const first = sensors.map(s => s.position.toArray());
+        engine.reset();
+        engine.randomize();
+        const replay = engine.getSensors().map(s => s.position.toArray());
+        expect(replay).toEqual(first);
+        return first;
+      };
+      expect(run(11)).toEqual(run(11));
+      expect(run(11)).not.toEqual(run(12));
+    });
+
+    test('reset regenerates sphere sensors in the same places', () => {
+      const sphere = new SensorSphere('R', new Vector3(), 2, 10);
+      const engine = new SimulationEngine([], [sphere]);
+      engine.resetAndRestart = false;
+      engine.reset();
+      expect(layout(engine.container as SensorSphere)).toEqual(layout(sphere));
+    });
+
+    test('the seed is recorded in the run log when a run starts', () => {
+      Logger.clearRunLog();
+      const engine = new SimulationEngine(
+        [],
+        [],
+        0.01,
+        undefined,
+        new Random(77)
+      );
+      engine.start();
+      engine.pause();
+      expect(Logger.runLog).toEqual([
+        expect.objectContaining({ event: 'seed', seed: 77 }),
+      ]);
+    });
+  });
+});
@@ -0,0 +1,228 @@
+/// <reference types="jest" />
+
+import { expect } from '@jest/globals';
+import {
+  PointMassReference,
+  UniformReferenceField,
+  axisReferences,
+  calibrateChannel,
+  calibrateSphere,
+} from '../src/sensors/SensorCalibration';
+import { ChannelType } from '../src/sensors/SensorChannel';
+import { LinearResponse, WhiteNoise } from '../src/sensors/SensorNoise';
+import { Sensor } from '../src/sensors/Sensor';
+import { SensorSphere } from '../src/sensors/SensorSphere';
+import { SensorState } from '../src/sensors/SensorState';
+import { Vector3 } from '../src/core/Vector3';
+import { Random } from '../src/core/Random';
+import { Constants } from '../src/core/Constants';
+import { Logger } from '../src/core/Logger';
+import { SimulationEngine } from '../src/SimulationEngine';
+
+describe('SensorCalibration', () => {
+  // Gains of 1.1, 0.9 and 1.05, with a little cross-axis coupling.
+  const matrix = [
+    [1.1, 0.02, -0.01],
+    [0.03, 0.9, 0.01],
+    [-0.02, 0.01, 1.05],
+  ];
+  const offset = [0.5, -0.2, 0.1];
+
+  const createSensor = (
+    id: string = 'A',
+    state: SensorState = SensorState.MAINTENANCE
+  ): Sensor => {
+    const sensor = new Sensor(
+      id,
+      new Vector3(),
+      Vector3.zero(),
+      Constants.DEFAULT_SENSOR_MASS,
+      Constants.DEFAULT_SENSOR_CHARGE,
+      state
+    );
+    const channel = sensor.addChannel(
+      ChannelType.ELECTRIC_FIELD,
+      new Random(1),
+      10
+    );
+    channel.noise = [new LinearResponse(matrix, offset)];
+    return sensor;
+  };
+
+  beforeAll(() => {
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+    jest.spyOn(Logger, 'debug').mockImplementation(() => {});
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+    jest.spyOn(Logger, 'info').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    Logger.clearRunLog();
+    jest.restoreAllMocks();
+  });
+
+  test('the gain, offset and misalignment are recovered from axis references', () => {
+    const sensor = createSensor();
+    const calibration = calibrateChannel(
+      sensor,
+      ChannelType.ELECTRIC_FIELD,
+      axisReferences(ChannelType.ELECTRIC_FIELD, 10)
+    );
+    expect(calibration.readings).toEqual(6);
+    [1.1, 0.9, 1.05].forEach((gain, i) =>
+      expect(calibration.gain[i]).toBeCloseTo(gain, 10)
+    );
+    offset.forEach((value, i) =>
+      expect(calibration.offset[i]).toBeCloseTo(value, 10)
+    );
+    calibration.misalignment.forEach((row, i) =>
+      row.forEach((entry, j) =>
+        expect(entry).toBeCloseTo(matrix[i][j] / matrix[i][i], 10)
+      )
+    );
+    calibration.residuals.forEach(residual =>
+      expect(residual).toBeCloseTo(0, 10)
+    );
+
+    // The channel now reports the true value.
+    const channel = sensor.getChannel(ChannelType.ELECTRIC_FIELD);
+    const truth = [3, -4, 7];
+    const corrected = channel?.correct(
+      channel.respond(sensor, truth, 0.1)
+    ) as number[];
+    truth.forEach((value, i) => expect(corrected[i]).toBeCloseTo(value, 10));
+  });
+
+  test('source masses calibrate a gravity channel', () => {
+    const sensor = new Sensor('G', new Vector3(1, 2, 3));
+    sensor.setState(SensorState.MAINTENANCE);
+    sensor.advanceState(Constants.MAINTENANCE_TRANSITION_DURATION);
+    sensor.addChannel(ChannelType.GRAVITY, new Random(2)).noise = [
+      new LinearResponse(matrix, [1e-9, 0, -1e-9]),
+    ];
+    const references = [
+      [1, 0, 0],
+      [-1, 0, 0],
+      [0, 1, 0],
+      [0, -1, 0],
+      [0, 0, 1],
+      [0, 0, -1],
+    ].map(
+      direction =>
+        new PointMassReference(
+          sensor.position.add(new Vector3(...direction)),
+          1000
+        )
+    );
+    const field = references[0].valueAt(sensor);
+    expect(field[0]).toBeCloseTo(Constants.GRAVITATIONAL_CONSTANT * 1000, 20);
+    const calibration = calibrateChannel(
+      sensor,
+      ChannelType.GRAVITY,
+      references
+    );
+    expect(calibration.gain[1]).toBeCloseTo(0.9, 6);
+    expect(calibration.offset[2] / 1e-9).toBeCloseTo(-1, 6);
+    expect(sensor.calibrationDue).toBe(false);
+
+    expect(() => new PointMassReference(new Vector3(), 0)).toThrow(
+      'Mass must be greater than zero.'
+    );
+    expect(() =>
+      new PointMassReference(sensor.position, 1).valueAt(sensor)
+    ).toThrow('Sensor G is at the reference mass');
+  });
+
+  test('the residuals measure the noise left after the fit', () => {
+    const sensor = createSensor();
+    const channel = sensor.getChannel(ChannelType.ELECTRIC_FIELD);
+    channel?.noise.push(new WhiteNoise(0.05));
+    const calibration = calibrateChannel(
+      sensor,
+      ChannelType.ELECTRIC_FIELD,
+      axisReferences(ChannelType.ELECTRIC_FIELD, 10),
+      200
+    );
+    expect(calibration.readings).toEqual(1200);
+    calibration.residuals.forEach(residual =>
+      expect(residual).toBeCloseTo(0.05, 2)
+    );
+    [1.1, 0.9, 1.05].forEach((gain, i) =>
+      expect(calibration.gain[i]).toBeCloseTo(gain, 2)
+    );
+  });
+
+  test('calibration needs maintenance, matching references and enough of them', () => {
+    const type = ChannelType.ELECTRIC_FIELD;
+    const references = axisReferences(type, 1);
+    expect(() =>
+      calibrateChannel(createSensor('A', SensorState.ACTIVE), type, references)
+    ).toThrow('Sensor A can only be calibrated in maintenance.');
+    expect(() =>
+      calibrateChannel(createSensor(), ChannelType.GRAVITY, references)
+    ).toThrow('Sensor A has no gravity channel.');
+    expect(() =>
+      calibrateChannel(createSensor(), type, [
+        new UniformReferenceField(ChannelType.MAGNETIC_FIELD, [1, 0, 0]),
+      ])
+    ).toThrow('A magneticField reference cannot calibrate a electricField');
+    expect(() =>
+      calibrateChannel(createSensor(), type, references.slice(0, 3), 5)
+    ).toThrow(
+      'The references do not determine the electricField response of sensor A.'
+    );
+    expect(() => calibrateChannel(createSensor(), type, [])).toThrow(
+      'The references do not determine'
+    );
+  });
+
+  test('a sphere calibrates all of its sensors', () => {
+    const sphere = new SensorSphere('S', new Vector3(), 5, 0);
+    sphere.sensors = [createSensor('A'), createSensor('B')];
+    const calibrations = calibrateSphere(
+      sphere,
+      ChannelType.ELECTRIC_FIELD,
+      axisReferences(ChannelType.ELECTRIC_FIELD, 1)
+    );
+    expect(calibrations).toHaveLength(2);
+    sphere.sensors.forEach((sensor, i) =>
+      expect(sensor.getChannel(ChannelType.ELECTRIC_FIELD)?.calibration).toBe(
+        calibrations[i]
+      )
+    );
+  });
+
+  test('a malfunctioned sensor returns to service once calibrated', () => {
+    const sensor = new Sensor('T', new Vector3(), Vector3.zero());
+    sensor.temperature = 300;
+    sensor.addChannel(ChannelType.TEMPERATURE, new Random(3), 10).noise = [
+      new LinearResponse([[1.02]], [0.5]),
+    ];
+    sensor.setState(SensorState.MALFUNCTION);
+    sensor.setState(SensorState.MAINTENANCE);
+    sensor.advanceState(Constants.MAINTENANCE_TRANSITION_DURATION);
+    expect(() => sensor.setState(SensorState.ACTIVE)).toThrow();
+
+    calibrateChannel(sensor, ChannelType.TEMPERATURE, [
+      new UniformReferenceField(ChannelType.TEMPERATURE, [280]),
+      new UniformReferenceField(ChannelType.TEMPERATURE, [320]),
+    ]);
+    sensor.setState(SensorState.ACTIVE);
+    const engine = new SimulationEngine([sensor], [], 0.05);
+    engine.step(60);
+    expect(sensor.state).toEqual(SensorState.ACTIVE);
+
+    // Readings taken after the sensor is back are corrected to the true temperature.
+    const readings = sensor.getTimeSeries(ChannelType.TEMPERATURE);
+    expect(readings.length).toBeGreaterThan(0);
+    readings.forEach(sample => expect(sample.value[0]).toBeCloseTo(300, 10));
+
+    // The calibration survives a snapshot round trip.
+    const restored = SimulationEngine.fromSnapshot(
+      JSON.stringify(engine.saveSnapshot())
+    );
+    expect(restored.getSensors()[0].channels[0].calibration).toEqual(
+      sensor.channels[0].calibration
+    );
+  });
+});
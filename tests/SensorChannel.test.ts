@@ -0,0 +1,203 @@
+/// <reference types="jest" />
+
+import { expect } from '@jest/globals';
+import {
+  ChannelType,
+  SensorChannel,
+  measure,
+} from '../src/sensors/SensorChannel';
+import { Sensor } from '../src/sensors/Sensor';
+import { WhiteNoise } from '../src/sensors/SensorNoise';
+import { Vector3 } from '../src/core/Vector3';
+import { Random } from '../src/core/Random';
+import { Constants } from '../src/core/Constants';
+import { Logger } from '../src/core/Logger';
+import { IntegratorType, createIntegrator } from '../src/core/Integrator';
+import { GravityForceProvider } from '../src/forces/ForceProviders';
+import { SimulationEngine } from '../src/SimulationEngine';
+
+describe('SensorChannel', () => {
+  beforeAll(() => {
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+    jest.spyOn(Logger, 'debug').mockImplementation(() => {});
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+    jest.spyOn(Logger, 'info').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    Logger.clearRunLog();
+    jest.restoreAllMocks();
+  });
+
+  test('measure samples the fields of the other sensors at the sensor', () => {
+    const probe = new Sensor('P', new Vector3(), Vector3.zero(), 2, 5);
+    const source = new Sensor(
+      'S',
+      new Vector3(2, 0, 0),
+      new Vector3(0, 3, 0),
+      4,
+      1e-6
+    );
+    // A source on top of the probe has no defined field there and is skipped.
+    const coincident = new Sensor('C', new Vector3(), Vector3.zero(), 1, 1);
+    const sources = [probe, source, coincident];
+
+    const [ex, ey, ez] = measure(ChannelType.ELECTRIC_FIELD, probe, sources);
+    expect(ex).toBeCloseTo((-Constants.COULOMB_CONSTANT * 1e-6) / 4, 9);
+    expect([ey, ez]).toEqual([0, 0]);
+
+    // B = μ₀/4π · q (v × r) / r³ with r = (−2, 0, 0) and v = (0, 3, 0).
+    const [, , bz] = measure(ChannelType.MAGNETIC_FIELD, probe, sources);
+    expect(bz).toBeCloseTo((1e-7 * 1e-6 * 6) / 8, 20);
+
+    const [gx] = measure(ChannelType.GRAVITY, probe, sources);
+    // G·M / r² with M = 4 kg at 2 m; the coincident sensor is skipped.
+    expect(gx).toBeCloseTo(Constants.GRAVITATIONAL_CONSTANT, 20);
+
+    probe.temperature = 310;
+    expect(measure(ChannelType.TEMPERATURE, probe, sources)).toEqual([310]);
+  });
+
+  test('channels sample on schedule and keep a bounded time series', () => {
+    const channel = new SensorChannel(
+      ChannelType.TEMPERATURE,
+      new Random(1),
+      4,
+      3
+    );
+    expect(channel.isDue(0)).toBe(true);
+    channel.record(0.1, [1]);
+    expect(channel.nextSampleTime).toBeCloseTo(0.25, 12);
+    expect(channel.isDue(0.2)).toBe(false);
+    // A step longer than the period does not make up the skipped samples.
+    channel.record(0.8, [2]);
+    expect(channel.nextSampleTime).toBeCloseTo(1, 12);
+    channel.record(1, [3]);
+    channel.record(1.25, [4]);
+
+    expect(channel.getSamples().map(sample => sample.value[0])).toEqual([
+      2, 3, 4,
+    ]);
+    expect(channel.getSamples(0.9, 1.1)).toEqual([{ time: 1, value: [3] }]);
+    expect(channel.latest()).toEqual({ time: 1.25, value: [4] });
+    expect(channel.toCSV()).toEqual('time,value\n0.8,2\n1,3\n1.25,4\n');
+
+    channel.rewind(0.9);
+    expect(channel.latest()?.time).toEqual(0.8);
+    expect(channel.nextSampleTime).toEqual(1);
+
+    channel.clear();
+    expect(channel.getSamples()).toEqual([]);
+    expect(
+      () => new SensorChannel(ChannelType.GRAVITY, new Random(1), 0)
+    ).toThrow('Sample rate must be greater than zero.');
+  });
+
+  test('channels split from one root stream have independent noise', () => {
+    const root = new Random(1);
+    const readings = ['A', 'B'].map(id => {
+      const sensor = new Sensor(id);
+      sensor.temperature = 300;
+      const channel = sensor.addChannel(
+        ChannelType.TEMPERATURE,
+        root.split(`${id}/${ChannelType.TEMPERATURE}`)
+      );
+      channel.noise = [new WhiteNoise(1)];
+      channel.sample(sensor, [sensor], 0);
+      return channel.latest()?.value[0];
+    });
+    expect(readings[0]).not.toEqual(readings[1]);
+  });
+
+  test('sensors hold at most one channel per quantity', () => {
+    const sensor = new Sensor('S');
+    const channel = sensor.addChannel(ChannelType.GRAVITY, new Random(2), 5);
+    expect(sensor.getChannel(ChannelType.GRAVITY)).toBe(channel);
+    expect(channel.sampleRate).toEqual(5);
+    expect(() => sensor.addChannel(ChannelType.GRAVITY, new Random(3))).toThrow(
+      'Sensor S already has a gravity channel.'
+    );
+    expect(() => sensor.getTimeSeries(ChannelType.TEMPERATURE)).toThrow(
+      'Sensor S has no temperature channel.'
+    );
+  });
+
+  describe('SimulationEngine', () => {
+    // A probe falling towards a heavy mass, sampling gravity at 10 Hz.
+    const createEngine = (): { engine: SimulationEngine; probe: Sensor } => {
+      const mass = 1 / Constants.GRAVITATIONAL_CONSTANT;
+      const probe = new Sensor('P', new Vector3(0, 0, 0));
+      const heavy = new Sensor(
+        'M',
+        new Vector3(10, 0, 0),
+        Vector3.zero(),
+        mass
+      );
+      probe.addChannel(ChannelType.GRAVITY, new Random(4), 10);
+      const engine = new SimulationEngine(
+        [probe, heavy],
+        [],
+        0.01,
+        createIntegrator(IntegratorType.VELOCITY_VERLET)
+      );
+      engine.addForceProvider(new GravityForceProvider());
+      return { engine, probe };
+    };
+
+    test('the engine samples channels at their rate', () => {
+      const { engine, probe } = createEngine();
+      engine.step(100);
+      const series = probe.getTimeSeries(ChannelType.GRAVITY);
+      expect(series).toHaveLength(11);
+      expect(series[0].time).toBeCloseTo(0.01, 12);
+      series
+        .slice(1)
+        .forEach((sample, i) =>
+          expect(sample.time).toBeCloseTo(0.1 * (i + 1), 9)
+        );
+      // g = G·M / r² = 1 / r² towards the heavy mass, growing as the probe falls.
+      expect(series[0].value[0]).toBeCloseTo(0.01, 5);
+      expect(series[10].value[0]).toBeGreaterThan(series[0].value[0]);
+      expect(probe.getTimeSeries(ChannelType.GRAVITY, 0.45, 0.75)).toHaveLength(
+        3
+      );
+    });
+
+    test('stepping back drops later readings, which are retaken identically', () => {
+      const reference = createEngine();
+      reference.engine.step(60);
+      const expected = reference.probe.getTimeSeries(ChannelType.GRAVITY);
+
+      const { engine } = createEngine();
+      engine.step(60);
+      engine.toggleTimeReversal();
+      engine.step(25);
+      const rewound = engine.getSensors()[0].getTimeSeries(ChannelType.GRAVITY);
+      expect(rewound.every(sample => sample.time <= 0.35 + 1e-9)).toBe(true);
+      expect(rewound).toHaveLength(4);
+      engine.toggleTimeReversal();
+      engine.step(25);
+      expect(engine.getSensors()[0].getTimeSeries(ChannelType.GRAVITY)).toEqual(
+        expected
+      );
+    });
+
+    test('channels and their time series survive a snapshot round trip', () => {
+      const { engine, probe } = createEngine();
+      engine.step(30);
+      const restored = SimulationEngine.fromSnapshot(
+        JSON.stringify(engine.saveSnapshot())
+      );
+      const channel = restored
+        .getSensors()[0]
+        .getChannel(ChannelType.GRAVITY) as SensorChannel;
+      expect(channel.sampleRate).toEqual(10);
+      expect(channel.getSamples()).toEqual(
+        probe.getTimeSeries(ChannelType.GRAVITY)
+      );
+      expect(channel.nextSampleTime).toEqual(
+        (probe.getChannel(ChannelType.GRAVITY) as SensorChannel).nextSampleTime
+      );
+    });
+  });
+});
@@ -0,0 +1,211 @@
+/// <reference types="jest" />
+
+import { expect } from '@jest/globals';
+import {
+  LatticeOptions,
+  LatticeType,
+  SensorNetworkLattice,
+  latticeSites,
+} from '../src/sensors/SensorNetworkLattice';
+import { Sensor } from '../src/sensors/Sensor';
+import { Vector3 } from '../src/core/Vector3';
+import { Random } from '../src/core/Random';
+import { Logger } from '../src/core/Logger';
+import { SimulationEngine } from '../src/SimulationEngine';
+
+describe('SensorNetworkLattice', () => {
+  beforeAll(() => {
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+    jest.spyOn(Logger, 'info').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  const neighborCounts = (lattice: SensorNetworkLattice): number[] =>
+    lattice.sensors.map(sensor => sensor.neighbors.length);
+
+  test.each([
+    [LatticeType.CUBIC, 1, 1, 6],
+    [LatticeType.BCC, 2, Math.sqrt(3) / 2, 8],
+    [LatticeType.FCC, 4, Math.SQRT1_2, 12],
+    [LatticeType.HEXAGONAL, 1, 1, 12],
+  ])(
+    'a %s lattice has %d sites per cell and its coordination number inside',
+    (type, perCell, nearest, coordination) => {
+      const lattice = new SensorNetworkLattice('L', {
+        type,
+        spacing: 2,
+        cells: [4, 4, 4],
+      });
+      expect(lattice.sensors).toHaveLength(64 * perCell);
+      expect(lattice.nearestNeighborDistance).toBeCloseTo(2 * nearest, 12);
+      expect(Math.max(...neighborCounts(lattice))).toEqual(coordination);
+
+      // Every link joins nearest neighbours, in both directions.
+      lattice.sensors.forEach(sensor =>
+        sensor.neighbors.forEach(neighbor => {
+          expect(sensor.position.distanceTo(neighbor.position)).toBeCloseTo(
+            lattice.nearestNeighborDistance,
+            9
+          );
+          expect(neighbor.neighbors).toContain(sensor);
+        })
+      );
+    }
+  );
+
+  test('sites are centred and addressable by cell', () => {
+    const lattice = new SensorNetworkLattice('C', {
+      type: LatticeType.BCC,
+      spacing: 1,
+      cells: [3, 2, 2],
+      center: [10, 0, -5],
+    });
+    const centroid = lattice.sensors
+      .reduce((sum, sensor) => sum.add(sensor.position), Vector3.zero())
+      .divideScalar(lattice.sensors.length);
+    expect(centroid.distanceTo(new Vector3(10, 0, -5))).toBeCloseTo(0, 12);
+
+    const corner = lattice.sensorAt(0, 0, 0) as Sensor;
+    const body = lattice.sensorAt(2, 1, 1, 1) as Sensor;
+    expect(body.position.subtract(corner.position).toArray()).toEqual([
+      2.5, 1.5, 1.5,
+    ]);
+    expect(corner.id).toEqual('C_sensor_1');
+    expect(lattice.sensorAt(3, 0, 0)).toBeUndefined();
+    expect(lattice.sensorAt(0, 0, 0, 2)).toBeUndefined();
+
+    const sites = (options: Partial<LatticeOptions>): Vector3[] =>
+      latticeSites({ type: LatticeType.CUBIC, spacing: 1, ...options });
+    expect(() => sites({ spacing: 0 })).toThrow(
+      'Lattice spacing must be greater than zero.'
+    );
+    expect(() => sites({ cells: [1, 0, 1] })).toThrow(
+      'Lattice cells must be three positive integers.'
+    );
+    expect(() => sites({ type: 'square' as LatticeType })).toThrow(
+      'Unknown lattice type: square.'
+    );
+  });
+
+  test('a Fibonacci shell spreads its sites evenly over the sphere', () => {
+    const lattice = new SensorNetworkLattice('F', {
+      type: LatticeType.FIBONACCI,
+      spacing: 0.25,
+      radius: 2,
+      center: [1, 1, 1],
+    });
+    const center = new Vector3(1, 1, 1);
+    lattice.sensors.forEach(sensor =>
+      expect(sensor.position.distanceTo(center)).toBeCloseTo(2, 12)
+    );
+    // Each site covers (√3/2)·spacing² of the shell.
+    const expected = (4 * Math.PI * 4) / ((Math.sqrt(3) / 2) * 0.0625);
+    expect(Math.abs(lattice.sensors.length - expected)).toBeLessThanOrEqual(1);
+    expect(lattice.nearestNeighborDistance).toBeCloseTo(0.25, 3);
+
+    const counts = neighborCounts(lattice);
+    const mean = counts.reduce((sum, n) => sum + n, 0) / counts.length;
+    expect(mean).toBeGreaterThan(5.5);
+    expect(mean).toBeLessThan(6.5);
+    expect(lattice.sensorAt(0, 0, 0)).toBeUndefined();
+    expect(
+      () =>
+        new SensorNetworkLattice('X', {
+          type: LatticeType.FIBONACCI,
+          spacing: 1,
+        })
+    ).toThrow('A fibonacci lattice needs a radius greater than zero.');
+  });
+
+  test('jitter displaces sensors but keeps the links of the ideal sites', () => {
+    const options: LatticeOptions = {
+      type: LatticeType.FCC,
+      spacing: 1,
+      cells: [2, 2, 2],
+    };
+    const ideal = new SensorNetworkLattice('J', options);
+    const jittered = new SensorNetworkLattice(
+      'J',
+      { ...options, jitter: 0.05 },
+      new Random(3)
+    );
+    const displacements = jittered.sensors.map((sensor, i) =>
+      sensor.position.distanceTo(ideal.sensors[i].position)
+    );
+    expect(Math.min(...displacements)).toBeGreaterThan(0);
+    expect(Math.max(...displacements)).toBeLessThan(0.5);
+    expect(neighborCounts(jittered)).toEqual(neighborCounts(ideal));
+
+    const again = new SensorNetworkLattice(
+      'J',
+      { ...options, jitter: 0.05 },
+      new Random(3)
+    );
+    expect(again.sensors.map(sensor => sensor.position)).toEqual(
+      jittered.sensors.map(sensor => sensor.position)
+    );
+
+    expect(
+      () => new SensorNetworkLattice('X', { ...options, jitter: -1 })
+    ).toThrow('Lattice jitter must be non-negative.');
+    expect(
+      () => new SensorNetworkLattice('X', { ...options, jitter: 0.1 })
+    ).toThrow('Lattice X needs a random stream for its jitter.');
+  });
+
+  test('a wider neighbour distance links further shells', () => {
+    const lattice = new SensorNetworkLattice('W', {
+      type: LatticeType.CUBIC,
+      spacing: 1,
+      cells: [3, 3, 3],
+      neighborDistance: 1.5,
+    });
+    // The centre site reaches its 6 face and 12 edge neighbours.
+    expect(lattice.sensorAt(1, 1, 1)?.neighbors).toHaveLength(18);
+    expect(
+      () =>
+        new SensorNetworkLattice('X', {
+          type: LatticeType.CUBIC,
+          spacing: 1,
+          neighborDistance: 0,
+        })
+    ).toThrow('Lattice neighbor distance must be greater than zero.');
+  });
+
+  test('the engine simulates a registered lattice and keeps it across snapshots', () => {
+    const engine = new SimulationEngine();
+    const lattice = new SensorNetworkLattice('L', {
+      type: LatticeType.HEXAGONAL,
+      spacing: 1,
+      cells: [3, 2, 2],
+    });
+    engine.addLattice(lattice);
+    expect(engine.getSensors()).toEqual(lattice.sensors);
+    expect(() => engine.addLattice(lattice)).toThrow(
+      'Lattice L is already registered.'
+    );
+
+    const restored = SimulationEngine.fromSnapshot(
+      JSON.stringify(engine.saveSnapshot())
+    );
+    const [copy] = restored.getLattices();
+    expect(copy.id).toEqual('L');
+    expect(copy.options).toEqual(lattice.options);
+    expect(copy.sensors).toEqual(restored.getSensors());
+    expect(copy.sensorAt(2, 1, 1)?.id).toEqual(lattice.sensorAt(2, 1, 1)?.id);
+    expect(copy.sensorAt(1, 1, 0)?.neighbors.map(sensor => sensor.id)).toEqual(
+      lattice.sensorAt(1, 1, 0)?.neighbors.map(sensor => sensor.id)
+    );
+
+    // A lattice restored around existing sensors needs one per site.
+    expect(
+      () =>
+        new SensorNetworkLattice('X', lattice.options, undefined, [
+          new Sensor('A'),
+        ])
+    ).toThrow('Lattice X has 12 sites but was given 1 sensors.');
+  });
+});
@@ -0,0 +1,222 @@
+/// <reference types="jest" />
+
+import { expect } from '@jest/globals';
+import {
+  NoiseStage,
+  NoiseType,
+  PinkNoise,
+  Quantizer,
+  RandomWalkDrift,
+  Saturation,
+  TemperatureBias,
+  WhiteNoise,
+  createNoiseStage,
+} from '../src/sensors/SensorNoise';
+import { ChannelType } from '../src/sensors/SensorChannel';
+import {
+  allanDeviation,
+  allanDeviationCurve,
+  allanSlope,
+} from '../src/utils/allanDeviation';
+import { Sensor } from '../src/sensors/Sensor';
+import { Random } from '../src/core/Random';
+import { Vector3 } from '../src/core/Vector3';
+import { Constants } from '../src/core/Constants';
+import { Logger } from '../src/core/Logger';
+import { IntegratorType, createIntegrator } from '../src/core/Integrator';
+import { GravityForceProvider } from '../src/forces/ForceProviders';
+import { SimulationEngine } from '../src/SimulationEngine';
+
+describe('Sensor noise', () => {
+  const count = 1 << 14;
+
+  // The readings a stage reports for a true value of zero, one every interval seconds.
+  const readings = (
+    stage: NoiseStage,
+    interval: number = 1,
+    sensor: Sensor = new Sensor('S'),
+    random: Random = new Random(7)
+  ): number[] =>
+    Array.from(
+      { length: count },
+      () => stage.apply([0], { sensor, interval, random })[0]
+    );
+
+  test('white noise has Allan deviation σ/√m', () => {
+    const values = readings(new WhiteNoise(2));
+    expect(allanDeviation(values, 1, 1)).toBeCloseTo(2, 1);
+    const curve = allanDeviationCurve(values, 1, 1 / 16);
+    expect(allanSlope(curve)).toBeCloseTo(-0.5, 1);
+  });
+
+  test('random-walk drift has Allan deviation rate·√(τ/3)', () => {
+    const interval = 0.1;
+    const values = readings(new RandomWalkDrift(0.5), interval);
+    const curve = allanDeviationCurve(values, interval, 1 / 16).slice(2);
+    expect(allanSlope(curve)).toBeGreaterThan(0.4);
+    expect(allanSlope(curve)).toBeLessThan(0.6);
+    const tau = 16 * interval;
+    expect(allanDeviation(values, interval, 16)).toBeGreaterThan(
+      0.8 * 0.5 * Math.sqrt(tau / 3)
+    );
+    expect(allanDeviation(values, interval, 16)).toBeLessThan(
+      1.2 * 0.5 * Math.sqrt(tau / 3)
+    );
+  });
+
+  test('pink noise has a flat Allan deviation', () => {
+    const values = readings(new PinkNoise(1, 16));
+    const curve = allanDeviationCurve(values, 1, 1 / 16).slice(2);
+    expect(Math.abs(allanSlope(curve))).toBeLessThan(0.15);
+  });
+
+  test('temperature bias follows the sensor temperature', () => {
+    const sensor = new Sensor('S');
+    sensor.temperature = Constants.REFERENCE_TEMPERATURE + 10;
+    const stage = new TemperatureBias(0.1);
+    const random = new Random(1);
+    expect(stage.apply([1, 2, 3], { sensor, interval: 1, random })).toEqual([
+      2, 3, 4,
+    ]);
+    sensor.temperature = 250;
+    expect(
+      new TemperatureBias(0.5, 250).apply([1], { sensor, interval: 1, random })
+    ).toEqual([1]);
+  });
+
+  test('the quantizer rounds to its levels and clips to full scale', () => {
+    const adc = new Quantizer(8, 1);
+    expect(adc.step).toEqual(1 / 128);
+    expect(adc.apply([0.3, 5, -5])).toEqual([38 / 128, 1, -1]);
+
+    // Rounding errors on well-spread inputs are white with σ = step/√12.
+    const random = new Random(3);
+    const errors = Array.from({ length: count }, () => {
+      const value = random.nextRange(-0.9, 0.9);
+      return adc.apply([value])[0] - value;
+    });
+    expect(
+      allanDeviation(errors, 1, 1) / (adc.step / Math.sqrt(12))
+    ).toBeCloseTo(1, 1);
+    expect(allanSlope(allanDeviationCurve(errors, 1, 1 / 16))).toBeCloseTo(
+      -0.5,
+      1
+    );
+  });
+
+  test('saturation clamps readings to the reportable range', () => {
+    expect(new Saturation(-1, 2).apply([-3, 0.5, 7])).toEqual([-1, 0.5, 2]);
+  });
+
+  test('stages reject invalid parameters', () => {
+    expect(() => new WhiteNoise(-1)).toThrow(
+      'Noise standard deviation must be non-negative.'
+    );
+    expect(() => new PinkNoise(1, 0)).toThrow(
+      'Pink noise octaves must be a positive integer.'
+    );
+    expect(() => new RandomWalkDrift(-1)).toThrow(
+      'Drift rate must be non-negative.'
+    );
+    expect(() => new Quantizer(0, 1)).toThrow(
+      'Quantizer bits must be a positive integer and full scale greater than zero.'
+    );
+    expect(() => new Saturation(1, 1)).toThrow(
+      'Saturation limits must satisfy min < max.'
+    );
+    expect(() => allanDeviation([1, 2, 3], 1, 2)).toThrow(
+      'Allan deviation at cluster size 2 needs at least 4 readings.'
+    );
+  });
+
+  test('a stage rebuilt from its spec continues where it left off', () => {
+    const sensor = new Sensor('S');
+    const stages = [new PinkNoise(1, 4), new RandomWalkDrift(1)];
+    stages.forEach(stage => {
+      const random = new Random(11);
+      const context = { sensor, interval: 1, random };
+      for (let i = 0; i < 5; i++) stage.apply([0, 0, 0], context);
+      const copy = createNoiseStage(JSON.parse(JSON.stringify(stage.toSpec())));
+      const copyContext = { ...context, random: new Random(12) };
+      copyContext.random.setState(random.getState());
+      for (let i = 0; i < 5; i++) {
+        expect(copy.apply([0, 0, 0], copyContext)).toEqual(
+          stage.apply([0, 0, 0], context)
+        );
+      }
+    });
+    expect(
+      createNoiseStage({ type: NoiseType.SATURATION, min: 0, max: 1 })
+    ).toBeInstanceOf(Saturation);
+  });
+
+  describe('SimulationEngine', () => {
+    beforeAll(() => {
+      // eslint-disable-next-line @typescript-eslint/no-empty-function
+      jest.spyOn(Logger, 'debug').mockImplementation(() => {});
+      // eslint-disable-next-line @typescript-eslint/no-empty-function
+      jest.spyOn(Logger, 'info').mockImplementation(() => {});
+    });
+
+    afterAll(() => {
+      Logger.clearRunLog();
+      jest.restoreAllMocks();
+    });
+
+    // A probe near a heavy mass whose gravity channel drifts, flickers and is digitized.
+    const createEngine = (): { engine: SimulationEngine; probe: Sensor } => {
+      const probe = new Sensor('P', new Vector3());
+      const heavy = new Sensor(
+        'M',
+        new Vector3(10, 0, 0),
+        Vector3.zero(),
+        1 / Constants.GRAVITATIONAL_CONSTANT
+      );
+      const channel = probe.addChannel(ChannelType.GRAVITY, new Random(1), 20);
+      channel.noise = [
+        new RandomWalkDrift(0.001),
+        new PinkNoise(0.001, 8),
+        new WhiteNoise(0.001),
+        new Quantizer(12, 0.1),
+      ];
+      const engine = new SimulationEngine(
+        [probe, heavy],
+        [],
+        0.01,
+        createIntegrator(IntegratorType.VELOCITY_VERLET)
+      );
+      engine.addForceProvider(new GravityForceProvider());
+      return { engine, probe };
+    };
+
+    test('noisy readings scatter around the true field', () => {
+      const { engine, probe } = createEngine();
+      engine.step(100);
+      const series = probe.getTimeSeries(ChannelType.GRAVITY);
+      const step = new Quantizer(12, 0.1).step;
+      series.forEach(sample => {
+        expect(sample.value[0]).toBeCloseTo(0.01, 1);
+        expect(Number.isInteger(Math.round(sample.value[1] / step))).toBe(true);
+      });
+      expect(
+        new Set(series.map(sample => sample.value[0])).size
+      ).toBeGreaterThan(1);
+    });
+
+    test('noise is replayed exactly when stepping back and forth', () => {
+      const reference = createEngine();
+      reference.engine.step(60);
+      const expected = reference.probe.getTimeSeries(ChannelType.GRAVITY);
+
+      const { engine } = createEngine();
+      engine.step(60);
+      engine.toggleTimeReversal();
+      engine.step(35);
+      engine.toggleTimeReversal();
+      engine.step(35);
+      expect(engine.getSensors()[0].getTimeSeries(ChannelType.GRAVITY)).toEqual(
+        expected
+      );
+    });
+  });
+});
@@ -7,6 +7,7 @@ import { SensorState } from '../src/sensors/SensorState';
 import { Vector3 } from '../src/core/Vector3';
 import { Constants } from '../src/core/Constants';
 import { Logger } from '../src/core/Logger';
+import { Random } from '../src/core/Random';
 
 describe('SensorSphere Class Unit Tests', () => {
   // Preserve the original Math.random
@@ -46,9 +47,17 @@ describe('SensorSphere Class Unit Tests', () => {
   });
 
   test('Default SensorSphere generates sensors with neutral color, and sphere color is neutral', () => {
-    // Force Math.random() to return 0 so that every sensor gets a neutral charge.
-    Math.random = () => 0;
-    const sphere = new SensorSphere('DefaultSphere', new Vector3(), 5, 20);
+    // Inject a stream that always returns 0 so that every sensor gets a neutral charge.
+    const zeroRandom = new Random();
+    zeroRandom.next = () => 0;
+    const sphere = new SensorSphere(
+      'DefaultSphere',
+      new Vector3(),
+      5,
+      20,
+      undefined,
+      zeroRandom
+    );
     sphere.sensors.forEach(sensor => {
       expect(sensor.color).toEqual('#FFFFFF');
     });
@@ -271,6 +280,10 @@ describe('SensorSphere Class Unit Tests', () => {
     const sphere = new SensorSphere('Sphere7', new Vector3(), 1.0, 5);
     sphere.setState(SensorState.MAINTENANCE, true);
     for (const sensor of sphere.sensors) {
+      // Active sensors pass through TRANSITION on their way into maintenance.
+      expect(sensor.state).toEqual(SensorState.TRANSITION);
+      expect(sensor.targetState).toEqual(SensorState.MAINTENANCE);
+      sensor.advanceState(Constants.MAINTENANCE_TRANSITION_DURATION);
       expect(sensor.state).toEqual(SensorState.MAINTENANCE);
     }
   });
@@ -351,11 +364,14 @@ describe('SensorSphere Class Unit Tests', () => {
   });
 
   test('static randomPointInSphere should return a point within the sphere', () => {
-    // Override Math.random to generate a deterministic outcome.
-    Math.random = () => 0.5;
+    // Use a seeded stream to generate a deterministic outcome.
     const center = new Vector3(0, 0, 0);
     const radius = 2;
-    const point = SensorSphere.randomPointInSphere(center, radius);
+    const point = SensorSphere.randomPointInSphere(
+      center,
+      radius,
+      new Random(7)
+    );
     // The point's distance from the center must be less than or equal to radius.
     expect(point.distanceTo(center)).toBeLessThanOrEqual(radius);
   });
@@ -1,7 +1,10 @@
 /// <reference types="jest" />
 
 import { expect } from '@jest/globals';
-import { SensorSphereNetwork } from '../src/sensors/SensorSphereNetwork';
+import {
+  SensorSphereNetwork,
+  escapeVelocity,
+} from '../src/sensors/SensorSphereNetwork';
 import { SensorSphere } from '../src/sensors/SensorSphere';
 import { SensorState } from '../src/sensors/SensorState';
 import { SimulationEngine } from '../src/SimulationEngine';
@@ -137,7 +140,8 @@ describe('SensorSphereNetwork Class Unit Tests', () => {
     for (const sphere of networkWithSpheres.getSpheres()) {
       expect(sphere.state).toEqual(SensorState.MAINTENANCE);
       sphere.sensors.forEach(sensor => {
-        expect(sensor.state).toEqual(SensorState.MAINTENANCE);
+        expect(sensor.state).toEqual(SensorState.TRANSITION);
+        expect(sensor.targetState).toEqual(SensorState.MAINTENANCE);
       });
     }
   });
@@ -231,3 +235,148 @@ describe('SensorSphereNetwork Class Unit Tests', () => {
     );
   });
 });
+
+describe('Sphere–sphere collisions and accretion', () => {
+  // Two spheres of radius 1 overlapping by 0.2 along x, moving towards each other.
+  const makePair = (
+    speed: number,
+    countB: number = 4
+  ): [SensorSphere, SensorSphere] => {
+    const a = new SensorSphere('A', new Vector3(-0.9, 0, 0), 1, 4);
+    const b = new SensorSphere('B', new Vector3(0.9, 0, 0), 1, countB);
+    a.velocity = new Vector3(speed, 0, 0);
+    b.velocity = new Vector3(-speed, 0, 0);
+    return [a, b];
+  };
+
+  beforeAll(() => {
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+    jest.spyOn(Logger, 'info').mockImplementation(() => {});
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+    jest.spyOn(Logger, 'debug').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    Logger.clearRunLog();
+    jest.restoreAllMocks();
+  });
+
+  test('elastic collisions reverse approaching spheres and remove the overlap', () => {
+    const [a, b] = makePair(1, 12);
+    const sensorStart = a.sensors[0].position;
+    const network = new SensorSphereNetwork([a, b]);
+    expect(network.resolveCollisions()).toEqual([]);
+
+    // 1D elastic collision of masses 4 and 12.
+    expect(a.velocity.x).toBeCloseTo(-2, 10);
+    expect(b.velocity.x).toBeCloseTo(0, 10);
+    expect(b.center.x - a.center.x).toBeCloseTo(2, 10);
+    // The overlap is split in inverse proportion to mass; sensors move along.
+    expect(a.center.x).toBeCloseTo(-1.05, 10);
+    expect(b.center.x).toBeCloseTo(0.95, 10);
+    expect(a.sensors[0].position.x - sensorStart.x).toBeCloseTo(-0.15, 10);
+  });
+
+  test('restitution 0 leaves colliding spheres moving together', () => {
+    const [a, b] = makePair(1, 12);
+    const network = new SensorSphereNetwork([a, b]);
+    network.restitution = 0;
+    network.resolveCollisions();
+    expect(a.velocity.x).toBeCloseTo(-0.5, 10);
+    expect(b.velocity.x).toBeCloseTo(-0.5, 10);
+  });
+
+  test('separating and distant spheres are left alone, as are containers', () => {
+    const [a, b] = makePair(-1);
+    new SensorSphereNetwork([a, b]).resolveCollisions();
+    expect(a.velocity.x).toEqual(-1);
+    expect(a.center.x).toBeCloseTo(-1, 10);
+
+    const [c, d] = makePair(1);
+    d.center = new Vector3(3, 0, 0);
+    new SensorSphereNetwork([c, d]).resolveCollisions();
+    expect(c.velocity.x).toEqual(1);
+
+    const [e, f] = makePair(1);
+    new SensorSphereNetwork([e, f]).resolveCollisions([e]);
+    expect(e.velocity.x).toEqual(1);
+    expect(f.center.x).toEqual(0.9);
+  });
+
+  test('accretion merges spheres colliding below the escape velocity', () => {
+    Logger.clearRunLog();
+    const [a, b] = makePair(0, 12);
+    a.velocity = new Vector3(0, 2e-6, 0);
+    const limit = escapeVelocity(a, b);
+    expect(limit).toBeCloseTo(Math.sqrt((2 * 6.6743e-11 * 16) / 2), 15);
+    expect(a.velocity.magnitude()).toBeLessThan(limit);
+
+    const sensorPositions = [...b.sensors, ...a.sensors].map(s =>
+      s.position.toArray()
+    );
+    const network = new SensorSphereNetwork([a, b]);
+    network.accretion = true;
+    const mergers = network.resolveCollisions();
+
+    expect(mergers).toEqual([{ survivor: b, absorbed: a }]);
+    expect(network.getSpheres()).toEqual([b]);
+    expect(b.sensors).toHaveLength(16);
+    expect(b.sensors).toEqual(expect.arrayContaining(a.sensors));
+    expect(b.mass).toEqual(16);
+    expect(b.radius).toBeCloseTo(Math.cbrt(2), 12);
+    // Momentum is conserved and the center moves to the center of mass.
+    expect(b.velocity.y).toBeCloseTo(0.5e-6, 15);
+    expect(b.center.x).toBeCloseTo(0.45, 12);
+    // Sensors already sit where the combined mass is; none of them moves.
+    expect(b.sensors.map(s => s.position.toArray())).toEqual(sensorPositions);
+
+    const [event] = Logger.runLog;
+    expect(event).toMatchObject({
+      event: 'merge',
+      spheres: ['B', 'A'],
+      sensors: a.sensors,
+    });
+    expect(event.postMomentum).toBeCloseTo(event.preMomentum as number, 15);
+    expect(event.postEnergy).toBeLessThan(event.preEnergy as number);
+  });
+
+  test('accretion still bounces spheres that collide faster than escape velocity', () => {
+    const [a, b] = makePair(1);
+    const network = new SensorSphereNetwork([a, b]);
+    network.accretion = true;
+    expect(network.resolveCollisions()).toEqual([]);
+    expect(network.getSpheres()).toHaveLength(2);
+    expect(a.velocity.x).toBeCloseTo(-1, 10);
+  });
+
+  test('spheres confined to an absorbed sphere move to the survivor', () => {
+    const [a, b] = makePair(0, 12);
+    const inner = new SensorSphere('Inner', new Vector3(-0.9, 0, 0), 0.2, 0);
+    inner.setParent(a);
+    const network = new SensorSphereNetwork([a, b, inner]);
+    network.accretion = true;
+    expect(network.resolveCollisions()).toEqual([{ survivor: b, absorbed: a }]);
+    expect(inner.parent).toBe(b);
+    expect(network.getSpheres()).toEqual([b, inner]);
+  });
+
+  test('the engine drops absorbed spheres but keeps the container', () => {
+    const box = new SensorSphere('Box', new Vector3(), 10, 0);
+    const [a, b] = makePair(0, 12);
+    const engine = new SimulationEngine([], [box, a, b], 0.01);
+    engine.getSphereNetwork().accretion = true;
+    engine.step();
+
+    const snapshot = engine.saveSnapshot();
+    const ids = (indices: number[]): string[] =>
+      indices.map(index => snapshot.spheres[index].id);
+    expect(ids(snapshot.engine.sensorSpheres)).toEqual(['Box', 'B']);
+    expect(ids(snapshot.network.spheres)).toEqual(['Box', 'B']);
+
+    // Network settings survive a reset.
+    engine.resetAndRestart = false;
+    engine.reset();
+    expect(engine.getSphereNetwork().accretion).toBe(true);
+    expect(engine.getSphereNetwork().getSpheres()).toHaveLength(3);
+  });
+});
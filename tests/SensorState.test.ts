@@ -1,7 +1,15 @@
 /// <reference types="jest" />
 
 import { expect } from '@jest/globals';
-import { SensorState } from '../src/sensors/SensorState';
+import { SENSOR_TRANSITIONS, SensorState } from '../src/sensors/SensorState';
+import { Sensor } from '../src/sensors/Sensor';
+import { ChannelType } from '../src/sensors/SensorChannel';
+import { Vector3 } from '../src/core/Vector3';
+import { Random } from '../src/core/Random';
+import { Constants } from '../src/core/Constants';
+import { Logger } from '../src/core/Logger';
+import { IntegratorType, createIntegrator } from '../src/core/Integrator';
+import { SimulationEngine } from '../src/SimulationEngine';
 
 describe('SensorState Enum', () => {
   test('should have correct state values', () => {
@@ -13,3 +21,164 @@ describe('SensorState Enum', () => {
     expect(SensorState.TRANSITION).toEqual('transition');
   });
 });
+
+describe('Sensor state machine', () => {
+  const duration = Constants.MAINTENANCE_TRANSITION_DURATION;
+
+  beforeAll(() => {
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+    jest.spyOn(Logger, 'debug').mockImplementation(() => {});
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+    jest.spyOn(Logger, 'info').mockImplementation(() => {});
+  });
+
+  beforeEach(() => {
+    Logger.clearRunLog();
+  });
+
+  afterAll(() => {
+    Logger.clearRunLog();
+    jest.restoreAllMocks();
+  });
+
+  test('every state can be switched off or fail, except once off', () => {
+    Object.values(SensorState).forEach(state => {
+      if (state === SensorState.INACTIVE) return;
+      expect(SENSOR_TRANSITIONS[state][SensorState.INACTIVE]).toBeDefined();
+      if (state === SensorState.MALFUNCTION) return;
+      expect(SENSOR_TRANSITIONS[state][SensorState.MALFUNCTION]).toBeDefined();
+    });
+    expect(
+      SENSOR_TRANSITIONS[SensorState.INACTIVE][SensorState.MALFUNCTION]
+    ).toBeUndefined();
+  });
+
+  test('active sensors enter maintenance through TRANSITION', () => {
+    const sensor = new Sensor('S');
+    sensor.setState(SensorState.MAINTENANCE);
+    expect(sensor.state).toEqual(SensorState.TRANSITION);
+    expect(sensor.targetState).toEqual(SensorState.MAINTENANCE);
+    expect(sensor.isMeasuring).toBe(false);
+
+    // Requesting the target again does not restart the transition.
+    expect(sensor.advanceState(duration / 2)).toBe(true);
+    sensor.setState(SensorState.MAINTENANCE);
+    expect(sensor.transitionRemaining).toBeCloseTo(duration / 2, 12);
+    expect(() => sensor.setState(SensorState.ACTIVE)).toThrow(
+      'Sensor S cannot change from transition to active.'
+    );
+
+    sensor.advanceState(duration / 2);
+    expect(sensor.state).toEqual(SensorState.MAINTENANCE);
+    expect(sensor.targetState).toBeNull();
+    expect(sensor.advanceState(duration)).toBe(false);
+
+    expect(
+      Logger.runLog.map(event => [event.event, event.fromState, event.toState])
+    ).toEqual([
+      ['stateChange', SensorState.ACTIVE, SensorState.TRANSITION],
+      ['stateChange', SensorState.TRANSITION, SensorState.MAINTENANCE],
+    ]);
+  });
+
+  test('a malfunctioning sensor returns to service only after calibration', () => {
+    const sensor = new Sensor('S');
+    sensor.setState(SensorState.MALFUNCTION);
+    expect(sensor.calibrationDue).toBe(true);
+    expect(() => sensor.setState(SensorState.ACTIVE)).toThrow(
+      'Sensor S cannot change from malfunction to active.'
+    );
+    expect(() => sensor.calibrate()).toThrow(
+      'Sensor S can only be calibrated in maintenance.'
+    );
+
+    // Switching off and on again does not get round the calibration.
+    sensor.setState(SensorState.INACTIVE);
+    expect(() => sensor.setState(SensorState.ACTIVE)).toThrow(
+      'Sensor S cannot change from inactive to active: it must be calibrated first.'
+    );
+
+    sensor.setState(SensorState.MAINTENANCE);
+    sensor.advanceState(duration);
+    expect(() => sensor.setState(SensorState.ACTIVE)).toThrow(
+      'it must be calibrated first'
+    );
+    sensor.calibrate();
+    sensor.setState(SensorState.ACTIVE);
+    expect(sensor.state).toEqual(SensorState.TRANSITION);
+    sensor.advanceState(duration);
+    expect(sensor.state).toEqual(SensorState.ACTIVE);
+  });
+
+  test('a failure interrupts a transition', () => {
+    const sensor = new Sensor('S');
+    sensor.setState(SensorState.MAINTENANCE);
+    sensor.setState(SensorState.MALFUNCTION);
+    expect(sensor.state).toEqual(SensorState.MALFUNCTION);
+    expect(sensor.targetState).toBeNull();
+    expect(sensor.advanceState(duration)).toBe(false);
+    expect(sensor.state).toEqual(SensorState.MALFUNCTION);
+  });
+
+  describe('SimulationEngine', () => {
+    // Two sensors on a collision course; the first samples its temperature at 10 Hz.
+    const createEngine = (): SimulationEngine => {
+      const a = new Sensor('A', new Vector3(-1, 0, 0), new Vector3(1, 0, 0));
+      const b = new Sensor('B', new Vector3(1, 0, 0), new Vector3(-1, 0, 0));
+      a.addChannel(ChannelType.TEMPERATURE, new Random(1), 10);
+      return new SimulationEngine(
+        [a, b],
+        [],
+        0.01,
+        createIntegrator(IntegratorType.VELOCITY_VERLET)
+      );
+    };
+
+    test('transitions complete as simulation time passes', () => {
+      const engine = createEngine();
+      const [sensor] = engine.getSensors();
+      sensor.setState(SensorState.MAINTENANCE);
+      engine.step(99);
+      expect(sensor.state).toEqual(SensorState.TRANSITION);
+      engine.step();
+      expect(sensor.state).toEqual(SensorState.MAINTENANCE);
+      expect(sensor.getTimeSeries(ChannelType.TEMPERATURE)).toEqual([]);
+
+      // Stepping back into the transition restores it.
+      engine.toggleTimeReversal();
+      engine.step(10);
+      const rewound = engine.getSensors()[0];
+      expect(rewound.state).toEqual(SensorState.TRANSITION);
+      expect(rewound.transitionRemaining).toBeCloseTo(0.1, 9);
+    });
+
+    test('inactive sensors neither measure nor collide', () => {
+      const engine = createEngine();
+      const [a, b] = engine.getSensors();
+      a.setState(SensorState.INACTIVE);
+      engine.step(150);
+      expect(a.getTimeSeries(ChannelType.TEMPERATURE)).toEqual([]);
+      // The sensors passed through each other.
+      expect(a.position.x).toBeCloseTo(0.5, 9);
+      expect(b.position.x).toBeCloseTo(-0.5, 9);
+      expect(Logger.runLog.some(event => event.event === 'collision')).toBe(
+        false
+      );
+    });
+
+    test('the state machine survives a snapshot round trip', () => {
+      const engine = createEngine();
+      const [sensor] = engine.getSensors();
+      sensor.setState(SensorState.MALFUNCTION);
+      sensor.setState(SensorState.MAINTENANCE);
+      engine.step(30);
+      const restored = SimulationEngine.fromSnapshot(
+        JSON.stringify(engine.saveSnapshot())
+      ).getSensors()[0];
+      expect(restored.state).toEqual(SensorState.TRANSITION);
+      expect(restored.targetState).toEqual(SensorState.MAINTENANCE);
+      expect(restored.transitionRemaining).toBeCloseTo(0.7, 9);
+      expect(restored.calibrationDue).toBe(true);
+    });
+  });
+});
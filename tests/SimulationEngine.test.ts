@@ -86,6 +86,73 @@ describe('SimulationEngine Tests', () => {
     expect(engine.globalTime).toEqual(initialTime);
   });
 
+  test('step advances a paused engine without the loop', () => {
+    const sensor = new Sensor('S1', new Vector3(0, 0, 0), new Vector3(1, 0, 0));
+    const engine = new SimulationEngine([sensor], [], 0.05);
+    engine.step();
+    engine.step(3);
+    engine.step(0);
+    expect(engine.globalTime).toBeCloseTo(0.2, 10);
+    expect(engine.getSensors()[0].position.x).toBeCloseTo(0.2, 10);
+    expect(() => engine.step(1.5)).toThrow(
+      'Step count must be a non-negative integer.'
+    );
+  });
+
+  test('advance accumulates real time into fixed steps with an interpolation alpha', () => {
+    const sensor = new Sensor('S1', new Vector3(0, 0, 0), new Vector3(1, 0, 0));
+    const engine = new SimulationEngine([sensor], [], 0.1);
+    expect(engine.advance(1)).toEqual(0); // Paused engines do not advance.
+    engine.start(false);
+    expect(engine.advance(0.05)).toEqual(0);
+    expect(engine.getInterpolationAlpha()).toBeCloseTo(0.5, 10);
+    expect(engine.advance(0.175)).toEqual(2);
+    expect(engine.globalTime).toBeCloseTo(0.2, 10);
+    expect(engine.getInterpolationAlpha()).toBeCloseTo(0.25, 10);
+    // Rendered a quarter of the way from the previous state (x = 0.1) to the latest (x = 0.2).
+    expect(engine.getInterpolatedPosition(sensor).x).toBeCloseTo(0.125, 10);
+    engine.pause();
+  });
+
+  test('advance applies the time scale and caps substeps', () => {
+    const engine = new SimulationEngine([], [], 0.1);
+    engine.start(false);
+    engine.timeScale = 2;
+    expect(engine.advance(0.3)).toEqual(6);
+    expect(engine.globalTime).toBeCloseTo(0.6, 10);
+
+    engine.timeScale = 1;
+    engine.maxSubsteps = 4;
+    expect(engine.advance(10.05)).toEqual(4);
+    expect(engine.getInterpolationAlpha()).toBeCloseTo(0.5, 6);
+    expect(engine.advance(0)).toEqual(0); // The dropped backlog is not replayed.
+    expect(engine.globalTime).toBeCloseTo(1.0, 10);
+
+    engine.timeScale = -1;
+    expect(() => engine.advance(0.1)).toThrow(
+      'Time scale must be a non-negative finite number.'
+    );
+    engine.timeScale = 1;
+    expect(() => engine.advance(-0.1)).toThrow(
+      'Elapsed time must be a non-negative finite number.'
+    );
+    engine.maxSubsteps = 0;
+    expect(() => engine.advance(0.1)).toThrow(
+      'Maximum substeps must be a positive integer.'
+    );
+    engine.pause();
+  });
+
+  test('start(false) leaves ticking to the caller', () => {
+    jest.useFakeTimers();
+    const engine = new SimulationEngine([], [], 0.05);
+    engine.start(false);
+    jest.advanceTimersByTime(500);
+    expect(engine.globalTime).toEqual(0);
+    engine.pause();
+    jest.useRealTimers();
+  });
+
   test('addSensor and addSensorSphere work correctly', () => {
     const engine = new SimulationEngine([], [], 0.05);
     const sensor = new Sensor('S1', new Vector3(0, 0, 0));
@@ -125,14 +192,14 @@ describe('SimulationEngine Tests', () => {
     const sensor1 = new Sensor(
       'S1',
       new Vector3(-0.3, 0, 0),
-      new Vector3(-1, 0, 0),
+      new Vector3(1, 0, 0),
       1,
       1
     );
     const sensor2 = new Sensor(
       'S2',
       new Vector3(0.3, 0, 0),
-      new Vector3(1, 0, 0),
+      new Vector3(-1, 0, 0),
       1,
       1
     );
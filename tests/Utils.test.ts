@@ -3,13 +3,15 @@
 import { expect } from '@jest/globals';
 import { Utils } from '../src/core/Utils';
 import { Vector3 } from '../src/core/Vector3';
+import { Random } from '../src/core/Random';
 
 describe('Utils', () => {
   test('generateRandomNumber returns a value within the specified range', () => {
     const min = 5;
     const max = 10;
+    const random = new Random(1);
     for (let i = 0; i < 100; i++) {
-      const value = Utils.generateRandomNumber(min, max);
+      const value = Utils.generateRandomNumber(min, max, random);
       expect(value).toBeGreaterThanOrEqual(min);
       expect(value).toBeLessThan(max);
     }
@@ -0,0 +1,206 @@
+/// <reference types="jest" />
+
+import { expect } from '@jest/globals';
+import {
+  BoxBoundary,
+  CylinderBoundary,
+  OpenBoundary,
+  PeriodicBoundary,
+  WallBehavior,
+} from '../src/utils/boundaries';
+import {
+  CoulombForceProvider,
+  GravityForceProvider,
+} from '../src/forces/ForceProviders';
+import { Sensor } from '../src/sensors/Sensor';
+import { SensorSphere } from '../src/sensors/SensorSphere';
+import { SensorState } from '../src/sensors/SensorState';
+import { Vector3 } from '../src/core/Vector3';
+import { Constants } from '../src/core/Constants';
+import { Logger } from '../src/core/Logger';
+import { SimulationEngine } from '../src/SimulationEngine';
+
+describe('Boundaries', () => {
+  const min = new Vector3(-1, -1, -1);
+  const max = new Vector3(1, 1, 1);
+
+  const expectVector = (actual: Vector3, expected: Vector3): void => {
+    expect(actual.x).toBeCloseTo(expected.x, 12);
+    expect(actual.y).toBeCloseTo(expected.y, 12);
+    expect(actual.z).toBeCloseTo(expected.z, 12);
+  };
+
+  test('BoxBoundary mirrors sensors back through the walls they crossed', () => {
+    const box = new BoxBoundary(min, max);
+    const sensor = new Sensor(
+      'S',
+      new Vector3(1.2, 0.5, -1.1),
+      new Vector3(1, 3, -2)
+    );
+    expect(box.apply(sensor)).toEqual('reflect');
+    expectVector(sensor.position, new Vector3(0.8, 0.5, -0.9));
+    expectVector(sensor.velocity, new Vector3(-1, 3, 2));
+    expect(box.apply(sensor)).toBeNull();
+    expect(() => new BoxBoundary(max, min)).toThrow(
+      'Box bounds must satisfy min < max on every axis.'
+    );
+  });
+
+  test('absorbing walls stop and deactivate the sensors they catch', () => {
+    const box = new BoxBoundary(min, max, WallBehavior.ABSORB);
+    const sensor = new Sensor(
+      'S',
+      new Vector3(0, 1.5, 0),
+      new Vector3(0, 2, 0)
+    );
+    expect(box.apply(sensor)).toEqual('absorb');
+    expectVector(sensor.position, new Vector3(0, 1, 0));
+    expect(sensor.velocity).toEqual(Vector3.zero());
+    expect(sensor.state).toEqual(SensorState.INACTIVE);
+  });
+
+  test('CylinderBoundary reflects off the side wall and the caps', () => {
+    const cylinder = new CylinderBoundary(new Vector3(), 1, 2);
+    const side = new Sensor('S', new Vector3(0, 1.5, 0), new Vector3(1, 2, 0));
+    expect(cylinder.apply(side)).toEqual('reflect');
+    expectVector(side.position, new Vector3(0, 1, 0));
+    expectVector(side.velocity, new Vector3(1, -2, 0));
+
+    const cap = new Sensor('C', new Vector3(0, 0, 1.25), new Vector3(0, 0, 1));
+    expect(cylinder.apply(cap)).toEqual('reflect');
+    expectVector(cap.position, new Vector3(0, 0, 0.75));
+    expectVector(cap.velocity, new Vector3(0, 0, -1));
+    expect(cylinder.apply(cap)).toBeNull();
+
+    const absorbing = new CylinderBoundary(
+      new Vector3(),
+      1,
+      2,
+      WallBehavior.ABSORB
+    );
+    const caught = new Sensor('A', new Vector3(3, 0, 0), new Vector3(1, 0, 0));
+    expect(absorbing.apply(caught)).toEqual('absorb');
+    expectVector(caught.position, new Vector3(1, 0, 0));
+    expect(() => new CylinderBoundary(new Vector3(), 0, 1)).toThrow(
+      'Cylinder radius and height must be greater than zero.'
+    );
+  });
+
+  test('PeriodicBoundary wraps positions and measures minimum images', () => {
+    const periodic = new PeriodicBoundary(min, max);
+    const sensor = new Sensor('S', new Vector3(1.25, -3.5, 0.3));
+    sensor.velocity = new Vector3(1, 0, 0);
+    expect(periodic.apply(sensor)).toEqual('wrap');
+    expectVector(sensor.position, new Vector3(-0.75, 0.5, 0.3));
+    expect(sensor.velocity).toEqual(new Vector3(1, 0, 0));
+    expect(periodic.apply(sensor)).toBeNull();
+
+    expectVector(
+      periodic.separation(new Vector3(-0.9, 0, 0), new Vector3(0.9, 0.5, 0)),
+      new Vector3(-0.2, 0.5, 0)
+    );
+  });
+
+  test('OpenBoundary never acts', () => {
+    const open = new OpenBoundary();
+    const sensor = new Sensor('S', new Vector3(1e6, 0, 0));
+    expect(open.apply()).toBeNull();
+    expectVector(
+      open.separation(new Vector3(), sensor.position),
+      new Vector3(1e6, 0, 0)
+    );
+  });
+
+  test('force providers act across periodic faces via the minimum image', () => {
+    const periodic = new PeriodicBoundary(
+      new Vector3(-5, -5, -5),
+      new Vector3(5, 5, 5)
+    );
+    const separation = (from: Vector3, to: Vector3): Vector3 =>
+      periodic.separation(from, to);
+    const a = new Sensor('A', new Vector3(-4.5, 0, 0), Vector3.zero(), 2, 1);
+    const b = new Sensor('B', new Vector3(4.5, 0, 0), Vector3.zero(), 3, 1);
+
+    // The nearest image of B is 1 m to the left of A.
+    const [gravityA, gravityB] = new GravityForceProvider().computeForces(
+      [a, b],
+      0,
+      separation
+    );
+    const gravity = Constants.GRAVITATIONAL_CONSTANT * 6;
+    expectVector(gravityA, new Vector3(-gravity, 0, 0));
+    expectVector(gravityB, new Vector3(gravity, 0, 0));
+
+    const [coulombA] = new CoulombForceProvider(
+      1,
+      'coulomb',
+      0.5
+    ).computeForces([a, b], 0, separation);
+    expect(coulombA.x / Constants.COULOMB_CONSTANT).toBeCloseTo(1, 12);
+
+    // Without the separation the pair is 9 m apart.
+    const [direct] = new CoulombForceProvider().computeForces([a, b], 0);
+    expect(direct.x / Constants.COULOMB_CONSTANT).toBeCloseTo(-1 / 81, 12);
+  });
+
+  describe('SimulationEngine', () => {
+    beforeAll(() => {
+      // eslint-disable-next-line @typescript-eslint/no-empty-function
+      jest.spyOn(Logger, 'debug').mockImplementation(() => {});
+    });
+
+    afterAll(() => {
+      Logger.clearRunLog();
+      jest.restoreAllMocks();
+    });
+
+    // A loose sensor flying at a wall, inside a container sphere the boundary replaces.
+    const createEngine = (): { engine: SimulationEngine; sensor: Sensor } => {
+      const sensor = new Sensor(
+        'S',
+        new Vector3(0.9, 0, 0),
+        new Vector3(2, 0, 0)
+      );
+      const container = new SensorSphere('Box', new Vector3(), 10, 1);
+      return {
+        engine: new SimulationEngine([sensor], [container], 0.1),
+        sensor,
+      };
+    };
+
+    test('a selected boundary replaces the root container', () => {
+      const { engine, sensor } = createEngine();
+      engine.boundary = new BoxBoundary(min, max);
+      expect(engine.getContainer(sensor)).toBeNull();
+      engine.step();
+      expect(sensor.position.x).toBeCloseTo(0.9, 12);
+      expect(sensor.velocity.x).toBeCloseTo(-2, 12);
+    });
+
+    test('periodic domains wrap sensors around', () => {
+      const { engine, sensor } = createEngine();
+      engine.boundary = new PeriodicBoundary(min, max);
+      engine.step();
+      expect(sensor.position.x).toBeCloseTo(-0.9, 12);
+      expect(sensor.velocity.x).toEqual(2);
+    });
+
+    test('open domains let sensors leave the container', () => {
+      const { engine, sensor } = createEngine();
+      engine.boundary = new OpenBoundary();
+      engine.step(60);
+      expect(sensor.position.x).toBeCloseTo(12.9, 9);
+    });
+
+    test('absorbing walls record each absorption once', () => {
+      Logger.clearRunLog();
+      const { engine, sensor } = createEngine();
+      engine.boundary = new BoxBoundary(min, max, WallBehavior.ABSORB);
+      engine.step(3);
+      expect(sensor.state).toEqual(SensorState.INACTIVE);
+      const absorptions = Logger.runLog.filter(e => e.event === 'absorption');
+      expect(absorptions).toHaveLength(1);
+      expect(absorptions[0].sensors).toEqual([sensor]);
+    });
+  });
+});
@@ -0,0 +1,108 @@
+/// <reference types="jest" />
+
+import { expect } from '@jest/globals';
+import {
+  BroadphaseType,
+  SpatialHash,
+  collisionRadius,
+  findCandidatePairs,
+} from '../src/utils/broadphase';
+import { SimulationEngine } from '../src/SimulationEngine';
+import { Sensor } from '../src/sensors/Sensor';
+import { SensorSphere } from '../src/sensors/SensorSphere';
+import { Vector3 } from '../src/core/Vector3';
+import { Constants } from '../src/core/Constants';
+import { Logger } from '../src/core/Logger';
+
+describe('Broadphase', () => {
+  // Returns the candidate pairs that actually overlap.
+  const overlapping = (
+    sensors: Sensor[],
+    pairs: Array<[number, number]>
+  ): Array<[number, number]> =>
+    pairs.filter(([i, j]) => {
+      const distance = sensors[i].position.distanceTo(sensors[j].position);
+      return (
+        distance < collisionRadius(sensors[i]) + collisionRadius(sensors[j])
+      );
+    });
+
+  test('brute force reports every unique pair in order', () => {
+    const sensors = [new Sensor('A'), new Sensor('B'), new Sensor('C')];
+    expect(findCandidatePairs(sensors, BroadphaseType.BRUTE_FORCE)).toEqual([
+      [0, 1],
+      [0, 2],
+      [1, 2],
+    ]);
+  });
+
+  test('uniform grid finds the same overlapping pairs as brute force', () => {
+    const sphere = new SensorSphere('Grid', new Vector3(1, -2, 3), 3, 400);
+    const sensors = sphere.sensors;
+    const brute = findCandidatePairs(sensors, BroadphaseType.BRUTE_FORCE);
+    const grid = findCandidatePairs(sensors, BroadphaseType.UNIFORM_GRID);
+    expect(grid.length).toBeLessThan(brute.length);
+    expect(overlapping(sensors, grid)).toEqual(overlapping(sensors, brute));
+  });
+
+  test('uniform grid sizes cells for the largest sensor radius', () => {
+    const small = new Sensor('small', new Vector3(0, 0, 0));
+    const large = new Sensor('large', new Vector3(2.5, 0, 0));
+    large.radius = 2.4;
+    expect(
+      findCandidatePairs([small, large], BroadphaseType.UNIFORM_GRID)
+    ).toEqual([[0, 1]]);
+  });
+
+  test('uniform grid handles fewer than two sensors', () => {
+    expect(findCandidatePairs([], BroadphaseType.UNIFORM_GRID)).toEqual([]);
+    expect(
+      findCandidatePairs([new Sensor('A')], BroadphaseType.UNIFORM_GRID)
+    ).toEqual([]);
+  });
+
+  test('collisionRadius falls back to the default radius', () => {
+    const sensor = new Sensor('A');
+    delete (sensor as any).radius;
+    expect(collisionRadius(sensor)).toEqual(Constants.DEFAULT_SENSOR_RADIUS);
+  });
+
+  test('SpatialHash buckets by cell and rejects non-positive cell sizes', () => {
+    const hash = new SpatialHash(1);
+    hash.insert(0, new Vector3(0.5, 0.5, 0.5));
+    hash.insert(1, new Vector3(1.5, 0.5, 0.5));
+    hash.insert(2, new Vector3(5, 5, 5));
+    expect(hash.cellCount).toEqual(3);
+    expect(hash.queryNeighbors(new Vector3(0.1, 0.1, 0.1)).sort()).toEqual([
+      0, 1,
+    ]);
+    hash.clear();
+    expect(hash.cellCount).toEqual(0);
+    expect(() => new SpatialHash(0)).toThrow(
+      'Cell size must be greater than zero.'
+    );
+  });
+
+  test('engine produces identical results with either broadphase', () => {
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+    const debugSpy = jest.spyOn(Logger, 'debug').mockImplementation(() => {});
+    const createSensors = (): Sensor[] =>
+      [-0.3, 0, 0.3, 5].map(
+        (x, i) =>
+          new Sensor(`S${i}`, new Vector3(x, 0, 0), new Vector3(i - 1, 0, 0))
+      );
+    const run = (type: BroadphaseType): Vector3[] => {
+      const sensors = createSensors();
+      const engine = new SimulationEngine(sensors, [], 0.01);
+      engine.broadphase = type;
+      (engine as any).running = true;
+      engine.update();
+      return sensors.map(sensor => sensor.velocity);
+    };
+    expect(run(BroadphaseType.UNIFORM_GRID)).toEqual(
+      run(BroadphaseType.BRUTE_FORCE)
+    );
+    debugSpy.mockRestore();
+    Logger.clearRunLog();
+  });
+});
@@ -0,0 +1,68 @@
+// tests/broadphaseBenchmark.test.ts
+
+import { SensorSphere } from '../src/sensors/SensorSphere';
+import { Vector3 } from '../src/core/Vector3';
+import { Constants } from '../src/core/Constants';
+import {
+  BroadphaseType,
+  collisionRadius,
+  forEachCandidatePair,
+} from '../src/utils/broadphase';
+import { performance } from 'perf_hooks';
+
+describe('Broadphase Benchmark', () => {
+  const sensorCount = Constants.BENCHMARK_SENSORS_PER_SPHERE || 8192;
+
+  test('Uniform grid vs. brute-force pair search', () => {
+    // Sphere radius chosen to keep the sensor packing fraction near 5%.
+    const radius =
+      Constants.DEFAULT_SENSOR_RADIUS * Math.cbrt(sensorCount / 0.05);
+    const sensors = new SensorSphere(
+      'Benchmark',
+      new Vector3(),
+      radius,
+      sensorCount
+    ).sensors;
+
+    const run = (
+      type: BroadphaseType
+    ): { candidates: number; contacts: number; time: number } => {
+      let candidates = 0;
+      let contacts = 0;
+      const start = performance.now();
+      forEachCandidatePair(sensors, type, (i, j) => {
+        candidates++;
+        const a = sensors[i];
+        const b = sensors[j];
+        const dx = b.position.x - a.position.x;
+        const dy = b.position.y - a.position.y;
+        const dz = b.position.z - a.position.z;
+        const sumRadii = collisionRadius(a) + collisionRadius(b);
+        if (dx * dx + dy * dy + dz * dz < sumRadii * sumRadii) contacts++;
+      });
+      return { candidates, contacts, time: performance.now() - start };
+    };
+
+    const brute = run(BroadphaseType.BRUTE_FORCE);
+    const grid = run(BroadphaseType.UNIFORM_GRID);
+
+    // eslint-disable-next-line no-console
+    console.log(
+      `Brute-force broadphase >> sensors: ${sensorCount}, candidate pairs: ${
+        brute.candidates
+      }, contacts: ${brute.contacts}, time: ${brute.time.toFixed(3)} ms`
+    );
+    // eslint-disable-next-line no-console
+    console.log(
+      `Uniform-grid broadphase >> sensors: ${sensorCount}, candidate pairs: ${
+        grid.candidates
+      }, contacts: ${grid.contacts}, time: ${grid.time.toFixed(3)} ms`
+    );
+
+    // Both strategies must find exactly the same contacts.
+    expect(grid.contacts).toEqual(brute.contacts);
+    // The grid should test only a small fraction of all pairs. Timings are only logged:
+    // wall-clock comparisons are unreliable on a loaded machine.
+    expect(grid.candidates).toBeLessThan(brute.candidates / 50);
+  });
+});
@@ -0,0 +1,441 @@
+/// <reference types="jest" />
+
+import { expect } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  applySweepPoint,
+  buildEngine,
+  expandSweep,
+  validateScenario,
+} from '../src/cli/scenario';
+import { formatRecord, runScenario } from '../src/cli/batch';
+import { main, parseArguments } from '../src/cli/qss';
+import { RunRecord, Scenario } from '../src/cli/batchTypes';
+import { IntegratorType } from '../src/core/Integrator';
+import { StepControl } from '../src/core/AdaptiveStepper';
+import { BroadphaseType } from '../src/utils/broadphase';
+import { Logger } from '../src/core/Logger';
+import { SensorSphere } from '../src/sensors/SensorSphere';
+import { BoundaryType } from '../src/utils/boundaries';
+import { ChannelType } from '../src/sensors/SensorChannel';
+import { FaultType } from '../src/sensors/FaultInjector';
+import { SensorState } from '../src/sensors/SensorState';
+
+describe('Headless batch runner', () => {
+  // Two overlapping, approaching sensors, which trigger a collision response, inside a
+  // container sphere.
+  const scenario: Scenario = {
+    name: 'overlap',
+    seed: 5,
+    deltaTime: 0.05,
+    steps: 20,
+    integrator: IntegratorType.VELOCITY_VERLET,
+    broadphase: BroadphaseType.UNIFORM_GRID,
+    spheres: [{ id: 'Box', radius: 4, sensorCount: 3 }],
+    sensors: [
+      { id: 'A', position: [-0.1, 0, 0], velocity: [1, 0, 0] },
+      { id: 'B', position: [0.1, 0, 0], velocity: [-1, 0, 0], mass: 2 },
+    ],
+    forces: [{ type: 'damping', coefficient: 0.01 }],
+  };
+
+  const collect = (run: Scenario, every?: number): RunRecord[] => {
+    const records: RunRecord[] = [];
+    runScenario(run, record => records.push(record), { every });
+    return records;
+  };
+
+  let tempDir: string;
+
+  beforeAll(() => {
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+    jest.spyOn(Logger, 'info').mockImplementation(() => {});
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+    jest.spyOn(Logger, 'debug').mockImplementation(() => {});
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'qss-'));
+  });
+
+  afterAll(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+    Logger.clearRunLog();
+    jest.restoreAllMocks();
+  });
+
+  test('buildEngine creates spheres, sensors, overrides and force providers', () => {
+    const engine = buildEngine({ ...scenario, charge: 2, radius: 0.3 });
+    const sensors = engine.getSensors();
+    expect(sensors.map(s => s.id)).toEqual([
+      'Box_sensor_1',
+      'Box_sensor_2',
+      'Box_sensor_3',
+      'A',
+      'B',
+    ]);
+    expect(sensors.every(s => s.charge === 2 && s.radius === 0.3)).toBe(true);
+    expect(sensors[4].mass).toEqual(2);
+    expect(engine.container?.id).toEqual('Box');
+    const nested = buildEngine({
+      ...scenario,
+      spheres: [
+        { id: 'Box', radius: 4, sensorCount: 0 },
+        { id: 'Cell', radius: 1, velocity: [1, 0, 0], parent: 'Box' },
+      ],
+    });
+    const cell = nested.getContainer(nested.getSensors()[0]) as SensorSphere;
+    expect(cell.id).toEqual('Cell');
+    expect(cell.parent).toBe(nested.container);
+    expect(cell.velocity.x).toEqual(1);
+    const periodic = buildEngine({
+      ...scenario,
+      boundary: {
+        type: BoundaryType.PERIODIC,
+        min: [-2, -2, -2],
+        max: [2, 2, 2],
+      },
+    });
+    expect(periodic.boundary?.type).toEqual(BoundaryType.PERIODIC);
+    expect(engine.integrator.type).toEqual(IntegratorType.VELOCITY_VERLET);
+    expect(engine.broadphase).toEqual(BroadphaseType.UNIFORM_GRID);
+    expect(engine.getForceProviders().map(p => p.name)).toEqual(['damping']);
+    expect(engine.random.seed).toEqual(5);
+  });
+
+  test('runScenario writes header, frames, events and summary reproducibly', () => {
+    const records = collect(scenario, 5);
+    expect(records[0]).toMatchObject({
+      type: 'header',
+      scenario: 'overlap',
+      seed: 5,
+      steps: 20,
+      sensors: 5,
+    });
+    const frames = records.filter(r => r.type === 'frame');
+    expect(frames.map(f => (f.type === 'frame' ? f.step : -1))).toEqual([
+      0, 5, 10, 15, 20,
+    ]);
+
+    const collisions = records.filter(
+      r => r.type === 'event' && r.event === 'collision'
+    );
+    expect(collisions.length).toBeGreaterThan(0);
+    expect(collisions).toContainEqual(
+      expect.objectContaining({ sensors: ['A', 'B'] })
+    );
+
+    const summary = records[records.length - 1];
+    expect(summary).toMatchObject({
+      type: 'summary',
+      steps: 20,
+      events: { collision: collisions.length },
+    });
+    expect(summary.type === 'summary' && summary.time).toBeCloseTo(1, 10);
+
+    // No wall-clock data: the same scenario produces the same file.
+    expect(collect(scenario, 5).map(formatRecord)).toEqual(
+      records.map(formatRecord)
+    );
+  });
+
+  test('scenario channels write every reading as a sample record', () => {
+    const records = collect({
+      ...scenario,
+      channels: [
+        { type: ChannelType.TEMPERATURE, sampleRate: 5 },
+        { type: ChannelType.GRAVITY },
+      ],
+    });
+    const samples = records.filter(r => r.type === 'sample');
+    // 5 sensors, each reading at the first step and then every period for 1 s.
+    expect(samples).toHaveLength(5 * (1 + 5 + 1 + 10));
+    expect(samples[0]).toMatchObject({
+      type: 'sample',
+      step: 1,
+      sensor: 'Box_sensor_1',
+      channel: ChannelType.TEMPERATURE,
+    });
+  });
+
+  test('scenario faults are injected and written as event records', () => {
+    const records = collect({
+      ...scenario,
+      channels: [{ type: ChannelType.TEMPERATURE }],
+      faults: [
+        { type: FaultType.MALFUNCTION, target: 'A', time: 0.5 },
+        { type: FaultType.KILL_SPHERE, target: 'Box', rate: 1 },
+      ],
+    });
+    const faults = records.filter(
+      r => r.type === 'event' && r.event === 'fault'
+    );
+    expect(faults[0]).toMatchObject({
+      step: 11,
+      fault: FaultType.MALFUNCTION,
+      sensors: ['A'],
+    });
+    expect(
+      records.filter(r => r.type === 'event' && r.event === 'stateChange')[0]
+    ).toMatchObject({
+      sensors: ['A'],
+      fromState: SensorState.ACTIVE,
+      toState: SensorState.MALFUNCTION,
+    });
+    expect(() =>
+      buildEngine({
+        faults: [{ type: FaultType.MALFUNCTION, target: 'X', time: 1 }],
+      })
+    ).toThrow('Fault target X is not a sensor.');
+  });
+
+  test('adaptive scenarios write the step size of every step', () => {
+    const records = collect(
+      { ...scenario, adaptive: { control: StepControl.CFL, maxStep: 0.02 } },
+      20
+    );
+    const timeSteps = records.filter(
+      r => r.type === 'event' && r.event === 'timeStep'
+    );
+    expect(timeSteps).toHaveLength(20);
+    timeSteps.forEach(record =>
+      expect(record.type === 'event' && record.timeStep).toBeLessThanOrEqual(
+        0.02
+      )
+    );
+  });
+
+  test('runScenario validates the step count and frame interval', () => {
+    expect(() => runScenario(scenario, jest.fn(), { steps: -1 })).toThrow(
+      'Step count must be a non-negative integer.'
+    );
+    expect(() => runScenario(scenario, jest.fn(), { every: 0 })).toThrow(
+      'Frame interval must be a positive integer.'
+    );
+  });
+
+  test('expandSweep builds the Cartesian grid and applySweepPoint revalidates', () => {
+    expect(expandSweep({ deltaTime: [0.01, 0.02], charge: [1, 2, 3] })).toEqual(
+      [
+        { deltaTime: 0.01, charge: 1 },
+        { deltaTime: 0.01, charge: 2 },
+        { deltaTime: 0.01, charge: 3 },
+        { deltaTime: 0.02, charge: 1 },
+        { deltaTime: 0.02, charge: 2 },
+        { deltaTime: 0.02, charge: 3 },
+      ]
+    );
+    expect(() => expandSweep({ radius: [] })).toThrow(
+      'Sweep parameter radius needs at least one value.'
+    );
+    expect(() =>
+      expandSweep({ mass: [1] } as unknown as Record<string, number[]>)
+    ).toThrow('Cannot sweep mass; expected one of');
+    expect(applySweepPoint(scenario, { radius: 0.5 }).radius).toEqual(0.5);
+    expect(() => applySweepPoint(scenario, { deltaTime: 0 })).toThrow(
+      'Invalid scenario: deltaTime must be greater than zero.'
+    );
+  });
+
+  test('validateScenario reports the first invalid field', () => {
+    expect(validateScenario(scenario)).toBe(scenario);
+    expect(validateScenario({})).toEqual({});
+    expect(() => validateScenario([])).toThrow(
+      'Invalid scenario: scenario must be an object.'
+    );
+    expect(() => validateScenario({ seed: 1.5 })).toThrow(
+      'Invalid scenario: seed must be an integer.'
+    );
+    expect(() => validateScenario({ integrator: 'magic' })).toThrow(
+      'Invalid scenario: integrator must be one of'
+    );
+    expect(() => validateScenario({ spheres: [{ radius: 1 }] })).toThrow(
+      'Invalid scenario: spheres[0].id must be a non-empty string.'
+    );
+    expect(() =>
+      validateScenario({ spheres: [{ id: 'A', parent: 'B' }, { id: 'B' }] })
+    ).toThrow(
+      'Invalid scenario: spheres[0].parent must be the id of an earlier sphere.'
+    );
+    expect(() =>
+      validateScenario({ sensors: [{ id: 'S', position: [0, 0] }] })
+    ).toThrow(
+      'Invalid scenario: sensors[0].position must be an [x, y, z] array.'
+    );
+    expect(() =>
+      validateScenario({
+        channels: [{ type: 'gravity' }, { type: 'gravity', sampleRate: 1 }],
+      })
+    ).toThrow('Invalid scenario: channels[1].type must be unique.');
+    expect(() =>
+      validateScenario({ faults: [{ type: 'freeze', target: 'A' }] })
+    ).toThrow(
+      'Invalid scenario: faults[0] must be given either a time or a rate.'
+    );
+    expect(() =>
+      validateScenario({
+        faults: [{ type: 'killSphere', target: 'A', time: 1 }],
+      })
+    ).toThrow('Invalid scenario: faults[0].target must be the id of a sphere.');
+    expect(() =>
+      validateScenario({
+        channels: [{ type: 'gravity', noise: [{ type: 'white' }] }],
+      })
+    ).toThrow(
+      'Invalid scenario: channels[0].noise[0].standardDeviation must be a finite number.'
+    );
+    expect(() =>
+      validateScenario({
+        channels: [{ type: 'gravity', noise: [{ type: 'linearResponse' }] }],
+      })
+    ).toThrow(
+      'Invalid scenario: channels[0].noise[0].matrix must be an array of rows.'
+    );
+    expect(() => validateScenario({ boundary: { type: 'box' } })).toThrow(
+      'Invalid scenario: boundary.min must be an [x, y, z] array.'
+    );
+    expect(() =>
+      validateScenario({
+        boundary: { type: 'cylinder', radius: 1, height: -1 },
+      })
+    ).toThrow('Invalid scenario: boundary.height must be greater than zero.');
+    expect(() => validateScenario({ forces: [{ type: 'magic' }] })).toThrow(
+      'Invalid scenario: forces[0].type must be one of gravity, coulomb, lorentz, damping.'
+    );
+    expect(() => validateScenario({ steps: -3 })).toThrow(
+      'Invalid scenario: steps must be a non-negative integer.'
+    );
+    expect(() =>
+      validateScenario({ adaptive: { control: 'error', minStep: 0 } })
+    ).toThrow('Invalid scenario: adaptive.minStep must be greater than zero.');
+  });
+
+  test('parseArguments reads commands and flags', () => {
+    expect(
+      parseArguments([
+        'sweep',
+        'scenario.json',
+        '--param',
+        'deltaTime=0.01,0.02',
+        '--steps',
+        '100',
+        '--out',
+        'runs',
+      ])
+    ).toEqual({
+      command: 'sweep',
+      scenarioPath: 'scenario.json',
+      steps: 100,
+      out: 'runs',
+      verbose: false,
+      grid: { deltaTime: [0.01, 0.02] },
+    });
+    expect(parseArguments([]).command).toEqual('help');
+    expect(() => parseArguments(['fly'])).toThrow('Unknown command: fly.');
+    expect(() => parseArguments(['run', 'a.json', '--steps', 'x'])).toThrow(
+      '--steps expects an integer.'
+    );
+    expect(() =>
+      parseArguments(['run', 'a.json', '--param', 'charge=1'])
+    ).toThrow('--param is only valid for sweep.');
+    expect(() =>
+      parseArguments(['sweep', 'a.json', '--param', 'charge=1,x'])
+    ).toThrow('--param charge has a non-numeric value: x.');
+    expect(() => parseArguments(['sweep', 'a.json', '--out', 'd'])).toThrow(
+      'sweep needs at least one --param.'
+    );
+    expect(() => parseArguments(['run'])).toThrow('Missing scenario file.');
+  });
+
+  describe('main', () => {
+    let stdout: jest.SpyInstance;
+    let stderr: jest.SpyInstance;
+    let scenarioPath: string;
+
+    beforeEach(() => {
+      stdout = jest.spyOn(process.stdout, 'write').mockReturnValue(true);
+      stderr = jest.spyOn(process.stderr, 'write').mockReturnValue(true);
+      scenarioPath = path.join(tempDir, 'scenario.json');
+      fs.writeFileSync(scenarioPath, JSON.stringify(scenario));
+    });
+
+    afterEach(() => {
+      stdout.mockRestore();
+      stderr.mockRestore();
+    });
+
+    const readLines = (file: string): RunRecord[] =>
+      fs
+        .readFileSync(file, 'utf8')
+        .trim()
+        .split('\n')
+        .map(line => JSON.parse(line));
+
+    test('run writes a JSON Lines file', () => {
+      const out = path.join(tempDir, 'run.jsonl');
+      expect(
+        main([
+          'run',
+          scenarioPath,
+          '--steps',
+          '8',
+          '--every',
+          '4',
+          '--out',
+          out,
+        ])
+      ).toEqual(0);
+      const lines = readLines(out);
+      expect(lines[0]).toMatchObject({ type: 'header', steps: 8 });
+      expect(lines.filter(l => l.type === 'frame')).toHaveLength(3);
+      expect(lines[lines.length - 1]).toMatchObject({ type: 'summary' });
+    });
+
+    test('run without --out streams to stdout', () => {
+      expect(main(['run', scenarioPath, '--steps', '1'])).toEqual(0);
+      expect(stdout.mock.calls[0][0]).toContain('"type":"header"');
+    });
+
+    test('sweep writes one run per grid point and an index', () => {
+      const out = path.join(tempDir, 'sweep');
+      expect(
+        main([
+          'sweep',
+          scenarioPath,
+          '--param',
+          'radius=0.1,0.3',
+          '--param',
+          'seed=1,2',
+          '--steps',
+          '4',
+          '--out',
+          out,
+        ])
+      ).toEqual(0);
+      const index = readLines(path.join(out, 'sweep.jsonl')) as any[];
+      expect(index.map(entry => entry.parameters)).toEqual([
+        { radius: 0.1, seed: 1 },
+        { radius: 0.1, seed: 2 },
+        { radius: 0.3, seed: 1 },
+        { radius: 0.3, seed: 2 },
+      ]);
+      expect(index[3].file).toEqual('run-4.jsonl');
+      expect(readLines(path.join(out, 'run-4.jsonl'))[0]).toMatchObject({
+        type: 'header',
+        seed: 2,
+        parameters: { radius: 0.3, seed: 2 },
+      });
+    });
+
+    test('reports errors with a non-zero exit code', () => {
+      expect(main(['--help'])).toEqual(0);
+      expect(stdout.mock.calls[0][0]).toContain('Usage:');
+      expect(main(['run'])).toEqual(1);
+      expect(stderr.mock.calls[0][0]).toContain('qss: Missing scenario file.');
+      fs.writeFileSync(scenarioPath, JSON.stringify({ deltaTime: -1 }));
+      expect(main(['run', scenarioPath])).toEqual(1);
+      expect(stderr.mock.calls[1][0]).toEqual(
+        'qss: Invalid scenario: deltaTime must be greater than zero.\n'
+      );
+    });
+  });
+});
@@ -5,9 +5,13 @@ import {
   centerOfMassCollision,
   bruteForceCollision,
   penaltyForceCollision,
+  penaltyContactForce,
+  CollisionStrategy,
 } from '../src/utils/collisionAlternatives';
 import { Sensor } from '../src/sensors/Sensor';
 import { Vector3 } from '../src/core/Vector3';
+import { Logger } from '../src/core/Logger';
+import { SimulationEngine } from '../src/SimulationEngine';
 
 describe('impulseCollision', () => {
   const createSensor = (
@@ -22,55 +26,54 @@ describe('impulseCollision', () => {
     return new Sensor(id, position, velocity, mass, 1, undefined);
   };
 
-  test('should not change velocities when sensors are separating (speed >= 0)', () => {
-    // Arrange: Set up two sensors that are not colliding.
-    // For example, both moving in the same direction.
-    const sensor1 = createSensor(
-      'S1',
-      new Vector3(0, 0, 0),
-      new Vector3(1, 0, 0)
-    );
-    const sensor2 = createSensor(
-      'S2',
-      new Vector3(1, 0, 0),
-      new Vector3(1, 0, 0)
-    );
+  test('should not change velocities when sensors are not approaching (speed <= 0)', () => {
+    // Arrange: Both moving in the same direction, then moving apart.
+    // The normal (from sensor1 to sensor2) is (1,0,0), so for the separating pair the
+    // relative velocity (-1,0,0) - (1,0,0) = (-2,0,0) gives a speed of -2.
+    [new Vector3(1, 0, 0), new Vector3(-1, 0, 0)].forEach(velocity1 => {
+      const sensor1 = createSensor('S1', new Vector3(0, 0, 0), velocity1);
+      const sensor2 = createSensor(
+        'S2',
+        new Vector3(1, 0, 0),
+        new Vector3(1, 0, 0)
+      );
 
-    // Act: Invoke impulseCollision.
-    const result = impulseCollision(sensor1, sensor2);
+      // Act: Invoke impulseCollision.
+      const result = impulseCollision(sensor1, sensor2);
 
-    // Assert: The velocities should remain unchanged.
-    expect(result.s1.velocity).toEqual(sensor1.velocity);
-    expect(result.s2.velocity).toEqual(sensor2.velocity);
+      // Assert: The velocities should remain unchanged.
+      expect(result.s1.velocity).toEqual(velocity1);
+      expect(result.s2.velocity).toEqual(new Vector3(1, 0, 0));
+    });
   });
 
-  test('should update velocities when sensors are colliding (speed < 0)', () => {
+  test('should update velocities when sensors are colliding (speed > 0)', () => {
     // Arrange:
     // Position: sensor1 at (0,0,0), sensor2 at (1,0,0)
-    // To force a collision, set sensor1 moving left (-1,0,0) and sensor2 moving right (1,0,0).
-    // Then, the relative velocity = sensor1.velocity - sensor2.velocity = (-1,0,0) - (1,0,0) = (-2,0,0)
+    // To force a collision, set sensor1 moving right (1,0,0) and sensor2 moving left (-1,0,0).
+    // Then, the relative velocity = sensor1.velocity - sensor2.velocity = (1,0,0) - (-1,0,0) = (2,0,0)
     // And the normal (from sensor1 to sensor2) = (1,0,0)
-    // Dot product: (-2,0,0) • (1,0,0) = -2 which is negative.
+    // Dot product: (2,0,0) • (1,0,0) = 2 which is positive: the sensors are approaching.
     const sensor1 = createSensor(
       'S1',
       new Vector3(0, 0, 0),
-      new Vector3(-1, 0, 0)
+      new Vector3(1, 0, 0)
     );
     const sensor2 = createSensor(
       'S2',
       new Vector3(1, 0, 0),
-      new Vector3(1, 0, 0)
+      new Vector3(-1, 0, 0)
     );
 
     // Act: Run impulseCollision.
     const result = impulseCollision(sensor1, sensor2);
 
     // Compute expected results:
-    // Total mass = 1 + 1 = 2, impulse = (2 * (-2)) / 2 = -2.
-    // New sensor1.velocity = (-1,0,0) - ( (1,0,0)*(-2*1) ) = (-1,0,0) - (-2,0,0) = (1,0,0)
-    // New sensor2.velocity = (1,0,0) + ( (1,0,0)*(-2*1) ) = (1,0,0) + (-2,0,0) = (-1,0,0)
-    const expectedVelocity1 = new Vector3(1, 0, 0);
-    const expectedVelocity2 = new Vector3(-1, 0, 0);
+    // Total mass = 1 + 1 = 2, impulse = (2 * 2) / 2 = 2.
+    // New sensor1.velocity = (1,0,0) - (1,0,0)*2*1 = (-1,0,0)
+    // New sensor2.velocity = (-1,0,0) + (1,0,0)*2*1 = (1,0,0)
+    const expectedVelocity1 = new Vector3(-1, 0, 0);
+    const expectedVelocity2 = new Vector3(1, 0, 0);
 
     // Assert: Check that sensor velocities swapped.
     expect(result.s1.velocity.x).toBeCloseTo(expectedVelocity1.x);
@@ -116,42 +119,168 @@ describe('impulseCollision', () => {
       const sensor1 = createSensor(
         'S1',
         new Vector3(0, 0, 0),
-        new Vector3(-1, 0, 0)
+        new Vector3(1, 0, 0)
       );
       const sensor2 = createSensor(
         'S2',
         new Vector3(1, 0, 0),
-        new Vector3(1, 0, 0)
+        new Vector3(-1, 0, 0)
       );
       // Act
       const result = bruteForceCollision(sensor1, sensor2);
       // For two sensors of equal mass with a head-on collision, we expect their velocities to approximately swap.
-      const expectedVelocity1 = new Vector3(1, 0, 0);
-      const expectedVelocity2 = new Vector3(-1, 0, 0);
+      const expectedVelocity1 = new Vector3(-1, 0, 0);
+      const expectedVelocity2 = new Vector3(1, 0, 0);
       expect(result.v1.x).toBeCloseTo(expectedVelocity1.x, 2);
       expect(result.v2.x).toBeCloseTo(expectedVelocity2.x, 2);
     });
   });
 
   describe('penaltyForceCollision', () => {
-    test('should return the same result as impulseCollision (since it currently calls impulseCollision)', () => {
-      // Arrange: Create two sensors set up for collision.
+    test('applies the spring force of the penetration depth over one step', () => {
+      // Radii 0.2 each at distance 0.3: penetration 0.1.
       const sensor1 = createSensor(
         'S1',
         new Vector3(0, 0, 0),
-        new Vector3(-1, 0, 0)
+        new Vector3(0, 0, 0)
       );
       const sensor2 = createSensor(
         'S2',
-        new Vector3(1, 0, 0),
-        new Vector3(1, 0, 0)
+        new Vector3(0.3, 0, 0),
+        new Vector3(0, 0, 0),
+        2
       );
-      // Act
-      const impulseResult = impulseCollision(sensor1, sensor2);
-      const penaltyResult = penaltyForceCollision(sensor1, sensor2);
-      // Assert: Since penaltyForceCollision is a stub calling impulseCollision, results should be equal.
-      expect(penaltyResult.v1.x).toBeCloseTo(impulseResult.s1.velocity.x, 5);
-      expect(penaltyResult.v2.x).toBeCloseTo(impulseResult.s2.velocity.x, 5);
+      expect(penaltyContactForce(sensor1, sensor2, 1000, 0).x).toBeCloseTo(
+        100,
+        10
+      );
+      const result = penaltyForceCollision(sensor1, sensor2, 0.01, 1000, 0);
+      expect(result.v1.x).toBeCloseTo(-1, 10);
+      expect(result.v2.x).toBeCloseTo(0.5, 10);
+      // The sensors themselves are not modified.
+      expect(sensor1.velocity.x).toEqual(0);
+    });
+
+    test('damps closing speed but never pulls sensors together', () => {
+      const approaching = [
+        createSensor('S1', new Vector3(0, 0, 0), new Vector3(1, 0, 0)),
+        createSensor('S2', new Vector3(0.3, 0, 0), new Vector3(-1, 0, 0)),
+      ];
+      // k·δ + c·vₙ = 1000·0.1 + 10·2.
+      expect(
+        penaltyContactForce(approaching[0], approaching[1], 1000, 10).x
+      ).toBeCloseTo(120, 10);
+
+      const separating = [
+        createSensor('S1', new Vector3(0, 0, 0), new Vector3(-10, 0, 0)),
+        createSensor('S2', new Vector3(0.3, 0, 0), new Vector3(10, 0, 0)),
+      ];
+      expect(
+        penaltyContactForce(separating[0], separating[1], 1000, 10).magnitude()
+      ).toEqual(0);
+
+      const apart = [
+        createSensor('S1', new Vector3(0, 0, 0), new Vector3(1, 0, 0)),
+        createSensor('S2', new Vector3(1, 0, 0), new Vector3(-1, 0, 0)),
+      ];
+      const result = penaltyForceCollision(apart[0], apart[1]);
+      expect(result.v1).toEqual(apart[0].velocity);
+      expect(result.v2).toEqual(apart[1].velocity);
     });
   });
 });
+
+describe('Collision strategies in the engine', () => {
+  beforeAll(() => {
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+    jest.spyOn(Logger, 'debug').mockImplementation(() => {});
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+    jest.spyOn(Logger, 'info').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    Logger.clearRunLog();
+    jest.restoreAllMocks();
+  });
+
+  // Runs a head-on collision of two unit-mass sensors (radius 0.2, approaching at 2 m/s)
+  // for one second and returns the final sensors.
+  const collide = (
+    strategy: CollisionStrategy,
+    deltaTime: number,
+    damping = 0
+  ): Sensor[] => {
+    const sensors = [
+      new Sensor('A', new Vector3(-0.5, 0, 0), new Vector3(1, 0, 0)),
+      new Sensor('B', new Vector3(0.5, 0, 0), new Vector3(-1, 0, 0)),
+    ];
+    const engine = new SimulationEngine(sensors, [], deltaTime);
+    engine.collisionStrategy = strategy;
+    engine.contactDamping = damping;
+    engine.step(Math.round(1 / deltaTime));
+    return sensors;
+  };
+
+  const energy = (sensors: Sensor[]): number =>
+    sensors.reduce(
+      (sum, s) => sum + 0.5 * s.mass * s.velocity.dot(s.velocity),
+      0
+    );
+
+  const momentum = (sensors: Sensor[]): number =>
+    sensors.reduce((sum, s) => sum + s.mass * s.velocity.x, 0);
+
+  test.each([0.001, 0.005, 0.02, 0.05])(
+    'both strategies conserve momentum at dt = %s',
+    deltaTime => {
+      expect(
+        momentum(collide(CollisionStrategy.IMPULSE, deltaTime))
+      ).toBeCloseTo(0, 12);
+      expect(
+        momentum(collide(CollisionStrategy.PENALTY, deltaTime))
+      ).toBeCloseTo(0, 12);
+    }
+  );
+
+  test('impulses conserve energy exactly whatever the time step', () => {
+    [0.001, 0.005, 0.02, 0.05].forEach(deltaTime =>
+      expect(energy(collide(CollisionStrategy.IMPULSE, deltaTime))).toBeCloseTo(
+        1,
+        12
+      )
+    );
+  });
+
+  test('penalty contacts bounce with an energy error that shrinks with the time step', () => {
+    const fine = collide(CollisionStrategy.PENALTY, 0.001);
+    const coarse = collide(CollisionStrategy.PENALTY, 0.005);
+    expect(fine[0].velocity.x).toBeCloseTo(-1, 2);
+    expect(fine[1].velocity.x).toBeCloseTo(1, 2);
+    const fineError = Math.abs(energy(fine) - 1);
+    const coarseError = Math.abs(energy(coarse) - 1);
+    expect(fineError).toBeLessThan(coarseError);
+    expect(coarseError).toBeLessThan(0.005);
+  });
+
+  test('penalty contacts become unstable beyond the stability limit 2/ω', () => {
+    // ω = √(k/μ) = √(1000 / 0.5) ≈ 44.7 rad/s, so the limit is ≈ 0.045 s.
+    expect(energy(collide(CollisionStrategy.PENALTY, 0.05))).toBeGreaterThan(
+      10
+    );
+  });
+
+  test('penalty damping dissipates energy', () => {
+    const damped = collide(CollisionStrategy.PENALTY, 0.001, 10);
+    expect(energy(damped)).toBeLessThan(0.9);
+    expect(damped[0].velocity.x).toBeLessThan(0);
+    expect(momentum(damped)).toBeCloseTo(0, 12);
+  });
+
+  test('penalty contacts record one collision event per contact', () => {
+    Logger.clearRunLog();
+    collide(CollisionStrategy.PENALTY, 0.001);
+    const collisions = Logger.runLog.filter(e => e.event === 'collision');
+    expect(collisions).toHaveLength(1);
+    expect(collisions[0].sensors.map(s => s.id)).toEqual(['A', 'B']);
+  });
+});
@@ -13,6 +13,9 @@ import { Constants } from '../src/core/Constants';
 describe('Collision Resolution Benchmark', () => {
   // Ensure BENCHMARK_EVENTS exists in Constants; if not, default to over 9000.
   const iterations = Constants.BENCHMARK_EVENTS || 9001;
+  // A head-on collision takes the brute-force method about 10⁴ relaxation steps, so it is
+  // timed on every 4096th event only.
+  const bruteForceStride = 4096;
 
   // Helper function to create fresh sensors.
   // eslint-disable-next-line @typescript-eslint/explicit-function-return-type
@@ -57,6 +60,7 @@ describe('Collision Resolution Benchmark', () => {
       comTimes.push(durationCom);
 
       // Benchmark brute-force collision.
+      if (i % bruteForceStride !== 0) continue;
       const { s1: s1BF, s2: s2BF } = createSensors();
       const startBrute = performance.now();
       bruteForceCollision(s1BF, s2BF);
@@ -70,7 +74,7 @@ describe('Collision Resolution Benchmark', () => {
     const totalBruteTime = bruteTimes.reduce((a, b) => a + b, 0);
     const avgImpulse = totalImpulseTime / iterations;
     const avgCOM = totalCOMTime / iterations;
-    const avgBrute = totalBruteTime / iterations;
+    const avgBrute = totalBruteTime / bruteTimes.length;
 
     // eslint-disable-next-line no-console
     console.log(
@@ -86,9 +90,11 @@ describe('Collision Resolution Benchmark', () => {
     );
     // eslint-disable-next-line no-console
     console.log(
-      `Brute-force collision resolution >> events: ${iterations}, time: ${totalBruteTime.toFixed(
+      `Brute-force collision resolution >> events: ${
+        bruteTimes.length
+      }, time: ${totalBruteTime.toFixed(6)} ms, average: ${avgBrute.toFixed(
         6
-      )} ms, average: ${avgBrute.toFixed(6)} ms`
+      )} ms`
     );
 
     // Assert that the COM-based method performs within a comparable factor of the impulse-based method.
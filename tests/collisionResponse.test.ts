@@ -0,0 +1,175 @@
+/// <reference types="jest" />
+
+import { expect } from '@jest/globals';
+import {
+  angularVelocity,
+  kineticEnergy,
+  momentOfInertia,
+  resolveCollision,
+} from '../src/utils/collisionResponse';
+import { Sensor } from '../src/sensors/Sensor';
+import { Vector3 } from '../src/core/Vector3';
+import { Constants } from '../src/core/Constants';
+import { Logger } from '../src/core/Logger';
+import { SimulationEngine } from '../src/SimulationEngine';
+
+describe('resolveCollision', () => {
+  const normal = new Vector3(1, 0, 0);
+
+  // Two touching sensors of radius 0.5 on the x axis.
+  const createPair = (
+    v1: Vector3,
+    v2: Vector3,
+    mass2 = 1
+  ): [Sensor, Sensor] => {
+    const sensor1 = new Sensor('S1', new Vector3(-0.5, 0, 0), v1, 1);
+    const sensor2 = new Sensor('S2', new Vector3(0.5, 0, 0), v2, mass2);
+    sensor1.radius = 0.5;
+    sensor2.radius = 0.5;
+    return [sensor1, sensor2];
+  };
+
+  const momentum = (sensors: Sensor[]): Vector3 =>
+    sensors.reduce(
+      (sum, s) => sum.add(s.velocity.multiplyScalar(s.mass)),
+      Vector3.zero()
+    );
+
+  // Angular momentum about the origin: orbital plus spin.
+  const angularMomentum = (sensors: Sensor[]): Vector3 =>
+    sensors.reduce(
+      (sum, s) =>
+        sum
+          .add(s.position.cross(s.velocity.multiplyScalar(s.mass)))
+          .add(angularVelocity(s).multiplyScalar(momentOfInertia(s))),
+      Vector3.zero()
+    );
+
+  test('default materials give the perfectly elastic response', () => {
+    const [a, b] = createPair(new Vector3(1, 0, 0), new Vector3(-1, 0, 0), 3);
+    const response = resolveCollision(a, b, normal);
+    expect(a.velocity.x).toBeCloseTo(-2, 12);
+    expect(b.velocity.x).toBeCloseTo(0, 12);
+    expect(response.postEnergy).toBeCloseTo(response.preEnergy, 12);
+    expect(response.dissipated).toEqual(0);
+    expect(response.tangentialImpulse).toEqual(0);
+    expect(a.temperature).toEqual(0);
+    expect(a.spin).toEqual(0);
+  });
+
+  test('restitution scales the normal separation speed and heats both sensors', () => {
+    const [a, b] = createPair(new Vector3(1, 0, 0), new Vector3(-1, 0, 0));
+    a.restitution = 0.5;
+    b.restitution = 0.8; // The smaller coefficient applies.
+    const before = momentum([a, b]);
+    const response = resolveCollision(a, b, normal);
+
+    expect(b.velocity.x - a.velocity.x).toBeCloseTo(1, 12);
+    expect(momentum([a, b]).x).toBeCloseTo(before.x, 12);
+    // Lost energy: ½·μ·(1 − e²)·u² with reduced mass μ = ½ and u = 2.
+    expect(response.dissipated).toBeCloseTo(0.75, 12);
+    expect(response.preEnergy - response.postEnergy).toBeCloseTo(0.75, 12);
+    const rise = 0.75 / (Constants.DEFAULT_SPECIFIC_HEAT * 2);
+    expect(a.temperature).toBeCloseTo(rise, 15);
+    expect(b.temperature).toBeCloseTo(rise, 15);
+  });
+
+  test('friction converts sliding into spin and conserves angular momentum', () => {
+    // A glancing contact: approaching along x while sliding along y.
+    const [a, b] = createPair(new Vector3(1, 1, 0), new Vector3(-1, 0, 0));
+    a.friction = 0.05;
+    b.friction = 0.05;
+    const linear = momentum([a, b]);
+    const angular = angularMomentum([a, b]);
+    const response = resolveCollision(a, b, normal);
+
+    // Sliding does not stop within the friction limit: Jₜ = μ·Jₙ.
+    expect(response.normalImpulse).toBeCloseTo(2, 12);
+    expect(response.tangentialImpulse).toBeCloseTo(0.1, 12);
+    expect(a.velocity.y).toBeCloseTo(0.9, 12);
+    expect(b.velocity.y).toBeCloseTo(0.1, 12);
+    expect(a.spin).toBeGreaterThan(0);
+    expect(b.spin).toBeCloseTo(a.spin, 12);
+    expect(Math.abs(a.rotationAxis.z)).toBeCloseTo(1, 12);
+
+    const after = momentum([a, b]).subtract(linear).magnitude();
+    expect(after).toBeLessThan(1e-12);
+    const spinBalance = angularMomentum([a, b]).subtract(angular).magnitude();
+    expect(spinBalance).toBeLessThan(1e-12);
+    expect(response.dissipated).toBeGreaterThan(0);
+    expect(kineticEnergy(a) + kineticEnergy(b)).toBeCloseTo(
+      response.postEnergy,
+      12
+    );
+  });
+
+  test('high friction stops sliding at the contact point', () => {
+    const [a, b] = createPair(new Vector3(1, 1, 0), new Vector3(-1, 0, 0));
+    a.friction = 10;
+    b.friction = 10;
+    const response = resolveCollision(a, b, normal);
+    // Jₜ = |uₜ| / (3.5·(1/m₁ + 1/m₂)) = 1 / 7.
+    expect(response.tangentialImpulse).toBeCloseTo(1 / 7, 12);
+    const contact1 = a.velocity.add(
+      angularVelocity(a).cross(normal.multiplyScalar(0.5))
+    );
+    const contact2 = b.velocity.add(
+      angularVelocity(b).cross(normal.multiplyScalar(-0.5))
+    );
+    expect(contact1.y - contact2.y).toBeCloseTo(0, 12);
+  });
+
+  test('the engine records energy lost in a collision as an energyTransfer event', () => {
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+    jest.spyOn(Logger, 'debug').mockImplementation(() => {});
+    Logger.clearRunLog();
+    // Overlapping, approaching sensors that trigger the engine's collision response.
+    const [a, b] = createPair(new Vector3(1, 0, 0), new Vector3(-1, 0, 0));
+    a.position = new Vector3(-0.1, 0, 0);
+    b.position = new Vector3(0.1, 0, 0);
+    a.restitution = 0;
+    const engine = new SimulationEngine([a, b], [], 0.01);
+    engine.step();
+
+    const transfer = Logger.runLog.find(e => e.event === 'energyTransfer');
+    expect(transfer).toBeDefined();
+    expect(transfer?.sensors).toEqual([a, b]);
+    const lost =
+      (transfer?.preEnergy as number) - (transfer?.postEnergy as number);
+    expect(lost).toBeGreaterThan(0);
+    expect(a.temperature).toBeCloseTo(
+      lost / (Constants.DEFAULT_SPECIFIC_HEAT * 2),
+      12
+    );
+    Logger.clearRunLog();
+    jest.restoreAllMocks();
+  });
+
+  test.each([
+    ['approaching', 1, -1],
+    ['separating', -1, -1],
+  ])(
+    'the engine responds to %s overlapping sensors only when they approach',
+    (_, velocity, expected) => {
+      // eslint-disable-next-line @typescript-eslint/no-empty-function
+      jest.spyOn(Logger, 'debug').mockImplementation(() => {});
+      Logger.clearRunLog();
+      const [a, b] = createPair(
+        new Vector3(velocity, 0, 0),
+        new Vector3(-velocity, 0, 0)
+      );
+      a.position = new Vector3(-0.1, 0, 0);
+      b.position = new Vector3(0.1, 0, 0);
+      const engine = new SimulationEngine([a, b], [], 0.001);
+      engine.step();
+
+      expect(a.velocity.x).toBeCloseTo(expected, 12);
+      expect(b.velocity.x).toBeCloseTo(-expected, 12);
+      expect(Logger.runLog.filter(e => e.event === 'collision')).toHaveLength(
+        velocity > 0 ? 1 : 0
+      );
+      Logger.clearRunLog();
+      jest.restoreAllMocks();
+    }
+  );
+});
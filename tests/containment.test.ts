@@ -0,0 +1,201 @@
+/// <reference types="jest" />
+
+import { expect } from '@jest/globals';
+import {
+  confineSensor,
+  confineSphere,
+  reflectOffWall,
+} from '../src/utils/containment';
+import { Sensor } from '../src/sensors/Sensor';
+import { SensorSphere } from '../src/sensors/SensorSphere';
+import { Vector3 } from '../src/core/Vector3';
+import { Logger } from '../src/core/Logger';
+import { SimulationEngine } from '../src/SimulationEngine';
+
+describe('Containment', () => {
+  const outward = new Vector3(1, 0, 0);
+
+  beforeAll(() => {
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+    jest.spyOn(Logger, 'info').mockImplementation(() => {});
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+    jest.spyOn(Logger, 'debug').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('reflectOffWall reverses motion towards the wall relative to it', () => {
+    const still = Vector3.zero();
+    expect(reflectOffWall(new Vector3(2, 1, 0), outward, still)).toEqual(
+      new Vector3(-2, 1, 0)
+    );
+    expect(reflectOffWall(new Vector3(-2, 1, 0), outward, still)).toEqual(
+      new Vector3(-2, 1, 0)
+    );
+    // An advancing wall bats a resting body away at twice its speed...
+    expect(
+      reflectOffWall(Vector3.zero(), outward, new Vector3(-1, 0, 0))
+    ).toEqual(new Vector3(-2, 0, 0));
+    // ...and a receding wall does not touch a slower body.
+    const slower = new Vector3(1, 0, 0);
+    expect(reflectOffWall(slower, outward, new Vector3(2, 0, 0))).toBe(slower);
+  });
+
+  test('confineSensor moves an escaped sensor back and reflects it', () => {
+    const container = new SensorSphere('Box', new Vector3(), 5, 0);
+    const sensor = new Sensor('S', new Vector3(0, 6, 0), new Vector3(0, 1, 0));
+    expect(confineSensor(sensor, container)).toBe(true);
+    expect(sensor.position.y).toBeCloseTo(5, 12);
+    expect(sensor.velocity.y).toBeCloseTo(-1, 12);
+
+    sensor.position = new Vector3(0, 4, 0);
+    expect(confineSensor(sensor, container)).toBe(false);
+  });
+
+  test('confineSphere keeps the whole sphere and its sensors inside the parent', () => {
+    const parent = new SensorSphere('Parent', new Vector3(), 4, 0);
+    parent.velocity = new Vector3(-1, 0, 0);
+    const child = new SensorSphere('Child', new Vector3(3.5, 0, 0), 1, 2);
+    child.velocity = new Vector3(5, 0, 0);
+    const sensorX = child.sensors.map(sensor => sensor.position.x);
+
+    expect(confineSphere(child, parent)).toBe(true);
+    expect(child.center.x).toBeCloseTo(3, 12);
+    child.sensors.forEach((sensor, i) =>
+      expect(sensor.position.x).toBeCloseTo(sensorX[i] - 0.5, 12)
+    );
+    // Reflected relative to the parent's wall, which moves at -1 m/s.
+    expect(child.velocity.x).toBeCloseTo(-7, 12);
+    expect(confineSphere(child, parent)).toBe(false);
+
+    // A sphere larger than its container is centered in it.
+    const large = new SensorSphere('Large', new Vector3(1, 0, 0), 5, 0);
+    expect(confineSphere(large, parent)).toBe(true);
+    expect(large.center.x).toBeCloseTo(0, 12);
+  });
+
+  test('setParent builds a hierarchy without cycles', () => {
+    const outer = new SensorSphere('Outer', new Vector3(), 10, 0);
+    const middle = new SensorSphere('Middle', new Vector3(), 5, 0);
+    const inner = new SensorSphere('Inner', new Vector3(), 1, 0);
+    middle.setParent(outer);
+    inner.setParent(middle);
+
+    expect(inner.getDepth()).toEqual(2);
+    expect(outer.getDepth()).toEqual(0);
+    expect(inner.isInside(outer)).toBe(true);
+    expect(outer.isInside(inner)).toBe(false);
+    expect(() => outer.setParent(inner)).toThrow(
+      'A sensor sphere cannot contain itself.'
+    );
+    expect(() => inner.setParent(inner)).toThrow(
+      'A sensor sphere cannot contain itself.'
+    );
+    inner.setParent(null);
+    expect(inner.getDepth()).toEqual(0);
+  });
+
+  describe('SimulationEngine', () => {
+    // A root container holding a sphere, which holds another sphere.
+    const createHierarchy = (): {
+      engine: SimulationEngine;
+      middle: SensorSphere;
+      inner: SensorSphere;
+    } => {
+      const box = new SensorSphere('Box', new Vector3(), 10, 1);
+      const middle = new SensorSphere('Middle', new Vector3(), 4, 1);
+      const inner = new SensorSphere('Inner', new Vector3(2.9, 0, 0), 1, 1);
+      middle.setParent(box);
+      inner.setParent(middle);
+      middle.velocity = new Vector3(-1, 0, 0);
+      inner.velocity = new Vector3(5, 0, 0);
+      const spheres = [box, middle, inner];
+      const sensors = spheres.flatMap(sphere => sphere.sensors);
+      return {
+        engine: new SimulationEngine(sensors, spheres, 0.1),
+        middle,
+        inner,
+      };
+    };
+
+    test('sensors are contained by the innermost sphere holding them', () => {
+      const { engine, middle, inner } = createHierarchy();
+      const loose = new Sensor('Loose', new Vector3(8, 0, 0));
+      engine.addSensor(loose);
+      expect(engine.getContainer(inner.sensors[0])).toBe(inner);
+      expect(engine.getContainer(middle.sensors[0])).toBe(middle);
+      expect(engine.getContainer(loose)).toBe(engine.container);
+
+      // The inner sphere also holds the middle sphere's sensor; the inner one wins.
+      inner.sensors.push(middle.sensors[0]);
+      expect(engine.getContainer(middle.sensors[0])).toBe(inner);
+    });
+
+    test('sensors bounce inside their own sphere', () => {
+      const box = new SensorSphere('Box', new Vector3(), 10, 1);
+      const sphere = new SensorSphere('B', new Vector3(3, 0, 0), 1, 1);
+      const [sensor] = sphere.sensors;
+      sensor.position = new Vector3(3.5, 0, 0);
+      sensor.velocity = new Vector3(2, 0, 0);
+      const engine = new SimulationEngine(
+        [...box.sensors, sensor],
+        [box, sphere],
+        0.5
+      );
+      engine.step();
+      expect(sensor.position.distanceTo(sphere.center)).toBeLessThanOrEqual(
+        1 + 1e-9
+      );
+      expect(sensor.velocity.x).toBeCloseTo(-2, 12);
+    });
+
+    test('spheres bounce inside moving parents at any depth', () => {
+      const { engine, middle, inner } = createHierarchy();
+      engine.step();
+      // The inner sphere reached 3.4 against a limit of 3 around the middle sphere's
+      // new center, and is reflected off a wall moving at -1 m/s.
+      expect(inner.center.distanceTo(middle.center)).toBeCloseTo(3, 10);
+      expect(inner.velocity.x).toBeCloseTo(-7, 10);
+      expect(
+        inner.sensors[0].position.distanceTo(inner.center)
+      ).toBeLessThanOrEqual(1 + 1e-9);
+      expect(middle.velocity.x).toBeCloseTo(-1, 10);
+    });
+
+    test('a moving container wall pushes the sensors it hits', () => {
+      const box = new SensorSphere('Box', new Vector3(), 5, 1);
+      box.velocity = new Vector3(-1, 0, 0);
+      const sensor = new Sensor('S', new Vector3(4.95, 0, 0));
+      const engine = new SimulationEngine([sensor], [box], 0.1);
+      engine.step();
+      // The wall reaches the sensor halfway through the step and bats it to -2 m/s.
+      expect(sensor.velocity.x).toBeCloseTo(-2, 10);
+      expect(sensor.position.x).toBeCloseTo(4.85, 10);
+
+      const discrete = new SensorSphere('Box', new Vector3(), 5, 1);
+      discrete.velocity = new Vector3(-1, 0, 0);
+      const other = new Sensor('S', new Vector3(4.95, 0, 0));
+      const engine2 = new SimulationEngine([other], [discrete], 0.1);
+      engine2.continuousCollisionDetection = false;
+      engine2.step();
+      expect(other.velocity.x).toBeCloseTo(-2, 10);
+      expect(other.position.x).toBeCloseTo(4.9, 10);
+    });
+
+    test('the hierarchy survives a snapshot round trip', () => {
+      const { engine } = createHierarchy();
+      const restored = SimulationEngine.fromSnapshot(
+        JSON.stringify(engine.saveSnapshot())
+      );
+      const innerSensor = restored
+        .getSensors()
+        .find(sensor => sensor.id === 'Inner_sensor_1') as Sensor;
+      const container = restored.getContainer(innerSensor) as SensorSphere;
+      expect(container.id).toEqual('Inner');
+      expect(container.getDepth()).toEqual(2);
+      expect(container.parent?.parent).toBe(restored.container);
+    });
+  });
+});
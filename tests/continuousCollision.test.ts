@@ -0,0 +1,152 @@
+/// <reference types="jest" />
+
+import { expect } from '@jest/globals';
+import {
+  boundaryTimeOfImpact,
+  sweptSphereTimeOfImpact,
+} from '../src/utils/continuousCollision';
+import { SimulationEngine } from '../src/SimulationEngine';
+import { Sensor } from '../src/sensors/Sensor';
+import { SensorSphere } from '../src/sensors/SensorSphere';
+import { Vector3 } from '../src/core/Vector3';
+import { Logger } from '../src/core/Logger';
+
+describe('Continuous collision detection', () => {
+  beforeAll(() => {
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+    jest.spyOn(Logger, 'debug').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    Logger.clearRunLog();
+    jest.restoreAllMocks();
+  });
+
+  test('sweptSphereTimeOfImpact finds the first touch of approaching spheres', () => {
+    // Gap of 2 closed at 4 per step, contact when 0.4 apart: s = 1.6 / 4.
+    expect(
+      sweptSphereTimeOfImpact(new Vector3(2, 0, 0), new Vector3(-4, 0, 0), 0.4)
+    ).toBeCloseTo(0.4, 12);
+    // Too slow to reach each other, moving apart, or already overlapping.
+    expect(
+      sweptSphereTimeOfImpact(new Vector3(2, 0, 0), new Vector3(-1, 0, 0), 0.4)
+    ).toBeNull();
+    expect(
+      sweptSphereTimeOfImpact(new Vector3(2, 0, 0), new Vector3(4, 0, 0), 0.4)
+    ).toBeNull();
+    expect(
+      sweptSphereTimeOfImpact(
+        new Vector3(0.2, 0, 0),
+        new Vector3(-4, 0, 0),
+        0.4
+      )
+    ).toBeNull();
+    // A glancing pass that misses.
+    expect(
+      sweptSphereTimeOfImpact(new Vector3(2, 1, 0), new Vector3(-4, 0, 0), 0.4)
+    ).toBeNull();
+  });
+
+  test('boundaryTimeOfImpact finds where a point leaves a sphere', () => {
+    expect(
+      boundaryTimeOfImpact(
+        new Vector3(4.5, 0, 0),
+        new Vector3(2, 0, 0),
+        Vector3.zero(),
+        5
+      )
+    ).toBeCloseTo(0.25, 12);
+    expect(
+      boundaryTimeOfImpact(
+        new Vector3(4.5, 0, 0),
+        new Vector3(0.2, 0, 0),
+        Vector3.zero(),
+        5
+      )
+    ).toBeNull();
+    expect(
+      boundaryTimeOfImpact(
+        new Vector3(6, 0, 0),
+        new Vector3(1, 0, 0),
+        Vector3.zero(),
+        5
+      )
+    ).toBeNull();
+  });
+
+  // Two sensors of radius 0.2 approaching at 20 m/s with a 1.6 m gap.
+  const createFastPair = (): Sensor[] => [
+    new Sensor('A', new Vector3(-1, 0, 0), new Vector3(10, 0, 0)),
+    new Sensor('B', new Vector3(1, 0, 0), new Vector3(-10, 0, 0)),
+  ];
+
+  test('fast sensors tunnel through each other at a large deltaTime without CCD', () => {
+    const [a, b] = createFastPair();
+    const engine = new SimulationEngine([a, b], [], 0.2);
+    engine.continuousCollisionDetection = false;
+    engine.step();
+    expect(a.position.x).toBeCloseTo(1, 12);
+    expect(b.position.x).toBeCloseTo(-1, 12);
+  });
+
+  test('CCD bounces fast sensors at the time of impact', () => {
+    Logger.clearRunLog();
+    const [a, b] = createFastPair();
+    const engine = new SimulationEngine([a, b], [], 0.2);
+    engine.step();
+    // Contact after 0.08 s at x = ∓0.2, then 0.12 s back at 10 m/s.
+    expect(a.position.x).toBeCloseTo(-1.4, 12);
+    expect(b.position.x).toBeCloseTo(1.4, 12);
+    expect(a.velocity.x).toBeCloseTo(-10, 12);
+    expect(b.velocity.x).toBeCloseTo(10, 12);
+    expect(Logger.runLog.filter(e => e.event === 'collision')).toHaveLength(1);
+
+    engine.step(10);
+    expect(a.position.x).toBeLessThan(b.position.x);
+  });
+
+  test('CCD reflects fast sensors off the container at the crossing point', () => {
+    const sensor = new Sensor(
+      'S',
+      new Vector3(4.5, 0, 0),
+      new Vector3(10, 0, 0)
+    );
+    const container = new SensorSphere('Box', Vector3.zero(), 5, 0);
+    const engine = new SimulationEngine([sensor], [container], 0.2);
+    engine.step();
+    // Crosses x = 5 after 0.05 s and travels back for 0.15 s.
+    expect(sensor.position.x).toBeCloseTo(3.5, 12);
+    expect(sensor.velocity.x).toBeCloseTo(-10, 12);
+
+    // A sensor crossing the whole container in one step stays inside.
+    const bullet = new Sensor(
+      'B',
+      new Vector3(-4, 0, 0),
+      new Vector3(100, 0, 0)
+    );
+    const box = new SensorSphere('Box', Vector3.zero(), 5, 0);
+    const fast = new SimulationEngine([bullet], [box], 0.2);
+    fast.step(5);
+    expect(bullet.position.magnitude()).toBeLessThanOrEqual(5 + 1e-9);
+  });
+
+  test('positional correction separates overlapping sensors by mass ratio', () => {
+    const light = new Sensor('L', new Vector3(0, 0, 0), Vector3.zero(), 1);
+    const heavy = new Sensor('H', new Vector3(0.3, 0, 0), Vector3.zero(), 3);
+    const engine = new SimulationEngine([light, heavy], [], 0.01);
+    engine.step();
+    // Overlap 0.1: the light sensor takes three quarters of the correction.
+    expect(light.position.x).toBeCloseTo(-0.075, 12);
+    expect(heavy.position.x).toBeCloseTo(0.325, 12);
+    expect(light.position.distanceTo(heavy.position)).toBeCloseTo(0.4, 12);
+  });
+
+  test('positionCorrection 0 leaves overlapping sensors stuck together', () => {
+    const a = new Sensor('A', new Vector3(0, 0, 0), Vector3.zero());
+    const b = new Sensor('B', new Vector3(0.3, 0, 0), Vector3.zero());
+    const engine = new SimulationEngine([a, b], [], 0.01);
+    engine.positionCorrection = 0;
+    engine.step(10);
+    expect(a.position.distanceTo(b.position)).toBeCloseTo(0.3, 12);
+  });
+});
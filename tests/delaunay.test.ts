@@ -0,0 +1,110 @@
+/// <reference types="jest" />
+
+import { expect } from '@jest/globals';
+import { delaunayEdges } from '../src/utils/delaunay';
+import { solveLinearSystem } from '../src/utils/linearAlgebra';
+import { Vector3 } from '../src/core/Vector3';
+import { Random } from '../src/core/Random';
+
+describe('delaunayEdges', () => {
+  const randomPoints = (count: number, flat: boolean): Vector3[] => {
+    const random = new Random(7);
+    return Array.from(
+      { length: count },
+      () => new Vector3(random.next(), random.next(), flat ? 0 : random.next())
+    );
+  };
+
+  // The edges of every simplex whose circumsphere holds no other point: the Delaunay
+  // edges of points in general position, by brute force.
+  const bruteForce = (points: Vector3[], size: number): string[] => {
+    const coordinates = points.map(point => point.toArray().slice(0, size - 1));
+    const edges = new Set<string>();
+    const visit = (simplex: number[], next: number): void => {
+      if (simplex.length === size) {
+        const origin = coordinates[simplex[0]];
+        const rows = simplex
+          .slice(1)
+          .map(i => coordinates[i].map((x, d) => x - origin[d]));
+        const center = solveLinearSystem(
+          rows.map(row => row.map(x => 2 * x)),
+          rows.map(row => row.reduce((sum, x) => sum + x * x, 0))
+        );
+        if (!center) return;
+        const radius = center.reduce((sum, x) => sum + x * x, 0);
+        const empty = coordinates.every(
+          (point, i) =>
+            simplex.includes(i) ||
+            point.reduce(
+              (sum, x, d) => sum + (x - origin[d] - center[d]) ** 2,
+              0
+            ) > radius
+        );
+        if (empty) {
+          simplex.forEach((a, i) =>
+            simplex.slice(i + 1).forEach(b => edges.add(`${a},${b}`))
+          );
+        }
+        return;
+      }
+      for (let i = next; i < points.length; i++) visit([...simplex, i], i + 1);
+    };
+    visit([], 0);
+    return [...edges].sort();
+  };
+
+  const keys = (edges: [number, number][]): string[] =>
+    edges.map(([a, b]) => `${a},${b}`).sort();
+
+  test('matches the brute-force triangulation of points in a plane', () => {
+    const points = randomPoints(30, true);
+    expect(keys(delaunayEdges(points))).toEqual(bruteForce(points, 3));
+  });
+
+  test('matches the brute-force tetrahedralization of points in space', () => {
+    const points = randomPoints(18, false);
+    expect(keys(delaunayEdges(points))).toEqual(bruteForce(points, 4));
+  });
+
+  test('triangulates a plane at any orientation', () => {
+    const points = randomPoints(20, true);
+    // Tilt the plane and move it away from the origin.
+    const tilted = points.map(
+      point =>
+        new Vector3(
+          point.x + 10,
+          point.y * Math.SQRT1_2 + 5,
+          point.y * Math.SQRT1_2 - 2
+        )
+    );
+    expect(delaunayEdges(tilted)).toEqual(delaunayEdges(points));
+  });
+
+  test('links a line in order and handles tiny sets', () => {
+    const line = [3, 0, 2, 1].map(t => new Vector3(t, 2 * t, -t));
+    expect(delaunayEdges(line)).toEqual([
+      [0, 2],
+      [1, 3],
+      [2, 3],
+    ]);
+    expect(delaunayEdges([])).toEqual([]);
+    expect(delaunayEdges([new Vector3(1, 1, 1)])).toEqual([]);
+    expect(delaunayEdges([new Vector3(), new Vector3()])).toEqual([]);
+  });
+
+  test('picks one triangulation of a lattice and keeps its cube edges', () => {
+    const points: Vector3[] = [];
+    for (let x = 0; x < 3; x++) {
+      for (let y = 0; y < 3; y++) {
+        for (let z = 0; z < 3; z++) points.push(new Vector3(x, y, z));
+      }
+    }
+    const edges = delaunayEdges(points);
+    expect(delaunayEdges(points)).toEqual(edges);
+    const lengths = edges.map(([a, b]) => points[a].distanceTo(points[b]));
+    expect(lengths.filter(length => length === 1)).toHaveLength(54);
+    lengths.forEach(length =>
+      expect(length).toBeLessThanOrEqual(Math.sqrt(3) + 1e-9)
+    );
+  });
+});
@@ -0,0 +1,42 @@
+/// <reference types="jest" />
+
+import { expect } from '@jest/globals';
+import { RingBuffer } from '../src/utils/ringBuffer';
+
+describe('RingBuffer', () => {
+  test('keeps the newest items and evicts the oldest when full', () => {
+    const buffer = new RingBuffer<number>(3);
+    expect(buffer.push(1)).toBeUndefined();
+    buffer.push(2);
+    buffer.push(3);
+    expect(buffer.push(4)).toEqual(1);
+    expect(buffer.toArray()).toEqual([2, 3, 4]);
+    expect(buffer.oldest()).toEqual(2);
+    expect(buffer.peek()).toEqual(4);
+    expect(buffer.size).toEqual(3);
+  });
+
+  test('pop removes items newest first and clear empties the buffer', () => {
+    const buffer = new RingBuffer<string>(2);
+    buffer.push('a');
+    buffer.push('b');
+    buffer.push('c');
+    expect(buffer.pop()).toEqual('c');
+    buffer.push('d');
+    expect(buffer.toArray()).toEqual(['b', 'd']);
+    buffer.clear();
+    expect(buffer.size).toEqual(0);
+    expect(buffer.pop()).toBeUndefined();
+    expect(buffer.peek()).toBeUndefined();
+    expect(buffer.oldest()).toBeUndefined();
+  });
+
+  test('rejects invalid capacities', () => {
+    expect(() => new RingBuffer(0)).toThrow(
+      'Ring buffer capacity must be a positive integer.'
+    );
+    expect(() => new RingBuffer(2.5)).toThrow(
+      'Ring buffer capacity must be a positive integer.'
+    );
+  });
+});
@@ -2,7 +2,7 @@
 
 import { Sensor } from '../src/sensors/Sensor';
 import { Vector3 } from '../src/core/Vector3';
-import { Logger } from '../src/core/Logger';
+import { Logger, LogLevel } from '../src/core/Logger';
 import { RunEvent } from '../src/utils/runLogTypes';
 
 describe('Run Log Recording', () => {
@@ -65,4 +65,30 @@ describe('Run Log Recording', () => {
       Logger.runLog.some((e: RunEvent) => e.event === 'collision')
     ).toEqual(true);
   });
+
+  test('the debug echo names sensors by id, so neighbor cycles do not break it', () => {
+    const sensor1 = new Sensor('S1');
+    const sensor2 = new Sensor('S2');
+    sensor1.neighbors = [sensor2];
+    sensor2.neighbors = [sensor1];
+    const debug = jest
+      .spyOn(console, 'debug')
+      // eslint-disable-next-line @typescript-eslint/no-empty-function
+      .mockImplementation(() => {});
+    Logger.configure({ level: LogLevel.DEBUG });
+    try {
+      Logger.recordEvent({
+        timestamp: 0,
+        event: 'collision',
+        sensors: [sensor1, sensor2],
+      });
+    } finally {
+      Logger.configure({ level: LogLevel.INFO });
+    }
+    expect(debug).toHaveBeenCalledWith(
+      'RunEvent Recorded: {"timestamp":0,"event":"collision","sensors":["S1","S2"]}'
+    );
+    debug.mockRestore();
+    expect(Logger.runLog[0].sensors).toEqual([sensor1, sensor2]);
+  });
 });
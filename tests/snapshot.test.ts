@@ -0,0 +1,340 @@
+/// <reference types="jest" />
+
+import { expect } from '@jest/globals';
+import { SimulationEngine } from '../src/SimulationEngine';
+import { Sensor } from '../src/sensors/Sensor';
+import { SensorSphere } from '../src/sensors/SensorSphere';
+import { SensorState } from '../src/sensors/SensorState';
+import { Vector3 } from '../src/core/Vector3';
+import { Random } from '../src/core/Random';
+import { Logger } from '../src/core/Logger';
+import { IntegratorType, createIntegrator } from '../src/core/Integrator';
+import { AdaptiveStepper, StepControl } from '../src/core/AdaptiveStepper';
+import { BroadphaseType } from '../src/utils/broadphase';
+import { CollisionStrategy } from '../src/utils/collisionAlternatives';
+import {
+  BoundaryType,
+  CylinderBoundary,
+  WallBehavior,
+} from '../src/utils/boundaries';
+import { FaultInjector, FaultType } from '../src/sensors/FaultInjector';
+import { NeighborGraph, NeighborGraphType } from '../src/sensors/NeighborGraph';
+import {
+  CommunicationNetwork,
+  RoutingType,
+} from '../src/sensors/CommunicationNetwork';
+import { SNAPSHOT_VERSION, validateSnapshot } from '../src/utils/snapshot';
+
+describe('Simulation snapshots', () => {
+  beforeAll(() => {
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+    jest.spyOn(Logger, 'debug').mockImplementation(() => {});
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+    jest.spyOn(Logger, 'info').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  // An engine whose sensors use every field a snapshot has to carry.
+  const createEngine = (): SimulationEngine => {
+    const sphere = new SensorSphere(
+      'Container',
+      new Vector3(0, 0, 0),
+      6,
+      12,
+      SensorState.ACTIVE,
+      new Random(3)
+    );
+    const probe = new Sensor(
+      'Probe',
+      new Vector3(1, 2, 0.5),
+      new Vector3(0.3, -0.1, 0.2),
+      2,
+      1e-6,
+      SensorState.IDLE
+    );
+    probe.temperature = 300;
+    probe.vibrationAmplitude = new Vector3(0.01, 0, 0.02);
+    probe.vibrationFrequency = new Vector3(2, 0, 1);
+    probe.vibrationPhase = new Vector3(0.1, 0, 0.3);
+    probe.rotationSpeed = 0.5;
+    probe.wobbleAmplitude = 0.05;
+    probe.wobbleFrequency = 3;
+    probe.spin = 1.5;
+    probe.radius = 0.3;
+    probe.neighbors = [sphere.sensors[0], sphere.sensors[1]];
+    sphere.addSensor(probe);
+    const engine = new SimulationEngine(
+      sphere.sensors.slice(),
+      [sphere],
+      0.01,
+      createIntegrator(IntegratorType.VELOCITY_VERLET),
+      new Random(21)
+    );
+    engine.broadphase = BroadphaseType.UNIFORM_GRID;
+    engine.collisionStrategy = CollisionStrategy.PENALTY;
+    engine.contactStiffness = 2000;
+    engine.contactDamping = 5;
+    engine.positionCorrection = 0.5;
+    engine.continuousCollisionDetection = false;
+    engine.getSphereNetwork().restitution = 0.4;
+    engine.getSphereNetwork().accretion = true;
+    engine.boundary = new CylinderBoundary(
+      new Vector3(0, 0, 1),
+      8,
+      12,
+      WallBehavior.ABSORB
+    );
+    return engine;
+  };
+
+  const run = (engine: SimulationEngine, steps: number): void => {
+    (engine as any).running = true;
+    for (let i = 0; i < steps; i++) engine.update();
+    (engine as any).running = false;
+  };
+
+  test('saveSnapshot and fromSnapshot round-trip losslessly through JSON', () => {
+    const engine = createEngine();
+    run(engine, 5);
+    engine.randomize();
+    engine.adaptiveStepper = new AdaptiveStepper({
+      control: StepControl.CFL,
+      courant: 0.2,
+      maxStep: 0.05,
+    });
+    engine.faultInjector = new FaultInjector(
+      [
+        { type: FaultType.MALFUNCTION, target: 'Probe', rate: 2 },
+        { type: FaultType.KILL_SPHERE, target: 'Container', time: 3 },
+      ],
+      new Random(5)
+    );
+    engine.neighborGraph = new NeighborGraph({
+      type: NeighborGraphType.KNN,
+      k: 3,
+      interval: 4,
+    });
+    engine.communication = new CommunicationNetwork(
+      { routing: RoutingType.GREEDY, bandwidth: 1000, sinks: ['Probe'] },
+      new Random(6)
+    );
+    const json = JSON.stringify(engine.saveSnapshot());
+    const restored = SimulationEngine.fromSnapshot(json);
+    expect(JSON.stringify(restored.saveSnapshot())).toEqual(json);
+    expect(restored.integrator.type).toEqual(IntegratorType.VELOCITY_VERLET);
+    expect(restored.broadphase).toEqual(BroadphaseType.UNIFORM_GRID);
+    expect(restored.collisionStrategy).toEqual(CollisionStrategy.PENALTY);
+    expect(restored.contactStiffness).toEqual(2000);
+    expect(restored.contactDamping).toEqual(5);
+    expect(restored.positionCorrection).toEqual(0.5);
+    expect(restored.continuousCollisionDetection).toBe(false);
+    expect(restored.getSphereNetwork().restitution).toEqual(0.4);
+    expect(restored.getSphereNetwork().accretion).toBe(true);
+    expect(restored.boundary).toEqual(engine.boundary);
+    expect(restored.adaptiveStepper?.control).toEqual(StepControl.CFL);
+    expect(restored.adaptiveStepper?.courant).toEqual(0.2);
+    expect(restored.faultInjector?.faults).toEqual(engine.faultInjector.faults);
+    expect(restored.neighborGraph?.options).toEqual(
+      engine.neighborGraph.options
+    );
+    expect(restored.communication?.options).toEqual(
+      engine.communication.options
+    );
+    expect(restored.random.seed).toEqual(21);
+    expect(JSON.parse(json).version).toEqual(SNAPSHOT_VERSION);
+  });
+
+  test('a restored engine continues exactly like the original', () => {
+    const engine = createEngine();
+    run(engine, 5);
+    const restored = SimulationEngine.fromSnapshot(engine.saveSnapshot());
+    run(engine, 10);
+    run(restored, 10);
+    engine.randomize();
+    restored.randomize();
+    expect(restored.saveSnapshot()).toEqual(engine.saveSnapshot());
+  });
+
+  test('shared sensors and neighbor links keep their identity', () => {
+    const restored = SimulationEngine.fromSnapshot(
+      createEngine().saveSnapshot()
+    );
+    const sensors = restored.getSensors();
+    const sphere = restored.container as SensorSphere;
+    const probe = sensors.find(s => s.id === 'Probe') as Sensor;
+    expect(sphere.sensors).toContain(probe);
+    expect(probe.neighbors[0]).toBe(sphere.sensors[0]);
+    expect(restored.getSphereNetwork().getSpheres()).toEqual([sphere]);
+  });
+
+  test('reset copies sphere sensors instead of regenerating them', () => {
+    const engine = createEngine();
+    engine.resetAndRestart = false;
+    const initial = engine.saveSnapshot();
+    run(engine, 10);
+    const sphere = engine.container as SensorSphere;
+    sphere.sensors[0].temperature = 500;
+    engine.reset();
+    expect(engine.saveSnapshot()).toEqual(initial);
+  });
+
+  test('reset returns a loaded engine to the loaded state', () => {
+    const engine = createEngine();
+    engine.resetAndRestart = false;
+    run(engine, 5);
+    const checkpoint = engine.saveSnapshot();
+    const restored = SimulationEngine.fromSnapshot(checkpoint);
+    run(restored, 5);
+    restored.reset();
+    expect(restored.globalTime).toEqual(checkpoint.time.globalTime);
+    expect(restored.saveSnapshot()).toEqual(checkpoint);
+  });
+
+  test('validateSnapshot rejects malformed snapshots', () => {
+    const snapshot = createEngine().saveSnapshot();
+    const mutate = (change: (data: any) => void): unknown => {
+      const data = JSON.parse(JSON.stringify(snapshot));
+      change(data);
+      return data;
+    };
+
+    expect(validateSnapshot(mutate(() => undefined))).toEqual(snapshot);
+    expect(() => validateSnapshot(null)).toThrow(
+      'Invalid snapshot: snapshot must be an object.'
+    );
+    expect(() => validateSnapshot(mutate(d => (d.version = 99)))).toThrow(
+      'Unsupported snapshot version: 99 (expected 16).'
+    );
+    expect(() =>
+      validateSnapshot(mutate(d => (d.sensors[2].position = [0, 0])))
+    ).toThrow(
+      'Invalid snapshot: sensors[2].position must be an [x, y, z] array.'
+    );
+    expect(() =>
+      validateSnapshot(mutate(d => (d.sensors[0].state = 'asleep')))
+    ).toThrow('Invalid snapshot: sensors[0].state must be one of');
+    expect(() =>
+      validateSnapshot(mutate(d => (d.spheres[0].sensors = [999])))
+    ).toThrow(
+      `Invalid snapshot: spheres[0].sensors[0] must be an index below ${snapshot.sensors.length}.`
+    );
+    expect(() =>
+      validateSnapshot(mutate(d => (d.engine.container = 4)))
+    ).toThrow('Invalid snapshot: engine.container must be an index below 1.');
+    expect(() =>
+      validateSnapshot(
+        mutate(d => {
+          d.spheres.push({ ...d.spheres[0], id: 'Outer', parent: 0 });
+          d.spheres[0].parent = 1;
+        })
+      )
+    ).toThrow(
+      'Invalid snapshot: spheres[0].parent must be a chain of containers without cycles.'
+    );
+    expect(() =>
+      validateSnapshot(mutate(d => (d.spheres[0].parent = 0)))
+    ).toThrow(
+      'Invalid snapshot: spheres[0].parent must be a chain of containers without cycles.'
+    );
+    expect(() =>
+      validateSnapshot(
+        mutate(
+          d =>
+            (d.engine.boundary = {
+              type: BoundaryType.PERIODIC,
+              min: [0, 0, 0],
+              max: [1, 0, 1],
+            })
+        )
+      )
+    ).toThrow(
+      'Invalid snapshot: engine.boundary.max must be above min on every axis.'
+    );
+    expect(() =>
+      validateSnapshot(
+        mutate(
+          d =>
+            (d.engine.faultInjector = [
+              { spec: { type: 'melt', target: 'Probe', time: 1 }, time: 1 },
+            ])
+        )
+      )
+    ).toThrow(
+      'Invalid snapshot: engine.faultInjector[0].spec.type must be one of'
+    );
+    expect(() =>
+      validateSnapshot(mutate(d => (d.engine.contactStiffness = 0)))
+    ).toThrow(
+      'Invalid snapshot: engine.contactStiffness must be greater than zero.'
+    );
+    expect(() =>
+      validateSnapshot(
+        mutate(
+          d =>
+            (d.lattices = [
+              { id: 'L', options: { type: 'square', spacing: 1 }, sensors: [] },
+            ])
+        )
+      )
+    ).toThrow('Invalid snapshot: lattices[0].options.type must be one of');
+    expect(() =>
+      validateSnapshot(
+        mutate(d => {
+          d.engine.communication = { routing: 'flooding', sinks: [] };
+          d.communication = {
+            random: d.engine.random,
+            nextMessageId: 2,
+            inFlight: [],
+            busyUntil: [],
+            seen: [['A', [1]]],
+            inboxes: [['B', [{ message: {}, receiver: 'B', time: 0 }]]],
+            stats: {},
+          };
+        })
+      )
+    ).toThrow(
+      'Invalid snapshot: communication.inboxes[0][1][0].message.id must be a finite number.'
+    );
+    expect(() =>
+      validateSnapshot(
+        mutate(
+          d => (d.engine.communication = { routing: 'carrier', sinks: [] })
+        )
+      )
+    ).toThrow('Invalid snapshot: engine.communication.routing must be one of');
+    expect(() => validateSnapshot(mutate(d => (d.time.deltaTime = 0)))).toThrow(
+      'Invalid snapshot: time.deltaTime must be greater than zero.'
+    );
+    expect(() =>
+      validateSnapshot(mutate(d => (d.engine.random.state = [0, 0, 0, 0])))
+    ).toThrow(
+      'Invalid snapshot: engine.random.state must be four integers, not all zero.'
+    );
+    expect(() =>
+      SimulationEngine.fromSnapshot(
+        JSON.stringify(mutate(d => (d.engine.integrator = 'magic')))
+      )
+    ).toThrow('Invalid snapshot: engine.integrator must be one of');
+    expect(() =>
+      validateSnapshot(
+        mutate(
+          d =>
+            (d.engine.adaptiveStepper = {
+              control: 'error',
+              tolerance: 1e-6,
+              courant: 0.5,
+              minStep: 1e-6,
+              maxStep: 0.1,
+              gravity: true,
+              integrator: 'velocity-verlet',
+            })
+        )
+      )
+    ).toThrow(
+      'Invalid snapshot: engine.adaptiveStepper.integrator must be an error-estimating integrator.'
+    );
+  });
+});
@@ -0,0 +1,245 @@
+/// <reference types="jest" />
+
+import { expect } from '@jest/globals';
+import { SimulationEngine } from '../src/SimulationEngine';
+import {
+  Integrator,
+  IntegratorType,
+  LeapfrogIntegrator,
+  ReversibleLeapfrogIntegrator,
+  createIntegrator,
+} from '../src/core/Integrator';
+import { GravitySimulator } from '../src/gravity/GravitySimulator';
+import {
+  CustomForceProvider,
+  DampingForceProvider,
+  GravityForceProvider,
+} from '../src/forces/ForceProviders';
+import { Sensor } from '../src/sensors/Sensor';
+import { SensorSphere } from '../src/sensors/SensorSphere';
+import { Vector3 } from '../src/core/Vector3';
+import { Random } from '../src/core/Random';
+import { Logger } from '../src/core/Logger';
+import { Constants } from '../src/core/Constants';
+
+describe('Time reversal', () => {
+  // Masses chosen so that G * m = 0.5.
+  const mass = 0.5 / Constants.GRAVITATIONAL_CONSTANT;
+
+  const createCluster = (): Sensor[] => [
+    new Sensor('A', new Vector3(-0.5, 0, 0), new Vector3(0, -0.375, 0), mass),
+    new Sensor('B', new Vector3(0.5, 0, 0), new Vector3(0, 0.375, 0), mass),
+    new Sensor('C', new Vector3(0, 2, 0.25), new Vector3(0.25, 0, 0), mass),
+  ];
+
+  const positions = (sensors: Sensor[]): number[][] =>
+    sensors.map(sensor => sensor.position.toArray());
+
+  const run = (engine: SimulationEngine, steps: number): void => {
+    (engine as any).running = true;
+    for (let i = 0; i < steps; i++) engine.update();
+    (engine as any).running = false;
+  };
+
+  beforeAll(() => {
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+    jest.spyOn(Logger, 'debug').mockImplementation(() => {});
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+    jest.spyOn(Logger, 'info').mockImplementation(() => {});
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+    jest.spyOn(console, 'debug').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    Logger.clearRunLog();
+    jest.restoreAllMocks();
+  });
+
+  test('the reversible leapfrog retraces an N-body run bit for bit', () => {
+    const retrace = (sensors: Sensor[], integrator: Integrator): Sensor[] => {
+      GravitySimulator.simulate(sensors, 0.01, 500, integrator);
+      sensors.forEach(s => (s.velocity = s.velocity.multiplyScalar(-1)));
+      GravitySimulator.simulate(sensors, 0.01, 500, integrator);
+      return sensors;
+    };
+
+    const initial = createCluster();
+    const reversed = retrace(
+      createCluster(),
+      new ReversibleLeapfrogIntegrator()
+    );
+    expect(positions(reversed)).toEqual(positions(initial));
+    // Velocities come back exactly negated, so each sum is exactly zero.
+    reversed.forEach((sensor, i) =>
+      expect(sensor.velocity.add(initial[i].velocity)).toEqual(new Vector3())
+    );
+
+    // Ordinary leapfrog is reversible only up to round-off.
+    const approximate = retrace(createCluster(), new LeapfrogIntegrator());
+    expect(positions(approximate)).not.toEqual(positions(initial));
+    expect(
+      approximate[0].position.distanceTo(initial[0].position)
+    ).toBeLessThan(1e-9);
+  });
+
+  test('ReversibleLeapfrogIntegrator validates its quantum', () => {
+    expect(() => new ReversibleLeapfrogIntegrator(0.3)).toThrow(
+      'Quantum must be a positive power of two.'
+    );
+    expect(
+      createIntegrator(IntegratorType.REVERSIBLE_LEAPFROG).reversible
+    ).toBe(true);
+  });
+
+  test('the engine rewinds force-driven sensors exactly without checkpoints', () => {
+    const sensors = createCluster();
+    const engine = new SimulationEngine(
+      sensors,
+      [],
+      0.01,
+      new ReversibleLeapfrogIntegrator()
+    );
+    engine.addForceProvider(new GravityForceProvider());
+
+    const forward = [positions(sensors)];
+    for (let i = 0; i < 40; i++) {
+      run(engine, 1);
+      forward.push(positions(sensors));
+    }
+    engine.toggleTimeReversal();
+    for (let i = 39; i >= 0; i--) {
+      run(engine, 1);
+      expect(positions(sensors)).toEqual(forward[i]);
+    }
+    // The original sensor objects were retraced, not restored from a checkpoint.
+    expect(engine.getSensors()[0]).toBe(sensors[0]);
+    expect(engine.globalTime).toBeCloseTo(0, 12);
+  });
+
+  test('damped steps are rewound through checkpoints, not by negating velocities', () => {
+    const sensor = new Sensor('S', new Vector3(), new Vector3(1, 0, 0));
+    const engine = new SimulationEngine(
+      [sensor],
+      [],
+      0.01,
+      new ReversibleLeapfrogIntegrator()
+    );
+    engine.addForceProvider(new DampingForceProvider(0.5));
+
+    const forward = [positions(engine.getSensors())];
+    for (let i = 0; i < 100; i++) {
+      run(engine, 1);
+      forward.push(positions(engine.getSensors()));
+    }
+    expect(forward[100][0][0]).toBeGreaterThan(0.5);
+    engine.toggleTimeReversal();
+    for (let i = 99; i >= 0; i--) {
+      run(engine, 1);
+      expect(positions(engine.getSensors())).toEqual(forward[i]);
+    }
+    engine.toggleTimeReversal();
+    expect(engine.getSensors()[0].velocity).toEqual(new Vector3(1, 0, 0));
+  });
+
+  test('time-dependent forces are retraced at the times they acted', () => {
+    const sensor = new Sensor('S');
+    const engine = new SimulationEngine(
+      [sensor],
+      [],
+      0.01,
+      new ReversibleLeapfrogIntegrator()
+    );
+    engine.addForceProvider(
+      new CustomForceProvider(
+        'Drive',
+        (_, time) => new Vector3(Math.sin(10 * time), 0, 0)
+      )
+    );
+
+    const forward = [positions([sensor])];
+    for (let i = 0; i < 100; i++) {
+      run(engine, 1);
+      forward.push(positions([sensor]));
+    }
+    engine.toggleTimeReversal();
+    for (let i = 99; i >= 0; i--) {
+      run(engine, 1);
+      expect(positions([sensor])).toEqual(forward[i]);
+    }
+    expect(sensor.position).toEqual(new Vector3());
+  });
+
+  test('collisions and container clamping are undone through checkpoints', () => {
+    const container = new SensorSphere(
+      'Box',
+      new Vector3(),
+      3,
+      20,
+      undefined,
+      new Random(4)
+    );
+    const engine = new SimulationEngine(
+      container.sensors.slice(),
+      [container],
+      0.05,
+      undefined,
+      new Random(8)
+    );
+    engine.randomize();
+    const start = engine.saveSnapshot();
+    const enginePositions = (): number[][] =>
+      engine.saveSnapshot().sensors.map(s => s.position);
+
+    const forward = [enginePositions()];
+    for (let i = 0; i < 35; i++) {
+      run(engine, 1);
+      forward.push(enginePositions());
+    }
+    const collisions = Logger.runLog.filter(e => e.event === 'collision');
+    expect(collisions.length).toBeGreaterThan(0);
+
+    engine.toggleTimeReversal();
+    for (let i = 34; i >= 0; i--) {
+      run(engine, 1);
+      expect(enginePositions()).toEqual(forward[i]);
+    }
+    engine.toggleTimeReversal();
+    expect(engine.saveSnapshot()).toEqual(start);
+
+    // Running forward again reproduces the original run.
+    run(engine, 35);
+    expect(enginePositions()).toEqual(forward[35]);
+  });
+
+  test('falls back to approximate reversal once the ring buffer is exhausted', () => {
+    const sensor = new Sensor('S', new Vector3(), new Vector3(1, 0, 0));
+    const engine = new SimulationEngine([sensor], [], 0.1);
+    engine.addForceProvider(
+      new CustomForceProvider('push', () => new Vector3(0, 1, 0))
+    );
+    engine.setHistoryCapacity(1);
+    engine.checkpointInterval = 5;
+
+    const forward: number[][][] = [];
+    for (let i = 0; i < 20; i++) {
+      forward.push(positions(engine.getSensors()));
+      run(engine, 1);
+    }
+
+    engine.toggleTimeReversal();
+    for (let i = 19; i >= 15; i--) {
+      run(engine, 1);
+      expect(positions(engine.getSensors())).toEqual(forward[i]);
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+    const warn = jest.spyOn(Logger, 'warn').mockImplementation(() => {});
+    const time = engine.globalTime;
+    run(engine, 1);
+    expect(warn).toHaveBeenCalledWith(
+      'Time-reversal history exhausted; continuing with approximate reversal.',
+      'SimulationEngine.stepBackward'
+    );
+    expect(engine.globalTime).toBeCloseTo(time - 0.1, 10);
+  });
+});